@@ -7,6 +7,7 @@
  */
 
 import { EXTRACT_MAX_TOKENS } from '../observer/observer.js'
+import { formatChunkLabel } from './chunker.js'
 import type { SourceChunk } from './chunker.js'
 import type { Message } from '../types.js'
 
@@ -100,12 +101,7 @@ export function batchChunks(
  * Observer LLM. Multiple chunks are concatenated with `---` separators.
  */
 export function batchToMessages(batch: SourceBatch): readonly Message[] {
-  const parts = batch.chunks.map((chunk) => {
-    const label = chunk.chunkIndex > 0
-      ? `${chunk.source} (part ${chunk.chunkIndex + 1})`
-      : chunk.source
-    return `[BOOTSTRAP SOURCE: ${label}]\n${chunk.text}`
-  })
+  const parts = batch.chunks.map((chunk) => `[BOOTSTRAP SOURCE: ${formatChunkLabel(chunk)}]\n${chunk.text}`)
 
   return [
     {
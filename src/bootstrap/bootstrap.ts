@@ -2,7 +2,7 @@
  * bootstrap.ts — Cold-start elimination for the OMG plugin.
  *
  * Ingests existing OpenClaw memory sources (workspace markdown, session logs,
- * memory-core SQLite) into OMG graph nodes using the Observer LLM pipeline.
+ * memory-core SQLite, configured source adapters) into OMG graph nodes using the Observer LLM pipeline.
  * Runs once at first `gateway_start` when the graph is empty, then writes a
  * state file (`.bootstrap-state.json`) to prevent re-ingestion. If the process
  * crashes mid-run, the state machine enables cursor-based resume on the next
@@ -13,14 +13,16 @@
  */
 
 import path from 'node:path'
+import { createHash } from 'node:crypto'
 import { readFileOrNull } from '../utils/fs.js'
 import { readGraphNode } from '../graph/node-reader.js'
 import { getNodeIndex, getRegistryEntries, getNodeFilePaths } from '../graph/registry.js'
 import { runObservation } from '../observer/observer.js'
 import { writeObservationNode, writeNowNode } from '../graph/node-writer.js'
-import { regenerateMoc, applyMocUpdate } from '../graph/moc-manager.js'
+import { regenerateMoc, applyMocUpdate, mocGroupOf } from '../graph/moc-manager.js'
 import { resolveOmgRoot, resolveMocPath } from '../utils/paths.js'
-import { readWorkspaceMemory, readOpenclawLogs, readSqliteChunks } from './sources.js'
+import { readWorkspaceMemory, readOpenclawLogs, readSqliteChunks, type SourceEntry } from './sources.js'
+import { readAdapterSources } from './source-adapters.js'
 import { chunkText } from './chunker.js'
 import { batchChunks, batchToMessages, computeBatchMaxTokens } from './batcher.js'
 import {
@@ -33,13 +35,14 @@ import {
   shouldBootstrap,
   computeCursor,
   createDebouncedFlush,
+  diffSourceHashes,
   type BootstrapState,
 } from './state.js'
 import { acquireLock, releaseLock, refreshLock } from './lock.js'
 import { RateLimitBreaker, MAX_RETRY_ATTEMPTS } from './rate-limit-breaker.js'
 import { RateLimitError, PipelineAbortedError, GatewayUnreachableError } from '../llm/errors.js'
 import type { OmgConfig } from '../config.js'
-import type { LlmClient } from '../llm/client.js'
+import { withUsageTag, type LlmClient, type LlmCallTag } from '../llm/client.js'
 import type { SourceChunk } from './chunker.js'
 import type { SourceBatch } from './batcher.js'
 import type { GraphNode, ObserverOutput } from '../types.js'
@@ -53,6 +56,10 @@ import {
   type FailureErrorType,
 } from './failure-log.js'
 import { computeBootstrapQuality, logQualityReport } from './quality-metrics.js'
+import { checkDailyTokenBudget } from '../llm/usage-ledger.js'
+
+/** Usage-ledger attribution for every bootstrap extraction call. */
+const BOOTSTRAP_USAGE_TAG: LlmCallTag = { pipeline: 'bootstrap' }
 
 // ---------------------------------------------------------------------------
 // Intra-batch episode dedup for bootstrap
@@ -160,6 +167,8 @@ export interface BootstrapTickResult {
   readonly moreWorkRemains: boolean
   /** Whether all batches are now complete (final tick). */
   readonly completed: boolean
+  /** Whether this tick belongs to an incremental run over new or changed sources only. */
+  readonly incremental?: boolean
 }
 
 // ---------------------------------------------------------------------------
@@ -247,7 +256,7 @@ async function processBatch(
         unobservedMessages: messages,
         nowNode: nowContent,
         config,
-        llmClient,
+        llmClient: withUsageTag(llmClient, BOOTSTRAP_USAGE_TAG),
         sessionContext: { source: 'bootstrap', label: batchLabel },
         maxOutputTokens,
       })
@@ -377,11 +386,14 @@ async function processBatch(
           }
         } else {
           const mocPath = resolveMocPath(omgRoot, domain)
-          const domainWrittenIds = writtenNodes
-            .filter((n) => n.frontmatter.links?.includes(mocId))
-            .map((n) => n.frontmatter.id)
-          for (const id of domainWrittenIds) {
-            await applyMocUpdate(mocPath, { action: 'add', nodeId: id })
+          const domainWrittenNodes = writtenNodes.filter((n) => n.frontmatter.links?.includes(mocId))
+          for (const { frontmatter } of domainWrittenNodes) {
+            await applyMocUpdate(mocPath, {
+              action: 'add',
+              nodeId: frontmatter.id,
+              description: frontmatter.description,
+              group: mocGroupOf(frontmatter, domain),
+            })
           }
         }
       }
@@ -461,6 +473,18 @@ interface LockedResult {
   readonly chunksSucceeded: number
   readonly moreWorkRemains: boolean
   readonly completed: boolean
+  readonly incremental: boolean
+}
+
+const NOT_RAN: LockedResult = { ran: false, totalChunks: 0, batchCount: 0, batchesProcessed: 0, nodesWritten: 0, chunksSucceeded: 0, moreWorkRemains: false, completed: false, incremental: false }
+
+/** Content hash per source label, used to detect new or changed sources between runs. */
+function hashSourceEntries(entries: readonly SourceEntry[]): Record<string, string> {
+  const hashes: Record<string, string> = {}
+  for (const entry of entries) {
+    hashes[entry.label] = createHash('sha256').update(entry.text, 'utf8').digest('hex').slice(0, 16)
+  }
+  return hashes
 }
 
 async function _runBootstrapLocked(params: BootstrapParams & {
@@ -474,10 +498,15 @@ async function _runBootstrapLocked(params: BootstrapParams & {
   // Check state (skip if force)
   const existingState = await readBootstrapState(omgRoot)
   const decision = shouldBootstrap(existingState, force)
-  if (!decision.needed) {
-    return { ran: false, totalChunks: 0, batchCount: 0, batchesProcessed: 0, nodesWritten: 0, chunksSucceeded: 0, moreWorkRemains: false, completed: false }
+  // A completed bootstrap is revisited to pick up new or changed sources
+  const checkForChanges =
+    !decision.needed && !force && existingState?.status === 'completed' && config.bootstrap.incremental
+  if (!decision.needed && !checkForChanges) {
+    return NOT_RAN
   }
   const previousDone = force ? undefined : decision.resumeFromDone
+  const resumingIncremental = previousDone !== undefined && (existingState?.incrementalSources ?? null) !== null
+  const incremental = checkForChanges || resumingIncremental
 
   // Clear failure log on force runs
   if (force) {
@@ -489,13 +518,15 @@ async function _runBootstrapLocked(params: BootstrapParams & {
   // Resolve which sources to use.
   // config.bootstrap.sources is the canonical config; the deprecated `source`
   // param can override individual flags for CLI invocations.
+  // Session logs are append-only and not hashed, so incremental runs skip them.
   const srcs = config.bootstrap.sources
   const useMemory = source === 'memory' || source === 'all' || (source === undefined && srcs.workspaceMemory)
-  const useLogs   = source === 'logs'   || source === 'all' || (source === undefined && srcs.openclawLogs)
+  const useLogs   = !incremental && (source === 'logs' || source === 'all' || (source === undefined && srcs.openclawLogs))
   const useSqlite = source === 'sqlite' || source === 'all' || (source === undefined && srcs.openclawSessions)
+  const useAdapters = source === 'all' || source === undefined
 
   // Gather source entries
-  const [memoryEntries, logEntries, sqliteEntries] = await Promise.all([
+  const [allMemoryEntries, logEntries, allSqliteEntries, allAdapterEntries] = await Promise.all([
     useMemory
       ? readWorkspaceMemory(workspaceDir, config.storagePath).catch((err) => {
           console.error('[omg] bootstrap: workspace memory read failed:', err)
@@ -514,12 +545,47 @@ async function _runBootstrapLocked(params: BootstrapParams & {
           return []
         })
       : Promise.resolve([]),
+    useAdapters ? readAdapterSources(srcs.adapters, workspaceDir) : Promise.resolve([]),
   ])
 
+  const currentHashes = hashSourceEntries([...allMemoryEntries, ...allSqliteEntries, ...allAdapterEntries])
+  let incrementalSources: string[] | null = null
+
+  // Stamped on every rescan so the cron job can space them out
+  const sourcesCheckedAt = checkForChanges ? new Date().toISOString() : existingState?.sourcesCheckedAt
+
+  if (checkForChanges) {
+    const previousHashes = existingState.sourceHashes
+    if (previousHashes === undefined) {
+      // Completed before hashes were recorded — adopt the current sources as the baseline
+      await writeBootstrapState(omgRoot, { ...existingState, sourceHashes: currentHashes, sourcesCheckedAt })
+      console.log(`[omg] bootstrap: recorded baseline hashes for ${Object.keys(currentHashes).length} source(s)`)
+      return NOT_RAN
+    }
+    incrementalSources = diffSourceHashes(previousHashes, currentHashes)
+    if (incrementalSources.length === 0) {
+      await writeBootstrapState(omgRoot, { ...existingState, sourcesCheckedAt })
+      return NOT_RAN
+    }
+    console.log(`[omg] bootstrap: ${incrementalSources.length} new or changed source(s) — ingesting incrementally`)
+  } else if (resumingIncremental) {
+    incrementalSources = [...(existingState?.incrementalSources ?? [])]
+  }
+
+  const pending = incrementalSources !== null ? new Set(incrementalSources) : null
+  const memoryEntries = pending ? allMemoryEntries.filter((e) => pending.has(e.label)) : allMemoryEntries
+  const sqliteEntries = pending ? allSqliteEntries.filter((e) => pending.has(e.label)) : allSqliteEntries
+  const adapterEntries = pending ? allAdapterEntries.filter((e) => pending.has(e.label)) : allAdapterEntries
+  // Hashes are recorded up front so a paused or crashed run does not re-detect its own sources
+  const sourceHashes = {
+    ...existingState?.sourceHashes,
+    ...hashSourceEntries([...memoryEntries, ...sqliteEntries, ...adapterEntries]),
+  }
+
   // Build chunks from all entries
   const allChunks: SourceChunk[] = []
-  for (const entry of [...memoryEntries, ...logEntries, ...sqliteEntries]) {
-    const chunks = chunkText(entry.text, entry.label)
+  for (const entry of [...memoryEntries, ...logEntries, ...sqliteEntries, ...adapterEntries]) {
+    const chunks = chunkText(entry.text, entry.label, { overlapChars: config.bootstrap.chunkOverlapChars })
     allChunks.push(...chunks)
   }
 
@@ -529,7 +595,7 @@ async function _runBootstrapLocked(params: BootstrapParams & {
   const batches = batchChunks(allChunks, config.bootstrap.batchCharBudget)
 
   console.log(
-    `[omg] bootstrap: starting — ${[memoryEntries, logEntries, sqliteEntries].filter((e) => e.length > 0).length} sources, ${totalChunks} chunks, ${batches.length} batches`
+    `[omg] bootstrap: starting — ${[memoryEntries, logEntries, sqliteEntries, adapterEntries].filter((e) => e.length > 0).length} sources, ${totalChunks} chunks, ${batches.length} batches`
   )
 
   // Initialise state — carry forward progress when resuming
@@ -543,13 +609,18 @@ async function _runBootstrapLocked(params: BootstrapParams & {
           cursor: computeCursor(previousDone, batches.length),
         }
       : createInitialState(batches.length)
+  state = { ...state, sourceHashes, incrementalSources, ...(sourcesCheckedAt !== undefined ? { sourcesCheckedAt } : {}) }
   await writeBootstrapState(omgRoot, state)
 
+  // Incremental runs leave maintenance to the scheduled graph maintenance job
+  const finalize = (s: BootstrapState): BootstrapState =>
+    incremental ? { ...finalizeState(s), maintenanceDone: existingState?.maintenanceDone ?? false } : finalizeState(s)
+
   if (totalChunks === 0) {
-    state = finalizeState(state)
+    state = finalize(state)
     await writeBootstrapState(omgRoot, state)
     console.log('[omg] bootstrap: no content found — state written, skipping future runs')
-    return { ran: true, totalChunks: 0, batchCount: 0, batchesProcessed: 0, nodesWritten: 0, chunksSucceeded: 0, moreWorkRemains: false, completed: true }
+    return { ran: true, totalChunks: 0, batchCount: 0, batchesProcessed: 0, nodesWritten: 0, chunksSucceeded: 0, moreWorkRemains: false, completed: true, incremental }
   }
 
   // Build per-batch tasks, skipping already-completed batches
@@ -601,6 +672,7 @@ async function _runBootstrapLocked(params: BootstrapParams & {
       nodesWritten,
       moreWorkRemains: false,
       completed: false,
+      incremental,
     }
   }
 
@@ -615,7 +687,7 @@ async function _runBootstrapLocked(params: BootstrapParams & {
       `[omg] bootstrap: paused — ${batchesToProcess.length} batch(es) processed, ${remainingAfterTick} remaining`
     )
   } else {
-    state = finalizeState(state)
+    state = finalize(state)
     await writeBootstrapState(omgRoot, state)
     console.log(
       `[omg] bootstrap: complete — ${state.ok}/${totalChunks} chunks succeeded (${batches.length} batches), ${nodesWritten} nodes written`
@@ -640,13 +712,15 @@ async function _runBootstrapLocked(params: BootstrapParams & {
     nodesWritten,
     moreWorkRemains,
     completed: !moreWorkRemains,
+    incremental,
   }
 }
 
 /**
  * Runs a single bounded bootstrap tick, processing at most
  * `config.bootstrap.batchBudgetPerRun` batches. If more batches remain,
- * state is set to `paused` and the next cron tick resumes.
+ * state is set to `paused` and the next cron tick resumes. When
+ * `llm.dailyTokenBudget` is spent the tick is deferred (`ran: false`).
  *
  * Fire-and-forget safe: never throws (all errors are caught and logged).
  */
@@ -655,10 +729,18 @@ export async function runBootstrapTick(params: BootstrapParams): Promise<Bootstr
   const omgRoot = resolveOmgRoot(workspaceDir, config)
   const scope = config.scope ?? workspaceDir
   const maxBatches = config.bootstrap.batchBudgetPerRun
+  const notRan: BootstrapTickResult = { ran: false, batchesProcessed: 0, chunksSucceeded: 0, nodesWritten: 0, moreWorkRemains: false, completed: false }
+
+  // Ticks are background work — defer them once the daily budget is spent
+  const budget = await checkDailyTokenBudget(omgRoot, config)
+  if (budget?.exhausted) {
+    console.warn(`[omg] bootstrap: daily token budget exhausted (${budget.used}/${budget.limit}) — deferring tick`)
+    return notRan
+  }
 
   const lockAcquired = await acquireLock(omgRoot)
   if (!lockAcquired) {
-    return { ran: false, batchesProcessed: 0, chunksSucceeded: 0, nodesWritten: 0, moreWorkRemains: false, completed: false }
+    return notRan
   }
 
   try {
@@ -670,6 +752,7 @@ export async function runBootstrapTick(params: BootstrapParams): Promise<Bootstr
       nodesWritten: result.nodesWritten,
       moreWorkRemains: result.moreWorkRemains,
       completed: result.completed,
+      incremental: result.incremental,
     }
   } finally {
     await releaseLock(omgRoot)
@@ -789,16 +872,18 @@ export async function runBootstrapRetry(params: RetryParams): Promise<RetryResul
     const preservedEntries = failures.filter((f) => !targetIndices.has(f.batchIndex))
     await writeFailureEntries(omgRoot, preservedEntries)
 
-    // Re-gather sources and build batches (same pipeline as initial bootstrap)
+    // Re-gather sources and build batches (same pipeline as initial bootstrap).
+    // Failures from an incremental run index batches built from its sources only.
+    const runSources = (await readBootstrapState(omgRoot))?.incrementalSources ?? null
     const srcs = config.bootstrap.sources
-    const [memoryEntries, logEntries, sqliteEntries] = await Promise.all([
+    const [memoryEntries, logEntries, sqliteEntries, adapterEntries] = await Promise.all([
       srcs.workspaceMemory
         ? readWorkspaceMemory(workspaceDir, config.storagePath).catch((err) => {
             console.error('[omg] bootstrap retry: workspace memory read failed:', err)
             return []
           })
         : Promise.resolve([]),
-      srcs.openclawLogs
+      srcs.openclawLogs && runSources === null
         ? readOpenclawLogs().catch((err) => {
             console.error('[omg] bootstrap retry: openclaw logs read failed:', err)
             return []
@@ -810,11 +895,14 @@ export async function runBootstrapRetry(params: RetryParams): Promise<RetryResul
             return []
           })
         : Promise.resolve([]),
+      readAdapterSources(srcs.adapters, workspaceDir),
     ])
 
+    const runEntries = [...memoryEntries, ...logEntries, ...sqliteEntries, ...adapterEntries]
+      .filter((entry) => runSources === null || runSources.includes(entry.label))
     const allChunks: SourceChunk[] = []
-    for (const entry of [...memoryEntries, ...logEntries, ...sqliteEntries]) {
-      const chunks = chunkText(entry.text, entry.label)
+    for (const entry of runEntries) {
+      const chunks = chunkText(entry.text, entry.label, { overlapChars: config.bootstrap.chunkOverlapChars })
       allChunks.push(...chunks)
     }
 
@@ -2,7 +2,8 @@
  * chunker.ts — Text chunking utilities for bootstrap source ingestion.
  *
  * Splits raw text from sources into chunks that fit within the LLM token
- * budget used for observation calls.
+ * budget used for observation calls, cutting on markdown headings and
+ * paragraphs, log records, or paragraphs rather than at fixed offsets.
  */
 
 import { estimateTokens } from '../utils/tokens.js'
@@ -18,6 +19,9 @@ export const CHUNK_TOKEN_BUDGET = 6_000
 /** Equivalent character budget (4 chars per token × budget). */
 const CHUNK_CHAR_BUDGET = CHUNK_TOKEN_BUDGET * 4
 
+/** Separator placed between heading breadcrumb segments and after the source label. */
+const BREADCRUMB_SEPARATOR = ' › '
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -30,6 +34,167 @@ export interface SourceChunk {
   readonly text: string
   /** 0-based index of this chunk within its source document. */
   readonly chunkIndex: number
+  /** Markdown heading path at the start of this chunk (e.g. "Japan › Hotels"). */
+  readonly breadcrumb?: string
+}
+
+/**
+ * How a source's text is divided into unsplittable units before packing:
+ *   - markdown: heading sections and paragraphs (fenced code blocks kept whole)
+ *   - log:      records — a line plus any indented continuation lines
+ *   - text:     paragraphs separated by blank lines
+ */
+export type SourceFormat = 'markdown' | 'log' | 'text'
+
+export interface ChunkOptions {
+  /** Overrides the format inferred from the source label. */
+  readonly format?: SourceFormat
+  /**
+   * Trailing units of the previous chunk repeated at the start of the next,
+   * up to this many characters. Units are never cut for overlap. Default 0.
+   */
+  readonly overlapChars?: number
+  /** Maximum characters per chunk. Defaults to the {@link CHUNK_TOKEN_BUDGET} equivalent. */
+  readonly charBudget?: number
+}
+
+/** A unit of text that is only split when it alone exceeds the budget. */
+interface TextUnit {
+  readonly text: string
+  readonly breadcrumb: string
+}
+
+// ---------------------------------------------------------------------------
+// Structure detection
+// ---------------------------------------------------------------------------
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const FENCE_RE = /^\s*(```|~~~)/
+
+/**
+ * Infers the source format from a bootstrap source label: markdown files by
+ * extension, session logs by extension (or none), everything else — including
+ * SQLite chunks (`sqlite:{agentId}[{chunkId}]`) — as plain text.
+ */
+export function inferSourceFormat(source: string): SourceFormat {
+  if (source.startsWith('sqlite:')) return 'text'
+  const ext = /\.([a-z0-9]+)$/i.exec(source)?.[1]?.toLowerCase()
+  if (ext === 'md' || ext === 'markdown') return 'markdown'
+  if (ext === undefined || ext === 'log' || ext === 'jsonl') return 'log'
+  return 'text'
+}
+
+/**
+ * Splits markdown into paragraphs tagged with the heading path they sit
+ * under. Heading lines are attached to the paragraph that follows them so a
+ * heading never ends a chunk on its own.
+ */
+function* markdownUnits(text: string): Generator<TextUnit> {
+  const headings: string[] = []
+  let lines: string[] = []
+  let hasBody = false
+  let inFence = false
+
+  const take = (): TextUnit | null => {
+    const unitText = lines.join('\n').trim()
+    lines = []
+    hasBody = false
+    return unitText === '' ? null : { text: unitText, breadcrumb: headings.filter(Boolean).join(BREADCRUMB_SEPARATOR) }
+  }
+
+  for (const line of text.split('\n')) {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence
+      lines.push(line)
+      hasBody = true
+      continue
+    }
+    if (inFence) {
+      lines.push(line)
+      continue
+    }
+
+    const heading = HEADING_RE.exec(line)
+    if (heading) {
+      if (hasBody) {
+        const unit = take()
+        if (unit) yield unit
+      }
+      const level = heading[1]!.length
+      headings.length = level - 1
+      headings[level - 1] = heading[2]!
+      lines.push(line)
+      continue
+    }
+
+    if (line.trim() === '') {
+      if (hasBody) {
+        const unit = take()
+        if (unit) yield unit
+      } else if (lines.length > 0) {
+        lines.push(line)
+      }
+      continue
+    }
+
+    lines.push(line)
+    hasBody = true
+  }
+
+  const unit = take()
+  if (unit) yield unit
+}
+
+/** Splits log text into records: a line plus any indented continuation lines. */
+function* logUnits(text: string): Generator<TextUnit> {
+  let record: string[] = []
+  for (const line of text.split('\n')) {
+    if (line.trim() === '') continue
+    if (/^\s/.test(line) && record.length > 0) {
+      record.push(line)
+      continue
+    }
+    if (record.length > 0) yield { text: record.join('\n'), breadcrumb: '' }
+    record = [line]
+  }
+  if (record.length > 0) yield { text: record.join('\n'), breadcrumb: '' }
+}
+
+/** Splits plain text into blank-line-separated paragraphs. */
+function* paragraphUnits(text: string): Generator<TextUnit> {
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim()
+    if (trimmed !== '') yield { text: trimmed, breadcrumb: '' }
+  }
+}
+
+/**
+ * Splits text that exceeds `budget` on the coarsest boundary available —
+ * lines, then words — and hard-cuts only a single word longer than `budget`.
+ */
+function splitToFit(text: string, budget: number): string[] {
+  if (text.length <= budget) return [text]
+  for (const separator of ['\n', ' ']) {
+    if (!text.includes(separator)) continue
+    const pieces: string[] = []
+    let current = ''
+    for (const part of text.split(separator)) {
+      const candidate = current === '' ? part : `${current}${separator}${part}`
+      if (candidate.length <= budget || current === '') {
+        current = candidate
+      } else {
+        pieces.push(current)
+        current = part
+      }
+    }
+    pieces.push(current)
+    return pieces.flatMap((piece) => splitToFit(piece, budget))
+  }
+  const slices: string[] = []
+  for (let offset = 0; offset < text.length; offset += budget) {
+    slices.push(text.slice(offset, offset + budget))
+  }
+  return slices
 }
 
 // ---------------------------------------------------------------------------
@@ -37,31 +202,89 @@ export interface SourceChunk {
 // ---------------------------------------------------------------------------
 
 /**
- * Splits `text` into chunks of up to {@link CHUNK_TOKEN_BUDGET} tokens each.
+ * Lazily splits `text` into chunks of up to {@link CHUNK_TOKEN_BUDGET} tokens.
  *
- * Splitting is character-based (4 chars per token heuristic). Each chunk
- * records the source label and its 0-based index within the source document.
+ * Text is first divided into structural units (see {@link SourceFormat}),
+ * which are packed greedily into chunks. A unit is only split when it alone
+ * exceeds the budget, and then at line or word boundaries. Each chunk records
+ * the heading breadcrumb of its first new unit.
  *
- * Returns an empty array for empty or whitespace-only input.
+ * Yields nothing for empty or whitespace-only input.
  */
-export function chunkText(text: string, source: string): readonly SourceChunk[] {
+export function* streamChunks(text: string, source: string, options: ChunkOptions = {}): Generator<SourceChunk> {
   const trimmed = text.trim()
-  if (trimmed.length === 0) {
-    return []
-  }
+  if (trimmed.length === 0) return
+
+  const budget = options.charBudget ?? CHUNK_CHAR_BUDGET
+  const format = options.format ?? inferSourceFormat(source)
+  const joiner = format === 'log' ? '\n' : '\n\n'
+  const overlapChars = Math.min(options.overlapChars ?? 0, Math.floor(budget / 2))
+  const units = format === 'markdown'
+    ? markdownUnits(trimmed)
+    : format === 'log' ? logUnits(trimmed) : paragraphUnits(trimmed)
 
-  const chunks: SourceChunk[] = []
-  let offset = 0
+  let parts: TextUnit[] = []
+  let overlapCount = 0
+  let length = 0
   let chunkIndex = 0
 
-  while (offset < trimmed.length) {
-    const slice = trimmed.slice(offset, offset + CHUNK_CHAR_BUDGET)
-    chunks.push({ source, text: slice, chunkIndex })
-    offset += CHUNK_CHAR_BUDGET
-    chunkIndex++
+  const toChunk = (): SourceChunk => {
+    const breadcrumb = (parts[overlapCount] ?? parts[0])?.breadcrumb ?? ''
+    return {
+      source,
+      text: parts.map((p) => p.text).join(joiner),
+      chunkIndex: chunkIndex++,
+      ...(breadcrumb !== '' ? { breadcrumb } : {}),
+    }
+  }
+
+  for (const unit of units) {
+    for (const piece of splitToFit(unit.text, budget)) {
+      if (parts.length > 0 && length + joiner.length + piece.length > budget) {
+        yield toChunk()
+        // Carry whole trailing units forward while they fit the overlap and
+        // still leave room for the incoming piece.
+        const room = Math.min(overlapChars, budget - piece.length - joiner.length)
+        const carried: TextUnit[] = []
+        let carriedLength = 0
+        for (let i = parts.length - 1; i >= overlapCount; i--) {
+          const next = carriedLength + parts[i]!.text.length + (carried.length > 0 ? joiner.length : 0)
+          if (next > room) break
+          carried.unshift(parts[i]!)
+          carriedLength = next
+        }
+        parts = carried
+        overlapCount = carried.length
+        length = carriedLength
+      }
+      length += (parts.length > 0 ? joiner.length : 0) + piece.length
+      parts.push({ text: piece, breadcrumb: unit.breadcrumb })
+    }
   }
 
-  return chunks
+  if (parts.length > overlapCount) yield toChunk()
+}
+
+/**
+ * Splits `text` into chunks of up to {@link CHUNK_TOKEN_BUDGET} tokens each.
+ * Eager form of {@link streamChunks}.
+ *
+ * Returns an empty array for empty or whitespace-only input.
+ */
+export function chunkText(text: string, source: string, options: ChunkOptions = {}): readonly SourceChunk[] {
+  return [...streamChunks(text, source, options)]
+}
+
+/**
+ * Formats the label shown in `[BOOTSTRAP SOURCE: ...]`: the source, its
+ * heading breadcrumb, and a part number for continuation chunks,
+ * e.g. "notes/travel.md › Japan › Hotels (part 2)".
+ */
+export function formatChunkLabel(chunk: SourceChunk): string {
+  const base = chunk.breadcrumb
+    ? `${chunk.source}${BREADCRUMB_SEPARATOR}${chunk.breadcrumb}`
+    : chunk.source
+  return chunk.chunkIndex > 0 ? `${base} (part ${chunk.chunkIndex + 1})` : base
 }
 
 /**
@@ -72,14 +295,10 @@ export function chunkText(text: string, source: string): readonly SourceChunk[]
  * came from.
  */
 export function chunkToMessages(chunk: SourceChunk): readonly Message[] {
-  const label = chunk.chunkIndex > 0
-    ? `${chunk.source} (part ${chunk.chunkIndex + 1})`
-    : chunk.source
-
   return [
     {
       role: 'user',
-      content: `[BOOTSTRAP SOURCE: ${label}]\n\n${chunk.text}`,
+      content: `[BOOTSTRAP SOURCE: ${formatChunkLabel(chunk)}]\n\n${chunk.text}`,
     },
   ]
 }
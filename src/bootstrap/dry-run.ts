@@ -0,0 +1,270 @@
+/**
+ * dry-run.ts — Token and cost estimate for a full bootstrap, without running it.
+ *
+ * Backs `omg bootstrap --dry-run`. Reads the same sources a real run would,
+ * chunks and batches them with the same settings, and sizes each batch's
+ * Observer prompt. Never calls the LLM and never writes state.
+ */
+
+import path from 'node:path'
+import { readFileOrNull } from '../utils/fs.js'
+import { estimateTokens } from '../utils/tokens.js'
+import { resolveOmgRoot } from '../utils/paths.js'
+import { buildExtractSystemPrompt, buildExtractUserPrompt } from '../observer/prompts.js'
+import { readWorkspaceMemory, readOpenclawLogs, readSqliteChunks, type SourceEntry } from './sources.js'
+import { createSourceAdapter } from './source-adapters.js'
+import { chunkText, type SourceChunk } from './chunker.js'
+import { batchChunks, batchToMessages, computeBatchMaxTokens } from './batcher.js'
+import type { BootstrapSource } from './bootstrap.js'
+import type { OmgConfig } from '../config.js'
+
+/** Number of largest source entries listed in the estimate. */
+const LARGEST_SOURCES_SHOWN = 5
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Estimate for one source group (a built-in reader or one configured adapter). */
+export interface SourceEstimate {
+  readonly source: string
+  readonly entries: number
+  readonly chunks: number
+  /** Batches containing at least one chunk from this source. */
+  readonly batches: number
+  readonly inputTokens: number
+  readonly outputTokens: number
+}
+
+/** One of the largest source entries by size. */
+export interface LargestSource {
+  readonly label: string
+  readonly chars: number
+  readonly chunks: number
+}
+
+/** Estimated cost of the run for one priced model (USD). */
+export interface ModelCostEstimate {
+  readonly model: string
+  readonly inputCost: number
+  readonly outputCost: number
+}
+
+/** Result of {@link estimateBootstrap}. */
+export interface BootstrapEstimate {
+  readonly sources: readonly SourceEstimate[]
+  readonly totalChunks: number
+  readonly batchCount: number
+  /** Estimated prompt tokens across all batches, including the system prompt. */
+  readonly inputTokens: number
+  /** Upper bound on output tokens: the sum of each batch's max-output cap. */
+  readonly outputTokens: number
+  readonly batchBudgetPerRun: number
+  /** Cron ticks needed to finish at `batchBudgetPerRun` batches per tick. */
+  readonly ticks: number
+  readonly largest: readonly LargestSource[]
+  /** One entry per model in `config.pricing`. */
+  readonly costs: readonly ModelCostEstimate[]
+}
+
+export interface EstimateBootstrapParams {
+  readonly workspaceDir: string
+  readonly config: OmgConfig
+  /** Same meaning as the CLI `--source` option. Default: configured sources. */
+  readonly source?: BootstrapSource
+}
+
+interface SourceGroup {
+  readonly name: string
+  readonly entries: readonly SourceEntry[]
+}
+
+// ---------------------------------------------------------------------------
+// Source gathering
+// ---------------------------------------------------------------------------
+
+/**
+ * Reads every enabled source, keeping each reader's entries separate so the
+ * estimate can be broken down per source. Order matches a real run, so batch
+ * boundaries come out identical.
+ */
+async function readSourceGroups(
+  workspaceDir: string,
+  config: OmgConfig,
+  source: BootstrapSource | undefined
+): Promise<SourceGroup[]> {
+  const srcs = config.bootstrap.sources
+  const useMemory = source === 'memory' || source === 'all' || (source === undefined && srcs.workspaceMemory)
+  const useLogs   = source === 'logs'   || source === 'all' || (source === undefined && srcs.openclawLogs)
+  const useSqlite = source === 'sqlite' || source === 'all' || (source === undefined && srcs.openclawSessions)
+  const useAdapters = source === 'all' || source === undefined
+
+  const read = async (name: string, reader: () => Promise<readonly SourceEntry[]>): Promise<SourceGroup> => {
+    try {
+      return { name, entries: await reader() }
+    } catch (err) {
+      console.error(`[omg] bootstrap dry-run: ${name} read failed:`, err)
+      return { name, entries: [] }
+    }
+  }
+
+  const groups: SourceGroup[] = []
+  if (useMemory) groups.push(await read('workspace memory', () => readWorkspaceMemory(workspaceDir, config.storagePath)))
+  if (useLogs) groups.push(await read('openclaw logs', () => readOpenclawLogs()))
+  if (useSqlite) groups.push(await read('sqlite sessions', () => readSqliteChunks(workspaceDir)))
+  if (useAdapters) {
+    for (const adapterConfig of srcs.adapters) {
+      const adapter = createSourceAdapter(adapterConfig)
+      groups.push(await read(`${adapterConfig.kind} ${adapter.name}`, () => adapter.read(workspaceDir)))
+    }
+  }
+  return groups
+}
+
+// ---------------------------------------------------------------------------
+// Estimate
+// ---------------------------------------------------------------------------
+
+/**
+ * Estimates the batches, tokens, cron ticks and cost of a full bootstrap run.
+ * Token counts use the 4-characters-per-token heuristic from `utils/tokens.ts`.
+ */
+export async function estimateBootstrap(params: EstimateBootstrapParams): Promise<BootstrapEstimate> {
+  const { workspaceDir, config, source } = params
+  const groups = await readSourceGroups(workspaceDir, config, source)
+
+  const groupOfLabel = new Map<string, string>()
+  const chunkCountByLabel = new Map<string, number>()
+  const allChunks: SourceChunk[] = []
+  for (const group of groups) {
+    for (const entry of group.entries) {
+      groupOfLabel.set(entry.label, group.name)
+      const chunks = chunkText(entry.text, entry.label, { overlapChars: config.bootstrap.chunkOverlapChars })
+      chunkCountByLabel.set(entry.label, chunks.length)
+      allChunks.push(...chunks)
+    }
+  }
+
+  const batches = batchChunks(allChunks, config.bootstrap.batchCharBudget)
+  const nowNode = await readFileOrNull(path.join(resolveOmgRoot(workspaceDir, config), 'now.md'))
+  const systemTokens = estimateTokens(buildExtractSystemPrompt())
+
+  const totals = new Map<string, { chunks: number; batches: Set<number>; input: number; output: number }>(
+    groups.map((g) => [g.name, { chunks: 0, batches: new Set<number>(), input: 0, output: 0 }])
+  )
+  let inputTokens = 0
+  let outputTokens = 0
+
+  for (const batch of batches) {
+    const label = batch.chunks.length === 1
+      ? batch.chunks[0]!.source
+      : `batch ${batch.batchIndex} (${batch.chunks.length} chunks)`
+    const userPrompt = buildExtractUserPrompt({
+      nowNode,
+      messages: batchToMessages(batch),
+      sessionContext: { source: 'bootstrap', label },
+    })
+    const batchInput = systemTokens + estimateTokens(userPrompt)
+    const batchOutput = computeBatchMaxTokens(batch.chunks.length)
+    inputTokens += batchInput
+    outputTokens += batchOutput
+
+    // Attribute the batch to its sources in proportion to their characters
+    for (const chunk of batch.chunks) {
+      const total = totals.get(groupOfLabel.get(chunk.source) ?? '')
+      if (total === undefined) continue
+      const share = batch.totalChars > 0 ? chunk.text.length / batch.totalChars : 1 / batch.chunks.length
+      total.chunks++
+      total.batches.add(batch.batchIndex)
+      total.input += batchInput * share
+      total.output += batchOutput * share
+    }
+  }
+
+  const sources = groups.map((g): SourceEstimate => {
+    const total = totals.get(g.name)!
+    return {
+      source: g.name,
+      entries: g.entries.length,
+      chunks: total.chunks,
+      batches: total.batches.size,
+      inputTokens: Math.round(total.input),
+      outputTokens: Math.round(total.output),
+    }
+  })
+
+  const largest = groups
+    .flatMap((g) => g.entries)
+    .sort((a, b) => b.text.length - a.text.length)
+    .slice(0, LARGEST_SOURCES_SHOWN)
+    .map((e) => ({ label: e.label, chars: e.text.length, chunks: chunkCountByLabel.get(e.label) ?? 0 }))
+
+  const costs = Object.entries(config.pricing).map(([model, price]) => ({
+    model,
+    inputCost: (inputTokens / 1_000_000) * price.inputPerMTok,
+    outputCost: (outputTokens / 1_000_000) * price.outputPerMTok,
+  }))
+
+  const batchBudgetPerRun = config.bootstrap.batchBudgetPerRun
+  return {
+    sources,
+    totalChunks: allChunks.length,
+    batchCount: batches.length,
+    inputTokens,
+    outputTokens,
+    batchBudgetPerRun,
+    ticks: Math.ceil(batches.length / batchBudgetPerRun),
+    largest,
+    costs,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function formatCount(n: number): string {
+  return n.toLocaleString('en-US')
+}
+
+function formatUsd(n: number): string {
+  return `$${n.toFixed(2)}`
+}
+
+/** Renders a {@link BootstrapEstimate} as human-readable CLI output. */
+export function formatBootstrapEstimate(estimate: BootstrapEstimate): string {
+  const lines = ['Bootstrap dry run — no LLM calls made, no state written']
+
+  lines.push('Sources:')
+  for (const s of estimate.sources) {
+    lines.push(
+      `  ${s.source}: ${s.entries} entries, ${s.chunks} chunks, ${s.batches} batches — ` +
+        `~${formatCount(s.inputTokens)} input / ≤${formatCount(s.outputTokens)} output tokens`
+    )
+  }
+
+  lines.push(
+    `Total: ${estimate.totalChunks} chunks in ${estimate.batchCount} batches — ` +
+      `~${formatCount(estimate.inputTokens)} input / ≤${formatCount(estimate.outputTokens)} output tokens`
+  )
+  lines.push(`Cron ticks: ${estimate.ticks} at ${estimate.batchBudgetPerRun} batches per tick`)
+
+  if (estimate.largest.length > 0) {
+    lines.push('Largest sources:')
+    for (const l of estimate.largest) {
+      lines.push(`  ${l.label}: ${formatCount(l.chars)} chars, ${l.chunks} chunks`)
+    }
+  }
+
+  if (estimate.costs.length > 0) {
+    lines.push('Estimated cost (USD, output at its upper bound):')
+    for (const c of estimate.costs) {
+      lines.push(
+        `  ${c.model}: ${formatUsd(c.inputCost)} input + ${formatUsd(c.outputCost)} output = ` +
+          formatUsd(c.inputCost + c.outputCost)
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
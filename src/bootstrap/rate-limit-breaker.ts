@@ -5,6 +5,9 @@
  * (`_gate` is a pending sleep), new attempts from all workers are blocked.
  * After `MAX_CONSECUTIVE_RATE_LIMITS` failures the pipeline is aborted and
  * `awaitGate()` throws `PipelineAbortedError` for all subsequent callers.
+ *
+ * The LLM scheduler reuses the breaker as its shared rate-limit circuit, with
+ * no abort threshold.
  */
 
 import { PipelineAbortedError } from '../llm/errors.js'
@@ -13,12 +16,26 @@ import { computeBackoffMs, sleep } from './backoff.js'
 const MAX_CONSECUTIVE_RATE_LIMITS = 5
 export const MAX_RETRY_ATTEMPTS = 5
 
+export interface RateLimitBreakerOptions {
+  /** Log prefix. @default 'bootstrap' */
+  readonly label?: string
+  /** Consecutive rate limits that abort the pipeline. `Infinity` never aborts. @default 5 */
+  readonly maxConsecutive?: number
+}
+
 export class RateLimitBreaker {
+  private readonly _label: string
+  private readonly _maxConsecutive: number
   private _consecutiveFailures = 0
   private _aborted = false
   private _backoffPending = false
   private _gate: Promise<void> = Promise.resolve()
 
+  constructor(options: RateLimitBreakerOptions = {}) {
+    this._label = options.label ?? 'bootstrap'
+    this._maxConsecutive = options.maxConsecutive ?? MAX_CONSECUTIVE_RATE_LIMITS
+  }
+
   get aborted(): boolean {
     return this._aborted
   }
@@ -27,6 +44,11 @@ export class RateLimitBreaker {
     return this._consecutiveFailures
   }
 
+  /** True while a backoff sleep is pending and `awaitGate()` would block. */
+  get backingOff(): boolean {
+    return this._backoffPending
+  }
+
   /**
    * Await before each LLM call attempt. Blocks all workers during backoff.
    * Throws `PipelineAbortedError` when the failure threshold has been reached.
@@ -43,19 +65,20 @@ export class RateLimitBreaker {
    */
   startBackoff(): boolean {
     this._consecutiveFailures++
-    if (this._consecutiveFailures >= MAX_CONSECUTIVE_RATE_LIMITS) {
+    if (this._consecutiveFailures >= this._maxConsecutive) {
       this._aborted = true
       console.error(
-        `[omg] bootstrap: rate limit threshold reached (${this._consecutiveFailures} consecutive) — aborting pipeline`
+        `[omg] ${this._label}: rate limit threshold reached (${this._consecutiveFailures} consecutive) — aborting pipeline`
       )
       return false
     }
     if (!this._backoffPending) {
       this._backoffPending = true
       const delay = computeBackoffMs(this._consecutiveFailures)
-      console.error(
-        `[omg] bootstrap: rate limit ${this._consecutiveFailures}/${MAX_CONSECUTIVE_RATE_LIMITS} — backing off ${delay / 1000}s`
-      )
+      const count = Number.isFinite(this._maxConsecutive)
+        ? `${this._consecutiveFailures}/${this._maxConsecutive}`
+        : `${this._consecutiveFailures} consecutive`
+      console.error(`[omg] ${this._label}: rate limit ${count} — backing off ${delay / 1000}s`)
       this._gate = sleep(delay).then(() => {
         this._backoffPending = false
       })
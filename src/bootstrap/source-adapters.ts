@@ -0,0 +1,289 @@
+/**
+ * source-adapters.ts — Pluggable bootstrap sources.
+ *
+ * Adapters are configured under `bootstrap.sources.adapters`. Each one walks a
+ * single directory, keeps the files matching its include/exclude globs, and
+ * turns them into `SourceEntry` values labelled `{name}:{relative path}` —
+ * plus `#{conversation id}` for conversation exports. Labels are stable across
+ * runs so batch resume, failure-log retry and incremental hashing line up.
+ *
+ * Built-in kinds:
+ *   - `markdown-dir`        — markdown trees such as an Obsidian vault
+ *   - `conversation-export` — ChatGPT / Claude `conversations.json` exports
+ *   - `jsonl-messages`      — one `{ role, content }` message per line
+ */
+
+import path from 'node:path'
+import os from 'node:os'
+import { readFileOrNull } from '../utils/fs.js'
+import { matchesGlobs } from '../utils/glob.js'
+import { findFiles, type SourceEntry } from './sources.js'
+import type { OmgConfig } from '../config.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One entry of `bootstrap.sources.adapters`. */
+export type SourceAdapterConfig = OmgConfig['bootstrap']['sources']['adapters'][number]
+
+export type SourceAdapterKind = SourceAdapterConfig['kind']
+
+/** A configured bootstrap source that yields raw entries for chunking. */
+export interface BootstrapSourceAdapter {
+  /** Label prefix for every entry this adapter produces. */
+  readonly name: string
+  /** Reads every matching file. Relative adapter paths resolve against `workspaceDir`. */
+  read(workspaceDir: string): Promise<readonly SourceEntry[]>
+}
+
+/** Converts one matched file into zero or more entries. */
+type FileReader = (relPath: string, raw: string, name: string) => SourceEntry[]
+
+interface AdapterKindSpec {
+  readonly defaultInclude: readonly string[]
+  /** Excluded regardless of the configured `exclude` list. */
+  readonly alwaysExclude: readonly string[]
+  readonly readFile: FileReader
+}
+
+interface ChatMessage {
+  readonly role: string
+  readonly text: string
+  readonly timestamp?: string
+}
+
+// ---------------------------------------------------------------------------
+// JSON helpers
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function stringField(record: Record<string, unknown>, key: string): string | undefined {
+  const value = record[key]
+  return typeof value === 'string' && value.length > 0 ? value : undefined
+}
+
+/**
+ * Flattens message content to plain text. Accepts a string, or an array of
+ * strings / `{ text }` parts (tool calls, images and other parts are dropped).
+ */
+function contentText(content: unknown): string {
+  if (typeof content === 'string') return content.trim()
+  if (!Array.isArray(content)) return ''
+  return content
+    .map((part) => (typeof part === 'string' ? part : isRecord(part) ? stringField(part, 'text') ?? '' : ''))
+    .filter((text) => text.trim().length > 0)
+    .join('\n')
+    .trim()
+}
+
+// ---------------------------------------------------------------------------
+// File readers
+// ---------------------------------------------------------------------------
+
+const readMarkdownFile: FileReader = (relPath, raw, name) => [{ label: `${name}:${relPath}`, text: raw }]
+
+/** Messages on the displayed branch of a ChatGPT conversation, oldest first. */
+function chatGptMessages(mapping: Record<string, unknown>, currentNode: string | undefined): ChatMessage[] {
+  const nodes: Record<string, unknown>[] = []
+  if (currentNode !== undefined) {
+    const seen = new Set<string>()
+    let id: string | undefined = currentNode
+    while (id !== undefined && !seen.has(id)) {
+      seen.add(id)
+      const node = mapping[id]
+      if (!isRecord(node)) break
+      nodes.unshift(node)
+      id = stringField(node, 'parent')
+    }
+  } else {
+    nodes.push(...Object.values(mapping).filter(isRecord))
+  }
+
+  const messages: (ChatMessage & { readonly at: number })[] = []
+  for (const node of nodes) {
+    const message = node['message']
+    if (!isRecord(message)) continue
+    const author = message['author']
+    const role = isRecord(author) ? stringField(author, 'role') : undefined
+    if (role !== 'user' && role !== 'assistant') continue
+    const content = message['content']
+    const text = isRecord(content) ? contentText(content['parts']) : ''
+    if (text.length === 0) continue
+    const at = typeof message['create_time'] === 'number' ? message['create_time'] : 0
+    messages.push({ role, text, at })
+  }
+  return currentNode !== undefined ? messages : messages.sort((a, b) => a.at - b.at)
+}
+
+function claudeMessages(chatMessages: readonly unknown[]): ChatMessage[] {
+  const messages: ChatMessage[] = []
+  for (const message of chatMessages) {
+    if (!isRecord(message)) continue
+    const sender = stringField(message, 'sender')
+    const text = stringField(message, 'text')?.trim() || contentText(message['content'])
+    if (sender === undefined || text.length === 0) continue
+    messages.push({ role: sender === 'human' ? 'user' : sender, text })
+  }
+  return messages
+}
+
+/**
+ * Reads a ChatGPT or Claude export — an array of conversations, or a single
+ * conversation object. Each conversation becomes its own entry.
+ */
+const readConversationExport: FileReader = (relPath, raw, name) => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    console.warn(`[omg] bootstrap: ${name}:${relPath} is not valid JSON — skipped`)
+    return []
+  }
+
+  const conversations = Array.isArray(parsed) ? parsed : [parsed]
+  const entries: SourceEntry[] = []
+  conversations.forEach((conversation, idx) => {
+    if (!isRecord(conversation)) return
+    const mapping = conversation['mapping']
+    const chatMessages = conversation['chat_messages']
+    const messages = isRecord(mapping)
+      ? chatGptMessages(mapping, stringField(conversation, 'current_node'))
+      : Array.isArray(chatMessages) ? claudeMessages(chatMessages) : []
+    if (messages.length === 0) return
+
+    const id =
+      stringField(conversation, 'id') ??
+      stringField(conversation, 'conversation_id') ??
+      stringField(conversation, 'uuid') ??
+      String(idx)
+    const title = stringField(conversation, 'title') ?? stringField(conversation, 'name')
+    const lines = messages.map((m) => `${m.role}: ${m.text}`)
+    entries.push({
+      label: `${name}:${relPath}#${id}`,
+      text: (title !== undefined ? [`# ${title}`, ...lines] : lines).join('\n\n'),
+    })
+  })
+  return entries
+}
+
+/** Extracts a message from a JSONL record: `{ role, content }` or `{ message: { role, content } }`. */
+function jsonlMessage(record: Record<string, unknown>): ChatMessage | null {
+  const message = isRecord(record['message']) ? record['message'] : record
+  const role = stringField(message, 'role')
+  const text = contentText(message['content'])
+  if (role === undefined || text.length === 0) return null
+  const timestamp =
+    stringField(record, 'timestamp') ?? stringField(record, 'created_at') ?? stringField(message, 'timestamp')
+  return timestamp !== undefined ? { role, text, timestamp } : { role, text }
+}
+
+/**
+ * Reads a JSONL message log. Messages are rendered one record per line, with
+ * multi-line content indented so the log chunker keeps each message whole.
+ */
+const readJsonlMessages: FileReader = (relPath, raw, name) => {
+  const lines: string[] = []
+  let skipped = 0
+  for (const line of raw.split('\n')) {
+    if (line.trim().length === 0) continue
+    let record: unknown
+    try {
+      record = JSON.parse(line)
+    } catch {
+      skipped++
+      continue
+    }
+    const message = isRecord(record) ? jsonlMessage(record) : null
+    if (message === null) continue
+    const prefix = message.timestamp !== undefined ? `[${message.timestamp}] ` : ''
+    lines.push(`${prefix}${message.role}: ${message.text.replace(/\n/g, '\n  ')}`)
+  }
+  if (skipped > 0) {
+    console.warn(`[omg] bootstrap: ${name}:${relPath} — skipped ${skipped} malformed line(s)`)
+  }
+  return lines.length > 0 ? [{ label: `${name}:${relPath}`, text: lines.join('\n') }] : []
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+const ADAPTER_KINDS: Readonly<Record<SourceAdapterKind, AdapterKindSpec>> = {
+  'markdown-dir': {
+    defaultInclude: ['**/*.md'],
+    alwaysExclude: ['.obsidian/**', '.trash/**'],
+    readFile: readMarkdownFile,
+  },
+  'conversation-export': {
+    defaultInclude: ['**/*.json'],
+    alwaysExclude: [],
+    readFile: readConversationExport,
+  },
+  'jsonl-messages': {
+    defaultInclude: ['**/*.jsonl'],
+    alwaysExclude: [],
+    readFile: readJsonlMessages,
+  },
+}
+
+/** Expands `~/` and resolves relative paths against the workspace. */
+function resolveAdapterDir(dir: string, workspaceDir: string): string {
+  if (dir === '~' || dir.startsWith('~/')) {
+    return path.join(os.homedir(), dir.slice(1))
+  }
+  return path.resolve(workspaceDir, dir)
+}
+
+/**
+ * Builds the adapter for one `bootstrap.sources.adapters` entry.
+ */
+export function createSourceAdapter(config: SourceAdapterConfig): BootstrapSourceAdapter {
+  const spec = ADAPTER_KINDS[config.kind]
+  const name = config.name ?? path.basename(config.path)
+  const include = config.include ?? spec.defaultInclude
+  const exclude = [...spec.alwaysExclude, ...config.exclude]
+
+  return {
+    name,
+    async read(workspaceDir) {
+      const dir = resolveAdapterDir(config.path, workspaceDir)
+      const files = await findFiles(dir, '')
+
+      const entries: SourceEntry[] = []
+      for (const filePath of files) {
+        const relPath = path.relative(dir, filePath).split(path.sep).join('/')
+        if (!matchesGlobs(relPath, include, exclude)) continue
+        const raw = await readFileOrNull(filePath)
+        if (raw === null || raw.trim().length === 0) continue
+        entries.push(...spec.readFile(relPath, raw, name))
+      }
+      return entries.sort((a, b) => a.label.localeCompare(b.label))
+    },
+  }
+}
+
+/**
+ * Reads every configured adapter in order. A failing adapter is logged and
+ * contributes no entries.
+ *
+ * Never throws.
+ */
+export async function readAdapterSources(
+  configs: readonly SourceAdapterConfig[],
+  workspaceDir: string
+): Promise<readonly SourceEntry[]> {
+  const entries: SourceEntry[] = []
+  for (const config of configs) {
+    const adapter = createSourceAdapter(config)
+    try {
+      entries.push(...(await adapter.read(workspaceDir)))
+    } catch (err) {
+      console.error(`[omg] bootstrap: source adapter "${adapter.name}" failed:`, err)
+    }
+  }
+  return entries
+}
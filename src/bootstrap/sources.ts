@@ -5,6 +5,9 @@
  *   1. Workspace markdown files (memory/**\/*.md, excluding OMG storage)
  *   2. OpenClaw session logs (~/.openclaw/logs/**)
  *   3. OpenClaw agent SQLite chunks (~/.openclaw/memory/{agentId}.sqlite, all agents)
+ *
+ * Further sources are configured under `bootstrap.sources.adapters` and read
+ * by the adapters in `source-adapters.ts`.
  */
 
 import fs from 'node:fs'
@@ -33,7 +36,7 @@ export interface SourceEntry {
  * Returns an empty array if `dir` does not exist (ENOENT).
  * Throws for unexpected filesystem errors.
  */
-async function findFiles(dir: string, ext: string): Promise<string[]> {
+export async function findFiles(dir: string, ext: string): Promise<string[]> {
   let entries: fs.Dirent[]
   try {
     entries = await fs.promises.readdir(dir, { withFileTypes: true })
@@ -208,6 +211,25 @@ function resolveWorkspaceAgentIds(workspaceDir: string): Set<string> | null {
   return matched.size > 0 ? matched : null
 }
 
+/** One row of an OpenClaw `chunks` table, keyed by a column that survives reindexing order. */
+interface ChunkRow {
+  readonly id: string | number
+  readonly text: unknown
+}
+
+/**
+ * Selects chunk rows in a stable order. Labels are derived from the chunk id,
+ * so bootstrap state keyed on them stays valid however SQLite orders the scan.
+ * Schemas without an `id` column fall back to `rowid`.
+ */
+function selectChunks(all: (sql: string) => unknown[]): ChunkRow[] {
+  try {
+    return all('SELECT id, text FROM chunks ORDER BY id') as ChunkRow[]
+  } catch {
+    return all('SELECT rowid AS id, text FROM chunks ORDER BY rowid') as ChunkRow[]
+  }
+}
+
 /**
  * Reads text chunks from OpenClaw agent SQLite memory databases at
  * `~/.openclaw/memory/{agentId}.sqlite`, table `chunks`, column `text`.
@@ -257,7 +279,7 @@ export async function readSqliteChunks(
   // Prefer node:sqlite (Node 22.5+ built-in, no ABI issues). Fall back to
   // better-sqlite3 (optional npm dependency) when node:sqlite is unavailable
   // (e.g. when running inside a Vite/Vitest context that doesn't expose it).
-  type RowReader = (dbPath: string) => { text: string }[]
+  type RowReader = (dbPath: string) => ChunkRow[]
   let readRows: RowReader | null = null
 
   try {
@@ -266,7 +288,7 @@ export async function readSqliteChunks(
     readRows = (dbPath: string) => {
       const db = new DatabaseSync(dbPath, { readOnly: true })
       try {
-        return db.prepare('SELECT text FROM chunks').all() as { text: string }[]
+        return selectChunks((sql) => db.prepare(sql).all())
       } finally {
         db.close()
       }
@@ -279,7 +301,7 @@ export async function readSqliteChunks(
       readRows = (dbPath: string) => {
         const db = new Database(dbPath, { readonly: true })
         try {
-          return db.prepare('SELECT text FROM chunks').all() as { text: string }[]
+          return selectChunks((sql) => db.prepare(sql).all())
         } finally {
           db.close()
         }
@@ -299,14 +321,11 @@ export async function readSqliteChunks(
   for (const dbPath of dbPaths) {
     const agentId = path.basename(dbPath, '.sqlite')
     try {
-      const rows = readRows(dbPath)
-      let idx = 0
-      for (const row of rows) {
+      for (const row of readRows(dbPath)) {
         const text = row.text
         if (typeof text === 'string' && text.trim().length > 0) {
-          allEntries.push({ label: `sqlite:${agentId}[${idx}]`, text })
+          allEntries.push({ label: `sqlite:${agentId}[${row.id}]`, text })
         }
-        idx++
       }
     } catch (err) {
       console.warn(`[omg] bootstrap: failed to read SQLite chunks from ${agentId}:`, err)
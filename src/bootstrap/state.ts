@@ -47,6 +47,19 @@ const bootstrapStateSchema = z.object({
   lastError: z.string().nullable(),
   /** Whether post-bootstrap maintenance (dedup + reflection) has completed. */
   maintenanceDone: z.boolean().default(false),
+  /**
+   * Content hash of each ingested workspace-memory / SQLite source, keyed by
+   * source label. Absent until the first run that records hashes.
+   */
+  sourceHashes: z.record(z.string(), z.string()).optional(),
+  /**
+   * Labels of the sources ingested by the current (or last) incremental run;
+   * null for a full run. Batch indices in the failure log refer to batches
+   * built from these sources only.
+   */
+  incrementalSources: z.array(z.string()).nullable().default(null),
+  /** When a completed bootstrap last rescanned its sources for changes. */
+  sourcesCheckedAt: z.string().optional(),
 })
 
 export type BootstrapState = Readonly<z.infer<typeof bootstrapStateSchema>>
@@ -83,6 +96,7 @@ export function createInitialState(totalBatches: number): BootstrapState {
     done: [],
     lastError: null,
     maintenanceDone: false,
+    incrementalSources: null,
   }
 }
 
@@ -153,10 +167,30 @@ export function markMaintenanceDone(state: BootstrapState): BootstrapState {
   }
 }
 
+/**
+ * Returns the labels of `current` sources whose hash differs from (or is
+ * missing in) `previous`. Sources that disappeared are not reported.
+ */
+export function diffSourceHashes(
+  previous: Readonly<Record<string, string>>,
+  current: Readonly<Record<string, string>>
+): string[] {
+  return Object.keys(current).filter((label) => previous[label] !== current[label])
+}
+
 // ---------------------------------------------------------------------------
 // Decision helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * True when a completed bootstrap is due to rescan its sources: it never has,
+ * or the last rescan is at least `intervalMinutes` old.
+ */
+export function isSourceRescanDue(state: BootstrapState, intervalMinutes: number, nowMs = Date.now()): boolean {
+  if (state.sourcesCheckedAt === undefined) return true
+  return nowMs - Date.parse(state.sourcesCheckedAt) >= intervalMinutes * 60_000
+}
+
 /** Returns true when a `running` state has a stale `updatedAt`. */
 export function isStaleRunning(state: BootstrapState): boolean {
   if (state.status !== 'running') return false
@@ -263,6 +297,7 @@ export async function readBootstrapState(omgRoot: string): Promise<BootstrapStat
         done: [],
         lastError: null,
         maintenanceDone: true,
+        incrementalSources: null,
       }
 
       // Persist the migrated state so we never need to read the legacy file again
@@ -0,0 +1,163 @@
+/**
+ * graph-commands.ts — Operator CLI commands for inspecting and repairing the graph.
+ *
+ * Backs `omg status`, `omg search`, `omg show`, and `omg reindex`
+ * (`omg archive` / `omg restore` call `graph/archive.ts` directly). Each
+ * command is a plain async function returning data or formatted text so it
+ * can be tested without the host CLI framework; `plugin.ts` wires them into
+ * `api.registerCli`.
+ */
+
+import type { GraphNode, NodeType } from '../types.js'
+import type { BootstrapState } from '../bootstrap/state.js'
+import { readBootstrapState } from '../bootstrap/state.js'
+import { getRegistryEntries, rebuildRegistry } from '../graph/registry.js'
+import { regenerateIndex } from '../graph/index-manager.js'
+import { getCronHealthSummary } from '../cron/register.js'
+import type { OmgSearchHit } from '../tools/omg-tools.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Snapshot of graph health reported by `omg status`. */
+export interface GraphStatus {
+  readonly omgRoot: string
+  readonly totalNodes: number
+  readonly activeNodes: number
+  readonly archivedNodes: number
+  /** Active node counts keyed by node type. */
+  readonly byType: Readonly<Partial<Record<NodeType, number>>>
+  readonly bootstrap: BootstrapState | null
+  /** Last successful run per cron job ID (this process only). */
+  readonly cronRuns: readonly { readonly jobId: string; readonly lastRunAt: string }[]
+}
+
+/** Outcome of `omg reindex`. */
+export interface ReindexResult {
+  readonly registeredNodes: number
+  readonly indexedNodes: number
+}
+
+// ---------------------------------------------------------------------------
+// status
+// ---------------------------------------------------------------------------
+
+/**
+ * Collects node counts from the registry, the bootstrap state file, and the
+ * in-process cron health map.
+ */
+export async function getGraphStatus(omgRoot: string): Promise<GraphStatus> {
+  const entries = await getRegistryEntries(omgRoot)
+  const byType: Partial<Record<NodeType, number>> = {}
+  let archivedNodes = 0
+  for (const [, entry] of entries) {
+    if (entry.archived) {
+      archivedNodes++
+      continue
+    }
+    byType[entry.type] = (byType[entry.type] ?? 0) + 1
+  }
+
+  const bootstrap = await readBootstrapState(omgRoot)
+  const cronRuns = [...getCronHealthSummary()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([jobId, ts]) => ({ jobId, lastRunAt: new Date(ts).toISOString() }))
+
+  return {
+    omgRoot,
+    totalNodes: entries.length,
+    activeNodes: entries.length - archivedNodes,
+    archivedNodes,
+    byType,
+    bootstrap,
+    cronRuns,
+  }
+}
+
+/** Renders a {@link GraphStatus} as human-readable CLI output. */
+export function formatGraphStatus(status: GraphStatus): string {
+  const lines = [
+    `OMG graph: ${status.omgRoot}`,
+    `Nodes: ${status.activeNodes} active, ${status.archivedNodes} archived (${status.totalNodes} total)`,
+  ]
+
+  const types = Object.entries(status.byType).sort(([a], [b]) => a.localeCompare(b))
+  for (const [type, count] of types) {
+    lines.push(`  ${type}: ${count}`)
+  }
+
+  const bs = status.bootstrap
+  if (bs === null) {
+    lines.push('Bootstrap: not started')
+  } else {
+    lines.push(
+      `Bootstrap: ${bs.status} — ${bs.done.length > 0 ? bs.done.length : bs.cursor}/${bs.total} batches, ` +
+        `${bs.ok} ok / ${bs.fail} failed chunks, maintenance ${bs.maintenanceDone ? 'done' : 'pending'} ` +
+        `(updated ${bs.updatedAt})`
+    )
+    if (bs.lastError) lines.push(`  last error: ${bs.lastError}`)
+  }
+
+  if (status.cronRuns.length === 0) {
+    lines.push('Cron: no runs recorded in this process')
+  } else {
+    lines.push('Cron (last successful run):')
+    for (const run of status.cronRuns) {
+      lines.push(`  ${run.jobId}: ${run.lastRunAt}`)
+    }
+  }
+
+  return lines.join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// search / show
+// ---------------------------------------------------------------------------
+
+/** Renders `omg search` hits, one per line. */
+export function formatSearchHits(query: string, hits: readonly OmgSearchHit[]): string {
+  if (hits.length === 0) return `No nodes matched "${query}".`
+  return hits
+    .map((h) => `${h.score.toFixed(2)}  ${h.id}  [${h.type}, ${h.priority}]  ${h.description}`)
+    .join('\n')
+}
+
+/** Renders a full node for `omg show`: key frontmatter fields followed by the body. */
+export function formatNodeDetail(node: GraphNode): string {
+  const fm = node.frontmatter
+  const lines = [
+    `${fm.id}`,
+    `  description: ${fm.description}`,
+    `  type: ${fm.type}   priority: ${fm.priority}${fm.archived ? '   ARCHIVED' : ''}`,
+    `  created: ${fm.created}   updated: ${fm.updated}`,
+    ...(fm.canonicalKey ? [`  canonicalKey: ${fm.canonicalKey}`] : []),
+    ...(fm.aliases && fm.aliases.length > 0 ? [`  aliases: ${fm.aliases.join(', ')}`] : []),
+    ...(fm.tags && fm.tags.length > 0 ? [`  tags: ${fm.tags.join(', ')}`] : []),
+    ...(fm.links && fm.links.length > 0 ? [`  links: ${fm.links.join(', ')}`] : []),
+    ...(fm.mergedInto ? [`  mergedInto: ${fm.mergedInto}`] : []),
+    ...(fm.validFrom || fm.validUntil
+      ? [`  valid: ${fm.validFrom ?? '…'} → ${fm.validUntil ?? '…'}`]
+      : []),
+    `  file: ${node.filePath}`,
+    '',
+    node.body.trim(),
+  ]
+  return lines.join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// reindex
+// ---------------------------------------------------------------------------
+
+/**
+ * Rebuilds the registry from a full disk scan, then regenerates `index.md`
+ * with the current count of active knowledge nodes.
+ */
+export async function reindexGraph(omgRoot: string): Promise<ReindexResult> {
+  const data = await rebuildRegistry(omgRoot)
+  const all = Object.values(data.nodes)
+  const indexedNodes = all.filter((e) => !e.archived && e.type !== 'moc').length
+  await regenerateIndex(omgRoot, indexedNodes)
+  return { registeredNodes: all.length, indexedNodes }
+}
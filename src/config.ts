@@ -139,6 +139,28 @@ const reflectorSchema = z
   })
   .strip()
 
+/**
+ * Controls which tool calls and results are passed to the Observer.
+ * Tool names match exactly, or by prefix with a trailing `*` (e.g. `calendar_*`).
+ */
+const observationToolsSchema = z
+  .object({
+    /** Pass tool calls and results to the Observer as `tool` messages. @default true */
+    enabled: z.boolean().default(true),
+    /** Tools to observe. Empty = every tool not in `deny`. @default [] */
+    allow: z.array(z.string().min(1)).default([]),
+    /**
+     * Tools never observed. Takes precedence over `allow`. Defaults to the
+     * memory tools, whose output is already in the graph.
+     */
+    deny: z
+      .array(z.string().min(1))
+      .default(['memory_search', 'memory_get', 'omg_search', 'omg_get', 'omg_remember']),
+    /** Tool call arguments and results are truncated to this many characters. @default 4000 */
+    maxChars: z.number().int().positive('maxChars must be a positive integer').default(4_000),
+  })
+  .strip()
+
 /**
  * Controls when the Observer agent runs during a conversation.
  * The Observer is triggered automatically based on `triggerMode`.
@@ -162,6 +184,8 @@ const observationSchema = z
      * - "manual" — only when explicitly invoked via the observational-memory-graph skill
      */
     triggerMode: z.enum(['threshold', 'every-turn', 'manual']).default('threshold'),
+    /** Tool call and result observation. */
+    tools: observationToolsSchema.default({}),
   })
   .strip()
 
@@ -223,6 +247,40 @@ const clusteringSchema = z
   })
   .strip()
 
+/**
+ * Controls the reflection hierarchy: clustered reflections of each domain are
+ * rolled into weekly, weekly into monthly and monthly into yearly reflections
+ * by the graph-maintenance job.
+ */
+const hierarchySchema = z
+  .object({
+    /**
+     * Write weekly, monthly and yearly rollups during graph maintenance.
+     * @default true
+     */
+    enabled: z.boolean().default(true),
+    /**
+     * Periods with fewer child reflections than this are not rolled up; their
+     * children are rolled into the next coarser level instead.
+     * @default 2
+     */
+    minChildren: z
+      .number()
+      .int()
+      .min(2, 'reflection.hierarchy.minChildren must be at least 2')
+      .default(2),
+    /**
+     * Maximum number of rollups written per maintenance run (one LLM call each).
+     * @default 10
+     */
+    maxRollupsPerRun: z
+      .number()
+      .int()
+      .positive('reflection.hierarchy.maxRollupsPerRun must be a positive integer')
+      .default(10),
+  })
+  .strip()
+
 /**
  * Controls scheduling parameters for the Reflector agent's reflection passes.
  * A reflection pass is triggered when either condition is met:
@@ -267,6 +325,8 @@ const reflectionSchema = z
       .default({}),
     /** Cluster-first reflection configuration. */
     clustering: clusteringSchema.default({}),
+    /** Weekly, monthly and yearly rollups of clustered reflections. */
+    hierarchy: hierarchySchema.default({}),
   })
   .strip()
 
@@ -393,6 +453,40 @@ const injectionSchema = z
       .min(1, 'injection.nowNodeMaxLinks must be at least 1')
       .max(50, 'injection.nowNodeMaxLinks must be at most 50')
       .default(10),
+    /**
+     * How selected nodes are disclosed within `maxContextTokens`.
+     * "graded" — top nodes render in full; ranked nodes that do not fit (or fall
+     *   past `maxNodes`) degrade to description + wikilink summaries, then to a
+     *   wikilink outline, so the same budget covers more of the graph.
+     * "full" — only full node bodies; nodes that do not fit are dropped.
+     * @default "graded"
+     */
+    renderMode: z.enum(['graded', 'full']).default('graded'),
+    /** Maximum nodes rendered as summaries in "graded" mode. */
+    maxSummaryNodes: z
+      .number()
+      .int()
+      .min(0, 'injection.maxSummaryNodes must be >= 0')
+      .max(50, 'injection.maxSummaryNodes must be <= 50')
+      .default(5),
+    /** Maximum nodes listed in the outline in "graded" mode. */
+    maxOutlineNodes: z
+      .number()
+      .int()
+      .min(0, 'injection.maxOutlineNodes must be >= 0')
+      .max(100, 'injection.maxOutlineNodes must be <= 100')
+      .default(10),
+    /**
+     * Which nodes an agent sees when several agents share one workspace graph.
+     * Nodes record their writing agents in `agents`; nodes without owners
+     * (bootstrap, legacy) are visible to everyone under every policy.
+     *   - "shared": every agent sees every node.
+     *   - "private": agents see only their own nodes and unowned nodes.
+     *   - "private-with-shared-identity": as "private", but identity nodes
+     *     written by any agent are visible to all.
+     * @default "shared"
+     */
+    agentVisibility: z.enum(['shared', 'private', 'private-with-shared-identity']).default('shared'),
     /** Semantic boosting layer — integrates OpenClaw's memory_search tool. */
     semantic: semanticSchema.default({}),
     /** Graph-structure expansion — traverses adjacency to find related nodes. */
@@ -428,6 +522,12 @@ const semanticDedupSchema = z
   .object({
     /** Enable semantic dedup. When false, the pass is skipped entirely. */
     enabled: z.boolean().default(true),
+    /**
+     * What happens to suggestions above `semanticMergeThreshold`:
+     * - "auto" — merged immediately (default)
+     * - "review" — queued in `.dedup-review.jsonl` for `omg dedup review` / `omg dedup apply`
+     */
+    mode: z.enum(['auto', 'review']).default('auto'),
     /**
      * Heuristic pre-filter threshold for candidate blocks. Lower than literal
      * dedup's threshold to catch near-misses. Range [0, 1].
@@ -542,6 +642,38 @@ const metricsSchema = z
   })
   .strip()
 
+// ---------------------------------------------------------------------------
+// Embedding schema
+// ---------------------------------------------------------------------------
+
+/**
+ * Controls the local embedding index used in place of OpenClaw's memory_search
+ * tool when the host does not provide it. Vectors are cached in
+ * `{omgRoot}/.vectors.json` and also feed semantic dedup candidate blocking.
+ */
+const embeddingSchema = z
+  .object({
+    /**
+     * Built-in provider for the local fallback.
+     * "hashed-ngram" — dependency-free hashed character trigram vectors.
+     * "none" — no local fallback; scoring is registry-only without memory_search.
+     * @default "hashed-ngram"
+     */
+    provider: z.enum(['hashed-ngram', 'none']).default('hashed-ngram'),
+    /**
+     * Vector length for the hashed-ngram provider. Changing it re-embeds all nodes.
+     * Range [64, 4096].
+     * @default 256
+     */
+    dimensions: z
+      .number()
+      .int()
+      .min(64, 'embedding.dimensions must be >= 64')
+      .max(4096, 'embedding.dimensions must be <= 4096')
+      .default(256),
+  })
+  .strip()
+
 // ---------------------------------------------------------------------------
 // Bootstrap schema
 // ---------------------------------------------------------------------------
@@ -667,6 +799,12 @@ const mergeSchema = z
       .min(0, 'merge.mergeThreshold must be >= 0')
       .max(1, 'merge.mergeThreshold must be <= 1')
       .default(0.4),
+    /**
+     * Run the contradiction check for identity, preference and decision candidates
+     * that have close neighbors under a different canonical key. Costs one extra
+     * LLM call per such candidate.
+     */
+    contradictionCheck: z.boolean().default(true),
   })
   .strip()
 
@@ -674,6 +812,65 @@ const mergeSchema = z
 // Graph maintenance schema
 // ---------------------------------------------------------------------------
 
+/**
+ * LLM-written domain summaries at the top of each MOC page, refreshed by the
+ * graph-maintenance job.
+ */
+const mocSummariesSchema = z
+  .object({
+    /**
+     * Write and refresh MOC summaries during graph maintenance.
+     * @default false
+     */
+    enabled: z.boolean().default(false),
+    /**
+     * Domains with fewer live nodes than this get no summary.
+     * @default 5
+     */
+    minNodes: z.number().int().positive('graphMaintenance.mocSummaries.minNodes must be a positive integer').default(5),
+    /**
+     * Share of the membership at the last summary that must have been added
+     * or removed before the summary is rewritten.
+     * @default 0.2
+     */
+    refreshRatio: z.number().positive().max(1).default(0.2),
+  })
+  .strip()
+
+/**
+ * Discovery of new domains among nodes filed under catch-all domains,
+ * run by the graph-maintenance job.
+ */
+const domainDiscoverySchema = z
+  .object({
+    /**
+     * Create domain MOCs for tag clusters found in `sourceDomains`.
+     * @default true
+     */
+    enabled: z.boolean().default(true),
+    /**
+     * Domains whose nodes count as under-organized. `misc` is where
+     * nodes with no MOC link and no known key prefix land.
+     * @default ["misc", "facts"]
+     */
+    sourceDomains: z.array(z.string().min(1)).default(['misc', 'facts']),
+    /**
+     * Smallest cluster that becomes its own domain.
+     * @default 5
+     */
+    minClusterSize: z
+      .number()
+      .int()
+      .min(2, 'graphMaintenance.domainDiscovery.minClusterSize must be at least 2')
+      .default(5),
+    /**
+     * Most domains created or extended per maintenance run.
+     * @default 3
+     */
+    maxDomainsPerRun: z.number().int().positive().default(3),
+  })
+  .strip()
+
 /**
  * Controls the combined graph-maintenance cron that runs semantic dedup
  * followed by a reflection pass on the cleaned graph.
@@ -697,9 +894,58 @@ const graphMaintenanceSchema = z
       .int()
       .positive('graphMaintenance.archivedNodeRetentionDays must be a positive integer')
       .default(7),
+    /**
+     * Number of pre-run snapshots kept in `{omgRoot}/.snapshots/` for
+     * `omg rollback`. Each maintenance run that changes the graph stores the
+     * prior contents of the files it touched. 0 disables snapshots.
+     * @default 10
+     */
+    snapshotRetention: z
+      .number()
+      .int()
+      .nonnegative('graphMaintenance.snapshotRetention must be a non-negative integer')
+      .default(10),
+    mocSummaries: mocSummariesSchema.default({}),
+    domainDiscovery: domainDiscoverySchema.default({}),
   })
   .strip()
 
+/** Fields shared by every configured bootstrap source adapter. */
+const sourceAdapterBaseShape = {
+  /**
+   * Directory to read. `~/` expands to the home directory; relative paths
+   * resolve against the workspace directory.
+   */
+  path: z.string().min(1, 'source adapter path must not be empty'),
+  /**
+   * Label prefix for every entry the adapter produces. Keep it stable —
+   * labels key resume, failure-log retry and incremental source hashes.
+   * Defaults to the directory's basename.
+   */
+  name: z.string().min(1).optional(),
+  /**
+   * Globs (relative to `path`) a file must match to be read. `**` spans
+   * directories; a pattern without `/` matches the file name at any depth.
+   */
+  include: z.array(z.string().min(1)).optional(),
+  /** Globs (relative to `path`) of files to skip, checked after `include`. */
+  exclude: z.array(z.string().min(1)).default([]),
+}
+
+/**
+ * A pluggable bootstrap source. `kind` selects the built-in adapter:
+ * - `markdown-dir` — any markdown tree, e.g. an Obsidian vault (default include `**\/*.md`,
+ *   `.obsidian/` and `.trash/` always skipped)
+ * - `conversation-export` — ChatGPT or Claude `conversations.json` exports, one entry per conversation
+ *   (default include `**\/*.json`)
+ * - `jsonl-messages` — one `{ role, content }` message per line (default include `**\/*.jsonl`)
+ */
+const sourceAdapterSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('markdown-dir'), ...sourceAdapterBaseShape }).strip(),
+  z.object({ kind: z.literal('conversation-export'), ...sourceAdapterBaseShape }).strip(),
+  z.object({ kind: z.literal('jsonl-messages'), ...sourceAdapterBaseShape }).strip(),
+])
+
 /**
  * Controls which data sources are used during the cold-start bootstrap pass.
  * Bootstrap ingests historical data once (state machine guards re-runs) to populate
@@ -729,6 +975,12 @@ const bootstrapSourcesSchema = z
      * @default false
      */
     openclawLogs: z.boolean().default(false),
+    /**
+     * Additional sources read through the built-in adapters. Each entry is
+     * ingested alongside the sources above.
+     * @default []
+     */
+    adapters: z.array(sourceAdapterSchema).default([]),
   })
   .strip()
 
@@ -748,6 +1000,17 @@ const bootstrapSchema = z
       .int()
       .min(0, 'batchCharBudget must be >= 0')
       .default(24_000),
+    /**
+     * Characters of trailing context repeated at the start of the next chunk
+     * when a source is split. Only whole paragraphs / log records are carried
+     * over, and at most half the chunk budget. 0 disables overlap.
+     * @default 0
+     */
+    chunkOverlapChars: z
+      .number()
+      .int()
+      .min(0, 'chunkOverlapChars must be >= 0')
+      .default(0),
     /**
      * Maximum number of batches processed per cron tick.
      * Controls the token budget per bootstrap tick — the cron handler processes
@@ -760,6 +1023,24 @@ const bootstrapSchema = z
       .int()
       .positive('batchBudgetPerRun must be a positive integer')
       .default(20),
+    /**
+     * After the bootstrap completes, keep checking workspace-memory, SQLite and
+     * adapter sources for new or changed content (by content hash) and ingest
+     * only those. Session logs are not re-read. Set to false to bootstrap once.
+     * @default true
+     */
+    incremental: z.boolean().default(true),
+    /**
+     * Minimum minutes between incremental rescans. A rescan reads and hashes
+     * every source, so the cron job skips ticks until this much time has
+     * passed since the last one. `omg bootstrap` always rescans.
+     * @default 60
+     */
+    incrementalIntervalMinutes: z
+      .number()
+      .int()
+      .positive('incrementalIntervalMinutes must be a positive integer')
+      .default(60),
     /**
      * 5-field cron schedule for the bootstrap cron job.
      * Example: `*​/5 * * * *` runs every 5 minutes.
@@ -769,6 +1050,198 @@ const bootstrapSchema = z
   })
   .strip()
 
+/** Per-request timeout for a backend, same bounds as `observer.timeoutMs`. */
+const backendTimeoutField = z
+  .number()
+  .int()
+  .min(5_000, 'timeoutMs must be at least 5000 (5 seconds)')
+  .max(600_000, 'timeoutMs must be at most 600000 (10 minutes)')
+  .optional()
+
+/**
+ * One named LLM backend:
+ * - `gateway` — the OpenClaw gateway (or the host's `api.generate`), optionally pinned to a model
+ * - `openai-compatible` — any `/chat/completions` API: OpenAI, OpenRouter, or a local
+ *   Ollama (`http://127.0.0.1:11434/v1`) / llama.cpp server
+ */
+const llmBackendSchema = z.discriminatedUnion('kind', [
+  z
+    .object({
+      kind: z.literal('gateway'),
+      /** Model override. Defaults to `observer.model`. */
+      model: z.string().min(1).optional(),
+      timeoutMs: backendTimeoutField,
+    })
+    .strip(),
+  z
+    .object({
+      kind: z.literal('openai-compatible'),
+      /** API base URL including the version segment, e.g. `https://api.openai.com/v1`. */
+      baseUrl: z.string().url('baseUrl must be a valid URL'),
+      model: z.string().min(1, 'model must not be empty'),
+      /** Bearer token. Prefer `apiKeyEnv` to keep secrets out of the config file. */
+      apiKey: z.string().min(1).optional(),
+      /** Name of an environment variable holding the bearer token. */
+      apiKeyEnv: z.string().min(1).optional(),
+      timeoutMs: backendTimeoutField,
+    })
+    .strip(),
+])
+
+/** Ordered backend names for one role; later entries are fallbacks. */
+const backendChainField = z.array(z.string().min(1)).min(1, 'a routing chain needs at least one backend').optional()
+
+/**
+ * Which backends serve each LLM role. A role without a chain uses the
+ * default observer client, as before backends existed.
+ */
+const llmRoutingSchema = z
+  .object({
+    /** Extraction (agent_end, before_compaction, bootstrap). */
+    observer: backendChainField,
+    /** Reflection passes in graph maintenance. */
+    reflector: backendChainField,
+    /** Merge and contradiction decisions during observation. */
+    merge: backendChainField,
+    /** LLM dedup and semantic dedup in graph maintenance. */
+    dedup: backendChainField,
+  })
+  .strip()
+
+/**
+ * On-disk LLM response cache under `{omgRoot}/.llm-cache`. Identical calls
+ * (model, prompts, maxTokens, response schema) are answered from disk.
+ * `OMG_LLM_CACHE=off` bypasses it regardless of this setting.
+ */
+const llmCacheSchema = z
+  .object({
+    /** @default false */
+    enabled: z.boolean().default(false),
+    /**
+     * Hours before a cached response expires.
+     * @default 168 (7 days)
+     */
+    ttlHours: z
+      .number()
+      .positive('llm.cache.ttlHours must be positive')
+      .max(8_760, 'llm.cache.ttlHours must be at most 8760 (1 year)')
+      .default(168),
+    /**
+     * Size cap for the cache directory in megabytes. The oldest entries are
+     * evicted first.
+     * @default 50
+     */
+    maxSizeMb: z
+      .number()
+      .positive('llm.cache.maxSizeMb must be positive')
+      .default(50),
+  })
+  .strip()
+
+/**
+ * Process-wide LLM scheduler shared by agent-turn observation, compaction,
+ * graph maintenance and bootstrap.
+ */
+const llmSchedulerSchema = z
+  .object({
+    /**
+     * Maximum LLM calls in flight at once across all callers.
+     * @default 2
+     */
+    maxConcurrency: z
+      .number()
+      .int('llm.scheduler.maxConcurrency must be an integer')
+      .min(1, 'llm.scheduler.maxConcurrency must be at least 1')
+      .max(16, 'llm.scheduler.maxConcurrency must be at most 16')
+      .default(2),
+    /**
+     * Maintenance and bootstrap calls wait until no prompt has been built for
+     * this long, so background work backs off while users are chatting.
+     * 0 disables the backoff.
+     * @default 60000 (1 minute)
+     */
+    backgroundIdleMs: z
+      .number()
+      .int('llm.scheduler.backgroundIdleMs must be an integer')
+      .min(0, 'llm.scheduler.backgroundIdleMs must be >= 0')
+      .default(60_000),
+    /**
+     * A call queued this long starts next whatever its class, so background
+     * work still runs during long chats or under steady hook traffic.
+     * 0 disables aging.
+     * @default 600000 (10 minutes)
+     */
+    maxWaitMs: z
+      .number()
+      .int('llm.scheduler.maxWaitMs must be an integer')
+      .min(0, 'llm.scheduler.maxWaitMs must be >= 0')
+      .default(600_000),
+  })
+  .strip()
+
+const llmObjectSchema = z
+  .object({
+    /** Named backends referenced by `routing`. @default {} */
+    backends: z.record(z.string(), llmBackendSchema).default({}),
+    /**
+     * Per-role backend chains. Each chain is walked in order: a backend that
+     * fails with a rate limit or is unreachable hands the call to the next one.
+     * @default {}
+     */
+    routing: llmRoutingSchema.default({}),
+    /**
+     * Send a JSON schema with extract, merge and reflection calls so that
+     * endpoints supporting `response_format` reply in validated JSON.
+     * Replies in XML are still parsed, so models without support keep working.
+     * @default false
+     */
+    structuredOutput: z.boolean().default(false),
+    /** Response cache. @default { enabled: false } */
+    cache: llmCacheSchema.default({}),
+    /** Concurrency, priorities and user-activity backoff. @default { maxConcurrency: 2 } */
+    scheduler: llmSchedulerSchema.default({}),
+    /**
+     * Daily token budget (input + output, UTC day) per workspace, counted from
+     * the usage ledger. Once spent, background jobs — bootstrap ticks and
+     * graph maintenance — defer until the next day. Agent-turn observation and
+     * operator commands are never blocked. Unset = no budget.
+     */
+    dailyTokenBudget: z
+      .number()
+      .int('llm.dailyTokenBudget must be an integer')
+      .positive('llm.dailyTokenBudget must be positive')
+      .optional(),
+  })
+  .strip()
+
+/**
+ * LLM backend registry, per-role routing, structured-output mode, the
+ * response cache, the scheduler and the daily token budget.
+ */
+const llmSchema = llmObjectSchema.superRefine((llm, ctx) => {
+  for (const [role, chain] of Object.entries(llm.routing)) {
+    for (const name of chain ?? []) {
+      if (!(name in llm.backends)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['routing', role],
+          message: `llm.routing.${role} references unknown backend "${name}"`,
+        })
+      }
+    }
+  }
+})
+
+/**
+ * Price of one model in USD per million tokens. Used for cost estimates only.
+ */
+const modelPriceSchema = z
+  .object({
+    inputPerMTok: z.number().nonnegative('inputPerMTok must be >= 0'),
+    outputPerMTok: z.number().nonnegative('outputPerMTok must be >= 0'),
+  })
+  .strip()
+
 // ---------------------------------------------------------------------------
 // Root config schema
 // ---------------------------------------------------------------------------
@@ -795,6 +1268,15 @@ export const omgConfigSchema = z
     metrics: metricsSchema.default({}),
     semanticDedup: semanticDedupSchema.default({}),
     extractionGuardrails: extractionGuardrailsSchema.default({}),
+    embedding: embeddingSchema.default({}),
+    llm: llmSchema.default({}),
+    /**
+     * Optional price table keyed by model name, e.g.
+     * `{ "claude-sonnet-4": { "inputPerMTok": 3, "outputPerMTok": 15 } }`.
+     * `omg bootstrap --dry-run` prices its token estimate for every listed model.
+     * @default {}
+     */
+    pricing: z.record(z.string(), modelPriceSchema).default({}),
     /**
      * Absolute path to the workspace root directory.
      * When provided, overrides the value supplied by the OpenClaw host API.
@@ -874,6 +1356,8 @@ const SUB_SCHEMA_SHAPES: Record<string, ReadonlySet<string>> = {
   metrics: new Set(Object.keys(metricsSchema.shape)),
   semanticDedup: new Set(Object.keys(semanticDedupSchema.shape)),
   extractionGuardrails: new Set(Object.keys(extractionGuardrailsSchema.shape)),
+  embedding: new Set(Object.keys(embeddingSchema.shape)),
+  llm: new Set(Object.keys(llmObjectSchema.shape)),
 }
 
 /**
@@ -885,6 +1369,14 @@ const SUB_SUB_SCHEMA_SHAPES: Record<string, ReadonlySet<string>> = {
   'injection.graph': new Set(Object.keys(graphSchema.shape)),
   'reflection.clustering': new Set(Object.keys(clusteringSchema.shape)),
   'reflection.clustering.consolidation': new Set(Object.keys(consolidationSchema.shape)),
+  'reflection.hierarchy': new Set(Object.keys(hierarchySchema.shape)),
+  'bootstrap.sources': new Set(Object.keys(bootstrapSourcesSchema.shape)),
+  'llm.routing': new Set(Object.keys(llmRoutingSchema.shape)),
+  'llm.cache': new Set(Object.keys(llmCacheSchema.shape)),
+  'llm.scheduler': new Set(Object.keys(llmSchedulerSchema.shape)),
+  'observation.tools': new Set(Object.keys(observationToolsSchema.shape)),
+  'graphMaintenance.mocSummaries': new Set(Object.keys(mocSummariesSchema.shape)),
+  'graphMaintenance.domainDiscovery': new Set(Object.keys(domainDiscoverySchema.shape)),
 }
 
 /**
@@ -0,0 +1,288 @@
+/**
+ * embeddings.ts — Local embedding index used when OpenClaw's memory_search
+ * tool is unavailable.
+ *
+ * Defines a pluggable {@link EmbeddingProvider} interface and a built-in,
+ * dependency-free default that hashes character trigrams and words into a
+ * fixed-size vector. Vectors for registry entries (description, canonicalKey,
+ * tags) are cached in `{omgRoot}/.vectors.json` and refreshed lazily whenever
+ * an entry's `updated` timestamp changes.
+ *
+ * {@link createLocalMemoryTools} wraps the index in the same {@link MemoryTools}
+ * interface as the host tools, so the selector's semantic boost and merge
+ * retrieval consume it through `buildSemanticCandidates` unchanged. Semantic
+ * dedup uses {@link syncVectorIndex} directly for candidate blocking.
+ */
+
+import { promises as fs } from 'node:fs'
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { OmgConfig } from '../config.js'
+import type { RegistryNodeEntry } from '../graph/registry.js'
+import { getRegistryEntries } from '../graph/registry.js'
+import type { MemoryTools, MemorySearchResponse, MemoryGetResponse } from './memory-search.js'
+import { atomicWrite, readFileOrNull } from '../utils/fs.js'
+import { fold } from '../utils/string.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Converts text to fixed-length vectors. Implementations must be deterministic. */
+export interface EmbeddingProvider {
+  /**
+   * Stable identifier persisted alongside stored vectors. Changing it (or
+   * `dimensions`) invalidates the vector file and triggers a full re-embed.
+   */
+  readonly id: string
+  readonly dimensions: number
+  embed(texts: readonly string[]): Promise<readonly (readonly number[])[]>
+}
+
+/** Node ID → embedding vector for the current registry entries. */
+export type VectorIndex = ReadonlyMap<string, readonly number[]>
+
+// ---------------------------------------------------------------------------
+// Hashed n-gram provider
+// ---------------------------------------------------------------------------
+
+const NGRAM_SIZE = 3
+
+/** 32-bit FNV-1a hash. */
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+function l2Normalize(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0))
+  return norm === 0 ? v : v.map((x) => x / norm)
+}
+
+/**
+ * Embeds folded text as signed hashed counts of character trigrams and whole
+ * words, L2-normalised. Trigrams give partial credit across inflections
+ * (żona/żony) and typos; whole words keep exact matches dominant.
+ */
+function embedHashedNgrams(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const words = fold(text).split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 0)
+
+  const add = (feature: string): void => {
+    const h = fnv1a(feature)
+    vector[h % dimensions]! += (h & 0x80000000) === 0 ? 1 : -1
+  }
+
+  for (const word of words) {
+    add(`w:${word}`)
+    const padded = ` ${word} `
+    for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+      add(padded.slice(i, i + NGRAM_SIZE))
+    }
+  }
+  return l2Normalize(vector)
+}
+
+/** Creates the built-in hashed character n-gram provider. */
+export function createHashedNgramProvider(dimensions = 256): EmbeddingProvider {
+  return {
+    id: `hashed-ngram-${NGRAM_SIZE}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((t) => embedHashedNgrams(t, dimensions))
+    },
+  }
+}
+
+/**
+ * Returns the embedding provider selected by `config.embedding.provider`,
+ * or null when the local fallback is disabled (`"none"`).
+ */
+export function resolveEmbeddingProvider(config: OmgConfig): EmbeddingProvider | null {
+  switch (config.embedding.provider) {
+    case 'hashed-ngram':
+      return createHashedNgramProvider(config.embedding.dimensions)
+    case 'none':
+      return null
+  }
+}
+
+/** Cosine similarity of two vectors of equal length. Returns 0 for zero vectors. */
+export function cosineSimilarity(a: readonly number[], b: readonly number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  const len = Math.min(a.length, b.length)
+  for (let i = 0; i < len; i++) {
+    const x = a[i]!
+    const y = b[i]!
+    dot += x * y
+    normA += x * x
+    normB += y * y
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / Math.sqrt(normA * normB)
+}
+
+// ---------------------------------------------------------------------------
+// Vector file
+// ---------------------------------------------------------------------------
+
+const VECTOR_FILE_VERSION = 1
+const VECTOR_FILENAME = '.vectors.json'
+/** Decimal places kept when persisting vector components. */
+const VECTOR_PRECISION = 4
+
+const vectorFileSchema = z.object({
+  version: z.literal(VECTOR_FILE_VERSION),
+  provider: z.string(),
+  dimensions: z.number().int().positive(),
+  vectors: z.record(z.object({ updated: z.string(), vector: z.array(z.number()) })),
+}).strip()
+
+type VectorFile = z.infer<typeof vectorFileSchema>
+
+const cache = new Map<string, VectorFile>()
+
+/** Text embedded for a registry entry — the same metadata the keyword index covers. */
+export function embeddingText(entry: RegistryNodeEntry): string {
+  return `${entry.description} ${entry.canonicalKey ?? ''} ${(entry.tags ?? []).join(' ')}`.trim()
+}
+
+async function loadVectorFile(omgRoot: string, provider: EmbeddingProvider): Promise<VectorFile> {
+  const empty: VectorFile = { version: VECTOR_FILE_VERSION, provider: provider.id, dimensions: provider.dimensions, vectors: {} }
+  const cached = cache.get(omgRoot)
+  if (cached) {
+    return cached.provider === provider.id && cached.dimensions === provider.dimensions ? cached : empty
+  }
+
+  const raw = await readFileOrNull(join(omgRoot, VECTOR_FILENAME))
+  if (raw === null) return empty
+  try {
+    const result = vectorFileSchema.safeParse(JSON.parse(raw))
+    if (!result.success) {
+      console.error('[omg] embeddings: .vectors.json failed schema validation — re-embedding')
+      return empty
+    }
+    const file = result.data
+    return file.provider === provider.id && file.dimensions === provider.dimensions ? file : empty
+  } catch {
+    console.error('[omg] embeddings: .vectors.json is not valid JSON — re-embedding')
+    return empty
+  }
+}
+
+/**
+ * Returns vectors for every non-archived entry, embedding only entries that are
+ * new or whose `updated` timestamp changed since they were last embedded.
+ * Vectors for entries no longer present are dropped. The vector file is
+ * rewritten only when something changed; write failures are logged.
+ */
+export async function syncVectorIndex(
+  omgRoot: string,
+  entries: readonly [string, RegistryNodeEntry][],
+  provider: EmbeddingProvider
+): Promise<VectorIndex> {
+  const file = await loadVectorFile(omgRoot, provider)
+  const active = entries.filter(([, e]) => !e.archived)
+
+  const stale = active.filter(([id, e]) => file.vectors[id]?.updated !== e.updated)
+  const embedded = stale.length > 0
+    ? await provider.embed(stale.map(([, e]) => embeddingText(e)))
+    : []
+
+  const factor = 10 ** VECTOR_PRECISION
+  const vectors: VectorFile['vectors'] = {}
+  for (const [id] of active) {
+    const existing = file.vectors[id]
+    if (existing) vectors[id] = existing
+  }
+  stale.forEach(([id, e], i) => {
+    const vector = embedded[i]
+    if (vector) vectors[id] = { updated: e.updated, vector: vector.map((x) => Math.round(x * factor) / factor) }
+  })
+
+  const changed = stale.length > 0 || Object.keys(vectors).length !== Object.keys(file.vectors).length
+  const next: VectorFile = changed ? { ...file, vectors } : file
+  cache.set(omgRoot, next)
+
+  if (changed) {
+    try {
+      await fs.mkdir(omgRoot, { recursive: true })
+      await atomicWrite(join(omgRoot, VECTOR_FILENAME), JSON.stringify(next))
+    } catch (err) {
+      console.error('[omg] embeddings: failed to persist .vectors.json (in-memory copy still current):', err)
+    }
+  }
+
+  return new Map(Object.entries(next.vectors).map(([id, v]) => [id, v.vector]))
+}
+
+/** Clears the in-memory vector cache. Used for testing. */
+export function clearVectorIndexCache(omgRoot?: string): void {
+  if (omgRoot) {
+    cache.delete(omgRoot)
+  } else {
+    cache.clear()
+  }
+}
+
+// ---------------------------------------------------------------------------
+// MemoryTools adapter
+// ---------------------------------------------------------------------------
+
+/** Default number of hits returned by the local memory search. */
+const DEFAULT_MAX_RESULTS = 20
+
+/**
+ * Builds a {@link MemoryTools} implementation backed by the local vector index
+ * for the graph at `omgRoot`. `search` scores the query against every
+ * non-archived node by cosine similarity and returns the top hits with the
+ * node description as snippet; `get` reads a node file under `omgRoot`.
+ *
+ * Both methods return null on failure, matching the host tool wrapper.
+ */
+export function createLocalMemoryTools(
+  omgRoot: string,
+  provider: EmbeddingProvider,
+  maxResults: number = DEFAULT_MAX_RESULTS
+): MemoryTools {
+  return {
+    async search(query: string): Promise<MemorySearchResponse | null> {
+      try {
+        const entries = await getRegistryEntries(omgRoot, { archived: false })
+        const vectors = await syncVectorIndex(omgRoot, entries, provider)
+        const [queryVector] = await provider.embed([query])
+        if (!queryVector) return { results: [] }
+
+        const results = entries
+          .flatMap(([id, entry]) => {
+            const vector = vectors.get(id)
+            if (!vector) return []
+            const score = cosineSimilarity(queryVector, vector)
+            return score > 0 ? [{ filePath: entry.filePath, score, snippet: entry.description }] : []
+          })
+          .sort((a, b) => b.score - a.score)
+          .slice(0, maxResults)
+        return { results }
+      } catch (err) {
+        console.error('[omg] embeddings: local memory search failed:', err)
+        return null
+      }
+    },
+
+    async get(filePath: string): Promise<MemoryGetResponse | null> {
+      if (!filePath.startsWith(`${omgRoot}/`)) return null
+      try {
+        const content = await readFileOrNull(filePath)
+        return content === null ? null : { filePath, content }
+      } catch {
+        return null
+      }
+    },
+  }
+}
@@ -21,6 +21,12 @@ import type { GraphContextSlice, GraphNode } from '../types.js'
  * ### {node description}
  * {node body}
  * ...
+ *
+ * ## Related Notes        ← summary tier; omitted when empty
+ * - [[{id}]] ({type}) — {description}
+ *
+ * ## More in Memory       ← outline tier; omitted when empty
+ * - {type}: [[{id}]], [[{id}]]
  * </omg-context>
  * ```
  */
@@ -42,13 +48,46 @@ export function renderContextBlock(slice: GraphContextSlice): string {
     sections.push(`## Relevant Knowledge\n${rendered}`)
   }
 
+  // Graded disclosure tiers
+  const summaryNodes = slice.summaryNodes ?? []
+  if (summaryNodes.length > 0) {
+    sections.push(`## Related Notes\n${summaryNodes.map(renderSummaryLine).join('\n')}`)
+  }
+
+  const outlineNodes = slice.outlineNodes ?? []
+  if (outlineNodes.length > 0) {
+    sections.push(`## More in Memory\n${renderOutline(outlineNodes)}`)
+  }
+
   return `<omg-context>\n${sections.join('\n\n')}\n</omg-context>`
 }
 
+/** Summary-tier line for a node: wikilink, type, and description. */
+export function renderSummaryLine(node: GraphNode): string {
+  const { id, description, type } = node.frontmatter
+  return `- [[${id}]] (${type}) — ${description}`
+}
+
+/** Outline-tier wikilink for a node, as it appears in the grouped outline. */
+export function renderOutlineLink(node: GraphNode): string {
+  return `[[${node.frontmatter.id}]]`
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Groups outline nodes by type, preserving rank order within each group. */
+function renderOutline(nodes: readonly GraphNode[]): string {
+  const byType = new Map<string, string[]>()
+  for (const node of nodes) {
+    const links = byType.get(node.frontmatter.type) ?? []
+    links.push(renderOutlineLink(node))
+    byType.set(node.frontmatter.type, links)
+  }
+  return [...byType].map(([type, links]) => `- ${type}: ${links.join(', ')}`).join('\n')
+}
+
 function renderNode(node: GraphNode): string {
   const { id, description, type, priority } = node.frontmatter
   const meta = `<!-- ${id} | ${type} | ${priority} -->`
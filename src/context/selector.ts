@@ -1,11 +1,19 @@
 import type { OmgConfig } from '../config.js'
 import type { GraphNode, GraphContextSlice, Message } from '../types.js'
 import type { RegistryNodeEntry } from '../graph/registry.js'
+import type { KeywordIndex } from '../graph/keyword-index.js'
 import type { MemoryTools, SemanticCandidate } from './memory-search.js'
 import { buildSearchQuery, buildSemanticCandidates } from './memory-search.js'
 import { estimateTokens } from '../utils/tokens.js'
+import { renderSummaryLine, renderOutlineLink } from './renderer.js'
+import { fold } from '../utils/string.js'
 import { emitMetric } from '../metrics/index.js'
 import { getNeighbors } from '../graph/traversal.js'
+import { isValidAt } from '../graph/validity.js'
+import { isVisibleToAgent } from './visibility.js'
+import { reflectionLevelRank } from '../types.js'
+
+export { fold }
 
 // ---------------------------------------------------------------------------
 // Public API
@@ -32,7 +40,9 @@ export interface SelectionParams {
  *   3. Score and rank each group
  *   4. Enforce maxMocs / maxNodes counts
  *   5. Force-include pinned nodes
- *   6. Enforce token budget (drop lowest-scored nodes first)
+ *   6. Enforce token budget (drop lowest-scored nodes first); when the ranked
+ *      nodes overflow it, reflections are collapsed into their coarsest ranked
+ *      rollup (see {@link preferCoarseReflections})
  */
 export function selectContext(params: SelectionParams): GraphContextSlice {
   const { indexContent, nowContent, allNodes, recentMessages, config } = params
@@ -71,15 +81,24 @@ export function selectContext(params: SelectionParams): GraphContextSlice {
   const selectedMocs = fitInBudget(scoredMocs, budget / 2)
   budget -= selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
 
-  const selectedNonPinned = fitInBudget(nonPinned, budget)
+  const selectedNonPinned = fitInBudget(preferCoarseReflections(nonPinned, budget), budget)
   const selectedNodes = [...pinnedNodes, ...selectedNonPinned]
+  budget -= selectedNonPinned.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+
+  const tiers = selectDegradedTiers(
+    scoredRegular.filter((n) => !pinnedIdSet.has(n.frontmatter.id)),
+    selectedNodes,
+    budget,
+    injection
+  )
 
   // Compute estimated tokens
   const estTokens =
     estimateTokens(indexContent) +
     (nowContent !== null ? estimateTokens(nowContent) : 0) +
     selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
-    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
+    tiers.tokens
 
   const nowNode = nowContent !== null
     ? buildNowNode(nowContent)
@@ -90,6 +109,7 @@ export function selectContext(params: SelectionParams): GraphContextSlice {
     nowNode,
     mocs: selectedMocs,
     nodes: selectedNodes,
+    ...tiers.slice,
     estimatedTokens: estTokens,
   }
 }
@@ -126,12 +146,26 @@ export interface SelectionParamsV2 {
    * When null/undefined, graph expansion is skipped.
    */
   readonly omgRoot?: string | null
+  /**
+   * Optional persistent keyword index built from the same registry entries.
+   * When provided, high-DF stopwords and Pass 1 keyword scores come from the
+   * index (BM25) instead of rescanning every entry's metadata.
+   */
+  readonly keywordIndex?: KeywordIndex | null
+  /**
+   * Agent the context is built for. Entries owned by other agents are dropped
+   * according to `config.injection.agentVisibility`.
+   */
+  readonly agentId?: string | null
 }
 
 /**
  * Two-pass context selector using the registry for Pass 1, with optional
  * semantic boosting via OpenClaw's memory_search tool.
  *
+ * Entries whose `validFrom`/`validUntil` window excludes the current time, or
+ * that the agent visibility policy hides from `agentId`, are dropped before scoring.
+ *
  * Pass 1 (no I/O): Score all registry entries by priority, recency, and
  * description/tags keyword match. Select top `MAX_HYDRATION_CANDIDATES`.
  * If `memoryTools` is provided and `config.injection.semantic.enabled` is true,
@@ -142,17 +176,26 @@ export interface SelectionParamsV2 {
  * Apply budget and count limits to produce the final slice.
  */
 export async function selectContextV2(params: SelectionParamsV2): Promise<GraphContextSlice> {
-  const { indexContent, nowContent, registryEntries, recentMessages, config, hydrateNode, memoryTools, omgRoot } = params
+  const { indexContent, nowContent, recentMessages, config, hydrateNode, memoryTools, omgRoot, keywordIndex, agentId } = params
   const { injection } = config
 
-  const idfStopwords = buildHighDfTokens(registryEntries)
+  // Nodes outside their validity window, or private to another agent, are
+  // invisible to every pass below.
+  const nowMs = Date.now()
+  const registryEntries = params.registryEntries.filter(([, entry]) =>
+    isValidAt(entry, nowMs) && isVisibleToAgent(entry, agentId, injection.agentVisibility)
+  )
+
+  const idfStopwords = keywordIndex
+    ? keywordIndex.highDfTerms(HIGH_DF_THRESHOLD)
+    : buildHighDfTokens(registryEntries)
   const keywords = extractKeywords(recentMessages, idfStopwords)
 
   // --- Pass 1: metadata-only scoring (+ optional parallel memory_search) ---
   const shouldUseSemantic = memoryTools != null && injection.semantic.enabled
 
   const [scoredEntries, semanticCandidates] = await Promise.all([
-    Promise.resolve(scoreRegistryEntries(registryEntries, keywords)),
+    Promise.resolve(scoreRegistryEntries(registryEntries, keywords, keywordIndex)),
     shouldUseSemantic
       ? runMemorySearch(memoryTools!, injection.semantic.maxResults, injection.semantic.minScore, recentMessages, nowContent, keywords)
       : Promise.resolve([] as readonly SemanticCandidate[]),
@@ -327,18 +370,34 @@ function selectContextPreSorted(params: {
   const selectedMocs = fitInBudget(sortedMocs, budget / 2)
   budget -= selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
 
-  const selectedNonPinned = fitInBudget(nonPinned, budget)
+  const selectedNonPinned = fitInBudget(preferCoarseReflections(nonPinned, budget), budget)
   const selectedNodes = [...pinnedNodes, ...selectedNonPinned]
+  budget -= selectedNonPinned.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+
+  const tiers = selectDegradedTiers(
+    hydratedRegular.filter((n) => !pinnedIdSet.has(n.frontmatter.id)),
+    selectedNodes,
+    budget,
+    injection
+  )
 
   const estTokens =
     estimateTokens(indexContent) +
     (nowContent !== null ? estimateTokens(nowContent) : 0) +
     selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
-    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
+    tiers.tokens
 
   const nowNode = nowContent !== null ? buildNowNode(nowContent) : null
 
-  return { index: indexContent, nowNode, mocs: selectedMocs, nodes: selectedNodes, estimatedTokens: estTokens }
+  return {
+    index: indexContent,
+    nowNode,
+    mocs: selectedMocs,
+    nodes: selectedNodes,
+    ...tiers.slice,
+    estimatedTokens: estTokens,
+  }
 }
 
 /**
@@ -385,14 +444,23 @@ function selectContextWithSemanticBoost(params: {
   const selectedMocs = fitInBudget(scoredMocs, budget / 2)
   budget -= selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
 
-  const selectedNonPinned = fitInBudget(nonPinned, budget)
+  const selectedNonPinned = fitInBudget(preferCoarseReflections(nonPinned, budget), budget)
   const selectedNodes = [...pinnedNodes, ...selectedNonPinned]
+  budget -= selectedNonPinned.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+
+  const tiers = selectDegradedTiers(
+    scoredRegular.filter((n) => !pinnedIdSet.has(n.frontmatter.id)),
+    selectedNodes,
+    budget,
+    injection
+  )
 
   const estTokens =
     estimateTokens(indexContent) +
     (nowContent !== null ? estimateTokens(nowContent) : 0) +
     selectedMocs.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
-    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+    selectedNodes.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0) +
+    tiers.tokens
 
   const nowNode = nowContent !== null ? buildNowNode(nowContent) : null
 
@@ -401,6 +469,7 @@ function selectContextWithSemanticBoost(params: {
     nowNode,
     mocs: selectedMocs,
     nodes: selectedNodes,
+    ...tiers.slice,
     estimatedTokens: estTokens,
   }
 }
@@ -459,24 +528,42 @@ function mergeSemantic(
     .map(({ entry }) => entry)
 }
 
-function scoreRegistryEntries(
+/**
+ * Ranks registry entries by priority × recency × metadata keyword match.
+ * Shared by the context selector (Pass 1) and the agent-callable `omg_search` tool.
+ *
+ * With a `keywordIndex`, the keyword factor is `1 + 0.5 × BM25` looked up from
+ * the index; without one, each entry's metadata is scanned.
+ */
+export function scoreRegistryEntries(
   entries: readonly [string, RegistryNodeEntry][],
-  keywords: ReadonlySet<string>
+  keywords: ReadonlySet<string>,
+  keywordIndex?: KeywordIndex | null
 ): [string, RegistryNodeEntry][] {
+  const bm25 = keywordIndex && keywords.size > 0 ? keywordIndex.bm25(keywords) : null
+  const score = ([id, entry]: [string, RegistryNodeEntry]): number =>
+    bm25
+      ? computeRegistryBaseScore(entry) * (1.0 + (bm25.get(id) ?? 0) * 0.5)
+      : computeRegistryScore(entry, keywords)
   return [...entries]
-    .map((entry) => ({ entry, score: computeRegistryScore(entry[1], keywords) }))
+    .map((entry) => ({ entry, score: score(entry) }))
     .sort((a, b) => b.score - a.score)
     .map(({ entry }) => entry)
 }
 
-function computeRegistryScore(entry: RegistryNodeEntry, keywords: ReadonlySet<string>): number {
+/** Priority × recency component of the Pass 1 score. */
+function computeRegistryBaseScore(entry: RegistryNodeEntry): number {
   const priorityWeight = PRIORITY_WEIGHT[entry.priority] ?? 1.0
-  const recencyFactor = computeRecencyFactor(entry.updated)
-  const keywordMatch = computeRegistryKeywordMatch(entry, keywords)
-  return keywordMatch * priorityWeight * recencyFactor
+  return priorityWeight * computeRecencyFactor(entry.updated)
 }
 
-function computeRegistryKeywordMatch(entry: RegistryNodeEntry, keywords: ReadonlySet<string>): number {
+/** Pass 1 score for a single registry entry (priority × recency × keyword match). */
+export function computeRegistryScore(entry: RegistryNodeEntry, keywords: ReadonlySet<string>): number {
+  return computeRegistryKeywordMatch(entry, keywords) * computeRegistryBaseScore(entry)
+}
+
+/** Metadata-only keyword match factor: 1.0 plus 0.5 per matched keyword. */
+export function computeRegistryKeywordMatch(entry: RegistryNodeEntry, keywords: ReadonlySet<string>): number {
   if (keywords.size === 0) return 1.0
   const tags = (entry.tags ?? []).map((t) => fold(t))
   const canonicalKey = fold(entry.canonicalKey ?? '')
@@ -667,22 +754,8 @@ function prefixMatchesTags(keyword: string, tags: readonly string[]): boolean {
   return false
 }
 
-/**
- * Language-agnostic diacritics removal via Unicode NFKD decomposition.
- * Also handles non-decomposable stroke characters (ł→l, đ→d, ø→o, etc.)
- * that NFKD doesn't split into base + combining mark.
- */
-export function fold(s: string): string {
-  return s
-    .toLowerCase()
-    .normalize('NFKD')
-    .replace(/\p{M}+/gu, '')
-    .replace(/ł/g, 'l')
-    .replace(/đ/g, 'd')
-    .replace(/ø/g, 'o')
-    .replace(/ħ/g, 'h')
-    .replace(/ŧ/g, 't')
-}
+/** Fraction of documents a token must appear in to be treated as a stopword. */
+const HIGH_DF_THRESHOLD = 0.4
 
 /**
  * Builds a set of high-document-frequency tokens from the registry.
@@ -691,7 +764,7 @@ export function fold(s: string): string {
  */
 export function buildHighDfTokens(
   registryEntries: readonly [string, RegistryNodeEntry][],
-  threshold = 0.4
+  threshold = HIGH_DF_THRESHOLD
 ): ReadonlySet<string> {
   if (registryEntries.length === 0) return new Set()
   const docFreq = new Map<string, number>()
@@ -757,6 +830,109 @@ function fitInBudget(nodes: readonly GraphNode[], budget: number): GraphNode[] {
   return result
 }
 
+/**
+ * Reflection hierarchy under a tight budget: when the ranked nodes cost more
+ * than `budget`, each weekly/monthly/yearly rollup among them replaces the
+ * finer reflections it covers (transitively, via its links) that are also
+ * ranked, taking the best rank among them. Coarsest rollups are applied first,
+ * so a ranked yearly reflection absorbs its monthlies, their weeklies and so
+ * on. Only ranked rollups take part: a rollup has to match the query itself,
+ * not merely span its period. Returns the nodes unchanged when they fit.
+ */
+function preferCoarseReflections(ranked: readonly GraphNode[], budget: number): GraphNode[] {
+  const cost = ranked.reduce((sum, n) => sum + estimateTokens(nodeText(n)), 0)
+  if (cost <= budget) return [...ranked]
+
+  const byId = new Map(ranked.map((n) => [n.frontmatter.id, n]))
+  const rollups = ranked
+    .filter((n) => n.frontmatter.reflectionLevel !== undefined)
+    .sort((a, b) => reflectionLevelRank(b.frontmatter.reflectionLevel) - reflectionLevelRank(a.frontmatter.reflectionLevel))
+
+  const coveredBy = new Map<string, string>()
+  for (const rollup of rollups) {
+    const rollupId = rollup.frontmatter.id
+    if (coveredBy.has(rollupId)) continue
+    const stack = [...(rollup.frontmatter.links ?? [])]
+    while (stack.length > 0) {
+      const id = stack.pop()!
+      const child = byId.get(id)
+      if (child === undefined || child.frontmatter.type !== 'reflection' || id === rollupId || coveredBy.has(id)) continue
+      coveredBy.set(id, rollupId)
+      stack.push(...(child.frontmatter.links ?? []))
+    }
+  }
+  if (coveredBy.size === 0) return [...ranked]
+
+  const placed = new Set<string>()
+  const result: GraphNode[] = []
+  for (const node of ranked) {
+    const id = coveredBy.get(node.frontmatter.id) ?? node.frontmatter.id
+    if (placed.has(id)) continue
+    placed.add(id)
+    result.push(byId.get(id)!)
+  }
+  return result
+}
+
+const SUMMARY_SECTION_HEADER = '\n\n## Related Notes\n'
+const OUTLINE_SECTION_HEADER = '\n\n## More in Memory\n'
+
+/** Nodes chosen for the summary and outline tiers, plus their token cost. */
+interface DegradedTiers {
+  readonly slice: Pick<GraphContextSlice, 'summaryNodes' | 'outlineNodes'>
+  readonly tokens: number
+}
+
+/**
+ * Graded disclosure: ranked nodes that did not make the full tier are offered,
+ * in rank order, to the summary tier (description + wikilink) and then to the
+ * outline tier (wikilink only), each bounded by the remaining token budget and
+ * its count cap. Returns empty tiers when `injection.renderMode` is "full".
+ */
+function selectDegradedTiers(
+  ranked: readonly GraphNode[],
+  fullNodes: readonly GraphNode[],
+  budget: number,
+  injection: OmgConfig['injection']
+): DegradedTiers {
+  if (injection.renderMode === 'full') return { slice: {}, tokens: 0 }
+
+  const fullIds = new Set(fullNodes.map((n) => n.frontmatter.id))
+  const rest = ranked.filter((n) => !fullIds.has(n.frontmatter.id))
+
+  let remaining = budget
+  const summaryNodes: GraphNode[] = []
+  let i = 0
+  for (; i < rest.length && summaryNodes.length < injection.maxSummaryNodes; i++) {
+    const header = summaryNodes.length === 0 ? estimateTokens(SUMMARY_SECTION_HEADER) : 0
+    const cost = header + estimateTokens(`${renderSummaryLine(rest[i]!)}\n`)
+    if (cost > remaining) break
+    summaryNodes.push(rest[i]!)
+    remaining -= cost
+  }
+
+  const outlineNodes: GraphNode[] = []
+  const outlineTypes = new Set<string>()
+  for (; i < rest.length && outlineNodes.length < injection.maxOutlineNodes; i++) {
+    const node = rest[i]!
+    const header = outlineNodes.length === 0 ? estimateTokens(OUTLINE_SECTION_HEADER) : 0
+    const typeLine = outlineTypes.has(node.frontmatter.type) ? 0 : estimateTokens(`- ${node.frontmatter.type}: \n`)
+    const cost = header + typeLine + estimateTokens(`${renderOutlineLink(node)}, `)
+    if (cost > remaining) break
+    outlineNodes.push(node)
+    outlineTypes.add(node.frontmatter.type)
+    remaining -= cost
+  }
+
+  return {
+    slice: {
+      ...(summaryNodes.length > 0 ? { summaryNodes } : {}),
+      ...(outlineNodes.length > 0 ? { outlineNodes } : {}),
+    },
+    tokens: budget - remaining,
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -0,0 +1,29 @@
+/**
+ * visibility.ts — Per-agent visibility of nodes in a shared workspace graph.
+ *
+ * Applies the `injection.agentVisibility` policy to registry entries using the
+ * `agents` ownership list written by the observer.
+ */
+
+import type { OmgConfig } from '../config.js'
+import type { RegistryNodeEntry } from '../graph/registry.js'
+
+/** Visibility policy for nodes written by other agents. */
+export type AgentVisibility = OmgConfig['injection']['agentVisibility']
+
+/**
+ * True when `agentId` may see the entry under `policy`.
+ *
+ * Unowned entries and an unknown `agentId` are always visible, so the shared
+ * default and single-agent setups behave exactly as before.
+ */
+export function isVisibleToAgent(
+  entry: Pick<RegistryNodeEntry, 'type' | 'agents'>,
+  agentId: string | null | undefined,
+  policy: AgentVisibility
+): boolean {
+  if (policy === 'shared' || !agentId) return true
+  if (entry.agents === undefined || entry.agents.length === 0) return true
+  if (entry.agents.includes(agentId)) return true
+  return policy === 'private-with-shared-identity' && entry.type === 'identity'
+}
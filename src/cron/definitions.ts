@@ -2,23 +2,34 @@
  * Cron job definitions for background OMG maintenance tasks.
  *
  * Two scheduled jobs:
- *   - `omg-reflection` — nightly semantic dedup followed by reflection pass.
- *   - `omg-maintenance`       — weekly link repair and text-exact deduplication audit.
+ *   - `omg-reflection` — nightly semantic dedup, domain discovery, MOC summary refresh, reflection rollups, then reflection pass.
+ *   - `omg-maintenance`       — weekly expiry archival, link repair and text-exact deduplication audit.
  */
 
 import fs from 'node:fs'
+import path from 'node:path'
 import type { OmgConfig } from '../config.js'
-import type { LlmClient } from '../llm/client.js'
+import { withUsageTag, type LlmClient } from '../llm/client.js'
+import { checkDailyTokenBudget } from '../llm/usage-ledger.js'
+import { withScheduler, type LlmScheduler, type LlmPriority } from '../llm/scheduler.js'
+import { clientForRole, type LlmRoleClients } from '../llm/backends.js'
 import { runReflection } from '../reflector/reflector.js'
 import { buildReflectionClusters } from '../reflector/cluster-orchestrator.js'
+import { rollupReflections } from '../reflector/hierarchy.js'
 import { runDedup } from '../dedup/dedup.js'
 import { runSemanticDedup } from '../dedup/semantic-dedup.js'
 import { runBootstrapTick } from '../bootstrap/bootstrap.js'
-import { readBootstrapState, writeBootstrapState, markMaintenanceDone } from '../bootstrap/state.js'
+import { refreshMocSummaries } from '../graph/moc-summary.js'
+import { discoverDomains } from '../graph/domain-discovery.js'
+import { readBootstrapState, writeBootstrapState, markMaintenanceDone, isSourceRescanDue } from '../bootstrap/state.js'
 import { readGraphNode } from '../graph/node-reader.js'
 import { getRegistryEntries, getNodeFilePaths, removeRegistryEntry, updateRegistryEntry } from '../graph/registry.js'
+import { archiveExpiredNodes } from '../graph/validity.js'
+import { beginSnapshot, commitSnapshot, makeRunId } from '../graph/snapshot.js'
+import type { SnapshotHandle } from '../graph/snapshot.js'
 import { resolveCanonicalKeyToNodeId } from '../observer/now-renderer.js'
 import { resolveOmgRoot } from '../utils/paths.js'
+import { atomicWrite } from '../utils/fs.js'
 
 /** A single cron job definition. */
 export interface CronDefinition {
@@ -32,38 +43,128 @@ export interface CronContext {
   readonly workspaceDir: string
   readonly config: OmgConfig
   readonly llmClient: LlmClient
+  /** Routed clients from `config.llm.routing` for the dedup and reflector roles. */
+  readonly llmClients?: LlmRoleClients
   /** When set, job IDs are namespaced as `<base>::<jobIdNamespace>` to prevent collisions across workspaces. */
   readonly jobIdNamespace?: string
+  /** Run even when `llm.dailyTokenBudget` is spent. Set by operator commands such as `omg run-maintenance`. */
+  readonly ignoreTokenBudget?: boolean
+  /** Shared LLM scheduler. Maintenance calls run at `maintenance` priority, bootstrap ticks at `bootstrap`. */
+  readonly scheduler?: LlmScheduler
 }
 
 const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000
 
+/** Routes `client` through `ctx.scheduler` at `priority` when the context has one. */
+function scheduled(ctx: CronContext, client: LlmClient, priority: LlmPriority): LlmClient {
+  return ctx.scheduler !== undefined ? withScheduler(client, ctx.scheduler, priority) : client
+}
+
 /** Fixed schedule for the maintenance cron (Sunday 4 AM). */
 const MAINTENANCE_SCHEDULE = '0 4 * * 0'
 
 /**
- * Runs the combined graph maintenance pass: semantic dedup then reflection.
- * Dedup failure is non-fatal — reflection still runs.
+ * Marker left in omgRoot when a scheduled maintenance run was deferred by
+ * `llm.dailyTokenBudget`; holds the ISO time of the deferral.
+ */
+const DEFERRED_MAINTENANCE_FILENAME = '.maintenance-deferred'
+
+/**
+ * Runs the combined graph maintenance pass: semantic dedup, domain discovery,
+ * MOC summaries, reflection rollups, then reflection.
+ * A failing step is non-fatal — the later steps and reflection still run.
+ * The files the run changes are snapshotted to `.snapshots/` (see graph/snapshot.ts).
  * Never throws — errors are logged.
  *
  * @param ageCutoffMs  Optional override for the node age cut-off (epoch ms).
  *   Nodes updated after this timestamp are excluded from reflection.
  *   undefined → default 7-day cap. 0 → all nodes eligible (used post-bootstrap).
+ * @returns false when the run was skipped — missing omgRoot, failed snapshot
+ *   or a spent `llm.dailyTokenBudget` — so callers can retry it later.
  */
 export async function graphMaintenanceCronHandler(
   ctx: CronContext,
   ageCutoffMs?: number,
-): Promise<void> {
+): Promise<boolean> {
   const omgRoot = resolveOmgRoot(ctx.workspaceDir, ctx.config)
 
   if (!fs.existsSync(omgRoot)) {
     console.warn(`[omg] cron: omgRoot does not exist — skipping (${omgRoot})`)
-    return
+    return false
+  }
+
+  if (ctx.ignoreTokenBudget !== true) {
+    const budget = await checkDailyTokenBudget(omgRoot, ctx.config)
+    if (budget?.exhausted) {
+      console.warn(
+        `[omg] cron omg-reflection: daily token budget exhausted (${budget.used}/${budget.limit}) — deferring maintenance`
+      )
+      // Post-bootstrap runs (ageCutoffMs set) are retried through bootstrap state instead
+      if (ageCutoffMs === undefined) {
+        await atomicWrite(path.join(omgRoot, DEFERRED_MAINTENANCE_FILENAME), new Date().toISOString())
+          .catch((err) => console.error('[omg] cron omg-reflection: failed to mark deferred maintenance:', err))
+      }
+      return false
+    }
+  }
+  await fs.promises.rm(path.join(omgRoot, DEFERRED_MAINTENANCE_FILENAME), { force: true })
+    .catch((err) => console.error('[omg] cron omg-reflection: failed to clear deferred maintenance marker:', err))
+
+  const retain = ctx.config.graphMaintenance.snapshotRetention
+  if (retain === 0) {
+    await runGraphMaintenance(ctx, omgRoot, ageCutoffMs)
+    return true
+  }
+
+  // Snapshot before dedup/reflection touch anything so the run can be undone
+  // with `omg rollback <run-id>`. Without a snapshot there is no undo — skip.
+  let snapshot: SnapshotHandle
+  try {
+    snapshot = await beginSnapshot(omgRoot, makeRunId('omg-reflection'))
+  } catch (err) {
+    console.error('[omg] cron omg-reflection: snapshot failed — skipping maintenance run:', err)
+    return false
+  }
+
+  try {
+    await snapshot.record(() => runGraphMaintenance(ctx, omgRoot, ageCutoffMs))
+  } finally {
+    try {
+      const manifest = await commitSnapshot(omgRoot, snapshot, retain)
+      if (manifest) {
+        console.warn(
+          `[omg] cron omg-reflection: snapshot ${manifest.runId} — ${manifest.files.length} file(s) changed ` +
+            `(undo with: openclaw omg rollback ${manifest.runId})`
+        )
+      }
+    } catch (err) {
+      console.error(`[omg] cron omg-reflection: failed to save snapshot ${snapshot.runId}:`, err)
+    }
   }
+  return true
+}
+
+/**
+ * Dedup and reflection steps of {@link graphMaintenanceCronHandler}.
+ * Never throws — errors are logged.
+ */
+async function runGraphMaintenance(
+  ctx: CronContext,
+  omgRoot: string,
+  ageCutoffMs: number | undefined,
+): Promise<void> {
+  const dedupClient = withUsageTag(
+    scheduled(ctx, clientForRole(ctx.llmClient, ctx.llmClients, 'dedup'), 'maintenance'),
+    { pipeline: 'dedup' }
+  )
+  const reflectorClient = withUsageTag(
+    scheduled(ctx, clientForRole(ctx.llmClient, ctx.llmClients, 'reflector'), 'maintenance'),
+    { pipeline: 'reflect' }
+  )
 
   // Step 1: Semantic dedup
   try {
-    const dedupResult = await runDedup({ omgRoot, config: ctx.config, llmClient: ctx.llmClient })
+    const dedupResult = await runDedup({ omgRoot, config: ctx.config, llmClient: dedupClient })
     console.warn(
       `[omg] cron omg-reflection: dedup — ${dedupResult.mergesExecuted} merge(s), ` +
         `${dedupResult.nodesArchived} archived, ${dedupResult.tokensUsed} tokens`
@@ -75,16 +176,64 @@ export async function graphMaintenanceCronHandler(
   // Step 1.5: Semantic dedup (post-literal, gated by config)
   if (ctx.config.semanticDedup.enabled) {
     try {
-      const sdResult = await runSemanticDedup({ omgRoot, config: ctx.config, llmClient: ctx.llmClient })
+      const sdResult = await runSemanticDedup({ omgRoot, config: ctx.config, llmClient: dedupClient })
       console.warn(
         `[omg] cron omg-reflection: semantic-dedup — ${sdResult.mergesExecuted} merge(s), ` +
-          `${sdResult.nodesArchived} archived, ${sdResult.tokensUsed} tokens`
+          `${sdResult.mergesQueued} queued for review, ${sdResult.nodesArchived} archived, ${sdResult.tokensUsed} tokens`
       )
     } catch (err) {
       console.error('[omg] cron omg-reflection: semantic-dedup failed (continuing to reflection):', err)
     }
   }
 
+  // Step 1.6: New domains for tag clusters among misc / catch-all nodes
+  if (ctx.config.graphMaintenance.domainDiscovery.enabled) {
+    try {
+      const discovery = await discoverDomains({ omgRoot, config: ctx.config })
+      if (discovery.proposals.length > 0 || discovery.errors.length > 0) {
+        console.warn(
+          `[omg] cron omg-reflection: domain-discovery — ${discovery.domainsCreated.length} domain(s) created, ` +
+            `${discovery.nodesRehomed} node(s) re-homed` +
+            (discovery.errors.length > 0 ? ` (${discovery.errors.length} error(s))` : '')
+        )
+      }
+    } catch (err) {
+      console.error('[omg] cron omg-reflection: domain-discovery failed (continuing to reflection):', err)
+    }
+  }
+
+  // Step 1.75: MOC domain summaries for domains whose membership moved enough
+  if (ctx.config.graphMaintenance.mocSummaries.enabled) {
+    try {
+      const mocResult = await refreshMocSummaries({ omgRoot, config: ctx.config, llmClient: reflectorClient })
+      if (mocResult.summariesWritten > 0 || mocResult.errors.length > 0) {
+        console.warn(
+          `[omg] cron omg-reflection: moc-summary — ${mocResult.summariesWritten} of ${mocResult.domainsChecked} domain(s) ` +
+            `summarised, ${mocResult.tokensUsed} tokens` +
+            (mocResult.errors.length > 0 ? ` (${mocResult.errors.length} error(s))` : '')
+        )
+      }
+    } catch (err) {
+      console.error('[omg] cron omg-reflection: moc-summary failed (continuing to reflection):', err)
+    }
+  }
+
+  // Step 1.9: Roll closed weeks, months and years of reflections up the hierarchy
+  if (ctx.config.reflection.hierarchy.enabled) {
+    try {
+      const rollups = await rollupReflections({ omgRoot, config: ctx.config, llmClient: reflectorClient })
+      if (rollups.rollupsWritten > 0 || rollups.errors.length > 0) {
+        console.warn(
+          `[omg] cron omg-reflection: reflection-hierarchy — ${rollups.rollupsWritten} rollup(s) written, ` +
+            `${rollups.tokensUsed} tokens` +
+            (rollups.errors.length > 0 ? ` (${rollups.errors.length} error(s))` : '')
+        )
+      }
+    } catch (err) {
+      console.error('[omg] cron omg-reflection: reflection-hierarchy failed (continuing to reflection):', err)
+    }
+  }
+
   // Step 2: Reflection pass over aged non-archived nodes
   // ageCutoffMs=0 means "no age cap" (all nodes eligible); undefined uses the configured default.
   const defaultCutoffDays = ctx.config.reflection.ageCutoffDays
@@ -151,7 +300,7 @@ export async function graphMaintenanceCronHandler(
           const result = await runReflection({
             observationNodes: cluster.nodes,
             config: ctx.config,
-            llmClient: ctx.llmClient,
+            llmClient: reflectorClient,
             omgRoot,
             sessionKey: `cron:omg-reflection:${cluster.domain}`,
             cluster: {
@@ -204,7 +353,7 @@ export async function graphMaintenanceCronHandler(
       const result = await runReflection({
         observationNodes: validNodes,
         config: ctx.config,
-        llmClient: ctx.llmClient,
+        llmClient: reflectorClient,
         omgRoot,
         sessionKey: 'cron:omg-reflection',
       })
@@ -238,6 +387,13 @@ export async function maintenanceCronHandler(ctx: CronContext): Promise<void> {
     return
   }
 
+  // Retire nodes whose validity window has closed, then re-read so the
+  // remaining passes see them as archived.
+  const expired = await archiveExpiredNodes(omgRoot, allEntries)
+  if (expired.length > 0) {
+    allEntries = await getRegistryEntries(omgRoot)
+  }
+
   const cleanupResult = await cleanupArchivedNodes(
     omgRoot,
     allEntries,
@@ -330,6 +486,7 @@ export async function maintenanceCronHandler(ctx: CronContext): Promise<void> {
     `[omg] cron omg-maintenance: completed — ${repairedLinkCount} link(s) repaired, ` +
       `${brokenLinkCount} dead link(s) removed, ` +
       `${duplicateGroupCount} duplicate description group(s) flagged, ` +
+      `${expired.length} expired node(s) archived, ` +
       `${cleanupResult.deletedEntries} archived node(s) cleaned`,
   )
 }
@@ -379,6 +536,26 @@ async function cleanupArchivedNodes(
   return { deletedEntries }
 }
 
+/**
+ * Re-runs a scheduled maintenance pass that {@link graphMaintenanceCronHandler}
+ * deferred for the daily token budget, once the budget has room again.
+ * Called on every bootstrap tick; a no-op unless a run is pending.
+ * Never throws — errors are logged.
+ */
+export async function runDeferredMaintenance(ctx: CronContext): Promise<void> {
+  const omgRoot = resolveOmgRoot(ctx.workspaceDir, ctx.config)
+  if (!fs.existsSync(path.join(omgRoot, DEFERRED_MAINTENANCE_FILENAME))) return
+
+  try {
+    const budget = await checkDailyTokenBudget(omgRoot, ctx.config)
+    if (budget?.exhausted) return
+    console.warn('[omg] cron omg-reflection: running maintenance deferred by the daily token budget')
+    await graphMaintenanceCronHandler(ctx)
+  } catch (err) {
+    console.error('[omg] cron omg-reflection: deferred maintenance failed:', err)
+  }
+}
+
 /**
  * Runs a single bounded bootstrap tick via the cron scheduler.
  * If the tick completes all remaining batches, triggers a post-bootstrap
@@ -392,10 +569,17 @@ async function bootstrapCronHandler(ctx: CronContext): Promise<void> {
     return
   }
 
-  // Skip tick entirely if bootstrap is fully completed — avoids lock churn every 5 min
+  await runDeferredMaintenance(ctx)
+
+  // Skip tick entirely if bootstrap is fully completed and not watching for
+  // changed sources, or rescanned them recently — avoids lock churn and
+  // re-hashing every source every 5 min
   try {
     const state = await readBootstrapState(omgRoot)
-    if (state?.status === 'completed' && state.maintenanceDone) return
+    if (
+      state?.status === 'completed' && state.maintenanceDone &&
+      (!ctx.config.bootstrap.incremental || !isSourceRescanDue(state, ctx.config.bootstrap.incrementalIntervalMinutes))
+    ) return
   } catch (err) {
     console.warn('[omg] cron: bootstrap state unreadable — proceeding to tick:', err)
   }
@@ -404,13 +588,17 @@ async function bootstrapCronHandler(ctx: CronContext): Promise<void> {
     const result = await runBootstrapTick({
       workspaceDir: ctx.workspaceDir,
       config: ctx.config,
-      llmClient: ctx.llmClient,
+      llmClient: scheduled(ctx, ctx.llmClient, 'bootstrap'),
     })
-    if (result.completed) {
-      await graphMaintenanceCronHandler(ctx, 0)  // no age cap — nodes just bootstrapped
-        .catch((err) => console.error('[omg] cron omg-bootstrap: post-bootstrap maintenance failed:', err))
+    // Incremental runs leave dedup/reflection to the scheduled maintenance job
+    if (result.completed && result.incremental !== true) {
+      const maintained = await graphMaintenanceCronHandler(ctx, 0)  // no age cap — nodes just bootstrapped
+        .catch((err) => {
+          console.error('[omg] cron omg-bootstrap: post-bootstrap maintenance failed:', err)
+          return true
+        })
       const state = await readBootstrapState(omgRoot)
-      if (state) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
+      if (state && maintained) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
     }
   } catch (err) {
     console.error('[omg] cron omg-bootstrap: tick failed:', err)
@@ -437,7 +625,7 @@ export function createCronDefinitions(ctx: CronContext): readonly CronDefinition
     {
       id: id('omg-reflection'),
       schedule: graphMaintenanceSchedule,
-      handler: () => graphMaintenanceCronHandler(ctx),
+      handler: async () => { await graphMaintenanceCronHandler(ctx) },
     },
     {
       id: id('omg-maintenance'),
@@ -1,5 +1,5 @@
 /**
- * Append-only JSONL audit log for dedup merges: {omgRoot}/.dedup-audit.jsonl
+ * Append-only JSONL audit log for dedup merges and unmerges: {omgRoot}/.dedup-audit.jsonl
  */
 import { join } from 'node:path'
 import { appendFile } from 'node:fs/promises'
@@ -45,7 +45,7 @@ const VOLATILE_TYPES = new Set(['episode', 'fact'])
  * similarity scoring. Registry-only — zero disk reads.
  *
  * Filtering stages:
- *   1. Skip archived, moc, index, now nodes
+ *   1. Skip archived, moc, index, now nodes and reflection rollups
  *   2. Group by (type, keyPrefix)
  *   3. Pairwise combinedSimilarity within each bucket
  *   4. Incremental scope: at least one node updated >= lastDedupAt
@@ -64,6 +64,8 @@ export function generateCandidatePairs(
   const eligible = entries.filter(([, e]) => {
     if (e.archived) return false
     if (EXCLUDED_TYPES.has(e.type)) return false
+    // Rollups summarize their children by design; merging one into a child would break the hierarchy
+    if (e.reflectionLevel !== undefined) return false
     return true
   })
 
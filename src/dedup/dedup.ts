@@ -19,6 +19,7 @@ import { buildDedupSystemPrompt, buildDedupUserPrompt } from './prompts.js'
 import { executeMerge, type MergeResult } from './merge.js'
 import { appendAuditEntry } from './audit.js'
 import { loadDedupState, saveDedupState } from './state.js'
+import { loadPairConstraints, pairKey } from './review-queue.js'
 
 /** Parameters for a dedup run. */
 export interface DedupParams {
@@ -68,7 +69,10 @@ export async function runDedup(params: DedupParams): Promise<DedupRunResult> {
   // Pass 1 — Heuristic candidate clustering (registry-only)
   // -------------------------------------------------------------------------
 
+  // Pairs an operator has unmerged or rejected are never proposed again.
+  const { neverMerge } = await loadPairConstraints(omgRoot)
   const pairs = generateCandidatePairs(allEntries, state.lastDedupAt, dedupConfig)
+    .filter((p) => !neverMerge.has(pairKey(p.nodeIdA, p.nodeIdB)))
 
   if (pairs.length === 0) {
     console.warn('[omg] dedup: no candidate pairs found — skipping LLM call')
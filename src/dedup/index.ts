@@ -3,6 +3,11 @@
  */
 export { runDedup } from './dedup.js'
 export type { DedupParams } from './dedup.js'
-export type { DedupRunResult, DedupState, DedupAuditEntry, MergePlan, DedupConfig } from './types.js'
+export type { DedupRunResult, DedupState, DedupAuditEntry, RedirectedLink, MergePlan, DedupConfig } from './types.js'
 export { loadDedupState, saveDedupState } from './state.js'
 export { readAuditLog, appendAuditEntry } from './audit.js'
+export { applyPendingMerge, rejectPendingMerge } from './semantic-dedup.js'
+export { readReviewLog, getPendingMerges, derivePairConstraints, loadPairConstraints, formatPendingMerges } from './review-queue.js'
+export type { PendingMerge, ReviewDecision, ReviewRecord, DedupPairConstraints } from './review-queue.js'
+export { unmergeNode } from './unmerge.js'
+export type { UnmergeResult } from './unmerge.js'
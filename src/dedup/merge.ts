@@ -4,11 +4,13 @@
  */
 import { promises as fs } from 'node:fs'
 import { dirname } from 'node:path'
-import type { NodeFrontmatter } from '../types.js'
-import type { MergePlan, DedupAuditEntry } from './types.js'
+import type { NodeFrontmatter, NodeSource } from '../types.js'
+import type { MergePlan, DedupAuditEntry, RedirectedLink, BodyShare } from './types.js'
 import { parseFrontmatter, serializeFrontmatter } from '../utils/frontmatter.js'
 import { atomicWrite, isEnoent } from '../utils/fs.js'
 import { getRegistryEntries, updateRegistryEntry } from '../graph/registry.js'
+import { mergeSources, sourcesOf } from '../graph/node-writer.js'
+import { tokenize } from './similarity.js'
 
 // ---------------------------------------------------------------------------
 // applyPatch
@@ -124,6 +126,7 @@ export async function archiveAsMerged(
  * Reads a node file, replaces `oldLink` with `newLink` in its frontmatter
  * links array, writes back atomically, and updates the registry.
  * Silently skips missing files or parse failures.
+ * Returns true when the file was rewritten.
  */
 async function updateNodeLinks(
   filePath: string,
@@ -131,12 +134,12 @@ async function updateNodeLinks(
   oldLink: string,
   newLink: string,
   omgRoot: string,
-): Promise<void> {
+): Promise<boolean> {
   let raw: string
   try {
     raw = await fs.readFile(filePath, 'utf-8')
   } catch (err) {
-    if (isEnoent(err)) return
+    if (isEnoent(err)) return false
     throw err
   }
 
@@ -147,14 +150,14 @@ async function updateNodeLinks(
     frontmatterRecord = { ...parsed.frontmatter }
     body = parsed.body
   } catch {
-    return
+    return false
   }
 
   const existingLinks = Array.isArray(frontmatterRecord['links'])
     ? (frontmatterRecord['links'] as string[])
     : []
 
-  if (!existingLinks.includes(oldLink)) return
+  if (!existingLinks.includes(oldLink)) return false
 
   const updatedLinks = [...new Set(
     existingLinks.map((l) => (l === oldLink ? newLink : l)),
@@ -168,41 +171,112 @@ async function updateNodeLinks(
   } catch (err) {
     console.error(`[omg] dedup: registry update failed for link redirect in "${nodeId}":`, err)
   }
+  return true
 }
 
 /**
  * Scans the registry for all nodes that link to any loser ID and redirects
  * those links to the keeper. Deduplicates to prevent duplicate keeper links.
+ * Returns the links that were redirected.
  */
 async function redirectIncomingLinks(
   loserIds: readonly string[],
   keeperId: string,
   omgRoot: string,
-): Promise<void> {
+): Promise<RedirectedLink[]> {
   const loserSet = new Set(loserIds)
   let allEntries: readonly [string, import('../graph/registry.js').RegistryNodeEntry][]
   try {
     allEntries = await getRegistryEntries(omgRoot)
   } catch (err) {
     console.error('[omg] dedup: failed to read registry for link redirect:', err)
-    return
+    return []
   }
 
-  const redirectTasks: Array<{ nodeId: string; filePath: string; oldLink: string }> = []
+  const redirectTasks: Array<{ nodeId: string; filePath: string; oldLink: string; keeperLinked: boolean }> = []
   for (const [nodeId, entry] of allEntries) {
     if (loserSet.has(nodeId) || nodeId === keeperId) continue
+    const keeperLinked = (entry.links ?? []).includes(keeperId)
     for (const link of entry.links ?? []) {
       if (loserSet.has(link)) {
-        redirectTasks.push({ nodeId, filePath: entry.filePath, oldLink: link })
+        redirectTasks.push({ nodeId, filePath: entry.filePath, oldLink: link, keeperLinked })
       }
     }
   }
 
-  await Promise.allSettled(
+  const results = await Promise.allSettled(
     redirectTasks.map(({ nodeId, filePath, oldLink }) =>
       updateNodeLinks(filePath, nodeId, oldLink, keeperId, omgRoot),
     ),
   )
+  return redirectTasks
+    .filter((_, i) => {
+      const result = results[i]
+      return result?.status === 'fulfilled' && result.value
+    })
+    .map(({ nodeId, oldLink, keeperLinked }) => ({ nodeId, from: oldLink, ...(keeperLinked && { keeperLinked }) }))
+}
+
+// ---------------------------------------------------------------------------
+// attributeBodyAppend
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits a multi-loser `bodyAppend` into paragraphs and attributes each one
+ * to the loser whose body shares the most words with it. Paragraphs that
+ * share no words with any loser are left unattributed and survive an unmerge.
+ */
+export function attributeBodyAppend(
+  bodyAppend: string,
+  loserBodies: ReadonlyMap<string, string>,
+): BodyShare[] {
+  const loserTokens = [...loserBodies].map(([nodeId, body]) => ({ nodeId, tokens: tokenize(body) }))
+  const shares: BodyShare[] = []
+  for (const text of bodyAppend.split(/\n{2,}/)) {
+    if (text.trim().length === 0) continue
+    const paragraph = [...tokenize(text)]
+    let best: { nodeId: string; overlap: number } | null = null
+    for (const { nodeId, tokens } of loserTokens) {
+      const overlap = paragraph.filter((t) => tokens.has(t)).length
+      if (overlap > 0 && (best === null || overlap > best.overlap)) best = { nodeId, overlap }
+    }
+    if (best !== null) shares.push({ nodeId: best.nodeId, text })
+  }
+  return shares
+}
+
+/** Each loser's share of `plan.patch.bodyAppend`; a sole loser owns all of it. */
+async function computeBodyShares(plan: MergePlan, filePaths: Map<string, string>): Promise<BodyShare[]> {
+  const bodyAppend = plan.patch.bodyAppend
+  if (!bodyAppend) return []
+  if (plan.mergeNodeIds.length === 1) return [{ nodeId: plan.mergeNodeIds[0]!, text: bodyAppend }]
+
+  const loserBodies = new Map<string, string>()
+  for (const loserNodeId of plan.mergeNodeIds) {
+    const loserPath = filePaths.get(loserNodeId)
+    if (!loserPath) continue
+    try {
+      loserBodies.set(loserNodeId, parseFrontmatter(await fs.readFile(loserPath, 'utf-8')).body)
+    } catch (err) {
+      console.warn(`[omg] dedup: cannot read loser "${loserNodeId}" to attribute merged text:`, err instanceof Error ? err.message : String(err))
+    }
+  }
+  return attributeBodyAppend(bodyAppend, loserBodies)
+}
+
+/** The `sources` of each loser in `plan` that can be read. */
+async function readLoserSources(plan: MergePlan, filePaths: Map<string, string>): Promise<NodeSource[]> {
+  const sources: NodeSource[] = []
+  for (const loserNodeId of plan.mergeNodeIds) {
+    const loserPath = filePaths.get(loserNodeId)
+    if (!loserPath) continue
+    try {
+      sources.push(...sourcesOf(parseFrontmatter(await fs.readFile(loserPath, 'utf-8')).frontmatter))
+    } catch (err) {
+      console.warn(`[omg] dedup: cannot read loser "${loserNodeId}" to carry over its sources:`, err instanceof Error ? err.message : String(err))
+    }
+  }
+  return sources
 }
 
 // ---------------------------------------------------------------------------
@@ -241,22 +315,11 @@ export async function executeMerge(
   const fm: NodeFrontmatter = rawFm as unknown as NodeFrontmatter
   const { frontmatter: patchedFm, body: patchedBody } = applyPatch(fm, body, plan.patch, plan.aliasKeys, plan.mergeNodeIds)
 
-  // Serialize and write back
-  const record: Record<string, unknown> = {
-    id: patchedFm.id,
-    description: patchedFm.description,
-    type: patchedFm.type,
-    priority: patchedFm.priority,
-    created: patchedFm.created,
-    updated: patchedFm.updated,
-    ...(patchedFm.uid !== undefined && { uid: patchedFm.uid }),
-    ...(patchedFm.canonicalKey !== undefined && { canonicalKey: patchedFm.canonicalKey }),
-    ...(patchedFm.aliases !== undefined && { aliases: patchedFm.aliases }),
-    ...(patchedFm.links !== undefined && { links: patchedFm.links }),
-    ...(patchedFm.tags !== undefined && { tags: patchedFm.tags }),
-    ...(patchedFm.archived !== undefined && { archived: patchedFm.archived }),
-    ...(patchedFm.mergedFrom !== undefined && { mergedFrom: patchedFm.mergedFrom }),
-  }
+  // Serialize and write back. The keeper keeps every field it had (ownership,
+  // validity window, hierarchy level, …); only merged fields change, and the
+  // losers' sources join its own.
+  const sources = mergeSources(rawFm, ...(await readLoserSources(plan, filePaths)))
+  const record: Record<string, unknown> = { ...rawFm, ...patchedFm, ...(sources !== undefined ? { sources } : {}) }
   await atomicWrite(keeperPath, serializeFrontmatter(record, patchedBody))
 
   // Update registry
@@ -271,6 +334,9 @@ export async function executeMerge(
     console.error(`[omg] dedup: registry update failed for keeper "${plan.keepNodeId}":`, err)
   }
 
+  // Attribute the appended text before the losers are archived
+  const bodyShares = await computeBodyShares(plan, filePaths)
+
   // Archive losers — only reached after keeper is successfully patched
   let nodesArchived = 0
   for (const loserNodeId of plan.mergeNodeIds) {
@@ -290,16 +356,19 @@ export async function executeMerge(
   }
 
   // Redirect incoming links from losers → keeper
-  await redirectIncomingLinks(plan.mergeNodeIds, plan.keepNodeId, omgRoot)
+  const redirectedLinks = await redirectIncomingLinks(plan.mergeNodeIds, plan.keepNodeId, omgRoot)
 
   return {
     auditEntry: {
       timestamp: new Date().toISOString(),
+      action: 'merge',
       keepNodeId: plan.keepNodeId,
       mergedNodeIds: plan.mergeNodeIds,
       aliasKeys: plan.aliasKeys,
       conflicts: plan.conflicts,
       patch: plan.patch,
+      ...(redirectedLinks.length > 0 ? { redirectedLinks } : {}),
+      ...(bodyShares.length > 0 ? { bodyShares } : {}),
     },
     nodesArchived,
   }
@@ -0,0 +1,214 @@
+/**
+ * Append-only JSONL review queue for semantic dedup merges: {omgRoot}/.dedup-review.jsonl
+ *
+ * With `semanticDedup.mode: "review"`, suggestions above the merge threshold
+ * are recorded here as `pending` entries — with the node bodies the LLM
+ * compared, its rationale and score — instead of being merged. An operator
+ * accepts or rejects each one (`omg dedup apply <id> [--reject]`), which
+ * appends a `decision` entry.
+ *
+ * Decisions feed back into blocking: accepted pairs become must-merge pairs
+ * (always blocked together, and merged without review), rejected pairs
+ * become never-merge pairs (never blocked together). An `omg dedup unmerge`
+ * recorded in the audit log also makes its pair never-merge.
+ *
+ * Follows the same pattern as `audit.ts` — one JSON object per line, with
+ * schema validation on read and graceful skipping of malformed entries.
+ */
+import { join } from 'node:path'
+import { appendFile } from 'node:fs/promises'
+import { createHash } from 'node:crypto'
+import { z } from 'zod'
+import { readFileOrNull } from '../utils/fs.js'
+import { readAuditLog } from './audit.js'
+import type { DedupAuditEntry } from './types.js'
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const pendingMergeSchema = z.object({
+  kind: z.literal('pending'),
+  id: z.string(),
+  timestamp: z.string(),
+  keepNodeId: z.string(),
+  mergeNodeIds: z.array(z.string()).min(1),
+  similarityScore: z.number(),
+  rationale: z.string(),
+  /** Node bodies as sent to the LLM, keyed by node ID. */
+  bodies: z.record(z.string()),
+})
+
+const reviewDecisionSchema = z.object({
+  kind: z.literal('decision'),
+  id: z.string(),
+  timestamp: z.string(),
+  decision: z.enum(['accepted', 'rejected']),
+})
+
+const reviewRecordSchema = z.discriminatedUnion('kind', [pendingMergeSchema, reviewDecisionSchema])
+
+export type PendingMerge = z.infer<typeof pendingMergeSchema>
+export type ReviewDecision = z.infer<typeof reviewDecisionSchema>
+export type ReviewRecord = z.infer<typeof reviewRecordSchema>
+
+/** Pairs of node IDs the operator has already judged, keyed by {@link pairKey}. */
+export interface DedupPairConstraints {
+  readonly mustMerge: ReadonlySet<string>
+  readonly neverMerge: ReadonlySet<string>
+}
+
+export const EMPTY_PAIR_CONSTRAINTS: DedupPairConstraints = { mustMerge: new Set(), neverMerge: new Set() }
+
+// ---------------------------------------------------------------------------
+// Paths and keys
+// ---------------------------------------------------------------------------
+
+function reviewPath(omgRoot: string): string {
+  return join(omgRoot, '.dedup-review.jsonl')
+}
+
+/** Order-independent key for a pair of node IDs. */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+/**
+ * Short stable ID for a suggestion, so the same keeper + merge set is never
+ * queued twice.
+ */
+export function computeReviewId(keepNodeId: string, mergeNodeIds: readonly string[]): string {
+  const material = [keepNodeId, ...[...mergeNodeIds].sort()].join('\n')
+  return createHash('sha256').update(material).digest('hex').slice(0, 8)
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends a single review record as a JSON line.
+ */
+export async function appendReviewRecord(omgRoot: string, record: ReviewRecord): Promise<void> {
+  await appendFile(reviewPath(omgRoot), JSON.stringify(record) + '\n', 'utf-8')
+}
+
+/**
+ * Reads and parses the review queue, skipping malformed lines.
+ * Returns an empty array if the file does not exist.
+ */
+export async function readReviewLog(omgRoot: string): Promise<ReviewRecord[]> {
+  const raw = await readFileOrNull(reviewPath(omgRoot))
+  if (raw === null || raw.trim() === '') return []
+
+  const records: ReviewRecord[] = []
+  const lines = raw.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = (lines[i] ?? '').trim()
+    if (trimmed === '') continue
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      console.warn(`[omg] dedup review: line ${i + 1} is malformed JSON — skipping`)
+      continue
+    }
+
+    const result = reviewRecordSchema.safeParse(parsed)
+    if (!result.success) {
+      console.warn(`[omg] dedup review: line ${i + 1} failed schema validation — skipping:`, result.error.message)
+      continue
+    }
+    records.push(result.data)
+  }
+  return records
+}
+
+/** Pending merges with no later decision, oldest first. */
+export function getPendingMerges(records: readonly ReviewRecord[]): PendingMerge[] {
+  const latest = new Map<string, ReviewRecord>()
+  for (const record of records) latest.set(record.id, record)
+  return [...latest.values()].filter((r): r is PendingMerge => r.kind === 'pending')
+}
+
+/**
+ * Derives must-merge / never-merge pairs from the operator's decisions. Each
+ * decision covers the keeper paired with every merged node; the latest
+ * decision for a suggestion wins. Unmerge entries in `auditEntries` are
+ * applied last and turn their pair into a never-merge pair.
+ */
+export function derivePairConstraints(
+  records: readonly ReviewRecord[],
+  auditEntries: readonly DedupAuditEntry[] = [],
+): DedupPairConstraints {
+  const pending = new Map<string, PendingMerge>()
+  const decisions = new Map<string, ReviewDecision>()
+  for (const record of records) {
+    if (record.kind === 'pending') pending.set(record.id, record)
+    else decisions.set(record.id, record)
+  }
+
+  const mustMerge = new Set<string>()
+  const neverMerge = new Set<string>()
+  for (const [id, decision] of decisions) {
+    const suggestion = pending.get(id)
+    if (!suggestion) continue
+    const target = decision.decision === 'accepted' ? mustMerge : neverMerge
+    for (const mergeId of suggestion.mergeNodeIds) target.add(pairKey(suggestion.keepNodeId, mergeId))
+  }
+  for (const entry of auditEntries) {
+    if (entry.action !== 'unmerge') continue
+    for (const mergeId of entry.mergedNodeIds) {
+      const key = pairKey(entry.keepNodeId, mergeId)
+      mustMerge.delete(key)
+      neverMerge.add(key)
+    }
+  }
+  return { mustMerge, neverMerge }
+}
+
+/**
+ * Reads the review queue and audit log and derives the pair constraints.
+ * Either file failing to load is logged and treated as empty.
+ */
+export async function loadPairConstraints(omgRoot: string): Promise<DedupPairConstraints> {
+  let records: ReviewRecord[] = []
+  try {
+    records = await readReviewLog(omgRoot)
+  } catch (err) {
+    console.error('[omg] dedup review: failed to read review queue — ignoring past decisions:', err)
+  }
+  let auditEntries: DedupAuditEntry[] = []
+  try {
+    auditEntries = await readAuditLog(omgRoot)
+  } catch (err) {
+    console.error('[omg] dedup review: failed to read audit log — ignoring past unmerges:', err)
+  }
+  return derivePairConstraints(records, auditEntries)
+}
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders pending merges as human-readable CLI output, with each node's body
+ * indented under its ID.
+ */
+export function formatPendingMerges(pending: readonly PendingMerge[]): string {
+  if (pending.length === 0) return 'No pending dedup merges.'
+
+  const lines = [`${pending.length} pending dedup merge(s):`]
+  for (const p of pending) {
+    lines.push('', `[${p.id}] score ${p.similarityScore} — keep ${p.keepNodeId}, merge ${p.mergeNodeIds.join(', ')}`)
+    lines.push(`  Rationale: ${p.rationale}`)
+    for (const nodeId of [p.keepNodeId, ...p.mergeNodeIds]) {
+      lines.push(`  ${nodeId}${nodeId === p.keepNodeId ? ' (keep)' : ''}:`)
+      const body = (p.bodies[nodeId] ?? '(body unavailable)').trim()
+      for (const bodyLine of body.split('\n')) lines.push(`    ${bodyLine}`)
+    }
+  }
+  lines.push('', 'Accept with `omg dedup apply <id>`, reject with `omg dedup apply <id> --reject`.')
+  return lines.join('\n')
+}
@@ -6,9 +6,18 @@
  * minimize the number of LLM calls.
  *
  * Blocking criteria: same node type + same/adjacent domain + within time window.
+ * Pair similarity is the heuristic string score, or the embedding cosine when
+ * a vector index is supplied and it scores the pair higher.
+ *
+ * Operator review decisions override the heuristics: never-merge pairs are
+ * not blocked together, and must-merge pairs are, regardless of score or
+ * time window (within the same type and domain).
  */
 import type { RegistryNodeEntry } from '../graph/registry.js'
+import type { VectorIndex } from '../context/embeddings.js'
+import { cosineSimilarity } from '../context/embeddings.js'
 import type { SemanticBlock, SemanticDedupConfig } from './semantic-types.js'
+import { pairKey, type DedupPairConstraints } from './review-queue.js'
 import { combinedSimilarity } from './similarity.js'
 import { resolvePrimaryDomain } from '../reflector/domain-resolver.js'
 
@@ -27,7 +36,7 @@ const EXCLUDED_TYPES = new Set(['moc', 'index', 'now'])
  * Generates candidate blocks for semantic comparison.
  *
  * Algorithm:
- *   1. Filter: exclude archived, excluded types
+ *   1. Filter: exclude archived, excluded types, reflection rollups
  *   2. Group by (type, domain) — each group can produce blocks
  *   3. Within each group, build pairwise similarity scores
  *   4. Cluster high-scoring pairs into blocks respecting maxBlockSize
@@ -37,6 +46,8 @@ const EXCLUDED_TYPES = new Set(['moc', 'index', 'now'])
 export function generateSemanticBlocks(
   entries: readonly [string, RegistryNodeEntry][],
   config: SemanticDedupConfig,
+  vectors?: VectorIndex | null,
+  constraints?: DedupPairConstraints,
 ): readonly SemanticBlock[] {
   const { heuristicPrefilterThreshold, maxBlockSize, maxBlocksPerRun, timeWindowDays } = config
 
@@ -44,6 +55,8 @@ export function generateSemanticBlocks(
   const eligible = entries.filter(([, e]) => {
     if (e.archived) return false
     if (EXCLUDED_TYPES.has(e.type)) return false
+    // Rollups summarize their children by design; merging one into a child would break the hierarchy
+    if (e.reflectionLevel !== undefined) return false
     return true
   })
 
@@ -78,17 +91,27 @@ export function generateSemanticBlocks(
         const [idA, entryA] = group[i]!
         const [idB, entryB] = group[j]!
 
+        // Operator decisions
+        const key = pairKey(idA, idB)
+        if (constraints?.neverMerge.has(key)) continue
+        const mustMerge = constraints?.mustMerge.has(key) ?? false
+
         // Time window check
         const msA = new Date(entryA.updated).getTime()
         const msB = new Date(entryB.updated).getTime()
-        if (Math.abs(msA - msB) > timeWindowMs) continue
+        if (!mustMerge && Math.abs(msA - msB) > timeWindowMs) continue
 
-        const score = combinedSimilarity(
+        const heuristic = combinedSimilarity(
           entryA.description,
           entryB.description,
           entryA.canonicalKey ?? '',
           entryB.canonicalKey ?? '',
         )
+        const vecA = vectors?.get(idA)
+        const vecB = vectors?.get(idB)
+        const score = mustMerge
+          ? 1
+          : vecA && vecB ? Math.max(heuristic, cosineSimilarity(vecA, vecB)) : heuristic
 
         if (score >= heuristicPrefilterThreshold) {
           const adjA = adjacency.get(idA) ?? new Set()
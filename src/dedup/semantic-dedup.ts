@@ -4,20 +4,36 @@
  * Runs a post-literal semantic dedup pass using LLM-based comparison:
  *   1. Load registry entries → generate candidate blocks
  *   2. For each block, read node bodies → call LLM → parse response
- *   3. Filter by semanticMergeThreshold
- *   4. Execute merges with provenance tracking (mergedFrom)
+ *   3. Filter by semanticMergeThreshold and operator never-merge decisions
+ *   4. Execute merges with provenance tracking (mergedFrom), or — in
+ *      `mode: "review"` — queue them in `.dedup-review.jsonl` unless every
+ *      pair was already accepted by an operator
  *
  * Never throws — errors are collected in the returned result.
  */
 import type { OmgConfig } from '../config.js'
 import type { LlmClient } from '../llm/client.js'
 import type { SemanticDedupResult, SemanticDedupConfig, SemanticMergeSuggestion } from './semantic-types.js'
+import type { DedupAuditEntry } from './types.js'
 import { semanticDedupLlmResponseSchema } from './semantic-types.js'
-import { getRegistryEntries, getNodeFilePaths } from '../graph/registry.js'
+import { getRegistryEntries, getRegistryEntry, getNodeFilePaths } from '../graph/registry.js'
 import { generateSemanticBlocks } from './semantic-blocks.js'
+import type { EmbeddingProvider, VectorIndex } from '../context/embeddings.js'
+import { resolveEmbeddingProvider, syncVectorIndex } from '../context/embeddings.js'
 import { buildSemanticDedupSystemPrompt, buildBatchedSemanticDedupUserPrompt } from './semantic-prompts.js'
 import { executeMerge } from './merge.js'
-import { appendAuditEntry } from './audit.js'
+import { appendAuditEntry, readAuditLog } from './audit.js'
+import {
+  appendReviewRecord,
+  computeReviewId,
+  derivePairConstraints,
+  getPendingMerges,
+  pairKey,
+  readReviewLog,
+  type DedupPairConstraints,
+  type PendingMerge,
+  type ReviewRecord,
+} from './review-queue.js'
 import { emitMetric } from '../metrics/index.js'
 import { promises as fs } from 'node:fs'
 import { parseFrontmatter } from '../utils/frontmatter.js'
@@ -37,6 +53,11 @@ export interface SemanticDedupParams {
   readonly omgRoot: string
   readonly config: OmgConfig
   readonly llmClient: LlmClient
+  /**
+   * Embedding provider used to add vector similarity to candidate blocking.
+   * Defaults to the provider selected by `config.embedding`; null disables it.
+   */
+  readonly embeddingProvider?: EmbeddingProvider | null
 }
 
 /**
@@ -51,11 +72,12 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
   const errors: string[] = []
   let blocksProcessed = 0
   let mergesExecuted = 0
+  let mergesQueued = 0
   let nodesArchived = 0
   let tokensUsed = 0
 
   if (!sdConfig.enabled) {
-    return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+    return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
   }
 
   // Step 1: Load registry and generate blocks
@@ -66,14 +88,44 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
     const msg = `Failed to read registry: ${err instanceof Error ? err.message : String(err)}`
     console.error('[omg] semantic-dedup:', msg)
     errors.push(msg)
-    return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+    return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
   }
 
-  const blocks = generateSemanticBlocks(allEntries, sdConfig)
+  const embeddingProvider = params.embeddingProvider === undefined
+    ? resolveEmbeddingProvider(config)
+    : params.embeddingProvider
+  let vectors: VectorIndex | null = null
+  if (embeddingProvider) {
+    try {
+      vectors = await syncVectorIndex(omgRoot, allEntries, embeddingProvider)
+    } catch (err) {
+      // Non-fatal: block on heuristic similarity only.
+      console.error('[omg] semantic-dedup: embedding index unavailable — using heuristic blocking only:', err)
+    }
+  }
+
+  let reviewRecords: ReviewRecord[] = []
+  try {
+    reviewRecords = await readReviewLog(omgRoot)
+  } catch (err) {
+    // Non-fatal: run without operator decisions.
+    console.error('[omg] semantic-dedup: failed to read review queue — ignoring past decisions:', err)
+  }
+  let auditEntries: DedupAuditEntry[] = []
+  try {
+    auditEntries = await readAuditLog(omgRoot)
+  } catch (err) {
+    // Non-fatal: run without past unmerges.
+    console.error('[omg] semantic-dedup: failed to read audit log — ignoring past unmerges:', err)
+  }
+  const constraints = derivePairConstraints(reviewRecords, auditEntries)
+  const pendingIds = new Set(getPendingMerges(reviewRecords).map((p) => p.id))
+
+  const blocks = generateSemanticBlocks(allEntries, sdConfig, vectors, constraints)
 
   if (blocks.length === 0) {
     console.warn('[omg] semantic-dedup: no candidate blocks — skipping LLM calls')
-    return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+    return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
   }
 
   console.warn(`[omg] semantic-dedup: ${blocks.length} block(s) to process (batched into 1 LLM call)`)
@@ -89,7 +141,7 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
     const msg = `Failed to resolve file paths: ${err instanceof Error ? err.message : String(err)}`
     console.error('[omg] semantic-dedup:', msg)
     errors.push(msg)
-    return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+    return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
   }
 
   for (const [nodeId, filePath] of filePaths) {
@@ -118,7 +170,7 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
     const msg = `LLM call failed: ${err instanceof Error ? err.message : String(err)}`
     console.error('[omg] semantic-dedup:', msg)
     errors.push(msg)
-    return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+    return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
   }
 
   // Step 4: Parse response and execute merges
@@ -128,7 +180,36 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
     console.warn('[omg] semantic-dedup:', msg)
     errors.push(msg)
   } else {
-    for (const suggestion of suggestions) {
+    for (const rawSuggestion of suggestions) {
+      const suggestion = withoutNeverMergePairs(rawSuggestion, constraints)
+      if (suggestion === null) continue
+
+      if (sdConfig.mode === 'review' && !isPreApproved(suggestion, constraints)) {
+        const id = computeReviewId(suggestion.keepNodeId, suggestion.mergeNodeIds)
+        if (pendingIds.has(id)) continue
+        try {
+          await appendReviewRecord(omgRoot, {
+            kind: 'pending',
+            id,
+            timestamp: new Date().toISOString(),
+            keepNodeId: suggestion.keepNodeId,
+            mergeNodeIds: [...suggestion.mergeNodeIds],
+            similarityScore: suggestion.similarityScore,
+            rationale: suggestion.rationale,
+            bodies: Object.fromEntries(
+              [suggestion.keepNodeId, ...suggestion.mergeNodeIds].map((nodeId) => [nodeId, nodeContents.get(nodeId) ?? ''])
+            ),
+          })
+          pendingIds.add(id)
+          mergesQueued++
+        } catch (err) {
+          const msg = `Failed to queue merge for keeper "${suggestion.keepNodeId}": ${err instanceof Error ? err.message : String(err)}`
+          console.error('[omg] semantic-dedup:', msg)
+          errors.push(msg)
+        }
+        continue
+      }
+
       try {
         const result = await executeSemantic(suggestion, filePaths, omgRoot)
         mergesExecuted++
@@ -157,6 +238,7 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
       stage: 'semantic-dedup',
       blocksProcessed,
       mergesExecuted,
+      mergesQueued,
       nodesArchived,
       tokensUsed,
     },
@@ -164,16 +246,83 @@ export async function runSemanticDedup(params: SemanticDedupParams): Promise<Sem
 
   console.warn(
     `[omg] semantic-dedup: completed — ${blocksProcessed} block(s), ` +
-      `${mergesExecuted} merge(s), ${nodesArchived} archived, ${tokensUsed} tokens`
+      `${mergesExecuted} merge(s), ${mergesQueued} queued for review, ${nodesArchived} archived, ${tokensUsed} tokens`
   )
 
-  return { blocksProcessed, mergesExecuted, nodesArchived, tokensUsed, errors }
+  return { blocksProcessed, mergesExecuted, mergesQueued, nodesArchived, tokensUsed, errors }
+}
+
+/**
+ * Accepts a pending merge from the review queue: executes it, appends the
+ * audit entry and records the decision. Merge nodes that have since been
+ * archived are skipped.
+ *
+ * @throws If `id` is not pending, or the keeper or every merge node is gone.
+ */
+export async function applyPendingMerge(
+  omgRoot: string,
+  id: string,
+): Promise<{ readonly merge: PendingMerge; readonly nodesArchived: number }> {
+  const merge = getPendingMerges(await readReviewLog(omgRoot)).find((p) => p.id === id)
+  if (!merge) throw new Error(`No pending merge "${id}"`)
+
+  const keeper = await getRegistryEntry(omgRoot, merge.keepNodeId)
+  if (keeper === null || keeper.archived) {
+    throw new Error(`Keeper "${merge.keepNodeId}" is archived or missing — reject this merge instead`)
+  }
+  const liveMergeIds: string[] = []
+  for (const nodeId of merge.mergeNodeIds) {
+    const entry = await getRegistryEntry(omgRoot, nodeId)
+    if (entry !== null && !entry.archived) liveMergeIds.push(nodeId)
+  }
+  if (liveMergeIds.length === 0) {
+    throw new Error(`Every node to merge into "${merge.keepNodeId}" is archived or missing — reject this merge instead`)
+  }
+
+  const filePaths = await getNodeFilePaths(omgRoot, [merge.keepNodeId, ...liveMergeIds])
+  const result = await executeSemantic({ ...merge, mergeNodeIds: liveMergeIds }, filePaths, omgRoot)
+  await appendAuditEntry(omgRoot, result.auditEntry)
+  await appendReviewRecord(omgRoot, { kind: 'decision', id, timestamp: new Date().toISOString(), decision: 'accepted' })
+  return { merge, nodesArchived: result.nodesArchived }
+}
+
+/**
+ * Rejects a pending merge from the review queue. Its pairs are never
+ * blocked together again.
+ *
+ * @throws If `id` is not pending.
+ */
+export async function rejectPendingMerge(omgRoot: string, id: string): Promise<PendingMerge> {
+  const merge = getPendingMerges(await readReviewLog(omgRoot)).find((p) => p.id === id)
+  if (!merge) throw new Error(`No pending merge "${id}"`)
+  await appendReviewRecord(omgRoot, { kind: 'decision', id, timestamp: new Date().toISOString(), decision: 'rejected' })
+  return merge
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Drops merge nodes the operator marked never-merge with the keeper.
+ * Returns null when none remain.
+ */
+function withoutNeverMergePairs(
+  suggestion: SemanticMergeSuggestion,
+  constraints: DedupPairConstraints,
+): SemanticMergeSuggestion | null {
+  const mergeNodeIds = suggestion.mergeNodeIds.filter(
+    (id) => !constraints.neverMerge.has(pairKey(suggestion.keepNodeId, id))
+  )
+  if (mergeNodeIds.length === 0) return null
+  return mergeNodeIds.length === suggestion.mergeNodeIds.length ? suggestion : { ...suggestion, mergeNodeIds }
+}
+
+/** True when an operator already accepted every keeper/merge pair. */
+function isPreApproved(suggestion: SemanticMergeSuggestion, constraints: DedupPairConstraints): boolean {
+  return suggestion.mergeNodeIds.every((id) => constraints.mustMerge.has(pairKey(suggestion.keepNodeId, id)))
+}
+
 /**
  * Parses the LLM response and filters by threshold.
  * Returns null if the response cannot be parsed.
@@ -226,7 +375,7 @@ async function executeSemantic(
   suggestion: SemanticMergeSuggestion,
   filePaths: Map<string, string>,
   omgRoot: string,
-): Promise<{ auditEntry: import('./types.js').DedupAuditEntry; nodesArchived: number }> {
+): Promise<{ auditEntry: DedupAuditEntry; nodesArchived: number }> {
   // Build a MergePlan-compatible structure
   const plan = {
     keepUid: '',
@@ -16,6 +16,8 @@ import type { RegistryNodeEntry } from '../graph/registry.js'
 export interface SemanticDedupConfig {
   /** Whether semantic dedup is enabled. */
   readonly enabled: boolean
+  /** `auto` merges suggestions immediately; `review` queues them for an operator. */
+  readonly mode: 'auto' | 'review'
   /** Lower heuristic threshold for pre-filtering candidate blocks. Range [0, 1]. */
   readonly heuristicPrefilterThreshold: number
   /** Minimum LLM-reported similarity (0–100) to accept a merge suggestion. */
@@ -86,6 +88,8 @@ export const semanticDedupLlmResponseSchema = z.object({
 export interface SemanticDedupResult {
   readonly blocksProcessed: number
   readonly mergesExecuted: number
+  /** Suggestions written to the review queue instead of merged (`mode: "review"`). */
+  readonly mergesQueued: number
   readonly nodesArchived: number
   readonly tokensUsed: number
   readonly errors: readonly string[]
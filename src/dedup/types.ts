@@ -87,18 +87,49 @@ export interface DedupRunResult {
 // DedupAuditEntry
 // ---------------------------------------------------------------------------
 
-/** A single audit record written after each merge. */
+/** An incoming link that a merge redirected from a loser to the keeper. */
+export interface RedirectedLink {
+  /** Node whose `links` were rewritten. */
+  readonly nodeId: string
+  /** Loser ID the link pointed at before the merge. */
+  readonly from: string
+  /** True when the node already linked the keeper, so an unmerge leaves that link alone. */
+  readonly keeperLinked?: boolean
+}
+
+/** The part of a merge's `bodyAppend` attributed to one loser. */
+export interface BodyShare {
+  /** Loser the text came from. */
+  readonly nodeId: string
+  /** Paragraph(s) of `bodyAppend`, exactly as appended to the keeper. */
+  readonly text: string
+}
+
+/**
+ * A single audit record written after each merge or unmerge.
+ *
+ * For an unmerge, `mergedNodeIds` holds the restored node, `aliasKeys` the
+ * aliases removed from the keeper, and `patch.bodyAppend` the body text
+ * removed from it, if any.
+ */
 export interface DedupAuditEntry {
   readonly timestamp: string
+  /** Absent on entries written before unmerge existed; treated as "merge". */
+  readonly action?: 'merge' | 'unmerge'
   readonly keepNodeId: string
   readonly mergedNodeIds: readonly string[]
   readonly aliasKeys: readonly string[]
   readonly conflicts: readonly string[]
   readonly patch: MergePlan['patch']
+  /** Links redirected to the keeper, so an unmerge can restore them. */
+  readonly redirectedLinks?: readonly RedirectedLink[]
+  /** Each loser's share of `patch.bodyAppend`, so an unmerge can take back just that loser's text. */
+  readonly bodyShares?: readonly BodyShare[]
 }
 
 export const dedupAuditEntrySchema = z.object({
   timestamp: z.string(),
+  action: z.enum(['merge', 'unmerge']).optional(),
   keepNodeId: z.string(),
   mergedNodeIds: z.array(z.string()),
   aliasKeys: z.array(z.string()),
@@ -109,6 +140,8 @@ export const dedupAuditEntrySchema = z.object({
     links: z.array(z.string()).optional(),
     bodyAppend: z.string().optional(),
   }),
+  redirectedLinks: z.array(z.object({ nodeId: z.string(), from: z.string(), keeperLinked: z.boolean().optional() })).optional(),
+  bodyShares: z.array(z.object({ nodeId: z.string(), text: z.string() })).optional(),
 })
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,201 @@
+/**
+ * Reverses a single dedup merge: `omg dedup unmerge <keeper-id> <loser-id>`.
+ *
+ * Uses the provenance a merge leaves behind — `mergedInto` on the loser,
+ * `mergedFrom` / `aliases` on the keeper, and the merge's audit entry — to
+ * restore the loser as a live node and take back what the merge added to the
+ * keeper. The unmerge itself is recorded in the audit log, which also stops
+ * later dedup runs from merging the pair again.
+ */
+import { promises as fs } from 'node:fs'
+import { parseFrontmatter, serializeFrontmatter } from '../utils/frontmatter.js'
+import { atomicWrite, isEnoent } from '../utils/fs.js'
+import { getRegistryEntry, updateRegistryEntry } from '../graph/registry.js'
+import { setNodeArchived } from '../graph/archive.js'
+import { appendAuditEntry, readAuditLog } from './audit.js'
+import type { DedupAuditEntry } from './types.js'
+
+/** Outcome of {@link unmergeNode}. */
+export interface UnmergeResult {
+  readonly keepNodeId: string
+  readonly restoredNodeId: string
+  /** Aliases removed from the keeper. */
+  readonly aliasesRemoved: readonly string[]
+  /** True when the loser's share of the merge's `bodyAppend` was removed from the keeper body. */
+  readonly bodyReverted: boolean
+  /** Node IDs whose link to the restored node was put back. */
+  readonly linksRestored: readonly string[]
+  /** MOC domains the restored node's wikilink was re-added to. */
+  readonly mocDomains: readonly string[]
+  readonly auditEntry: DedupAuditEntry
+}
+
+async function readNode(filePath: string, nodeId: string): Promise<{ frontmatter: Record<string, unknown>; body: string }> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, 'utf-8')
+  } catch (err) {
+    if (isEnoent(err)) throw new Error(`Node file for "${nodeId}" is missing: ${filePath}`)
+    throw err
+  }
+  const { frontmatter, body } = parseFrontmatter(raw)
+  return { frontmatter: { ...frontmatter }, body }
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+/** Latest merge of `loserId` into `keepNodeId` recorded in the audit log. */
+function findMergeEntry(
+  entries: readonly DedupAuditEntry[],
+  keepNodeId: string,
+  loserId: string,
+): DedupAuditEntry | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i]
+    if (e && e.action !== 'unmerge' && e.keepNodeId === keepNodeId && e.mergedNodeIds.includes(loserId)) return e
+  }
+  return undefined
+}
+
+/**
+ * Adds `link` back to a node's frontmatter links and registry entry, and
+ * drops `dropLink` (the keeper link the merge redirected to) when given.
+ * Returns false when the node is gone or its links are already as wanted.
+ */
+async function restoreLink(omgRoot: string, nodeId: string, link: string, dropLink: string | null): Promise<boolean> {
+  const entry = await getRegistryEntry(omgRoot, nodeId)
+  if (!entry) return false
+
+  let node: { frontmatter: Record<string, unknown>; body: string }
+  try {
+    node = await readNode(entry.filePath, nodeId)
+  } catch (err) {
+    console.warn(`[omg] dedup unmerge: cannot restore link in "${nodeId}":`, err instanceof Error ? err.message : String(err))
+    return false
+  }
+
+  const links = stringArray(node.frontmatter['links'])
+  const dropping = dropLink !== null && links.includes(dropLink)
+  if (links.includes(link) && !dropping) return false
+  const restored = links.includes(link) ? links : [...links, link]
+  const updatedLinks = dropping ? restored.filter((l) => l !== dropLink) : restored
+  await atomicWrite(entry.filePath, serializeFrontmatter({ ...node.frontmatter, links: updatedLinks }, node.body))
+  await updateRegistryEntry(omgRoot, nodeId, { links: updatedLinks })
+  return true
+}
+
+/**
+ * Reverses the merge of `loserId` into `keepNodeId`:
+ * - the keeper loses `loserId` from `mergedFrom`, the loser's alias keys and
+ *   the loser's share of the merge's `bodyAppend`;
+ * - the loser is un-archived, its `mergedInto` cleared, and its MOC
+ *   wikilinks restored;
+ * - links the merge redirected from the loser to the keeper point back at
+ *   the loser again, dropping the keeper link unless something else put it there;
+ * - an `unmerge` audit entry is appended.
+ *
+ * Without a matching merge audit entry (e.g. the log was pruned) only the
+ * frontmatter provenance is reverted.
+ *
+ * @throws If either node is missing or the loser was not merged into the keeper.
+ */
+export async function unmergeNode(omgRoot: string, keepNodeId: string, loserId: string): Promise<UnmergeResult> {
+  const keeperEntry = await getRegistryEntry(omgRoot, keepNodeId)
+  if (!keeperEntry) throw new Error(`Node "${keepNodeId}" is not in the registry`)
+  const loserEntry = await getRegistryEntry(omgRoot, loserId)
+  if (!loserEntry) throw new Error(`Node "${loserId}" is not in the registry`)
+
+  const loser = await readNode(loserEntry.filePath, loserId)
+  if (loser.frontmatter['mergedInto'] !== keepNodeId) {
+    throw new Error(`Node "${loserId}" was not merged into "${keepNodeId}"`)
+  }
+
+  const mergeEntry = findMergeEntry(await readAuditLog(omgRoot), keepNodeId, loserId)
+  if (!mergeEntry) {
+    console.warn(
+      `[omg] dedup unmerge: no audit entry for the merge of "${loserId}" into "${keepNodeId}" — ` +
+        'keeper body and redirected links are left unchanged',
+    )
+  }
+  // Alias keys from a patch built from several losers cannot be split between them.
+  const soleLoser = mergeEntry !== undefined && mergeEntry.mergedNodeIds.length === 1
+
+  // --- Keeper ---------------------------------------------------------------
+  const keeper = await readNode(keeperEntry.filePath, keepNodeId)
+  const loserKeys = new Set<string>(soleLoser ? mergeEntry.aliasKeys : [])
+  if (typeof loser.frontmatter['canonicalKey'] === 'string') loserKeys.add(loser.frontmatter['canonicalKey'])
+
+  const aliases = stringArray(keeper.frontmatter['aliases'])
+  const aliasesRemoved = aliases.filter((a) => loserKeys.has(a))
+  const remainingAliases = aliases.filter((a) => !loserKeys.has(a))
+  const mergedFrom = stringArray(keeper.frontmatter['mergedFrom']).filter((id) => id !== loserId)
+
+  // Entries written before shares were recorded only attribute a sole loser's append
+  const shares = mergeEntry?.bodyShares !== undefined
+    ? mergeEntry.bodyShares.filter((share) => share.nodeId === loserId).map((share) => share.text)
+    : soleLoser && mergeEntry.patch.bodyAppend ? [mergeEntry.patch.bodyAppend] : []
+  let body = keeper.body
+  const removedText: string[] = []
+  for (const text of shares) {
+    const segment = `\n\n${text}`
+    const index = body.lastIndexOf(segment)
+    if (index === -1) {
+      console.warn(`[omg] dedup unmerge: merged text no longer found in "${keepNodeId}" — that part of the body is left unchanged`)
+      continue
+    }
+    body = body.slice(0, index) + body.slice(index + segment.length)
+    removedText.push(text)
+  }
+  const bodyReverted = removedText.length > 0
+
+  const { aliases: _aliases, mergedFrom: _mergedFrom, ...keeperRest } = keeper.frontmatter
+  const updated = new Date().toISOString()
+  const keeperRecord: Record<string, unknown> = {
+    ...keeperRest,
+    updated,
+    ...(remainingAliases.length > 0 && { aliases: remainingAliases }),
+    ...(mergedFrom.length > 0 && { mergedFrom }),
+  }
+  await atomicWrite(keeperEntry.filePath, serializeFrontmatter(keeperRecord, body))
+  await updateRegistryEntry(omgRoot, keepNodeId, { updated })
+
+  // --- Loser ----------------------------------------------------------------
+  const { mergedInto: _mergedInto, ...loserRest } = loser.frontmatter
+  await atomicWrite(loserEntry.filePath, serializeFrontmatter(loserRest, loser.body))
+  const { mocDomains } = await setNodeArchived(omgRoot, loserId, false)
+
+  // --- Redirected links -----------------------------------------------------
+  const redirectedLinks = mergeEntry?.redirectedLinks ?? []
+  const linksRestored: string[] = []
+  for (const { nodeId, from, keeperLinked } of redirectedLinks) {
+    if (from !== loserId) continue
+    try {
+      // The keeper link stays when the node linked the keeper anyway, or still
+      // reaches it through another loser of the same merge
+      let keepKeeperLink = keeperLinked === true
+      for (const other of redirectedLinks) {
+        if (keepKeeperLink) break
+        if (other.nodeId !== nodeId || other.from === loserId) continue
+        keepKeeperLink = (await getRegistryEntry(omgRoot, other.from))?.archived === true
+      }
+      if (await restoreLink(omgRoot, nodeId, loserId, keepKeeperLink ? null : keepNodeId)) linksRestored.push(nodeId)
+    } catch (err) {
+      console.error(`[omg] dedup unmerge: failed to restore link in "${nodeId}":`, err)
+    }
+  }
+
+  const auditEntry: DedupAuditEntry = {
+    timestamp: updated,
+    action: 'unmerge',
+    keepNodeId,
+    mergedNodeIds: [loserId],
+    aliasKeys: aliasesRemoved,
+    conflicts: [],
+    patch: bodyReverted ? { bodyAppend: removedText.join('\n\n') } : {},
+  }
+  await appendAuditEntry(omgRoot, auditEntry)
+
+  return { keepNodeId, restoredNodeId: loserId, aliasesRemoved, bodyReverted, linksRestored, mocDomains, auditEntry }
+}
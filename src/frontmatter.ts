@@ -1,5 +1,5 @@
 import { z } from 'zod'
-import { NODE_TYPES, isNodeType, isCompressionLevel } from './types.js'
+import { NODE_TYPES, REFLECTION_LEVELS, isNodeType, isCompressionLevel } from './types.js'
 import type { NodeFrontmatter } from './types.js'
 import { formatZodErrors } from './error-utils.js'
 
@@ -57,6 +57,7 @@ const iso8601Field = z
  *
  * - Unknown keys are stripped (forward-compatible with future frontmatter fields).
  * - `updated` must be >= `created` (lexicographic ISO 8601 comparison).
+ * - `validUntil`, when both validity bounds are set, must not precede `validFrom`.
  * - `type` must be a valid {@link NodeType}.
  */
 export const nodeFrontmatterSchema = z
@@ -94,12 +95,22 @@ export const nodeFrontmatterSchema = z
       .string()
       .regex(NODE_ID_RE, 'mergedInto must be in "namespace/slug" format')
       .optional(),
+    mergedFrom: z.array(z.string().min(1, 'merged node ID must not be empty')).optional(),
+    validFrom: iso8601Field.optional(),
+    validUntil: iso8601Field.optional(),
+    agents: z.array(z.string().min(1, 'agent ID must not be empty')).optional(),
+    reflectionLevel: z.enum(REFLECTION_LEVELS).optional(),
+    timeRange: z.object({ start: iso8601Field, end: iso8601Field }).strict().optional(),
   })
   .strip()
   .refine((f) => f.updated >= f.created, {
     message: 'updated must be >= created',
     path: ['updated'],
   })
+  .refine((f) => f.validFrom === undefined || f.validUntil === undefined || Date.parse(f.validUntil) >= Date.parse(f.validFrom), {
+    message: 'validUntil must be >= validFrom',
+    path: ['validUntil'],
+  })
 
 // ---------------------------------------------------------------------------
 // FrontmatterValidationError
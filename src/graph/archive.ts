@@ -0,0 +1,85 @@
+/**
+ * archive.ts — Archive and restore individual graph nodes.
+ *
+ * Keeps the three places that record archival in step: the node file's
+ * frontmatter, the registry entry, and the wikilinks in the node's MOCs.
+ * Used by `omg archive` / `omg restore` and by maintenance jobs that retire
+ * nodes automatically.
+ */
+
+import { promises as fs } from 'node:fs'
+import { getRegistryEntry, updateRegistryEntry } from './registry.js'
+import { applyMocUpdate } from './moc-manager.js'
+import { parseFrontmatter, serializeFrontmatter } from '../utils/frontmatter.js'
+import { atomicWrite, isEnoent } from '../utils/fs.js'
+import { resolveMocPath } from '../utils/paths.js'
+
+/** Outcome of {@link setNodeArchived}. */
+export interface ArchiveToggleResult {
+  readonly nodeId: string
+  /** False when the node was already in the requested state. */
+  readonly changed: boolean
+  /** MOC domains whose wikilinks were added or removed. */
+  readonly mocDomains: readonly string[]
+}
+
+const MOC_LINK_PREFIX = 'omg/moc-'
+
+/**
+ * Sets or clears the `archived` flag on a node file, mirrors the change into
+ * the registry, and removes (archive) or re-adds (restore) the node's wikilink
+ * in every MOC it links to via `omg/moc-{domain}`.
+ *
+ * @throws If the node ID is not in the registry or its file is missing.
+ */
+export async function setNodeArchived(
+  omgRoot: string,
+  nodeId: string,
+  archived: boolean
+): Promise<ArchiveToggleResult> {
+  const entry = await getRegistryEntry(omgRoot, nodeId)
+  if (!entry) {
+    throw new Error(`Node "${nodeId}" is not in the registry`)
+  }
+
+  let raw: string
+  try {
+    raw = await fs.readFile(entry.filePath, 'utf-8')
+  } catch (err) {
+    if (isEnoent(err)) {
+      throw new Error(`Node file for "${nodeId}" is missing: ${entry.filePath}`)
+    }
+    throw err
+  }
+
+  const { frontmatter, body } = parseFrontmatter(raw)
+  const wasArchived = frontmatter['archived'] === true
+  const mocDomains = (entry.links ?? [])
+    .filter((link) => link.startsWith(MOC_LINK_PREFIX))
+    .map((link) => link.slice(MOC_LINK_PREFIX.length))
+
+  if (wasArchived === archived) {
+    return { nodeId, changed: false, mocDomains: [] }
+  }
+
+  // Bumping `updated` starts the archived-node retention clock at archival time.
+  const updated = new Date().toISOString()
+  const { archived: _previous, ...rest } = frontmatter
+  const record: Record<string, unknown> = archived ? { ...rest, updated, archived: true } : { ...rest, updated }
+  await atomicWrite(entry.filePath, serializeFrontmatter(record, body))
+  await updateRegistryEntry(omgRoot, nodeId, { archived, updated })
+
+  for (const domain of mocDomains) {
+    try {
+      await applyMocUpdate(resolveMocPath(omgRoot, domain), {
+        action: archived ? 'remove' : 'add',
+        nodeId,
+        description: entry.description,
+      })
+    } catch (err) {
+      console.error(`[omg] archive: MOC update failed for domain "${domain}" (${nodeId}):`, err)
+    }
+  }
+
+  return { nodeId, changed: true, mocDomains }
+}
@@ -0,0 +1,269 @@
+/**
+ * bundle.ts — Portable graph export/import as a versioned JSONL bundle.
+ *
+ * Line 1 is a header; every following line is one observation node with its
+ * full frontmatter (links, aliases, mergedFrom provenance, …), body, and the
+ * MOC domains that list it:
+ *
+ *   {"format":"omg-bundle","version":1,"exportedAt":"…","nodeCount":2}
+ *   {"frontmatter":{"id":"omg/preference/…",…},"body":"…","mocs":["preferences"]}
+ *
+ * Imports go through the deterministic id/uid/path computation, so importing a
+ * bundle twice — or into a graph that already holds some of its nodes — never
+ * creates duplicates. Backs `omg export` and `omg import`.
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import { z } from 'zod'
+import type { NodeFrontmatter, NodeType } from '../types.js'
+import { parseNodeFrontmatter } from '../frontmatter.js'
+import { getRegistryEntries, getRegistryEntry } from './registry.js'
+import { readGraphNode } from './node-reader.js'
+import { writeImportedNode } from './node-writer.js'
+import { applyMocUpdate, mocGroupOf } from './moc-manager.js'
+import { regenerateIndex } from './index-manager.js'
+import { parseFrontmatter } from '../utils/frontmatter.js'
+import { atomicWrite, isEnoent, readFileOrNull } from '../utils/fs.js'
+import { extractWikilinks } from '../utils/markdown.js'
+import { resolveMocPath } from '../utils/paths.js'
+import { computeNodeId } from '../utils/id.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const BUNDLE_FORMAT = 'omg-bundle'
+export const BUNDLE_VERSION = 1
+
+/** System node types that are rebuilt locally and never exported. */
+const SYSTEM_TYPES: ReadonlySet<NodeType> = new Set(['moc', 'index', 'now', 'reflection'])
+
+/** One exported node. */
+export interface BundleNode {
+  readonly frontmatter: NodeFrontmatter
+  readonly body: string
+  /** Domains of the MOCs that link to this node. */
+  readonly mocs: readonly string[]
+}
+
+export interface ExportOptions {
+  /** Include archived nodes (default: false). */
+  readonly includeArchived?: boolean
+}
+
+export interface ImportOptions {
+  /** Scope used to compute each imported node's uid. */
+  readonly scope: string
+}
+
+/** Outcome of {@link exportGraphBundle}. */
+export interface ExportResult {
+  readonly nodeCount: number
+}
+
+/** Outcome of {@link importGraphBundle}. */
+export interface ImportResult {
+  /** Nodes written to a path that did not exist yet. */
+  readonly created: number
+  /** Existing nodes overwritten by a newer bundle copy. */
+  readonly updated: number
+  /** Nodes skipped because the local copy is as new or newer. */
+  readonly skipped: number
+  /** Lines that could not be parsed or written. */
+  readonly failed: number
+}
+
+const bundleHeaderSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int(),
+  exportedAt: z.string(),
+  nodeCount: z.number().int().nonnegative(),
+})
+
+const bundleLineSchema = z.object({
+  frontmatter: z.unknown(),
+  body: z.string(),
+  mocs: z.array(z.string()).default([]),
+})
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Maps each node ID to the domains of the MOCs (`mocs/moc-{domain}.md`) whose
+ * body links to it. Returns an empty map if the directory does not exist.
+ */
+async function collectMocMembership(omgRoot: string): Promise<Map<string, string[]>> {
+  const membership = new Map<string, string[]>()
+  const mocsDir = path.join(omgRoot, 'mocs')
+  let files: string[]
+  try {
+    files = await fs.readdir(mocsDir)
+  } catch (err) {
+    if (isEnoent(err)) return membership
+    throw err
+  }
+  for (const file of files) {
+    if (!file.startsWith('moc-') || !file.endsWith('.md')) continue
+    const raw = await readFileOrNull(path.join(mocsDir, file))
+    if (raw === null) continue
+    const domain = file.slice('moc-'.length, -'.md'.length)
+    for (const nodeId of extractWikilinks(parseFrontmatter(raw).body)) {
+      membership.set(nodeId, [...(membership.get(nodeId) ?? []), domain])
+    }
+  }
+  return membership
+}
+
+/**
+ * Collects all exportable observation nodes, sorted by ID for stable output.
+ */
+export async function collectBundleNodes(omgRoot: string, options: ExportOptions = {}): Promise<BundleNode[]> {
+  const membership = await collectMocMembership(omgRoot)
+  const entries = await getRegistryEntries(omgRoot)
+  const nodes: BundleNode[] = []
+  for (const [nodeId, entry] of entries) {
+    if (SYSTEM_TYPES.has(entry.type) || entry.kind !== 'observation') continue
+    if (entry.archived && !options.includeArchived) continue
+    const node = await readGraphNode(entry.filePath)
+    if (!node) {
+      console.warn(`[omg] bundle: node ${nodeId} could not be read from ${entry.filePath} — skipping`)
+      continue
+    }
+    nodes.push({ frontmatter: node.frontmatter, body: node.body, mocs: membership.get(nodeId) ?? [] })
+  }
+  return nodes.sort((a, b) => a.frontmatter.id.localeCompare(b.frontmatter.id))
+}
+
+/**
+ * Serializes nodes into bundle JSONL (header line first).
+ */
+export function serializeBundle(nodes: readonly BundleNode[], exportedAt: string = new Date().toISOString()): string {
+  const header = { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt, nodeCount: nodes.length }
+  return [header, ...nodes].map((line) => JSON.stringify(line)).join('\n') + '\n'
+}
+
+/**
+ * Writes the graph's observation nodes to `outPath` as a bundle.
+ */
+export async function exportGraphBundle(
+  omgRoot: string,
+  outPath: string,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const nodes = await collectBundleNodes(omgRoot, options)
+  await fs.mkdir(path.dirname(outPath), { recursive: true })
+  await atomicWrite(outPath, serializeBundle(nodes))
+  return { nodeCount: nodes.length }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses bundle JSONL into nodes. Malformed node lines are skipped with a
+ * warning and counted in `failed`.
+ *
+ * @throws If the header line is missing, not a bundle, or a newer version.
+ */
+export function parseBundle(raw: string): { nodes: BundleNode[]; failed: number } {
+  const lines = raw.split('\n').map((l) => l.trim()).filter((l) => l !== '')
+  const headerLine = lines[0]
+  if (headerLine === undefined) {
+    throw new Error('Bundle is empty')
+  }
+
+  let header: z.infer<typeof bundleHeaderSchema>
+  try {
+    header = bundleHeaderSchema.parse(JSON.parse(headerLine))
+  } catch (err) {
+    throw new Error(`Bundle header is invalid: ${err instanceof Error ? err.message : String(err)}`, { cause: err })
+  }
+  if (header.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${header.version} is newer than supported version ${BUNDLE_VERSION}`)
+  }
+
+  const nodes: BundleNode[] = []
+  let failed = 0
+  for (let i = 1; i < lines.length; i++) {
+    try {
+      const line = bundleLineSchema.parse(JSON.parse(lines[i] ?? ''))
+      nodes.push({ frontmatter: parseNodeFrontmatter(line.frontmatter), body: line.body, mocs: line.mocs })
+    } catch (err) {
+      console.warn(`[omg] bundle: line ${i + 1} is invalid — skipping:`, err instanceof Error ? err.message : String(err))
+      failed++
+    }
+  }
+  return { nodes, failed }
+}
+
+/**
+ * Nodes exported without a canonicalKey (legacy writes) get one from the last
+ * segment of their ID; the original ID is kept as an alias if it changes.
+ */
+function withCanonicalKey(frontmatter: NodeFrontmatter): NodeFrontmatter {
+  if (frontmatter.canonicalKey !== undefined) return frontmatter
+  const canonicalKey = frontmatter.id.split('/').pop() ?? ''
+  if (computeNodeId(frontmatter.type, canonicalKey) === frontmatter.id) return { ...frontmatter, canonicalKey }
+  return { ...frontmatter, canonicalKey, aliases: [...new Set([...(frontmatter.aliases ?? []), frontmatter.id])] }
+}
+
+/**
+ * Upserts every node in the bundle at `inPath` into the graph, re-adds MOC
+ * membership, and regenerates `index.md`. A node whose local copy has an
+ * `updated` timestamp at or after the bundle's is left untouched.
+ *
+ * @throws If the file cannot be read or its header is invalid.
+ */
+export async function importGraphBundle(
+  omgRoot: string,
+  inPath: string,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const { nodes, failed: parseFailed } = parseBundle(await fs.readFile(inPath, 'utf-8'))
+
+  let created = 0
+  let updated = 0
+  let skipped = 0
+  let failed = parseFailed
+  for (const bundleNode of nodes) {
+    const frontmatter = withCanonicalKey(bundleNode.frontmatter)
+    try {
+      const existing = await getRegistryEntry(omgRoot, computeNodeId(frontmatter.type, frontmatter.canonicalKey ?? ''))
+      if (existing && existing.updated >= frontmatter.updated) {
+        skipped++
+        continue
+      }
+      const written = await writeImportedNode(omgRoot, frontmatter, bundleNode.body, options.scope)
+      if (existing) updated++
+      else created++
+
+      for (const domain of bundleNode.mocs) {
+        try {
+          await applyMocUpdate(resolveMocPath(omgRoot, domain), {
+            action: 'add',
+            nodeId: written.frontmatter.id,
+            description: written.frontmatter.description,
+            group: mocGroupOf(written.frontmatter, domain),
+          })
+        } catch (err) {
+          console.error(`[omg] bundle: MOC update failed for domain "${domain}" (${written.frontmatter.id}):`, err)
+        }
+      }
+    } catch (err) {
+      console.error(`[omg] bundle: failed to import ${bundleNode.frontmatter.id}:`, err)
+      failed++
+    }
+  }
+
+  if (created + updated > 0) {
+    const entries = await getRegistryEntries(omgRoot)
+    const activeNodes = entries.filter(([, e]) => !e.archived && e.type !== 'moc').length
+    await regenerateIndex(omgRoot, activeNodes)
+  }
+
+  return { created, updated, skipped, failed }
+}
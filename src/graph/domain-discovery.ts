@@ -0,0 +1,216 @@
+/**
+ * domain-discovery.ts — Grows the set of domains beyond the scaffolded MOCs.
+ *
+ * Nodes whose primary domain (see reflector/domain-resolver.ts) is one of
+ * `domainDiscovery.sourceDomains` — `misc` and the catch-all `facts` by
+ * default — are clustered by shared tag. An untagged node joins a cluster it
+ * links to or is linked from. A cluster of at least `minClusterSize` nodes
+ * becomes a domain named after its tag (`moc-health`, `moc-travel`): its
+ * members are re-homed from their catch-all MOC to the new one, the MOC is
+ * generated, and `index.md` is regenerated to list it.
+ */
+
+import { promises as fs } from 'node:fs'
+import type { OmgConfig } from '../config.js'
+import type { GraphNode } from '../types.js'
+import { NODE_TYPES } from '../types.js'
+import { getRegistryEntries, getNodeFilePaths, type RegistryNodeEntry } from './registry.js'
+import { relinkNode } from './node-writer.js'
+import { readGraphNode } from './node-reader.js'
+import { applyMocUpdate, regenerateMoc } from './moc-manager.js'
+import { regenerateIndex } from './index-manager.js'
+import { resolvePrimaryDomain } from '../reflector/domain-resolver.js'
+import { isEnoent } from '../utils/fs.js'
+import { resolveMocPath } from '../utils/paths.js'
+import { slugify } from '../utils/id.js'
+
+type DomainDiscoveryConfig = OmgConfig['graphMaintenance']['domainDiscovery']
+
+const MOC_LINK_PREFIX = 'omg/moc-'
+/** Node types that are never re-homed. */
+const STRUCTURAL_TYPES: ReadonlySet<string> = new Set(['moc', 'index', 'now', 'reflection'])
+
+/** A tag cluster large enough to become a domain. */
+export interface DomainProposal {
+  /** Domain slug; the MOC is `mocs/moc-{domain}.md`. */
+  readonly domain: string
+  readonly nodeIds: readonly string[]
+}
+
+/** Outcome of {@link discoverDomains}. */
+export interface DomainDiscoveryResult {
+  /** Proposals applied this run. */
+  readonly proposals: readonly DomainProposal[]
+  /** Domains whose MOC did not exist before this run. */
+  readonly domainsCreated: readonly string[]
+  readonly nodesRehomed: number
+  readonly errors: readonly string[]
+}
+
+const mocLink = (domain: string): string => `${MOC_LINK_PREFIX}${domain}`
+
+/**
+ * Clusters under-organized nodes and returns the clusters of at least
+ * `minClusterSize`, largest first, capped at `maxDomainsPerRun`.
+ *
+ * Tags are slugified; tags naming a source domain or a node type are too
+ * generic to seed a domain and are ignored. Each node joins at most one
+ * cluster — the one for its most widely shared tag.
+ */
+export function proposeDomains(
+  entries: readonly (readonly [string, RegistryNodeEntry])[],
+  config: DomainDiscoveryConfig,
+): DomainProposal[] {
+  const sourceDomains = new Set(config.sourceDomains)
+  const ignoredTags = new Set<string>([...config.sourceDomains, ...NODE_TYPES])
+
+  const candidates = new Map<string, RegistryNodeEntry>()
+  for (const [id, entry] of entries) {
+    if (entry.archived || STRUCTURAL_TYPES.has(entry.type)) continue
+    if (sourceDomains.has(resolvePrimaryDomain(entry))) candidates.set(id, entry)
+  }
+
+  const tagsOf = new Map<string, string[]>()
+  const membersByTag = new Map<string, string[]>()
+  const neighbours = new Map<string, Set<string>>()
+  for (const [id, entry] of candidates) {
+    const tags = [...new Set((entry.tags ?? []).map(slugify))].filter((t) => t !== '' && !ignoredTags.has(t))
+    tagsOf.set(id, tags)
+    for (const tag of tags) membersByTag.set(tag, [...(membersByTag.get(tag) ?? []), id])
+    for (const link of entry.links ?? []) {
+      if (link === id || !candidates.has(link)) continue
+      neighbours.set(id, (neighbours.get(id) ?? new Set()).add(link))
+      neighbours.set(link, (neighbours.get(link) ?? new Set()).add(id))
+    }
+  }
+
+  const tagOrder = [...membersByTag.keys()].sort((a, b) =>
+    membersByTag.get(b)!.length - membersByTag.get(a)!.length || a.localeCompare(b)
+  )
+
+  const assigned = new Set<string>()
+  const proposals: DomainProposal[] = []
+  for (const tag of tagOrder) {
+    if (proposals.length >= config.maxDomainsPerRun) break
+    const members = membersByTag.get(tag)!.filter((id) => !assigned.has(id))
+    const memberSet = new Set(members)
+    const linked = [...candidates.keys()].filter((id) =>
+      !assigned.has(id) &&
+      !memberSet.has(id) &&
+      tagsOf.get(id)!.length === 0 &&
+      [...(neighbours.get(id) ?? [])].some((n) => memberSet.has(n))
+    )
+    const nodeIds = [...members, ...linked].sort()
+    if (nodeIds.length < config.minClusterSize) continue
+
+    for (const id of nodeIds) assigned.add(id)
+    proposals.push({ domain: tag, nodeIds })
+  }
+  return proposals
+}
+
+async function mocExists(omgRoot: string, domain: string): Promise<boolean> {
+  try {
+    await fs.access(resolveMocPath(omgRoot, domain))
+    return true
+  } catch (err) {
+    if (isEnoent(err)) return false
+    throw err
+  }
+}
+
+/**
+ * Moves a node from its source-domain MOC links to `domain`, in its file,
+ * the registry and the source MOCs.
+ */
+async function rehomeNode(
+  omgRoot: string,
+  nodeId: string,
+  domain: string,
+  sourceDomains: readonly string[],
+): Promise<void> {
+  const sourceLinks = new Set(sourceDomains.map(mocLink))
+  const previous = await relinkNode(omgRoot, nodeId, (links) =>
+    [...new Set([mocLink(domain), ...links.filter((l) => !sourceLinks.has(l))])]
+  )
+  if (previous === null) throw new Error('node not found in registry')
+
+  for (const link of previous.filter((l) => sourceLinks.has(l))) {
+    await applyMocUpdate(resolveMocPath(omgRoot, link.slice(MOC_LINK_PREFIX.length)), { action: 'remove', nodeId })
+  }
+}
+
+/**
+ * Applies {@link proposeDomains} to the graph: re-homes each cluster's nodes,
+ * regenerates the domain MOC from every node linked to it, and regenerates
+ * `index.md` when anything changed. Node failures are logged and collected;
+ * never throws.
+ */
+export async function discoverDomains(params: {
+  readonly omgRoot: string
+  readonly config: OmgConfig
+}): Promise<DomainDiscoveryResult> {
+  const { omgRoot, config } = params
+  const discoveryConfig = config.graphMaintenance.domainDiscovery
+  const errors: string[] = []
+  const domainsCreated: string[] = []
+  let nodesRehomed = 0
+
+  let entries: readonly [string, RegistryNodeEntry][]
+  try {
+    entries = await getRegistryEntries(omgRoot)
+  } catch (err) {
+    const msg = `failed to read registry: ${err instanceof Error ? err.message : String(err)}`
+    console.error('[omg] domain-discovery:', msg)
+    return { proposals: [], domainsCreated, nodesRehomed, errors: [msg] }
+  }
+
+  const proposals = proposeDomains(entries, discoveryConfig)
+  for (const proposal of proposals) {
+    try {
+      const isNew = !(await mocExists(omgRoot, proposal.domain))
+      for (const nodeId of proposal.nodeIds) {
+        try {
+          await rehomeNode(omgRoot, nodeId, proposal.domain, discoveryConfig.sourceDomains)
+          nodesRehomed++
+        } catch (err) {
+          const msg = `failed to re-home "${nodeId}" to "${proposal.domain}": ${err instanceof Error ? err.message : String(err)}`
+          console.error('[omg] domain-discovery:', msg)
+          errors.push(msg)
+        }
+      }
+
+      const link = mocLink(proposal.domain)
+      const memberIds = (await getRegistryEntries(omgRoot))
+        .filter(([, e]) => !e.archived && e.links?.includes(link))
+        .map(([id]) => id)
+      const filePaths = await getNodeFilePaths(omgRoot, memberIds)
+      const members = (await Promise.all([...filePaths.values()].map((fp) => readGraphNode(fp))))
+        .filter((n): n is GraphNode => n !== null)
+      await regenerateMoc(proposal.domain, members, omgRoot)
+
+      if (isNew) domainsCreated.push(proposal.domain)
+      console.warn(
+        `[omg] domain-discovery: ${isNew ? 'created' : 'extended'} moc-${proposal.domain} ` +
+          `with ${proposal.nodeIds.length} node(s)`
+      )
+    } catch (err) {
+      const msg = `domain "${proposal.domain}": ${err instanceof Error ? err.message : String(err)}`
+      console.error('[omg] domain-discovery:', msg)
+      errors.push(msg)
+    }
+  }
+
+  if (proposals.length > 0) {
+    try {
+      const activeNodes = (await getRegistryEntries(omgRoot)).filter(([, e]) => !e.archived && e.type !== 'moc').length
+      await regenerateIndex(omgRoot, activeNodes)
+    } catch (err) {
+      const msg = `failed to regenerate index: ${err instanceof Error ? err.message : String(err)}`
+      console.error('[omg] domain-discovery:', msg)
+      errors.push(msg)
+    }
+  }
+
+  return { proposals, domainsCreated, nodesRehomed, errors }
+}
@@ -0,0 +1,490 @@
+/**
+ * keyword-index.ts — Persistent inverted keyword index over registry metadata.
+ *
+ * Maintains `{omgRoot}/.keyword-index.json` mapping each term to the node IDs
+ * whose description, canonicalKey, or tags contain it (with term frequencies),
+ * plus per-document lengths for BM25 length normalisation. Replaces the
+ * per-turn full scans of every registry entry in the context selector.
+ *
+ * Sync model: the registry calls {@link syncKeywordIndexEntry} from inside its
+ * per-omgRoot mutex on every register/update/remove, which patches the cached
+ * index in place and schedules a debounced write; {@link rebuildKeywordIndex}
+ * (from `rebuildRegistry`) writes at once. Readers go through
+ * {@link getKeywordIndex}, which validates the on-disk index against the
+ * registry entries once and rebuilds it in memory when it has drifted.
+ *
+ * Archived nodes are not indexed. Index failures are logged, never propagated —
+ * callers fall back to the linear scan.
+ */
+
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { RegistryNodeEntry } from './registry.js'
+import { atomicWrite, readFileOrNull } from '../utils/fs.js'
+import { fold } from '../utils/string.js'
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const INDEX_VERSION = 1
+const INDEX_FILENAME = '.keyword-index.json'
+
+/** BM25 term-frequency saturation. */
+const BM25_K1 = 1.2
+/** BM25 length-normalisation strength. */
+const BM25_B = 0.75
+/** Shortest prefix considered when expanding a keyword to indexed terms. */
+const MIN_PREFIX_LENGTH = 3
+/** Registry changes within this window are persisted in a single write. */
+const PERSIST_DELAY_MS = 1000
+
+// ---------------------------------------------------------------------------
+// Schema & types
+// ---------------------------------------------------------------------------
+
+const keywordIndexDataSchema = z.object({
+  version: z.literal(INDEX_VERSION),
+  /** nodeId → document length (token count) and the registry `updated` it was indexed at. */
+  docs: z.record(z.object({ length: z.number().int().min(0), updated: z.string() })),
+  /** term → (nodeId → term frequency). Document frequency is the posting count. */
+  terms: z.record(z.record(z.number().int().min(1))),
+}).strip()
+
+type KeywordIndexData = z.infer<typeof keywordIndexDataSchema>
+
+/** Read-only query interface over the inverted index. */
+export interface KeywordIndex {
+  /** Number of indexed (non-archived) documents. */
+  readonly docCount: number
+  /** Number of documents containing `term` (already folded). */
+  documentFrequency(term: string): number
+  /**
+   * Terms appearing in at least `threshold` fraction of documents —
+   * the index-backed equivalent of `buildHighDfTokens`.
+   */
+  highDfTerms(threshold: number): ReadonlySet<string>
+  /**
+   * BM25 score per node ID for the given (folded) keywords. Each keyword is
+   * expanded to indexed terms sharing an adaptive prefix, so inflections
+   * still match; a keyword contributes at most once per document.
+   * Nodes with no matching term are absent from the map.
+   */
+  bm25(keywords: ReadonlySet<string>): ReadonlyMap<string, number>
+}
+
+// ---------------------------------------------------------------------------
+// Module-level cache
+// ---------------------------------------------------------------------------
+
+/** The cached index for one omgRoot, with aggregates kept current as it changes. */
+interface IndexState {
+  /** Mutated in place by registry syncs. */
+  readonly data: KeywordIndexData
+  docCount: number
+  totalLength: number
+  /**
+   * Number of registry entries (archived included) the index matches, or null
+   * when it has not been checked against the registry since it was loaded.
+   */
+  entryCount: number | null
+  /** Derived from `data`; dropped whenever it changes. */
+  sortedTerms: readonly string[] | null
+  highDf: { readonly threshold: number; readonly terms: ReadonlySet<string> } | null
+}
+
+const cache = new Map<string, IndexState>()
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+function indexPath(omgRoot: string): string {
+  return join(omgRoot, INDEX_FILENAME)
+}
+
+function setCached(omgRoot: string, data: KeywordIndexData, entryCount: number | null): IndexState {
+  const docs = Object.values(data.docs)
+  const state: IndexState = {
+    data,
+    docCount: docs.length,
+    totalLength: docs.reduce((sum, d) => sum + d.length, 0),
+    entryCount,
+    sortedTerms: null,
+    highDf: null,
+  }
+  cache.set(omgRoot, state)
+  return state
+}
+
+// ---------------------------------------------------------------------------
+// Tokenization
+// ---------------------------------------------------------------------------
+
+/**
+ * Tokenizes the searchable metadata of a registry entry (description,
+ * canonicalKey, tags) using the same folding and splitting as keyword
+ * extraction in the selector.
+ */
+export function tokenizeEntry(entry: RegistryNodeEntry): readonly string[] {
+  const text = `${entry.description} ${entry.canonicalKey ?? ''} ${(entry.tags ?? []).join(' ')}`
+  return fold(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 2)
+}
+
+function termFrequencies(tokens: readonly string[]): Map<string, number> {
+  const tf = new Map<string, number>()
+  for (const t of tokens) tf.set(t, (tf.get(t) ?? 0) + 1)
+  return tf
+}
+
+// ---------------------------------------------------------------------------
+// In-place index mutations
+// ---------------------------------------------------------------------------
+
+function isEmpty(record: Record<string, unknown>): boolean {
+  for (const _key in record) return false
+  return true
+}
+
+/** Removes `nodeId`'s document and postings. Returns whether the vocabulary changed. */
+function removeDoc(state: IndexState, nodeId: string, previous: RegistryNodeEntry | null): boolean {
+  const { docs, terms } = state.data
+  const doc = docs[nodeId]
+  if (!doc) return false
+  delete docs[nodeId]
+  state.docCount--
+  state.totalLength -= doc.length
+
+  // Prefer the previous entry's tokens to find postings; fall back to a full
+  // vocabulary scan when the previous entry is unknown.
+  const candidateTerms = previous
+    ? new Set(tokenizeEntry(previous))
+    : Object.keys(terms)
+
+  let vocabularyChanged = false
+  for (const term of candidateTerms) {
+    const postings = terms[term]
+    if (!postings || !(nodeId in postings)) continue
+    delete postings[nodeId]
+    if (isEmpty(postings)) {
+      delete terms[term]
+      vocabularyChanged = true
+    }
+  }
+  return vocabularyChanged
+}
+
+/** Adds `nodeId`'s document and postings. Returns whether the vocabulary changed. */
+function addDoc(state: IndexState, nodeId: string, entry: RegistryNodeEntry): boolean {
+  const { docs, terms } = state.data
+  const tokens = tokenizeEntry(entry)
+  let vocabularyChanged = false
+  for (const [term, tf] of termFrequencies(tokens)) {
+    const postings = terms[term]
+    if (postings) {
+      postings[nodeId] = tf
+    } else {
+      terms[term] = { [nodeId]: tf }
+      vocabularyChanged = true
+    }
+  }
+  docs[nodeId] = { length: tokens.length, updated: entry.updated }
+  state.docCount++
+  state.totalLength += tokens.length
+  return vocabularyChanged
+}
+
+function buildIndexData(entries: readonly [string, RegistryNodeEntry][]): KeywordIndexData {
+  const docs: Record<string, { length: number; updated: string }> = {}
+  const terms: Record<string, Record<string, number>> = {}
+  for (const [nodeId, entry] of entries) {
+    if (entry.archived) continue
+    const tokens = tokenizeEntry(entry)
+    docs[nodeId] = { length: tokens.length, updated: entry.updated }
+    for (const [term, tf] of termFrequencies(tokens)) {
+      const postings = terms[term] ?? {}
+      postings[nodeId] = tf
+      terms[term] = postings
+    }
+  }
+  return { version: INDEX_VERSION, docs, terms }
+}
+
+/**
+ * Returns true when the index covers exactly the non-archived entries, each
+ * indexed at its current `updated` timestamp.
+ */
+function isInSync(data: KeywordIndexData, entries: readonly [string, RegistryNodeEntry][]): boolean {
+  let active = 0
+  for (const [nodeId, entry] of entries) {
+    if (entry.archived) continue
+    active++
+    if (data.docs[nodeId]?.updated !== entry.updated) return false
+  }
+  return active === Object.keys(data.docs).length
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+async function persistIndex(omgRoot: string, data: KeywordIndexData): Promise<void> {
+  try {
+    await atomicWrite(indexPath(omgRoot), JSON.stringify(data))
+  } catch (err) {
+    console.error('[omg] keyword-index: failed to persist index (in-memory copy still current):', err)
+  }
+}
+
+/**
+ * Writes the cached index for `omgRoot` {@link PERSIST_DELAY_MS} after the
+ * first unsaved change, coalescing the changes in between. A write lost to a
+ * crash only costs a rebuild: the on-disk index is validated when loaded.
+ */
+function schedulePersist(omgRoot: string): void {
+  if (persistTimers.has(omgRoot)) return
+  const timer = setTimeout(() => {
+    persistTimers.delete(omgRoot)
+    const state = cache.get(omgRoot)
+    if (state) persistIndex(omgRoot, state.data)
+  }, PERSIST_DELAY_MS)
+  // Prevent a pending write from keeping the process alive
+  if (typeof timer === 'object' && 'unref' in timer) {
+    timer.unref()
+  }
+  persistTimers.set(omgRoot, timer)
+}
+
+function cancelPersist(omgRoot: string): void {
+  const timer = persistTimers.get(omgRoot)
+  if (timer) clearTimeout(timer)
+  persistTimers.delete(omgRoot)
+}
+
+/**
+ * Writes index changes still waiting for their debounced write, for
+ * `omgRoot` or every root. Never throws.
+ */
+export async function flushKeywordIndex(omgRoot?: string): Promise<void> {
+  const roots = omgRoot !== undefined ? [omgRoot] : [...persistTimers.keys()]
+  await Promise.all(roots.filter((root) => persistTimers.has(root)).map(async (root) => {
+    cancelPersist(root)
+    const state = cache.get(root)
+    if (state) await persistIndex(root, state.data)
+  }))
+}
+
+async function loadFromDisk(omgRoot: string): Promise<KeywordIndexData | null> {
+  const raw = await readFileOrNull(indexPath(omgRoot))
+  if (raw === null) return null
+  try {
+    const result = keywordIndexDataSchema.safeParse(JSON.parse(raw))
+    if (!result.success) {
+      console.error('[omg] keyword-index: .keyword-index.json failed schema validation — rebuilding')
+      return null
+    }
+    return result.data
+  } catch {
+    console.error('[omg] keyword-index: .keyword-index.json is not valid JSON — rebuilding')
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Sync API (called by registry.ts under its mutex)
+// ---------------------------------------------------------------------------
+
+/**
+ * Applies a single registry change to the cached index in place and
+ * schedules a debounced write of it.
+ * `next === null` (or an archived entry) removes the node from the index.
+ *
+ * No-op when no index has been built yet for `omgRoot` — the next
+ * {@link getKeywordIndex} call builds it from the registry.
+ * Never throws.
+ */
+export async function syncKeywordIndexEntry(
+  omgRoot: string,
+  nodeId: string,
+  previous: RegistryNodeEntry | null,
+  next: RegistryNodeEntry | null
+): Promise<void> {
+  try {
+    let state = cache.get(omgRoot)
+    if (!state) {
+      const fromDisk = await loadFromDisk(omgRoot)
+      if (!fromDisk) return
+      state = setCached(omgRoot, fromDisk, null)
+    }
+
+    let vocabularyChanged = removeDoc(state, nodeId, previous)
+    if (next && !next.archived) {
+      vocabularyChanged = addDoc(state, nodeId, next) || vocabularyChanged
+    }
+    if (state.entryCount !== null) {
+      state.entryCount += (next ? 1 : 0) - (previous ? 1 : 0)
+    }
+    if (vocabularyChanged) state.sortedTerms = null
+    state.highDf = null
+    schedulePersist(omgRoot)
+  } catch (err) {
+    console.error(`[omg] keyword-index: sync failed for "${nodeId}":`, err)
+  }
+}
+
+/**
+ * Rebuilds the index from scratch for the given registry entries and persists it.
+ * Never throws.
+ */
+export async function rebuildKeywordIndex(
+  omgRoot: string,
+  entries: readonly [string, RegistryNodeEntry][]
+): Promise<KeywordIndex> {
+  const data = buildIndexData(entries)
+  const state = setCached(omgRoot, data, entries.length)
+  cancelPersist(omgRoot)
+  await persistIndex(omgRoot, data)
+  return createKeywordIndex(state)
+}
+
+// ---------------------------------------------------------------------------
+// Read API
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the keyword index for `omgRoot`, loading it from disk on first use.
+ *
+ * `entries` must be the registry entries the caller is about to score
+ * (archived entries are ignored). If the cached or on-disk index does not
+ * match them, the index is rebuilt from the entries — no node files are read.
+ * Once checked, the cached index is trusted while the entry count matches:
+ * every registry change reaches it through {@link syncKeywordIndexEntry}.
+ */
+export async function getKeywordIndex(
+  omgRoot: string,
+  entries: readonly [string, RegistryNodeEntry][]
+): Promise<KeywordIndex> {
+  const cached = cache.get(omgRoot)
+  if (cached && cached.entryCount === entries.length) return createKeywordIndex(cached)
+  if (cached && isInSync(cached.data, entries)) {
+    cached.entryCount = entries.length
+    return createKeywordIndex(cached)
+  }
+
+  const fromDisk = cached ? null : await loadFromDisk(omgRoot)
+  if (fromDisk && isInSync(fromDisk, entries)) {
+    return createKeywordIndex(setCached(omgRoot, fromDisk, entries.length))
+  }
+
+  return rebuildKeywordIndex(omgRoot, entries)
+}
+
+/** Clears the in-memory index cache, dropping unsaved changes. Used for testing. */
+export function clearKeywordIndexCache(omgRoot?: string): void {
+  const roots = omgRoot ? [omgRoot] : [...cache.keys(), ...persistTimers.keys()]
+  for (const root of roots) {
+    cancelPersist(root)
+    cache.delete(root)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Query implementation
+// ---------------------------------------------------------------------------
+
+function sortedTerms(state: IndexState): readonly string[] {
+  state.sortedTerms ??= Object.keys(state.data.terms).sort()
+  return state.sortedTerms
+}
+
+/** Index of the first element in `sorted` that is >= `target`. */
+function lowerBound(sorted: readonly string[], target: string): number {
+  let lo = 0
+  let hi = sorted.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    if (sorted[mid]! < target) lo = mid + 1
+    else hi = mid
+  }
+  return lo
+}
+
+/**
+ * Expands a keyword to indexed terms sharing an adaptive prefix
+ * (`max(3, floor(min(len) * 0.75))` chars) — the same rule the selector uses
+ * for tag prefix matching, so Polish inflections like żona/żony still match.
+ */
+function expandKeyword(keyword: string, vocabulary: readonly string[]): readonly string[] {
+  if (keyword.length < MIN_PREFIX_LENGTH) return []
+  const stem = keyword.slice(0, MIN_PREFIX_LENGTH)
+  const matches: string[] = []
+  for (let i = lowerBound(vocabulary, stem); i < vocabulary.length; i++) {
+    const term = vocabulary[i]!
+    if (!term.startsWith(stem)) break
+    if (term === keyword) {
+      matches.push(term)
+      continue
+    }
+    const prefixLen = Math.max(MIN_PREFIX_LENGTH, Math.floor(Math.min(keyword.length, term.length) * 0.75))
+    if (keyword.length < prefixLen || term.length < prefixLen) continue
+    if (term.startsWith(keyword.slice(0, prefixLen)) || keyword.startsWith(term.slice(0, prefixLen))) {
+      matches.push(term)
+    }
+  }
+  return matches
+}
+
+function createKeywordIndex(state: IndexState): KeywordIndex {
+  const { data, docCount } = state
+  const avgDocLength = docCount === 0 ? 0 : state.totalLength / docCount
+
+  const idf = (df: number): number => Math.log(1 + (docCount - df + 0.5) / (df + 0.5))
+
+  return {
+    docCount,
+
+    documentFrequency(term: string): number {
+      const postings = data.terms[term]
+      return postings ? Object.keys(postings).length : 0
+    },
+
+    highDfTerms(threshold: number): ReadonlySet<string> {
+      // Recomputed only after the index changes
+      if (state.highDf?.threshold === threshold) return state.highDf.terms
+      const result = new Set<string>()
+      if (state.docCount > 0) {
+        const cutoff = Math.ceil(state.docCount * threshold)
+        for (const [term, postings] of Object.entries(data.terms)) {
+          if (Object.keys(postings).length >= cutoff) result.add(term)
+        }
+      }
+      state.highDf = { threshold, terms: result }
+      return result
+    },
+
+    bm25(keywords: ReadonlySet<string>): ReadonlyMap<string, number> {
+      const scores = new Map<string, number>()
+      if (docCount === 0 || keywords.size === 0) return scores
+      const vocabulary = sortedTerms(state)
+
+      for (const keyword of keywords) {
+        // Best contribution per document across this keyword's expansions.
+        const best = new Map<string, number>()
+        for (const term of expandKeyword(keyword, vocabulary)) {
+          const postings = data.terms[term]
+          if (!postings) continue
+          const termIdf = idf(Object.keys(postings).length)
+          for (const [nodeId, tf] of Object.entries(postings)) {
+            const length = data.docs[nodeId]?.length ?? avgDocLength
+            const norm = avgDocLength > 0 ? length / avgDocLength : 1
+            const score = termIdf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * norm))
+            if (score > (best.get(nodeId) ?? 0)) best.set(nodeId, score)
+          }
+        }
+        for (const [nodeId, score] of best) {
+          scores.set(nodeId, (scores.get(nodeId) ?? 0) + score)
+        }
+      }
+      return scores
+    },
+  }
+}
@@ -1,9 +1,9 @@
 import path from 'node:path'
 import { promises as fs } from 'node:fs'
-import type { MocUpdateEntry, GraphNode } from '../types.js'
+import type { MocUpdateEntry, GraphNode, NodeFrontmatter } from '../types.js'
 import { parseFrontmatter, serializeFrontmatter } from '../utils/frontmatter.js'
 import { atomicWrite } from '../utils/fs.js'
-import { insertWikilink, removeWikilink } from '../utils/markdown.js'
+import { extractWikilinks, formatWikilinkLine, isWikilinkLine, removeWikilink } from '../utils/markdown.js'
 import { resolveMocPath } from '../utils/paths.js'
 import { capitalise } from '../utils/string.js'
 
@@ -11,6 +11,9 @@ function today(): string {
   return new Date().toISOString().slice(0, 10)
 }
 
+/** Heading for nodes that fit no sub-section. */
+const UNGROUPED_HEADING = 'Other'
+
 async function readFileOrEmpty(filePath: string): Promise<string> {
   try {
     return await fs.readFile(filePath, 'utf-8')
@@ -23,11 +26,93 @@ async function readFileOrEmpty(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Options for {@link regenerateMoc}.
+ */
+export interface RegenerateMocOptions {
+  /**
+   * Fresh domain summary. Resets the membership-change counter that
+   * graph maintenance uses to decide when to refresh it. When omitted,
+   * the MOC's existing summary is kept.
+   */
+  readonly summary?: string
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+/** Orders MOC sub-section names alphabetically, with {@link UNGROUPED_HEADING} last. */
+function compareGroups(a: string, b: string): number {
+  return a === UNGROUPED_HEADING ? 1 : b === UNGROUPED_HEADING ? -1 : a.localeCompare(b)
+}
+
+/**
+ * Inserts `linkLine` among the link lines in `lines[from..to)`, keeping them
+ * sorted by node id as {@link regenerateMoc} writes them. Mutates `lines`.
+ */
+function insertSortedLink(lines: string[], from: number, to: number, nodeId: string, linkLine: string): void {
+  let lastLink = -1
+  for (let i = from; i < to; i++) {
+    const id = /^- \[\[([^\]]+)\]\]/.exec(lines[i]!)?.[1]
+    if (id === undefined) continue
+    if (id.localeCompare(nodeId) > 0) {
+      lines.splice(i, 0, linkLine)
+      return
+    }
+    lastLink = i
+  }
+  lines.splice(lastLink >= 0 ? lastLink + 1 : to, 0, linkLine)
+}
+
+/**
+ * Adds the link line for `update` to a MOC body: under the `## {group}`
+ * sub-section when the MOC has sub-sections (creating it in order when
+ * missing), else in id order among the links. Unchanged when already listed.
+ */
+function insertMocLink(body: string, update: MocUpdateEntry): string {
+  const linkLine = formatWikilinkLine(update.nodeId, update.description)
+  if (body.trim() === '') return linkLine
+
+  const lines = (body.endsWith('\n') ? body.slice(0, -1) : body).split('\n')
+  if (lines.some((line) => isWikilinkLine(line, update.nodeId))) return body
+
+  const headings = lines.flatMap((line, i) => (line.startsWith('## ') ? [i] : []))
+  if (headings.length === 0) {
+    insertSortedLink(lines, 0, lines.length, update.nodeId, linkLine)
+    return lines.join('\n')
+  }
+
+  const group = update.group ?? UNGROUPED_HEADING
+  const at = headings.findIndex((i) => lines[i] === `## ${group}`)
+  if (at >= 0) {
+    const start = headings[at]! + 1
+    let end = headings[at + 1] ?? lines.length
+    // Stay above the blank line that separates this section from the next
+    while (end > start && lines[end - 1] === '') end--
+    insertSortedLink(lines, start, end, update.nodeId, linkLine)
+    return lines.join('\n')
+  }
+
+  const before = headings.find((i) => compareGroups(lines[i]!.slice(3), group) > 0)
+  if (before !== undefined) {
+    lines.splice(before, 0, `## ${group}`, linkLine, '')
+  } else {
+    while (lines.at(-1) === '') lines.pop()
+    lines.push('', `## ${group}`, linkLine)
+  }
+  return lines.join('\n')
+}
+
 /**
  * Applies a single add/remove update to a MOC file.
  *
  * - If the MOC does not exist, it is created.
+ * - Added links are annotated with `update.description` when given and
+ *   placed under their `update.group` sub-section (see {@link insertMocLink});
+ *   a MOC without sub-sections stays flat until it is next regenerated.
  * - The 'updated' frontmatter field is set to today's date.
+ * - When the MOC has a summary, `membershipChanges` counts the change.
  * - Writes are performed atomically via a temp-file rename.
  * - Remove operations are idempotent: if the wikilink is not present in
  *   the file, the content is returned unchanged.
@@ -45,12 +130,16 @@ export async function applyMocUpdate(
 
   const updatedBody =
     update.action === 'add'
-      ? insertWikilink(body, update.nodeId)
+      ? insertMocLink(body, update)
       : removeWikilink(body, update.nodeId)
 
+  const hasSummary = typeof frontmatter['summary'] === 'string'
   const updatedFrontmatter = {
     ...frontmatter,
     updated: today(),
+    ...(hasSummary && updatedBody !== body && {
+      membershipChanges: numberOr(frontmatter['membershipChanges'], 0) + 1,
+    }),
   }
 
   const output = serializeFrontmatter(updatedFrontmatter, updatedBody)
@@ -58,10 +147,50 @@ export async function applyMocUpdate(
   await atomicWrite(mocPath, output)
 }
 
+/**
+ * Sub-section a node is listed under: the middle segment of a three-part
+ * canonical key (`projects.omg.release_plan` → "omg"), else its first tag
+ * other than the domain, else {@link UNGROUPED_HEADING}.
+ */
+export function mocGroupOf(node: Pick<NodeFrontmatter, 'canonicalKey' | 'tags'>, domain: string): string {
+  const segments = node.canonicalKey?.split('.') ?? []
+  const group = segments.length >= 3 ? segments[1] : node.tags?.find((t) => t !== domain)
+  return group ? capitalise(group.replace(/[_-]+/g, ' ')) : UNGROUPED_HEADING
+}
+
+/**
+ * Renders the MOC body: header, optional summary paragraph, then annotated
+ * links — under `##` sub-sections when the nodes fall into more than one group.
+ */
+function renderMocBody(domain: string, sortedNodes: readonly GraphNode[], summary: string | undefined): string {
+  const parts = [`# ${capitalise(domain)}`]
+  if (summary) parts.push(summary.trim())
+
+  const groups = new Map<string, string[]>()
+  for (const node of sortedNodes) {
+    const group = mocGroupOf(node.frontmatter, domain)
+    const lines = groups.get(group) ?? []
+    lines.push(formatWikilinkLine(node.frontmatter.id, node.frontmatter.description))
+    groups.set(group, lines)
+  }
+
+  if (groups.size === 1) {
+    parts.push([...groups.values()][0]!.join('\n'))
+  } else if (groups.size > 1) {
+    const names = [...groups.keys()].sort(compareGroups)
+    for (const name of names) parts.push(`## ${name}\n${groups.get(name)!.join('\n')}`)
+  }
+  return parts.join('\n\n')
+}
+
 /**
  * Fully regenerates the MOC for a given domain from the provided node list.
  *
  * - Sorts nodes by `frontmatter.id` using locale-aware string comparison (localeCompare).
+ * - Groups links into sub-sections (see {@link mocGroupOf}) and annotates
+ *   each with the node's description.
+ * - Keeps the existing domain summary unless `options.summary` replaces it,
+ *   and adds the number of links added or removed to `membershipChanges`.
  * - Overwrites any existing content deterministically.
  * - Writes atomically.
  */
@@ -69,30 +198,42 @@ export async function regenerateMoc(
   domain: string,
   nodes: GraphNode[],
   omgRoot: string,
+  options: RegenerateMocOptions = {},
 ): Promise<void> {
   const mocPath = resolveMocPath(omgRoot, domain)
+  const existing = parseFrontmatter(await readFileOrEmpty(mocPath))
 
   const sortedNodes = [...nodes].sort((a, b) =>
     a.frontmatter.id.localeCompare(b.frontmatter.id)
   )
 
-  const header = `# ${capitalise(domain)}`
-  const linkLines = sortedNodes
-    .map((node) => `- [[${node.frontmatter.id}]]`)
-    .join('\n')
+  const previousIds = new Set(extractWikilinks(existing.body))
+  const currentIds = new Set(sortedNodes.map((n) => n.frontmatter.id))
+  const changed =
+    [...currentIds].filter((id) => !previousIds.has(id)).length +
+    [...previousIds].filter((id) => !currentIds.has(id)).length
 
-  const body =
-    sortedNodes.length > 0
-      ? `${header}\n\n${linkLines}`
-      : `${header}`
+  const existingSummary = typeof existing.frontmatter['summary'] === 'string'
+    ? existing.frontmatter['summary']
+    : undefined
+  const summary = options.summary ?? existingSummary
 
   const frontmatter: Record<string, unknown> = {
     type: 'moc',
     domain,
     updated: today(),
   }
+  if (options.summary !== undefined) {
+    Object.assign(frontmatter, { summary, summaryMembers: sortedNodes.length, membershipChanges: 0 })
+  } else if (summary !== undefined) {
+    Object.assign(frontmatter, {
+      summary,
+      summaryMembers: numberOr(existing.frontmatter['summaryMembers'], 0),
+      membershipChanges: numberOr(existing.frontmatter['membershipChanges'], 0) + changed,
+    })
+  }
 
-  const output = serializeFrontmatter(frontmatter, body)
+  const output = serializeFrontmatter(frontmatter, renderMocBody(domain, sortedNodes, summary))
   await fs.mkdir(path.dirname(mocPath), { recursive: true })
   await atomicWrite(mocPath, output)
 }
@@ -0,0 +1,174 @@
+/**
+ * moc-summary.ts — LLM-written domain summaries for MOC pages.
+ *
+ * Each MOC carries a short summary of its domain (frontmatter `summary`,
+ * rendered under the header) so that humans and the injection `maxMocs`
+ * slots get an overview before the link list. Summaries are written during
+ * graph maintenance for domains with at least `mocSummaries.minNodes` live
+ * nodes, and rewritten once the links added or removed since the last summary
+ * (`membershipChanges`) reach `mocSummaries.refreshRatio` of the membership
+ * at that time (`summaryMembers`).
+ */
+
+import { promises as fs } from 'node:fs'
+import type { OmgConfig } from '../config.js'
+import type { LlmClient } from '../llm/client.js'
+import type { GraphNode } from '../types.js'
+import { getRegistryEntries, getNodeFilePaths } from './registry.js'
+import { readGraphNode } from './node-reader.js'
+import { regenerateMoc } from './moc-manager.js'
+import { parseFrontmatter } from '../utils/frontmatter.js'
+import { isEnoent } from '../utils/fs.js'
+import { resolveMocPath } from '../utils/paths.js'
+
+const MOC_LINK_PREFIX = 'omg/moc-'
+const MOC_SUMMARY_MAX_TOKENS = 400
+/** Node descriptions listed in the prompt; larger domains are sampled by recency. */
+const MOC_SUMMARY_MAX_NODES = 80
+
+type MocSummaryConfig = OmgConfig['graphMaintenance']['mocSummaries']
+
+/** Outcome of {@link refreshMocSummaries}. */
+export interface MocSummaryRefreshResult {
+  readonly domainsChecked: number
+  readonly summariesWritten: number
+  readonly tokensUsed: number
+  readonly errors: readonly string[]
+}
+
+/** Summary state read from a MOC's frontmatter. */
+export interface MocSummaryState {
+  readonly summary?: string
+  readonly summaryMembers: number
+  readonly membershipChanges: number
+}
+
+// ---------------------------------------------------------------------------
+// Prompts
+// ---------------------------------------------------------------------------
+
+export function buildMocSummarySystemPrompt(): string {
+  return `You write the overview paragraph for one domain of a personal knowledge graph.
+
+You are given the domain name and the descriptions of the notes filed under it.
+Write 2–4 sentences that tell a reader what the domain covers: the main themes,
+recurring subjects and anything notably current. Do not list every note, do not
+invent facts that are not in the descriptions, and do not mention that you are
+summarising.
+
+Respond with the paragraph only — plain text, no heading, no markdown list.`
+}
+
+export function buildMocSummaryUserPrompt(domain: string, nodes: readonly GraphNode[]): string {
+  const listed = [...nodes]
+    .sort((a, b) => b.frontmatter.updated.localeCompare(a.frontmatter.updated))
+    .slice(0, MOC_SUMMARY_MAX_NODES)
+  const lines = listed.map((n) => `- (${n.frontmatter.type}) ${n.frontmatter.description}`)
+  const omitted = nodes.length - listed.length
+  if (omitted > 0) lines.push(`- … and ${omitted} older note(s)`)
+  return `Domain: ${domain}\n\nNotes (${nodes.length}):\n${lines.join('\n')}`
+}
+
+// ---------------------------------------------------------------------------
+// Refresh policy
+// ---------------------------------------------------------------------------
+
+/** Reads the summary fields from a MOC file; missing files have no summary. */
+export async function readMocSummaryState(mocPath: string): Promise<MocSummaryState> {
+  let raw: string
+  try {
+    raw = await fs.readFile(mocPath, 'utf-8')
+  } catch (err) {
+    if (isEnoent(err)) return { summaryMembers: 0, membershipChanges: 0 }
+    throw err
+  }
+  const { frontmatter } = parseFrontmatter(raw)
+  const num = (v: unknown): number => (typeof v === 'number' && Number.isFinite(v) ? v : 0)
+  return {
+    ...(typeof frontmatter['summary'] === 'string' && { summary: frontmatter['summary'] }),
+    summaryMembers: num(frontmatter['summaryMembers']),
+    membershipChanges: num(frontmatter['membershipChanges']),
+  }
+}
+
+/**
+ * Returns true when a domain with `memberCount` live nodes should get a new
+ * summary: it is large enough and either has none yet or has changed by at
+ * least `refreshRatio` of its membership at the last summary.
+ */
+export function needsSummaryRefresh(state: MocSummaryState, memberCount: number, config: MocSummaryConfig): boolean {
+  if (memberCount < config.minNodes) return false
+  if (state.summary === undefined) return true
+  return state.membershipChanges >= config.refreshRatio * Math.max(state.summaryMembers, 1)
+}
+
+// ---------------------------------------------------------------------------
+// Maintenance pass
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes or refreshes the summary of every MOC domain that needs one (see
+ * {@link needsSummaryRefresh}), regenerating the MOC page with it.
+ * Domain failures are logged and collected; never throws.
+ */
+export async function refreshMocSummaries(params: {
+  readonly omgRoot: string
+  readonly config: OmgConfig
+  readonly llmClient: LlmClient
+}): Promise<MocSummaryRefreshResult> {
+  const { omgRoot, config, llmClient } = params
+  const summaryConfig = config.graphMaintenance.mocSummaries
+  const errors: string[] = []
+  let summariesWritten = 0
+  let tokensUsed = 0
+
+  let membersByDomain: Map<string, string[]>
+  try {
+    membersByDomain = new Map()
+    for (const [id, entry] of await getRegistryEntries(omgRoot)) {
+      if (entry.archived || entry.type === 'moc') continue
+      for (const link of entry.links ?? []) {
+        if (!link.startsWith(MOC_LINK_PREFIX)) continue
+        const domain = link.slice(MOC_LINK_PREFIX.length)
+        membersByDomain.set(domain, [...(membersByDomain.get(domain) ?? []), id])
+      }
+    }
+  } catch (err) {
+    const msg = `failed to read registry: ${err instanceof Error ? err.message : String(err)}`
+    console.error('[omg] moc-summary:', msg)
+    return { domainsChecked: 0, summariesWritten, tokensUsed, errors: [msg] }
+  }
+
+  for (const [domain, nodeIds] of membersByDomain) {
+    try {
+      const state = await readMocSummaryState(resolveMocPath(omgRoot, domain))
+      if (!needsSummaryRefresh(state, nodeIds.length, summaryConfig)) continue
+
+      const filePaths = await getNodeFilePaths(omgRoot, nodeIds)
+      const nodes = (await Promise.all([...filePaths.values()].map((fp) => readGraphNode(fp))))
+        .filter((n): n is GraphNode => n !== null)
+      if (nodes.length < summaryConfig.minNodes) continue
+
+      const response = await llmClient.generate({
+        system: buildMocSummarySystemPrompt(),
+        user: buildMocSummaryUserPrompt(domain, nodes),
+        maxTokens: MOC_SUMMARY_MAX_TOKENS,
+      })
+      tokensUsed += response.usage.inputTokens + response.usage.outputTokens
+
+      const summary = response.content.trim()
+      if (summary === '') {
+        console.warn(`[omg] moc-summary: empty summary for domain "${domain}" — keeping the previous one`)
+        continue
+      }
+      await regenerateMoc(domain, nodes, omgRoot, { summary })
+      summariesWritten++
+    } catch (err) {
+      const msg = `domain "${domain}": ${err instanceof Error ? err.message : String(err)}`
+      console.error('[omg] moc-summary:', msg)
+      errors.push(msg)
+    }
+  }
+
+  return { domainsChecked: membersByDomain.size, summariesWritten, tokensUsed, errors }
+}
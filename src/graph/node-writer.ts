@@ -17,8 +17,10 @@ import { dirname, join } from 'node:path'
 import type {
   GraphNode,
   NodeFrontmatter,
+  NodeSource,
   ObserverOperation,
   ReflectionNodeData,
+  ReflectionLevel,
   NowUpdate,
   WriteContext,
 } from '../types.js'
@@ -27,10 +29,26 @@ import { parseFrontmatter, serializeFrontmatter } from '../utils/frontmatter.js'
 import { atomicWrite, isEnoent } from '../utils/fs.js'
 import { slugify, computeUid, computeNodeId, computeNodePath } from '../utils/id.js'
 import { registerNode, buildRegistryEntry, getRegistryEntry, updateRegistryEntry } from './registry.js'
+import { AsyncMutex } from './registry-lock.js'
 import { resolveCanonicalKeyToNodeId } from '../observer/now-renderer.js'
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+const nodeFileMutexes = new Map<string, AsyncMutex>()
+
+/**
+ * Serializes read-modify-write rewrites of existing node files per omgRoot,
+ * so two rewrites of the same node cannot drop each other's changes.
+ */
+function withNodeFileLock<T>(omgRoot: string, fn: () => Promise<T>): Promise<T> {
+  let mutex = nodeFileMutexes.get(omgRoot)
+  if (!mutex) {
+    mutex = new AsyncMutex()
+    nodeFileMutexes.set(omgRoot, mutex)
+  }
+  return mutex.acquire(fn)
+}
+
 function todayDateString(): string {
   return new Date().toISOString().slice(0, 10)
 }
@@ -59,11 +77,11 @@ async function fileExists(filePath: string): Promise<boolean> {
 }
 
 /**
- * Reads the `created` frontmatter field from an existing file.
- * Returns null if the file does not exist (ENOENT) or if the field is absent/invalid.
+ * Reads the frontmatter of an existing node file, for fields preserved across rewrites.
+ * Returns null if the file does not exist (ENOENT) or its frontmatter cannot be parsed.
  * Throws for unexpected filesystem errors (e.g. EACCES, EIO).
  */
-async function readExistingCreated(filePath: string): Promise<string | null> {
+async function readExistingFrontmatter(filePath: string): Promise<Record<string, unknown> | null> {
   let raw: string
   try {
     raw = await fs.readFile(filePath, 'utf-8')
@@ -72,17 +90,15 @@ async function readExistingCreated(filePath: string): Promise<string | null> {
       return null
     }
     throw new Error(
-      `Failed to read ${filePath} for created timestamp: ${err instanceof Error ? (err as Error).message : String(err)}`,
+      `Failed to read existing node ${filePath}: ${err instanceof Error ? (err as Error).message : String(err)}`,
       { cause: err }
     )
   }
   try {
-    const { frontmatter } = parseFrontmatter(raw)
-    const created = frontmatter['created']
-    return typeof created === 'string' ? created : null
+    return parseFrontmatter(raw).frontmatter
   } catch (err) {
     console.warn(
-      `[omg] node-writer: readExistingCreated — frontmatter parse failed for ${filePath}, using current time:`,
+      `[omg] node-writer: readExistingFrontmatter — frontmatter parse failed for ${filePath}, treating as new:`,
       err instanceof Error ? err.message : String(err),
     )
     return null
@@ -115,6 +131,51 @@ async function resolveAvailablePath(
   )
 }
 
+/**
+ * Computes the `agents` list for a rewritten node: the existing owners plus
+ * `agentId`. Returns undefined (shared) when no agent is known, or when the
+ * existing node is already shared.
+ */
+function mergeAgents(existing: Record<string, unknown> | null, agentId: string | undefined): string[] | undefined {
+  const existingAgents = existing?.['agents']
+  const owners = Array.isArray(existingAgents)
+    ? existingAgents.filter((a): a is string => typeof a === 'string')
+    : undefined
+  if (existing !== null && owners === undefined) return undefined
+  if (agentId === undefined) return owners
+  return [...new Set([...(owners ?? []), agentId])]
+}
+
+/** The well-formed `sources` entries of a node's raw frontmatter. */
+export function sourcesOf(frontmatter: Record<string, unknown> | null): NodeSource[] {
+  const sources = frontmatter?.['sources']
+  return Array.isArray(sources)
+    ? sources.filter((s): s is NodeSource =>
+        typeof s === 'object' && s !== null &&
+        typeof (s as NodeSource).sessionKey === 'string' &&
+        typeof (s as NodeSource).kind === 'string' &&
+        typeof (s as NodeSource).timestamp === 'number')
+    : []
+}
+
+/**
+ * Computes the `sources` list for a rewritten node: the existing well-formed
+ * entries plus each of `added`, unless one with the same session and kind is
+ * already recorded. Returns undefined when there are none.
+ */
+export function mergeSources(
+  existing: Record<string, unknown> | null,
+  ...added: readonly (NodeSource | undefined)[]
+): NodeSource[] | undefined {
+  const sources = sourcesOf(existing)
+  for (const source of added) {
+    if (source !== undefined && !sources.some((s) => s.sessionKey === source.sessionKey && s.kind === source.kind)) {
+      sources.push(source)
+    }
+  }
+  return sources.length > 0 ? sources : undefined
+}
+
 /**
  * Serializes a NodeFrontmatter into a plain Record for YAML output.
  * Excludes undefined optional fields to keep output clean.
@@ -138,6 +199,12 @@ function frontmatterToRecord(fm: NodeFrontmatter): Record<string, unknown> {
     ...(fm.compressionLevel !== undefined && { compressionLevel: fm.compressionLevel }),
     ...(fm.archived !== undefined && { archived: fm.archived }),
     ...(fm.mergedInto !== undefined && { mergedInto: fm.mergedInto }),
+    ...(fm.mergedFrom !== undefined && { mergedFrom: fm.mergedFrom }),
+    ...(fm.validFrom !== undefined && { validFrom: fm.validFrom }),
+    ...(fm.validUntil !== undefined && { validUntil: fm.validUntil }),
+    ...(fm.agents !== undefined && { agents: fm.agents }),
+    ...(fm.reflectionLevel !== undefined && { reflectionLevel: fm.reflectionLevel }),
+    ...(fm.timeRange !== undefined && { timeRange: fm.timeRange }),
   }
 }
 
@@ -189,13 +256,19 @@ async function writeNodeToDir(
  *
  * If the file already exists, the `created` timestamp is preserved (merge).
  * The `uid` is computed from scope+type+canonicalKey and written to frontmatter.
+ *
+ * `agentId` is added to the node's `agents` list. An existing node without
+ * `agents` is shared workspace knowledge and stays unowned. `source` is
+ * appended to the node's existing `sources`.
  */
 async function writeNodeToDeterministicPath(
   omgRoot: string,
   operation: Extract<ObserverOperation, { kind: 'upsert' }>,
-  scope: string
+  scope: string,
+  agentId?: string,
+  source?: NodeSource
 ): Promise<GraphNode> {
-  const { canonicalKey, type, title, description, body, priority, mocHints, linkKeys, tags } = operation
+  const { canonicalKey, type, title, description, body, priority, mocHints, linkKeys, tags, validFrom, validUntil, supersedes } = operation
 
   const slug = slugify(canonicalKey)
   if (slug === '') {
@@ -213,9 +286,11 @@ async function writeNodeToDeterministicPath(
   const dir = dirname(filePath)
   await ensureDir(dir)
 
-  // Preserve created timestamp on merge (file exists)
-  const existingCreated = await readExistingCreated(filePath)
-  const created = existingCreated ?? now
+  // Preserve created timestamp and ownership on merge (file exists)
+  const existing = await readExistingFrontmatter(filePath)
+  const created = typeof existing?.['created'] === 'string' ? existing['created'] : now
+  const agents = mergeAgents(existing, agentId)
+  const sources = mergeSources(existing, source)
 
   // Resolve MOC links from mocHints
   const mocLinks = (mocHints ?? []).map((hint) => `omg/moc-${hint}`)
@@ -232,11 +307,16 @@ async function writeNodeToDeterministicPath(
     updated: now,
     uid,
     canonicalKey,
+    ...(sources !== undefined ? { sources } : {}),
     ...(title && description !== title ? {} : {}),  // title stored in body heading, not frontmatter
     ...(mocLinks.length > 0 || resolvedLinkKeys.length > 0
       ? { links: [...mocLinks, ...resolvedLinkKeys] }
       : {}),
     ...(tags && tags.length > 0 ? { tags: [...tags] } : {}),
+    ...(validFrom !== undefined ? { validFrom } : {}),
+    ...(validUntil !== undefined ? { validUntil } : {}),
+    ...(supersedes && supersedes.length > 0 ? { supersedes: [...supersedes] } : {}),
+    ...(agents !== undefined ? { agents } : {}),
   }
 
   const content = serializeFrontmatter(frontmatterToRecord(frontmatter), body)
@@ -257,6 +337,7 @@ async function writeNodeToDeterministicPath(
  * For `upsert` operations: uses deterministic content-addressed path.
  *   File location: {omgRoot}/nodes/{type}/{slugify(canonicalKey)}.md
  *   If the file exists, preserves the original `created` timestamp (merge).
+ *   A `sourceTool` is recorded in `sources` as `tool:<name>` for this session.
  *
  * For legacy `create/update/supersede` operations: uses date-based collision-safe paths.
  *   File location: {omgRoot}/nodes/{type}/{type}-{slug}-{YYYY-MM-DD}[-N].md
@@ -267,7 +348,10 @@ export async function writeObservationNode(
 ): Promise<GraphNode> {
   if (operation.kind === 'upsert') {
     const scope = context.scope ?? context.omgRoot
-    const node = await writeNodeToDeterministicPath(context.omgRoot, operation, scope)
+    const source: NodeSource | undefined = operation.sourceTool !== undefined
+      ? { sessionKey: context.sessionKey, kind: `tool:${operation.sourceTool}`, timestamp: Date.now() }
+      : undefined
+    const node = await writeNodeToDeterministicPath(context.omgRoot, operation, scope, context.agentId, source)
     try {
       await registerNode(context.omgRoot, node.frontmatter.id, buildRegistryEntry(node, 'observation'))
     } catch (err) {
@@ -288,6 +372,59 @@ export async function writeObservationNode(
   return node
 }
 
+/**
+ * Writes a node carried over from another graph (e.g. an `omg import` bundle)
+ * to its deterministic path under `scope`.
+ *
+ * The id, uid and file path are recomputed from type + canonicalKey, so a node
+ * already present in this graph is overwritten in place rather than duplicated.
+ * All other frontmatter is kept as-is, except that the earlier of the bundle's
+ * and an existing file's `created` timestamps is kept.
+ *
+ * @throws If the frontmatter has no canonicalKey or it produces an empty slug.
+ */
+export async function writeImportedNode(
+  omgRoot: string,
+  frontmatter: NodeFrontmatter,
+  body: string,
+  scope: string
+): Promise<GraphNode> {
+  const { type, canonicalKey } = frontmatter
+  if (canonicalKey === undefined || slugify(canonicalKey) === '') {
+    throw new Error(
+      `Cannot import node "${frontmatter.id}": canonicalKey "${canonicalKey ?? ''}" produces an empty slug`
+    )
+  }
+
+  const filePath = join(omgRoot, computeNodePath(type, canonicalKey))
+  await ensureDir(dirname(filePath))
+
+  const existing = await readExistingFrontmatter(filePath)
+  const existingCreated = existing?.['created']
+  const created = typeof existingCreated === 'string' && existingCreated < frontmatter.created
+    ? existingCreated
+    : frontmatter.created
+
+  const node: GraphNode = {
+    frontmatter: {
+      ...frontmatter,
+      id: computeNodeId(type, canonicalKey),
+      uid: computeUid(scope, type, canonicalKey),
+      created,
+    },
+    body,
+    filePath,
+  }
+  await atomicWrite(filePath, serializeFrontmatter(frontmatterToRecord(node.frontmatter), body))
+
+  try {
+    await registerNode(omgRoot, node.frontmatter.id, buildRegistryEntry(node, 'observation'))
+  } catch (err) {
+    console.error(`[omg] node-writer: registry update failed for ${node.frontmatter.id} (node written to disk but invisible to registry):`, err)
+  }
+  return node
+}
+
 /**
  * Writes a reflection node produced by the Reflector to disk.
  *
@@ -351,6 +488,46 @@ export async function writeClusteredReflectionNode(
   return written
 }
 
+/** Parameters for writing a reflection rollup of the reflection hierarchy. */
+export interface ReflectionRollupParams {
+  readonly frontmatter: NodeFrontmatter
+  readonly body: string
+  /** Domain slug used for directory scoping. */
+  readonly domain: string
+  readonly level: ReflectionLevel
+  /** Calendar period key, e.g. "2026-01-12" (week start), "2026-01" or "2026". */
+  readonly period: string
+}
+
+/**
+ * Writes a reflection rollup to a deterministic, domain- and level-scoped path.
+ *
+ * File location: {omgRoot}/reflections/{domain}/{level}/{period}.md
+ *
+ * Reruns overwrite the same file (idempotent, deterministic path).
+ */
+export async function writeReflectionRollupNode(
+  params: ReflectionRollupParams,
+  context: WriteContext,
+): Promise<GraphNode> {
+  const { frontmatter, body, domain, level, period } = params
+  const dir = join(context.omgRoot, 'reflections', slugify(domain), level)
+  await ensureDir(dir)
+
+  const filePath = join(dir, `${period}.md`)
+  await atomicWrite(filePath, serializeFrontmatter(frontmatterToRecord(frontmatter), body))
+
+  const written: GraphNode = { frontmatter, body, filePath }
+
+  try {
+    await registerNode(context.omgRoot, frontmatter.id, buildRegistryEntry(written, 'reflection'))
+  } catch (err) {
+    console.error(`[omg] node-writer: registry update failed for ${frontmatter.id} (node written to disk but invisible to registry):`, err)
+  }
+
+  return written
+}
+
 /**
  * Writes (or overwrites) the singleton now.md node.
  *
@@ -416,73 +593,90 @@ export async function writeNowNode(
 /**
  * Appends additional content to the body of an existing observation node.
  *
- * Uses the AsyncMutex via registerNode to prevent race conditions.
+ * Serialized with other node rewrites; the registry update goes through its AsyncMutex.
  * Updates the `updated` timestamp in frontmatter and the registry.
  *
  * @param omgRoot     Root of the OMG graph.
  * @param nodeId      ID of the node to append to (e.g. "omg/preference/editor-theme").
  * @param bodyAppend  Markdown content to append (separated by a blank line).
+ * @param agentId     Agent contributing the content; joins an owned node's `agents` list.
+ * @param source      Where the content came from; joins the node's `sources`.
  * @returns The updated GraphNode, or null if the node was not found in the registry.
  */
 export async function appendToExistingNode(
   omgRoot: string,
   nodeId: string,
-  bodyAppend: string
+  bodyAppend: string,
+  agentId?: string,
+  source?: NodeSource
 ): Promise<GraphNode | null> {
-  const entry = await getRegistryEntry(omgRoot, nodeId)
-  if (!entry) {
-    console.warn(`[omg] node-writer: appendToExistingNode — node not found in registry: ${nodeId}`)
-    return null
-  }
+  return withNodeFileLock(omgRoot, async () => {
+    const entry = await getRegistryEntry(omgRoot, nodeId)
+    if (!entry) {
+      console.warn(`[omg] node-writer: appendToExistingNode — node not found in registry: ${nodeId}`)
+      return null
+    }
 
-  const { filePath } = entry
+    const { filePath } = entry
 
-  let raw: string
-  try {
-    raw = await fs.readFile(filePath, 'utf-8')
-  } catch (err) {
-    if (isEnoent(err)) {
-      console.warn(`[omg] node-writer: appendToExistingNode — file not found: ${filePath}`)
-      return null
+    let raw: string
+    try {
+      raw = await fs.readFile(filePath, 'utf-8')
+    } catch (err) {
+      if (isEnoent(err)) {
+        console.warn(`[omg] node-writer: appendToExistingNode — file not found: ${filePath}`)
+        return null
+      }
+      throw new Error(
+        `appendToExistingNode: failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err }
+      )
     }
-    throw new Error(
-      `appendToExistingNode: failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
-      { cause: err }
-    )
-  }
 
-  const { frontmatter: rawFm, body: existingBody } = parseFrontmatter(raw)
-  const now = new Date().toISOString()
+    const { frontmatter: rawFm, body: existingBody } = parseFrontmatter(raw)
+    const now = new Date().toISOString()
 
-  const updatedFm: Record<string, unknown> = { ...rawFm, updated: now }
-  const updatedBody = bodyAppend.trim()
-    ? `${existingBody}\n\n${bodyAppend.trim()}`
-    : existingBody
+    const agents = mergeAgents(rawFm, agentId)
+    const sources = mergeSources(rawFm, source)
+    const updatedFm: Record<string, unknown> = {
+      ...rawFm,
+      updated: now,
+      ...(agents !== undefined ? { agents } : {}),
+      ...(sources !== undefined ? { sources } : {}),
+    }
+    const updatedBody = bodyAppend.trim()
+      ? `${existingBody}\n\n${bodyAppend.trim()}`
+      : existingBody
 
-  const content = serializeFrontmatter(updatedFm, updatedBody)
-  await atomicWrite(filePath, content)
+    const content = serializeFrontmatter(updatedFm, updatedBody)
+    await atomicWrite(filePath, content)
 
-  // Update registry updated timestamp
-  try {
-    await updateRegistryEntry(omgRoot, nodeId, { updated: now })
-  } catch (err) {
-    console.error(`[omg] node-writer: registry update failed for ${nodeId}:`, err)
-  }
+    // Update registry updated timestamp (and ownership)
+    try {
+      await updateRegistryEntry(omgRoot, nodeId, { updated: now, ...(agents !== undefined ? { agents } : {}) })
+    } catch (err) {
+      console.error(`[omg] node-writer: registry update failed for ${nodeId}:`, err)
+    }
 
-  // Reconstruct and return the updated node
-  const updatedFrontmatter: NodeFrontmatter = {
-    id: nodeId,
-    description: entry.description,
-    type: entry.type,
-    priority: entry.priority,
-    created: typeof rawFm['created'] === 'string' ? rawFm['created'] : now,
-    updated: now,
-    ...(entry.links !== undefined ? { links: entry.links } : {}),
-    ...(entry.tags !== undefined ? { tags: entry.tags } : {}),
-    ...(entry.canonicalKey !== undefined ? { canonicalKey: entry.canonicalKey } : {}),
-  }
+    // Reconstruct and return the updated node
+    const updatedFrontmatter: NodeFrontmatter = {
+      id: nodeId,
+      description: entry.description,
+      type: entry.type,
+      priority: entry.priority,
+      created: typeof rawFm['created'] === 'string' ? rawFm['created'] : now,
+      updated: now,
+      ...(entry.links !== undefined ? { links: entry.links } : {}),
+      ...(entry.tags !== undefined ? { tags: entry.tags } : {}),
+      ...(entry.canonicalKey !== undefined ? { canonicalKey: entry.canonicalKey } : {}),
+      ...(entry.validFrom !== undefined ? { validFrom: entry.validFrom } : {}),
+      ...(entry.validUntil !== undefined ? { validUntil: entry.validUntil } : {}),
+      ...(agents !== undefined ? { agents } : {}),
+      ...(sources !== undefined ? { sources } : {}),
+    }
 
-  return { frontmatter: updatedFrontmatter, body: updatedBody, filePath }
+    return { frontmatter: updatedFrontmatter, body: updatedBody, filePath }
+  })
 }
 
 /**
@@ -501,58 +695,94 @@ export async function addAliasToNode(
   nodeId: string,
   aliasKey: string
 ): Promise<GraphNode | null> {
-  const entry = await getRegistryEntry(omgRoot, nodeId)
-  if (!entry) {
-    console.warn(`[omg] node-writer: addAliasToNode — node not found in registry: ${nodeId}`)
-    return null
-  }
+  return withNodeFileLock(omgRoot, async () => {
+    const entry = await getRegistryEntry(omgRoot, nodeId)
+    if (!entry) {
+      console.warn(`[omg] node-writer: addAliasToNode — node not found in registry: ${nodeId}`)
+      return null
+    }
 
-  const { filePath } = entry
+    const { filePath } = entry
 
-  let raw: string
-  try {
-    raw = await fs.readFile(filePath, 'utf-8')
-  } catch (err) {
-    if (isEnoent(err)) {
-      console.warn(`[omg] node-writer: addAliasToNode — file not found: ${filePath}`)
-      return null
+    let raw: string
+    try {
+      raw = await fs.readFile(filePath, 'utf-8')
+    } catch (err) {
+      if (isEnoent(err)) {
+        console.warn(`[omg] node-writer: addAliasToNode — file not found: ${filePath}`)
+        return null
+      }
+      throw new Error(
+        `addAliasToNode: failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err }
+      )
     }
-    throw new Error(
-      `addAliasToNode: failed to read ${filePath}: ${err instanceof Error ? err.message : String(err)}`,
-      { cause: err }
-    )
-  }
 
-  const { frontmatter: rawFm, body } = parseFrontmatter(raw)
-  const now = new Date().toISOString()
+    const { frontmatter: rawFm, body } = parseFrontmatter(raw)
+    const now = new Date().toISOString()
 
-  // Merge alias into existing aliases array (deduplicated)
-  const existingAliases = Array.isArray(rawFm['aliases']) ? (rawFm['aliases'] as string[]) : []
-  const aliases = [...new Set([...existingAliases, aliasKey])]
+    // Merge alias into existing aliases array (deduplicated)
+    const existingAliases = Array.isArray(rawFm['aliases']) ? (rawFm['aliases'] as string[]) : []
+    const aliases = [...new Set([...existingAliases, aliasKey])]
 
-  const updatedFm: Record<string, unknown> = { ...rawFm, updated: now, aliases }
-  const content = serializeFrontmatter(updatedFm, body)
-  await atomicWrite(filePath, content)
+    const updatedFm: Record<string, unknown> = { ...rawFm, updated: now, aliases }
+    const content = serializeFrontmatter(updatedFm, body)
+    await atomicWrite(filePath, content)
 
-  // Update registry updated timestamp
-  try {
-    await updateRegistryEntry(omgRoot, nodeId, { updated: now })
-  } catch (err) {
-    console.error(`[omg] node-writer: registry update failed for ${nodeId}:`, err)
-  }
+    // Update registry updated timestamp
+    try {
+      await updateRegistryEntry(omgRoot, nodeId, { updated: now })
+    } catch (err) {
+      console.error(`[omg] node-writer: registry update failed for ${nodeId}:`, err)
+    }
 
-  const updatedFrontmatter: NodeFrontmatter = {
-    id: nodeId,
-    description: entry.description,
-    type: entry.type,
-    priority: entry.priority,
-    created: typeof rawFm['created'] === 'string' ? rawFm['created'] : now,
-    updated: now,
-    aliases,
-    ...(entry.links !== undefined ? { links: entry.links } : {}),
-    ...(entry.tags !== undefined ? { tags: entry.tags } : {}),
-    ...(entry.canonicalKey !== undefined ? { canonicalKey: entry.canonicalKey } : {}),
-  }
+    const updatedFrontmatter: NodeFrontmatter = {
+      id: nodeId,
+      description: entry.description,
+      type: entry.type,
+      priority: entry.priority,
+      created: typeof rawFm['created'] === 'string' ? rawFm['created'] : now,
+      updated: now,
+      aliases,
+      ...(entry.links !== undefined ? { links: entry.links } : {}),
+      ...(entry.tags !== undefined ? { tags: entry.tags } : {}),
+      ...(entry.canonicalKey !== undefined ? { canonicalKey: entry.canonicalKey } : {}),
+      ...(entry.validFrom !== undefined ? { validFrom: entry.validFrom } : {}),
+      ...(entry.validUntil !== undefined ? { validUntil: entry.validUntil } : {}),
+    }
+
+    return { frontmatter: updatedFrontmatter, body, filePath }
+  })
+}
+
+/**
+ * Rewrites an existing node's `links` in its frontmatter and the registry.
+ * `relink` receives the current links and returns the new list. Serialized
+ * with other node rewrites; `updated` is left alone.
+ *
+ * @returns The links before the rewrite, or null if the node was not found.
+ */
+export async function relinkNode(
+  omgRoot: string,
+  nodeId: string,
+  relink: (links: readonly string[]) => string[]
+): Promise<readonly string[] | null> {
+  return withNodeFileLock(omgRoot, async () => {
+    const entry = await getRegistryEntry(omgRoot, nodeId)
+    if (!entry) {
+      console.warn(`[omg] node-writer: relinkNode — node not found in registry: ${nodeId}`)
+      return null
+    }
 
-  return { frontmatter: updatedFrontmatter, body, filePath }
+    const raw = await fs.readFile(entry.filePath, 'utf-8')
+    const { frontmatter: rawFm, body } = parseFrontmatter(raw)
+    const links = Array.isArray(rawFm['links'])
+      ? rawFm['links'].filter((l): l is string => typeof l === 'string')
+      : []
+    const updatedLinks = relink(links)
+
+    await atomicWrite(entry.filePath, serializeFrontmatter({ ...rawFm, links: updatedLinks }, body))
+    await updateRegistryEntry(omgRoot, nodeId, { links: updatedLinks })
+    return links
+  })
 }
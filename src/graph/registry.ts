@@ -7,6 +7,9 @@
  *
  * Concurrency: writes are serialized per omgRoot via AsyncMutex.
  * Reads are lock-free — the in-memory cache is replaced atomically.
+ *
+ * Every mutation is mirrored into the keyword index (`keyword-index.ts`)
+ * while the mutex is still held.
  */
 
 import { z } from 'zod'
@@ -14,11 +17,12 @@ import { join } from 'node:path'
 import { AsyncMutex } from './registry-lock.js'
 import { listAllNodes, readGraphNode } from './node-reader.js'
 import { atomicWrite, readFileOrNull } from '../utils/fs.js'
-import type { NodeType, Priority, NodeIndexEntry, GraphNode } from '../types.js'
-import { NODE_TYPES } from '../types.js'
+import type { NodeType, Priority, NodeIndexEntry, GraphNode, ReflectionLevel } from '../types.js'
+import { NODE_TYPES, REFLECTION_LEVELS } from '../types.js'
 import { promises as fs } from 'node:fs'
 import path from 'node:path'
 import { clearGraphCache } from './traversal.js'
+import { syncKeywordIndexEntry, rebuildKeywordIndex, clearKeywordIndexCache } from './keyword-index.js'
 
 // ---------------------------------------------------------------------------
 // Schema
@@ -37,6 +41,16 @@ export interface RegistryNodeEntry {
   readonly tags?: readonly string[]
   /** Stable dotted-path key (e.g. "preferences.editor_theme"). Populated on next rebuildRegistry after upsert. */
   readonly canonicalKey?: string
+  /** ISO 8601 start of the node's validity window; the node is not injected before this. */
+  readonly validFrom?: string
+  /** ISO 8601 end of the node's validity window; expired nodes are excluded and later archived. */
+  readonly validUntil?: string
+  /** Owning agent IDs; absent = visible to every agent. */
+  readonly agents?: readonly string[]
+  /** Hierarchy level of a reflection rollup (see reflector/hierarchy.ts). */
+  readonly reflectionLevel?: ReflectionLevel
+  /** ISO 8601 span of the observations a reflection covers. */
+  readonly timeRange?: { readonly start: string; readonly end: string }
 }
 
 export interface RegistryData {
@@ -56,6 +70,11 @@ const registryNodeEntrySchema = z.object({
   links: z.array(z.string()).optional(),
   tags: z.array(z.string()).optional(),
   canonicalKey: z.string().optional(),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  agents: z.array(z.string()).optional(),
+  reflectionLevel: z.enum(REFLECTION_LEVELS).optional(),
+  timeRange: z.object({ start: z.string(), end: z.string() }).optional(),
 }).strip()
 
 const registryDataSchema = z.object({
@@ -247,6 +266,7 @@ export async function registerNode(
     cache.set(omgRoot, updated)
     clearGraphCache(omgRoot)
     await persistRegistry(omgRoot, updated)
+    await syncKeywordIndexEntry(omgRoot, nodeId, data.nodes[nodeId] ?? null, entry)
   })
 }
 
@@ -272,6 +292,7 @@ export async function updateRegistryEntry(
     cache.set(omgRoot, updated)
     clearGraphCache(omgRoot)
     await persistRegistry(omgRoot, updated)
+    await syncKeywordIndexEntry(omgRoot, nodeId, existing, merged)
   })
 }
 
@@ -287,30 +308,44 @@ export async function removeRegistryEntry(
     const data = await ensureLoaded(omgRoot)
     if (!(nodeId in data.nodes)) return
 
-    const { [nodeId]: _, ...rest } = data.nodes
+    const { [nodeId]: removed, ...rest } = data.nodes
     const updated: RegistryData = { ...data, nodes: rest }
     cache.set(omgRoot, updated)
     clearGraphCache(omgRoot)
     await persistRegistry(omgRoot, updated)
+    await syncKeywordIndexEntry(omgRoot, nodeId, removed ?? null, null)
   })
 }
 
+/** Paths of all .md files under `dir`, descending into subdirectories. */
+async function listMarkdownFilesRecursive(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true })
+  const nested = await Promise.all(
+    entries.map(async (e) => {
+      const full = path.join(dir, e.name)
+      if (e.isDirectory()) return listMarkdownFilesRecursive(full)
+      return e.isFile() && e.name.endsWith('.md') ? [full] : []
+    })
+  )
+  return nested.flat()
+}
+
 /**
- * Lists all .md files in `{omgRoot}/reflections/`, parses each as a GraphNode,
- * and returns valid results. Returns empty array if the directory does not exist.
+ * Lists all .md files under `{omgRoot}/reflections/` — flat reflections,
+ * clustered `{domain}/` ones and `{domain}/{level}/` rollups — parses each as
+ * a GraphNode, and returns valid results. Returns empty array if the
+ * directory does not exist.
  */
 async function listReflectionNodes(omgRoot: string): Promise<GraphNode[]> {
   const dir = path.join(omgRoot, 'reflections')
-  let entries: string[]
+  let files: string[]
   try {
-    entries = await fs.readdir(dir)
+    files = await listMarkdownFilesRecursive(dir)
   } catch (err) {
     if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
     throw new Error(`[omg] registry: failed to read reflections directory ${dir}: ${String(err)}`)
   }
-  const results = await Promise.all(
-    entries.filter((e) => e.endsWith('.md')).map((e) => readGraphNode(path.join(dir, e)))
-  )
+  const results = await Promise.all(files.map((f) => readGraphNode(f)))
   return results.filter((n): n is GraphNode => n !== null)
 }
 
@@ -379,6 +414,7 @@ export async function rebuildRegistry(omgRoot: string): Promise<RegistryData> {
   } catch (err) {
     console.error('[omg] registry: rebuildRegistry — could not persist to disk (in-memory cache still set):', err)
   }
+  await rebuildKeywordIndex(omgRoot, Object.entries(nodes))
   return data
 }
 
@@ -404,6 +440,7 @@ export function clearRegistryCache(omgRoot?: string): void {
     mutexes.clear()
     pendingLoads.clear()
   }
+  clearKeywordIndexCache(omgRoot)
 }
 
 /**
@@ -426,5 +463,10 @@ export function buildRegistryEntry(
     ...(node.frontmatter.links !== undefined && { links: node.frontmatter.links }),
     ...(node.frontmatter.tags !== undefined && { tags: node.frontmatter.tags }),
     ...(node.frontmatter.canonicalKey !== undefined && { canonicalKey: node.frontmatter.canonicalKey }),
+    ...(node.frontmatter.validFrom !== undefined && { validFrom: node.frontmatter.validFrom }),
+    ...(node.frontmatter.validUntil !== undefined && { validUntil: node.frontmatter.validUntil }),
+    ...(node.frontmatter.agents !== undefined && { agents: node.frontmatter.agents }),
+    ...(node.frontmatter.reflectionLevel !== undefined && { reflectionLevel: node.frontmatter.reflectionLevel }),
+    ...(node.frontmatter.timeRange !== undefined && { timeRange: node.frontmatter.timeRange }),
   }
 }
@@ -0,0 +1,252 @@
+/**
+ * snapshot.ts — Pre-run snapshots of the graph for undoing maintenance runs.
+ *
+ * {@link beginSnapshot} starts a recording; graph writes made through
+ * `atomicWrite` inside {@link SnapshotHandle.record} are captured: the first
+ * time the run writes a graph markdown file, its prior contents are kept in
+ * memory. Writes from other callers during the run (hooks, tools) are not. {@link commitSnapshot} persists the files whose contents
+ * actually changed — each one's prior contents plus a hash of what the run
+ * left — to `{omgRoot}/.snapshots/{runId}.json`. {@link rollbackSnapshot}
+ * writes the prior contents back (deleting files the run created), skips
+ * files edited since the run, and rebuilds the registry from disk. Backs
+ * `omg rollback`.
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import { z } from 'zod'
+import { atomicWrite, isEnoent, observeWrites, readFileOrNull } from '../utils/fs.js'
+import { rebuildRegistry } from './registry.js'
+
+/** Graph paths (relative to omgRoot) covered by a snapshot: these directories and `index.md`. */
+const SNAPSHOT_DIRS: ReadonlySet<string> = new Set(['nodes', 'reflections', 'mocs'])
+
+const SNAPSHOTS_DIR = '.snapshots'
+
+/** One file changed by a run. `before: null` means the run created it. */
+export interface SnapshotFile {
+  readonly path: string
+  readonly before: string | null
+  /**
+   * sha256 of the contents the run left (null: no file). Rollback skips the
+   * file when it no longer matches. Absent on snapshots written before it was
+   * recorded.
+   */
+  readonly afterHash?: string | null
+}
+
+/** Persisted record of a single maintenance run's changes. */
+export interface SnapshotManifest {
+  readonly runId: string
+  readonly createdAt: string
+  readonly files: readonly SnapshotFile[]
+}
+
+/** In-memory recording state returned by {@link beginSnapshot}. */
+export interface SnapshotHandle {
+  readonly runId: string
+  readonly createdAt: string
+  /**
+   * Prior contents of each graph file written since the snapshot began, keyed
+   * by omgRoot-relative path; undefined when the file could not be read.
+   */
+  readonly before: ReadonlyMap<string, Promise<string | null | undefined>>
+  /** Runs `fn`, recording the graph writes made within its async call chain. */
+  readonly record: <T>(fn: () => Promise<T>) => Promise<T>
+  /** Stops recording writes. */
+  readonly stop: () => void
+}
+
+/** Outcome of {@link rollbackSnapshot}. */
+export interface RollbackResult {
+  readonly restored: number
+  readonly removed: number
+  /** Paths left alone because they were changed after the run. */
+  readonly skipped: readonly string[]
+}
+
+const snapshotManifestSchema = z.object({
+  runId: z.string(),
+  createdAt: z.string(),
+  files: z.array(z.object({
+    path: z.string(),
+    before: z.string().nullable(),
+    afterHash: z.string().nullable().optional(),
+  })),
+})
+
+const RUN_ID_RE = /^[a-z0-9][a-z0-9-]*$/
+
+function snapshotsDir(omgRoot: string): string {
+  return path.join(omgRoot, SNAPSHOTS_DIR)
+}
+
+function snapshotPath(omgRoot: string, runId: string): string {
+  if (!RUN_ID_RE.test(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`)
+  }
+  return path.join(snapshotsDir(omgRoot), `${runId}.json`)
+}
+
+/**
+ * Builds a run ID from a job label and a timestamp,
+ * e.g. `omg-reflection-20260310t030000z`.
+ */
+export function makeRunId(label: string, at: Date = new Date()): string {
+  const stamp = at.toISOString().replace(/\.\d+Z$/, 'Z').replace(/[-:]/g, '').toLowerCase()
+  return `${label}-${stamp}`
+}
+
+function hashContent(content: string | null): string | null {
+  return content === null ? null : crypto.createHash('sha256').update(content).digest('hex')
+}
+
+/** omgRoot-relative POSIX path of `filePath` when it is a graph file a snapshot covers, else null. */
+function snapshotRelPath(omgRoot: string, filePath: string): string | null {
+  const relPath = path.relative(omgRoot, filePath).split(path.sep).join('/')
+  if (!relPath.endsWith('.md') || relPath.startsWith('../') || path.isAbsolute(relPath)) return null
+  const top = relPath.split('/')[0] ?? ''
+  return relPath === 'index.md' || SNAPSHOT_DIRS.has(top) ? relPath : null
+}
+
+/**
+ * Prepares a recording of the prior contents of every graph file the run
+ * writes. Run the mutations through the handle's `record`, and always follow
+ * with {@link commitSnapshot}, which stops the recording.
+ */
+export async function beginSnapshot(omgRoot: string, runId: string): Promise<SnapshotHandle> {
+  const before = new Map<string, Promise<string | null | undefined>>()
+  let recording = true
+  const observer = async (filePath: string): Promise<void> => {
+    if (!recording) return
+    const relPath = snapshotRelPath(omgRoot, filePath)
+    if (relPath === null) return
+    // Only the first write of a path holds its pre-run contents; later writes wait on the same read
+    let pending = before.get(relPath)
+    if (pending === undefined) {
+      pending = readFileOrNull(filePath).catch((err: unknown) => {
+        console.error(`[omg] snapshot: failed to read ${relPath} before it was written:`, err)
+        return undefined
+      })
+      before.set(relPath, pending)
+    }
+    await pending
+  }
+  return {
+    runId,
+    createdAt: new Date().toISOString(),
+    before,
+    record: (fn) => observeWrites(observer, fn),
+    stop: () => {
+      recording = false
+    },
+  }
+}
+
+/**
+ * Stops recording and persists the recorded files whose contents changed.
+ * Snapshots beyond the newest `retain` are pruned.
+ *
+ * @returns The manifest, or null when the run changed nothing (nothing is written).
+ */
+export async function commitSnapshot(
+  omgRoot: string,
+  handle: SnapshotHandle,
+  retain: number
+): Promise<SnapshotManifest | null> {
+  handle.stop()
+  const files: SnapshotFile[] = []
+  for (const [relPath, pending] of handle.before) {
+    const before = await pending
+    if (before === undefined) {
+      console.warn(`[omg] snapshot: no pre-run copy of ${relPath} — it cannot be rolled back`)
+      continue
+    }
+    const after = await readFileOrNull(path.join(omgRoot, relPath))
+    if (after !== before) files.push({ path: relPath, before, afterHash: hashContent(after) })
+  }
+  if (files.length === 0) return null
+  files.sort((a, b) => a.path.localeCompare(b.path))
+
+  const manifest: SnapshotManifest = { runId: handle.runId, createdAt: handle.createdAt, files }
+  await fs.mkdir(snapshotsDir(omgRoot), { recursive: true })
+  await atomicWrite(snapshotPath(omgRoot, handle.runId), JSON.stringify(manifest))
+  await pruneSnapshots(omgRoot, retain)
+  return manifest
+}
+
+/**
+ * Lists the run IDs of stored snapshots, oldest first.
+ */
+export async function listSnapshots(omgRoot: string): Promise<string[]> {
+  let entries: string[]
+  try {
+    entries = await fs.readdir(snapshotsDir(omgRoot))
+  } catch (err) {
+    if (isEnoent(err)) return []
+    throw err
+  }
+  return entries
+    .filter((e) => e.endsWith('.json'))
+    .map((e) => e.slice(0, -'.json'.length))
+    .sort((a, b) => runStamp(a).localeCompare(runStamp(b)))
+}
+
+/** Timestamp suffix of a run ID, used to order runs across job labels. */
+function runStamp(runId: string): string {
+  return runId.slice(runId.lastIndexOf('-') + 1)
+}
+
+async function pruneSnapshots(omgRoot: string, retain: number): Promise<void> {
+  const runIds = await listSnapshots(omgRoot)
+  for (const runId of runIds.slice(0, Math.max(0, runIds.length - retain))) {
+    try {
+      await fs.unlink(snapshotPath(omgRoot, runId))
+    } catch (err) {
+      console.error(`[omg] snapshot: failed to prune ${runId}:`, err)
+    }
+  }
+}
+
+/**
+ * Restores every file recorded in the snapshot to its pre-run contents,
+ * deletes files the run created, and rebuilds the registry from disk. Files
+ * whose current contents no longer match what the run left are skipped and
+ * reported, so later edits are not overwritten.
+ *
+ * @throws If no snapshot exists for `runId` or it cannot be parsed.
+ */
+export async function rollbackSnapshot(omgRoot: string, runId: string): Promise<RollbackResult> {
+  const raw = await readFileOrNull(snapshotPath(omgRoot, runId))
+  if (raw === null) {
+    throw new Error(`No snapshot found for run "${runId}"`)
+  }
+  const manifest = snapshotManifestSchema.parse(JSON.parse(raw))
+
+  let restored = 0
+  let removed = 0
+  const skipped: string[] = []
+  for (const file of manifest.files) {
+    const absPath = path.join(omgRoot, file.path)
+    if (file.afterHash !== undefined && hashContent(await readFileOrNull(absPath)) !== file.afterHash) {
+      skipped.push(file.path)
+      continue
+    }
+    if (file.before === null) {
+      try {
+        await fs.unlink(absPath)
+        removed++
+      } catch (err) {
+        if (!isEnoent(err)) throw err
+      }
+      continue
+    }
+    await fs.mkdir(path.dirname(absPath), { recursive: true })
+    await atomicWrite(absPath, file.before)
+    restored++
+  }
+
+  await rebuildRegistry(omgRoot)
+  return { restored, removed, skipped }
+}
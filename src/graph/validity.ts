@@ -0,0 +1,62 @@
+/**
+ * validity.ts — Temporal validity windows for graph nodes.
+ *
+ * A node may carry `validFrom` / `validUntil` (ISO 8601). Outside that window
+ * the node is not injected into context; once `validUntil` has passed, the
+ * maintenance cron archives it.
+ */
+
+import type { RegistryNodeEntry } from './registry.js'
+import { setNodeArchived } from './archive.js'
+
+/** Node types that are never expired automatically. */
+const SYSTEM_TYPES: ReadonlySet<string> = new Set(['index', 'now'])
+
+type ValidityFields = Pick<RegistryNodeEntry, 'validFrom' | 'validUntil'>
+
+/** Parses a validity bound; unparseable values are treated as absent. */
+function boundMs(value: string | undefined): number | null {
+  if (value === undefined) return null
+  const ms = Date.parse(value)
+  return Number.isNaN(ms) ? null : ms
+}
+
+/** True when `validUntil` is set and lies strictly before `nowMs`. */
+export function isExpired(entry: ValidityFields, nowMs: number): boolean {
+  const until = boundMs(entry.validUntil)
+  return until !== null && until < nowMs
+}
+
+/**
+ * True when `nowMs` falls inside the entry's validity window.
+ * Entries without validity bounds are always valid.
+ */
+export function isValidAt(entry: ValidityFields, nowMs: number): boolean {
+  const from = boundMs(entry.validFrom)
+  if (from !== null && from > nowMs) return false
+  return !isExpired(entry, nowMs)
+}
+
+/**
+ * Archives every non-archived entry whose `validUntil` lies before `nowMs`.
+ * Per-node failures are logged and skipped.
+ *
+ * @returns IDs of the nodes that were archived.
+ */
+export async function archiveExpiredNodes(
+  omgRoot: string,
+  entries: readonly [string, RegistryNodeEntry][],
+  nowMs: number = Date.now(),
+): Promise<readonly string[]> {
+  const archived: string[] = []
+  for (const [nodeId, entry] of entries) {
+    if (entry.archived || SYSTEM_TYPES.has(entry.type) || !isExpired(entry, nowMs)) continue
+    try {
+      const result = await setNodeArchived(omgRoot, nodeId, true)
+      if (result.changed) archived.push(nodeId)
+    } catch (err) {
+      console.error(`[omg] validity: failed to archive expired node "${nodeId}":`, err)
+    }
+  }
+  return archived
+}
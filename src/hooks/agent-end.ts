@@ -1,20 +1,25 @@
 import type { OmgConfig } from '../config.js'
-import type { LlmClient } from '../llm/client.js'
-import type { Message, OmgSessionState, ExtractOutput } from '../types.js'
+import { withUsageTag, type LlmClient } from '../llm/client.js'
+import { clientForRole, type LlmRoleClients } from '../llm/backends.js'
+import type { Message, OmgSessionState, ExtractOutput, ExtractCandidate, NodeSource, ScoredMergeTarget, WriteContext } from '../types.js'
 import { createOmgSessionState, candidateToUpsertOperation } from '../types.js'
 import { loadSessionState, saveSessionState, getDefaultSessionState } from '../state/session-state.js'
 import { accumulateTokens, shouldTriggerObservation } from '../state/token-tracker.js'
-import { runExtract, runMerge } from '../observer/observer.js'
+import { runExtract, runMerge, runContradictionCheck } from '../observer/observer.js'
 import { writeObservationNode, writeNowNode, appendToExistingNode, addAliasToNode } from '../graph/node-writer.js'
-import { applyMocUpdate, regenerateMoc } from '../graph/moc-manager.js'
+import { applyMocUpdate, mocGroupOf, regenerateMoc } from '../graph/moc-manager.js'
 import { readGraphNode } from '../graph/node-reader.js'
 import { getRegistryEntries, getNodeFilePaths } from '../graph/registry.js'
+import { setNodeArchived } from '../graph/archive.js'
+import { appendConflict } from '../observer/conflicts.js'
+import { computeNodeId } from '../utils/id.js'
 import { resolveOmgRoot, resolveMocPath } from '../utils/paths.js'
 import { readFileOrNull } from '../utils/fs.js'
 import { findMergeTargets, shouldMerge, DEFAULT_MERGE_RETRIEVAL_CONFIG } from '../observer/retrieval.js'
 import type { MergeRetrievalConfig } from '../observer/retrieval.js'
 import { renderNowPatch, shouldUpdateNow } from '../observer/now-renderer.js'
 import type { MemoryTools } from '../context/memory-search.js'
+import { isVisibleToAgent } from '../context/visibility.js'
 import { checkSourceOverlap, suppressDuplicateCandidates, suppressIntraBatchEpisodes, updateRecentFingerprints } from '../observer/extraction-guardrails.js'
 import { buildFingerprint, type SourceFingerprint } from '../observer/source-fingerprint.js'
 import { emitMetric } from '../metrics/index.js'
@@ -35,10 +40,14 @@ export interface AgentEndContext {
   readonly messages: readonly Message[]
   readonly config: OmgConfig
   readonly llmClient: LlmClient
+  /** Routed clients from `config.llm.routing`; the merge role is used for merge and contradiction calls. */
+  readonly llmClients?: LlmRoleClients
   /** Optional memory tools for semantic retrieval during merge targeting. */
   readonly memoryTools?: MemoryTools | null
   /** Optional circuit breaker to skip observation when gateway is failing. */
   readonly circuitBreaker?: CircuitBreaker | null
+  /** Agent that ran the turn. Recorded as an owner on nodes written or merged into. */
+  readonly agentId?: string
 }
 
 /**
@@ -49,10 +58,10 @@ export interface AgentEndContext {
  * even on partial failure.
  */
 export async function agentEnd(event: AgentEndEvent, ctx: AgentEndContext): Promise<void> {
-  const { workspaceDir, sessionKey, messages, config, llmClient, memoryTools, circuitBreaker } = ctx
+  const { workspaceDir, sessionKey, messages, config, llmClient, llmClients, memoryTools, circuitBreaker, agentId } = ctx
   const omgRoot = resolveOmgRoot(workspaceDir, config)
   const scope = config.scope ?? workspaceDir
-  const writeContext = { omgRoot, sessionKey, scope }
+  const writeContext: WriteContext = { omgRoot, sessionKey, scope, ...(agentId !== undefined ? { agentId } : {}) }
 
   const initialState = await loadSessionStateOrDefault(workspaceDir, sessionKey)
   const accumulatedState = accumulateTokens(messages, initialState)
@@ -73,7 +82,7 @@ export async function agentEnd(event: AgentEndEvent, ctx: AgentEndContext): Prom
 
   const finalState = await tryRunObservation(
     messages, accumulatedState, config, llmClient, omgRoot, writeContext, sessionKey,
-    memoryTools ?? null, circuitBreaker ?? null
+    memoryTools ?? null, circuitBreaker ?? null, clientForRole(llmClient, llmClients, 'merge')
   )
 
   await persistState(workspaceDir, sessionKey, finalState)
@@ -101,11 +110,16 @@ export async function tryRunObservation(
   config: OmgConfig,
   llmClient: LlmClient,
   omgRoot: string,
-  writeContext: { readonly omgRoot: string; readonly sessionKey: string; readonly scope: string },
+  writeContext: WriteContext,
   sessionKey: string,
   memoryTools: MemoryTools | null = null,
   circuitBreaker: CircuitBreaker | null = null,
+  mergeLlmClient: LlmClient = llmClient,
 ): Promise<OmgSessionState> {
+  // Attribute this cycle's LLM spend in the usage ledger
+  const extractClient = withUsageTag(llmClient, { pipeline: 'extract', sessionKey })
+  const mergeClient = withUsageTag(mergeLlmClient, { pipeline: 'merge', sessionKey })
+
   // ── Pre-Extract: Guardrail overlap check ────────────────────────────────
   const unobservedMessages = Array.from(messages.slice(state.observationBoundaryMessageIndex))
 
@@ -151,7 +165,7 @@ export async function tryRunObservation(
       unobservedMessages,
       nowNode: nowContent,
       config,
-      llmClient,
+      llmClient: extractClient,
       sessionContext: { sessionKey },
     })
   } catch (err) {
@@ -220,17 +234,33 @@ export async function tryRunObservation(
   let writeFailureCount = 0
 
   const mergeConfig = buildMergeRetrievalConfig(config)
+  // Only nodes this agent can see may be superseded or merged into — another
+  // agent's private node must not be archived, quoted in this agent's prompts,
+  // or gain this agent as an owner.
+  const mergeCandidateEntries = allRegistryEntries.filter(
+    ([, entry]) => isVisibleToAgent(entry, writeContext.agentId, config.injection.agentVisibility)
+  )
 
   for (const candidate of filteredCandidates) {
     try {
       // Find merge targets (local + optional semantic)
-      const targets = await findMergeTargets(candidate, allRegistryEntries, memoryTools, mergeConfig)
+      const targets = await findMergeTargets(candidate, mergeCandidateEntries, memoryTools, mergeConfig)
+
+      // Contradiction check for stable types — a superseding candidate replaces
+      // the contradicted node and skips the merge decision entirely.
+      if (config.merge.contradictionCheck) {
+        const supersedingId = await resolveContradiction(candidate, targets, mergeClient, writeContext, sessionKey)
+        if (supersedingId !== null) {
+          writtenIds.push(supersedingId)
+          continue
+        }
+      }
 
       // Only invoke merge LLM when retrieval found close neighbors
       let mergeAction: { action: string; targetNodeId?: string; bodyAppend?: string; aliasKey?: string }
       if (shouldMerge(targets, mergeConfig.mergeThreshold)) {
         try {
-          mergeAction = await runMerge(candidate, targets, llmClient)
+          mergeAction = await runMerge(candidate, targets, mergeClient, config.llm.structuredOutput)
         } catch (err) {
           console.error(
             `[omg] agent_end [${sessionKey}]: Merge LLM call failed for candidate "${candidate.canonicalKey}" — falling back to keep_separate:`,
@@ -244,10 +274,15 @@ export async function tryRunObservation(
 
       // Apply the merge action
       if (mergeAction.action === 'merge' && mergeAction.targetNodeId) {
+        const source: NodeSource | undefined = candidate.sourceTool !== undefined
+          ? { sessionKey, kind: `tool:${candidate.sourceTool}`, timestamp: Date.now() }
+          : undefined
         const result = await appendToExistingNode(
           omgRoot,
           mergeAction.targetNodeId,
-          mergeAction.bodyAppend ?? ''
+          mergeAction.bodyAppend ?? '',
+          writeContext.agentId,
+          source
         )
         if (result) {
           writtenIds.push(result.frontmatter.id)
@@ -342,7 +377,12 @@ export async function tryRunObservation(
         for (const id of writtenIds) {
           const entry = freshEntries.find(([nid]) => nid === id)?.[1]
           if (entry?.links?.includes(mocId)) {
-            await applyMocUpdate(mocPath, { action: 'add', nodeId: id })
+            await applyMocUpdate(mocPath, {
+              action: 'add',
+              nodeId: id,
+              description: entry.description,
+              group: mocGroupOf(entry, domain),
+            })
           }
         }
       }
@@ -409,6 +449,78 @@ export async function tryRunObservation(
 // Helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Runs the contradiction check for one candidate and applies the verdict.
+ *
+ * - `supersedes` — writes the candidate with `supersedes: [target]`, archives
+ *   the target, and logs the resolution. Returns the written node ID.
+ * - `unresolved` — logs the conflict to `.conflicts.jsonl` for review and
+ *   returns null so the candidate continues through the merge decision.
+ * - `none` (or LLM failure) — returns null.
+ */
+async function resolveContradiction(
+  candidate: ExtractCandidate,
+  targets: readonly ScoredMergeTarget[],
+  llmClient: LlmClient,
+  writeContext: WriteContext,
+  sessionKey: string
+): Promise<string | null> {
+  const { omgRoot } = writeContext
+
+  let verdict: Awaited<ReturnType<typeof runContradictionCheck>>
+  try {
+    verdict = await runContradictionCheck(candidate, targets, llmClient)
+  } catch (err) {
+    console.error(
+      `[omg] agent_end [${sessionKey}]: Contradiction LLM call failed for candidate "${candidate.canonicalKey}" — skipping check:`,
+      err
+    )
+    return null
+  }
+  if (verdict.verdict === 'none') return null
+
+  if (verdict.verdict === 'unresolved') {
+    try {
+      await appendConflict(omgRoot, {
+        timestamp: new Date().toISOString(),
+        resolution: 'unresolved',
+        newNodeId: computeNodeId(candidate.type, candidate.canonicalKey),
+        newCanonicalKey: candidate.canonicalKey,
+        existingNodeId: verdict.targetNodeId,
+        reason: verdict.reason,
+      })
+      console.warn(
+        `[omg] agent_end [${sessionKey}]: unresolved contradiction between "${candidate.canonicalKey}" and ${verdict.targetNodeId} — queued in .conflicts.jsonl`
+      )
+    } catch (err) {
+      console.error(`[omg] agent_end [${sessionKey}]: failed to record conflict for "${candidate.canonicalKey}":`, err)
+    }
+    return null
+  }
+
+  const op = { ...candidateToUpsertOperation(candidate), supersedes: [verdict.targetNodeId] }
+  const written = await writeObservationNode(op, writeContext)
+  try {
+    await setNodeArchived(omgRoot, verdict.targetNodeId, true)
+  } catch (err) {
+    console.error(`[omg] agent_end [${sessionKey}]: failed to archive superseded node ${verdict.targetNodeId}:`, err)
+  }
+  try {
+    await appendConflict(omgRoot, {
+      timestamp: new Date().toISOString(),
+      resolution: 'superseded',
+      newNodeId: written.frontmatter.id,
+      newCanonicalKey: candidate.canonicalKey,
+      existingNodeId: verdict.targetNodeId,
+      reason: verdict.reason,
+    })
+  } catch (err) {
+    console.error(`[omg] agent_end [${sessionKey}]: failed to record conflict for "${candidate.canonicalKey}":`, err)
+  }
+  console.log(`[omg] contradiction: ${written.frontmatter.id} supersedes ${verdict.targetNodeId}`)
+  return written.frontmatter.id
+}
+
 /**
  * Builds a MergeRetrievalConfig from the plugin config, using defaults
  * from DEFAULT_MERGE_RETRIEVAL_CONFIG when no merge config is present.
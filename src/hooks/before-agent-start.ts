@@ -4,6 +4,7 @@ import { readGraphNode } from '../graph/node-reader.js'
 import { getNodeCount, getRegistryEntries, type RegistryNodeEntry } from '../graph/registry.js'
 import { resolveOmgRoot } from '../utils/paths.js'
 import { selectContextV2 } from '../context/selector.js'
+import { getKeywordIndex } from '../graph/keyword-index.js'
 import { renderContextBlock } from '../context/renderer.js'
 import { readFileOrNull } from '../utils/fs.js'
 import { getLastCronRunAge } from '../cron/register.js'
@@ -23,6 +24,8 @@ export interface BeforeAgentStartContext {
   readonly config: OmgConfig
   /** Optional memory tool interface for semantic boosting. null = registry-only. */
   readonly memoryTools?: MemoryTools | null
+  /** Agent the context is injected for; drives `injection.agentVisibility`. */
+  readonly agentId?: string
 }
 
 export interface BeforeAgentStartResult {
@@ -43,7 +46,7 @@ export async function beforeAgentStart(
   ctx: BeforeAgentStartContext
 ): Promise<BeforeAgentStartResult | undefined> {
   try {
-    const { workspaceDir, config, memoryTools } = ctx
+    const { workspaceDir, config, memoryTools, agentId } = ctx
     const omgRoot = resolveOmgRoot(workspaceDir, config)
 
     const [indexContent, nowContent, nodeCount, registryEntries] = await Promise.all([
@@ -78,6 +81,11 @@ export async function beforeAgentStart(
       ? [{ role: 'user' as const, content: cleanedPrompt }]
       : []
 
+    const keywordIndex = await getKeywordIndex(omgRoot, registryEntries).catch((err) => {
+      console.error('[omg] before_agent_start: failed to load keyword index, falling back to full scan:', err)
+      return null
+    })
+
     const slice = await selectContextV2({
       indexContent: indexContent ?? '',
       nowContent,
@@ -87,6 +95,8 @@ export async function beforeAgentStart(
       hydrateNode: readGraphNode,
       memoryTools,
       omgRoot,
+      keywordIndex,
+      agentId,
     })
 
     let prependContext = renderContextBlock(slice)
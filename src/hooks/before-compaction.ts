@@ -1,6 +1,7 @@
 import type { OmgConfig } from '../config.js'
 import type { LlmClient } from '../llm/client.js'
-import type { Message } from '../types.js'
+import { clientForRole, type LlmRoleClients } from '../llm/backends.js'
+import type { Message, WriteContext } from '../types.js'
 import { loadSessionState, saveSessionState, getDefaultSessionState } from '../state/session-state.js'
 import { accumulateTokens } from '../state/token-tracker.js'
 import { tryRunObservation } from './agent-end.js'
@@ -18,6 +19,10 @@ export interface BeforeCompactionContext {
   readonly messages: readonly Message[]
   readonly config: OmgConfig
   readonly llmClient: LlmClient
+  /** Routed clients from `config.llm.routing`; see `AgentEndContext.llmClients`. */
+  readonly llmClients?: LlmRoleClients
+  /** Agent whose conversation is compacted; see `AgentEndContext.agentId`. */
+  readonly agentId?: string
 }
 
 /**
@@ -34,10 +39,10 @@ export async function beforeCompaction(
   _event: BeforeCompactionEvent,
   ctx: BeforeCompactionContext
 ): Promise<void> {
-  const { workspaceDir, sessionKey, messages, config, llmClient } = ctx
+  const { workspaceDir, sessionKey, messages, config, llmClient, llmClients, agentId } = ctx
   const omgRoot = resolveOmgRoot(workspaceDir, config)
   const scope = config.scope ?? workspaceDir
-  const writeContext = { omgRoot, sessionKey, scope }
+  const writeContext: WriteContext = { omgRoot, sessionKey, scope, ...(agentId !== undefined ? { agentId } : {}) }
 
   let state = getDefaultSessionState()
   try {
@@ -54,7 +59,8 @@ export async function beforeCompaction(
   const accumulatedState = accumulateTokens(messages, state)
 
   const finalState = await tryRunObservation(
-    messages, accumulatedState, config, llmClient, omgRoot, writeContext, sessionKey
+    messages, accumulatedState, config, llmClient, omgRoot, writeContext, sessionKey,
+    null, null, clientForRole(llmClient, llmClients, 'merge')
   )
 
   try {
@@ -0,0 +1,151 @@
+/**
+ * Normalizes raw gateway messages into the OMG `Message` format.
+ *
+ * The OpenClaw gateway passes messages in provider format, where `content` is
+ * often an array of content blocks (`[{type: "text", text: "..."}]`), but OMG's
+ * `Message` type expects `content` to be a plain string.
+ *
+ * Tool traffic is kept as separate `tool` messages carrying the tool name, so
+ * the Observer can mine durable facts from tool results. Three shapes are
+ * recognised:
+ *   - Anthropic — `tool_use` / `tool_result` content blocks
+ *   - OpenAI    — assistant `tool_calls` and `role: "tool"` messages
+ *   - OpenClaw  — `toolCall` content blocks and `role: "toolResult"` messages
+ *
+ * Tool results name their tool by call ID; the ID is resolved against the
+ * calls seen anywhere in the same message list.
+ */
+
+import type { Message } from '../types.js'
+import type { OmgConfig } from '../config.js'
+
+type ToolObservationConfig = OmgConfig['observation']['tools']
+
+/** Content block as used by the Anthropic Messages API and the OpenClaw transcript. */
+interface ContentBlock {
+  readonly type: string
+  readonly text?: string
+  readonly id?: string
+  readonly name?: string
+  readonly input?: unknown
+  readonly arguments?: unknown
+  readonly tool_use_id?: string
+  readonly content?: unknown
+}
+
+interface RawToolCall {
+  readonly id?: string
+  readonly function?: { readonly name?: string; readonly arguments?: unknown }
+}
+
+interface RawMessage {
+  readonly role?: string
+  readonly content?: unknown
+  readonly tool_calls?: readonly RawToolCall[]
+  readonly tool_call_id?: string
+  readonly toolCallId?: string
+  readonly name?: string
+  readonly toolName?: string
+}
+
+const TRUNCATION_MARKER = '… [truncated]'
+
+/**
+ * Returns true when `toolName` may be observed: it matches no `deny` entry
+ * and, when `allow` is non-empty, at least one `allow` entry.
+ * Entries match exactly, or by prefix when they end with `*`.
+ */
+export function isToolObserved(toolName: string, tools: ToolObservationConfig): boolean {
+  const matches = (pattern: string): boolean =>
+    pattern.endsWith('*') ? toolName.startsWith(pattern.slice(0, -1)) : toolName === pattern
+  if (tools.deny.some(matches)) return false
+  return tools.allow.length === 0 || tools.allow.some(matches)
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.slice(0, maxChars) + TRUNCATION_MARKER : text
+}
+
+/** Extracts text blocks from string or block-array content; other shapes are JSON-encoded. */
+function normalizeContent(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return (content as readonly ContentBlock[])
+      .filter((block) => block.type === 'text' && typeof block.text === 'string')
+      .map((block) => block.text!)
+      .join('\n')
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content)
+}
+
+/** Renders tool call arguments. OpenAI sends them pre-encoded as a JSON string. */
+function formatArguments(args: unknown): string {
+  if (typeof args === 'string') return args
+  return args === undefined ? '{}' : JSON.stringify(args)
+}
+
+function blocksOf(m: RawMessage): readonly ContentBlock[] {
+  return Array.isArray(m.content) ? (m.content as readonly ContentBlock[]) : []
+}
+
+/** Maps every tool call ID in `raw` to its tool name. */
+function collectToolNames(raw: readonly RawMessage[]): Map<string, string> {
+  const names = new Map<string, string>()
+  for (const m of raw) {
+    for (const block of blocksOf(m)) {
+      if ((block.type === 'tool_use' || block.type === 'toolCall') && block.id && block.name) {
+        names.set(block.id, block.name)
+      }
+    }
+    for (const call of m.tool_calls ?? []) {
+      if (call.id && call.function?.name) names.set(call.id, call.function.name)
+    }
+  }
+  return names
+}
+
+/**
+ * Normalizes raw gateway messages. Plain string content passes through;
+ * text blocks are joined; tool calls and results become `tool` messages
+ * (`call: {...}` / `result: ...`), filtered and truncated per `tools`.
+ * With `tools.enabled` false, tool traffic is dropped.
+ */
+export function normalizeMessages(raw: readonly unknown[], tools: ToolObservationConfig): readonly Message[] {
+  const rawMessages = raw as readonly RawMessage[]
+  const toolNames = collectToolNames(rawMessages)
+  const out: Message[] = []
+
+  const pushTool = (toolName: string, kind: 'call' | 'result', body: string): void => {
+    if (!tools.enabled || !isToolObserved(toolName, tools)) return
+    out.push({ role: 'tool', toolName, content: `${kind}: ${truncate(body, tools.maxChars)}` })
+  }
+
+  for (const m of rawMessages) {
+    if (m.role === 'tool' || m.role === 'toolResult') {
+      const callId = m.tool_call_id ?? m.toolCallId
+      const toolName = m.toolName ?? m.name ?? (callId !== undefined ? toolNames.get(callId) : undefined) ?? 'unknown'
+      pushTool(toolName, 'result', normalizeContent(m.content))
+      continue
+    }
+
+    const role = m.role === 'assistant' ? 'assistant' : 'user'
+    const text = normalizeContent(m.content)
+    const toolMessages: [string, 'call' | 'result', string][] = []
+    for (const block of blocksOf(m)) {
+      if (block.type === 'tool_use' || block.type === 'toolCall') {
+        toolMessages.push([block.name ?? 'unknown', 'call', formatArguments(block.input ?? block.arguments)])
+      } else if (block.type === 'tool_result') {
+        const toolName = (block.tool_use_id !== undefined ? toolNames.get(block.tool_use_id) : undefined) ?? 'unknown'
+        toolMessages.push([toolName, 'result', normalizeContent(block.content)])
+      }
+    }
+    for (const call of m.tool_calls ?? []) {
+      toolMessages.push([call.function?.name ?? 'unknown', 'call', formatArguments(call.function?.arguments)])
+    }
+
+    // A message that was only tool traffic contributes no empty text message.
+    if (text.length > 0 || toolMessages.length === 0) out.push({ role, content: text })
+    for (const [toolName, kind, body] of toolMessages) pushTool(toolName, kind, body)
+  }
+  return out
+}
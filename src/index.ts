@@ -9,6 +9,7 @@ export {
   coerceNodeType,
   inferNodeTypeFromKey,
   isCompressionLevel,
+  REFLECTION_LEVELS,
   ReflectorInvariantError,
   createReflectorOutput,
   OmgSessionStateError,
@@ -18,6 +19,7 @@ export type {
   NodeType,
   Priority,
   CompressionLevel,
+  ReflectionLevel,
   ReflectorInvariantKind,
   NodeSource,
   NodeAppliesTo,
@@ -37,8 +39,16 @@ export type {
 
 export { parseNodeFrontmatter, nodeFrontmatterSchema, FrontmatterValidationError } from './frontmatter.js'
 
-export { createLlmClient } from './llm/client.js'
-export type { LlmClient, LlmResponse, LlmUsage, LlmGenerateParams, GenerateFn } from './llm/client.js'
+export { createLlmClient, withUsageTag, LLM_PIPELINES } from './llm/client.js'
+export type {
+  LlmClient, LlmResponse, LlmUsage, LlmGenerateParams, GenerateFn, LlmCallTag, LlmPipeline, LlmClientOptions,
+} from './llm/client.js'
+export { createRoleClients, createFallbackLlmClient, clientForRole, LLM_ROLES } from './llm/backends.js'
+export type { LlmRole, LlmRoleClients } from './llm/backends.js'
+export { readUsageLedger, summarizeUsage, checkDailyTokenBudget } from './llm/usage-ledger.js'
+export type { UsageLedgerEntry, UsageSummary, DailyBudgetStatus } from './llm/usage-ledger.js'
+export { createLlmScheduler, withScheduler, LLM_PRIORITIES } from './llm/scheduler.js'
+export type { LlmScheduler, LlmPriority, LlmSchedulerStats } from './llm/scheduler.js'
 
 export { runObservation } from './observer/observer.js'
 export { parseObserverOutput, parseExtractOutput, parseExtractOutputWithDiagnostics } from './observer/parser.js'
@@ -49,6 +59,8 @@ export type { ObserverUserPromptParams } from './observer/prompts.js'
 export { selectContext } from './context/selector.js'
 export { renderContextBlock } from './context/renderer.js'
 export type { SelectionParams } from './context/selector.js'
+export { createHashedNgramProvider, createLocalMemoryTools } from './context/embeddings.js'
+export type { EmbeddingProvider } from './context/embeddings.js'
 
 export { loadSessionState, saveSessionState, getDefaultSessionState } from './state/session-state.js'
 export { accumulateTokens, shouldTriggerObservation, shouldTriggerReflection } from './state/token-tracker.js'
@@ -57,6 +69,7 @@ export { agentEnd } from './hooks/agent-end.js'
 export { beforeAgentStart } from './hooks/before-agent-start.js'
 export { beforeCompaction } from './hooks/before-compaction.js'
 export { toolResultPersist } from './hooks/tool-result-persist.js'
+export { normalizeMessages, isToolObserved } from './hooks/normalize-messages.js'
 export type {
   AgentEndEvent,
   AgentEndContext,
@@ -75,10 +88,15 @@ export type {
   ToolResultPersistResult,
 } from './hooks/tool-result-persist.js'
 
+export { createOmgTools, searchGraph, getGraphNode, deriveCanonicalKey, OMG_TOOL_NAMES } from './tools/omg-tools.js'
+export type { OmgTool, OmgToolResult, OmgToolContent, OmgToolsContext, OmgSearchHit } from './tools/omg-tools.js'
+
 export { scaffoldGraphIfNeeded } from './scaffold.js'
 
 export { runBootstrap } from './bootstrap/bootstrap.js'
 export type { BootstrapParams, BootstrapResult, BootstrapSource } from './bootstrap/bootstrap.js'
+export { createSourceAdapter } from './bootstrap/source-adapters.js'
+export type { BootstrapSourceAdapter, SourceAdapterConfig, SourceAdapterKind } from './bootstrap/source-adapters.js'
 
 export { register, plugin } from './plugin.js'
-export type { PluginApi, PluginHookContext, OpenClawPluginDefinition } from './plugin.js'
+export type { PluginApi, PluginHookContext, PluginToolContext, OpenClawPluginDefinition } from './plugin.js'
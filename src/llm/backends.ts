@@ -0,0 +1,173 @@
+/**
+ * LLM backend registry and per-role routing.
+ *
+ * `config.llm.backends` names the available backends; `config.llm.routing`
+ * maps each role (observer, reflector, merge, dedup) to an ordered chain of
+ * them. Each chain becomes one {@link LlmClient} that walks the chain on
+ * `RateLimitError` / `GatewayUnreachableError` and rethrows anything else.
+ * Roles without a chain keep using the default observer client.
+ */
+
+import { createLlmClient, type GenerateFn, type LlmClient, type LlmClientOptions, type LlmGenerateParams, type LlmResponse } from './client.js'
+import { createGatewayCompletionsGenerateFn } from './gateway-completions.js'
+import { RateLimitError, GatewayUnreachableError } from './errors.js'
+import type { OmgConfig } from '../config.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const LLM_ROLES = ['observer', 'reflector', 'merge', 'dedup'] as const
+
+export type LlmRole = typeof LLM_ROLES[number]
+
+/** Clients for routed roles. A missing role falls back to the default client. */
+export type LlmRoleClients = Readonly<Partial<Record<LlmRole, LlmClient>>>
+
+export type LlmBackendConfig = OmgConfig['llm']['backends'][string]
+
+/**
+ * Builds the generate function for a `gateway` backend. Injected by the
+ * plugin entry point, which owns gateway port/auth resolution and the host's
+ * `api.generate` hook.
+ */
+export type GatewayGenerateFactory = (model: string, timeoutMs: number) => GenerateFn
+
+/** One link of a fallback chain. */
+export interface NamedLlmClient {
+  readonly name: string
+  readonly client: LlmClient
+}
+
+// ---------------------------------------------------------------------------
+// Fallback chain
+// ---------------------------------------------------------------------------
+
+function isFallbackError(err: unknown): boolean {
+  return err instanceof RateLimitError || err instanceof GatewayUnreachableError
+}
+
+/**
+ * Wraps an ordered list of clients into one. A rate-limited or unreachable
+ * backend hands the call to the next; the last backend's error is rethrown
+ * unchanged so callers can still discriminate it with `instanceof`.
+ */
+export function createFallbackLlmClient(chain: readonly NamedLlmClient[]): LlmClient {
+  if (chain.length === 0) {
+    throw new Error('createFallbackLlmClient: chain must contain at least one client')
+  }
+  return {
+    model: chain.map(({ name, client }) => client.model ?? name).join(' > '),
+    async generate(params: LlmGenerateParams): Promise<LlmResponse> {
+      for (let i = 0; i < chain.length; i++) {
+        const { name, client } = chain[i]!
+        try {
+          return await client.generate(params)
+        } catch (err) {
+          const next = chain[i + 1]
+          if (next === undefined || !isFallbackError(err)) throw err
+          console.warn(
+            `[omg] llm: backend "${name}" failed (${(err as Error).name}) — falling back to "${next.name}"`
+          )
+        }
+      }
+      // Unreachable: the loop either returns or throws on the last link
+      throw new Error('createFallbackLlmClient: chain exhausted')
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the client for one configured backend.
+ *
+ * @param defaultModel  Model for `gateway` backends without their own `model`.
+ * @param defaultTimeoutMs  Timeout for backends without their own `timeoutMs`.
+ * @param options  Passed through to {@link createLlmClient} (e.g. the usage listener).
+ * @throws If an `openai-compatible` backend names an unset `apiKeyEnv` variable.
+ */
+export function createBackendClient(
+  name: string,
+  backend: LlmBackendConfig,
+  gatewayGenerate: GatewayGenerateFactory,
+  defaultModel: string,
+  defaultTimeoutMs: number,
+  options: LlmClientOptions = {}
+): LlmClient {
+  const timeoutMs = backend.timeoutMs ?? defaultTimeoutMs
+  if (backend.kind === 'gateway') {
+    const model = backend.model ?? defaultModel
+    return createLlmClient(model, gatewayGenerate(model, timeoutMs), options)
+  }
+
+  let apiKey = backend.apiKey
+  if (backend.apiKeyEnv !== undefined) {
+    apiKey = process.env[backend.apiKeyEnv]
+    if (apiKey === undefined || apiKey.length === 0) {
+      throw new Error(`llm backend "${name}": environment variable ${backend.apiKeyEnv} is not set`)
+    }
+  }
+  const generateFn = createGatewayCompletionsGenerateFn({
+    baseUrl: backend.baseUrl,
+    model: backend.model,
+    timeoutMs,
+    ...(apiKey !== undefined ? { authToken: apiKey } : {}),
+  })
+  return createLlmClient(`${name}:${backend.model}`, generateFn, options)
+}
+
+/**
+ * Builds one fallback client per routed role from `config.llm`.
+ * Backends that cannot be created are logged and left out of their chains;
+ * a role whose whole chain is unusable is left unrouted.
+ */
+export function createRoleClients(
+  config: OmgConfig,
+  gatewayGenerate: GatewayGenerateFactory,
+  options: LlmClientOptions = {}
+): LlmRoleClients {
+  const { backends, routing } = config.llm
+  const defaultModel = config.observer.model ?? 'claude-sonnet-4-20250514'
+  const cache = new Map<string, LlmClient | null>()
+
+  const backendClient = (name: string): LlmClient | null => {
+    if (!cache.has(name)) {
+      const backend = backends[name]
+      let client: LlmClient | null = null
+      if (backend !== undefined) {
+        try {
+          client = createBackendClient(name, backend, gatewayGenerate, defaultModel, config.observer.timeoutMs, options)
+        } catch (err) {
+          console.error(`[omg] llm: ${err instanceof Error ? err.message : String(err)} — backend skipped`)
+        }
+      }
+      cache.set(name, client)
+    }
+    return cache.get(name) ?? null
+  }
+
+  const clients: Partial<Record<LlmRole, LlmClient>> = {}
+  for (const role of LLM_ROLES) {
+    const chain = (routing[role] ?? []).flatMap((name) => {
+      const client = backendClient(name)
+      return client !== null ? [{ name, client }] : []
+    })
+    if (chain.length > 0) clients[role] = createFallbackLlmClient(chain)
+  }
+  return clients
+}
+
+/**
+ * Returns the client routed for `role`, or `defaultClient` when the role has
+ * no configured chain.
+ */
+export function clientForRole(
+  defaultClient: LlmClient,
+  clients: LlmRoleClients | undefined,
+  role: LlmRole
+): LlmClient {
+  return clients?.[role] ?? defaultClient
+}
@@ -29,12 +29,50 @@ export interface LlmResponse {
   readonly usage: LlmUsage
 }
 
+/** A named JSON schema the response should conform to. */
+export interface LlmResponseSchema {
+  readonly name: string
+  readonly schema: Readonly<Record<string, unknown>>
+}
+
 /** Parameters accepted by a generation call. */
 export interface LlmGenerateParams {
   readonly system: string
   readonly user: string
   /** Must be a positive integer. Validated by {@link createLlmClient} before the call. */
   readonly maxTokens: number
+  /**
+   * Requests structured output. OpenAI-compatible generate functions send it
+   * as `response_format`; others may ignore it, so callers must still accept
+   * a non-JSON reply.
+   */
+  readonly responseSchema?: LlmResponseSchema
+  /** Attribution for the usage ledger. Never sent to the model. */
+  readonly tag?: LlmCallTag
+}
+
+/** Pipelines that usage is attributed to. Untagged calls count as `other`. */
+export const LLM_PIPELINES = ['extract', 'merge', 'reflect', 'dedup', 'bootstrap', 'other'] as const
+
+export type LlmPipeline = typeof LLM_PIPELINES[number]
+
+/** Identifies which pipeline (and session, when known) made a call. */
+export interface LlmCallTag {
+  readonly pipeline: LlmPipeline
+  readonly sessionKey?: string
+}
+
+/** One successful call as reported to {@link LlmClientOptions.onUsage}. */
+export interface LlmUsageEvent {
+  readonly model: string
+  readonly usage: LlmUsage
+  readonly tag?: LlmCallTag
+}
+
+/** Optional hooks for {@link createLlmClient}. */
+export interface LlmClientOptions {
+  /** Called after every successful call. Errors thrown here are logged and ignored. */
+  readonly onUsage?: (event: LlmUsageEvent) => void
 }
 
 /**
@@ -46,6 +84,8 @@ export type GenerateFn = (params: LlmGenerateParams) => Promise<LlmResponse>
 
 /** Client handle returned by {@link createLlmClient}. */
 export interface LlmClient {
+  /** Model identifier the client calls, when known. Used for cache keys and logging. */
+  readonly model?: string
   generate(params: LlmGenerateParams): Promise<LlmResponse>
 }
 
@@ -63,11 +103,15 @@ export interface LlmClient {
  * Errors thrown by `generateFn` are caught and re-thrown as a new `Error`
  * whose message includes the model name, making log entries actionable.
  *
+ * Every successful call is reported to `options.onUsage`, which makes this
+ * the single point that feeds the usage ledger.
+ *
  * @param model  Model identifier, used only for error messages and logging.
  * @param generateFn  The underlying generation callback.
  */
-export function createLlmClient(model: string, generateFn: GenerateFn): LlmClient {
+export function createLlmClient(model: string, generateFn: GenerateFn, options: LlmClientOptions = {}): LlmClient {
   return {
+    model,
     async generate(params: LlmGenerateParams): Promise<LlmResponse> {
       const { maxTokens } = params
       if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
@@ -85,6 +129,7 @@ export function createLlmClient(model: string, generateFn: GenerateFn): LlmClien
           )
         }
 
+        reportUsage(options, { model, usage: raw.usage, ...(params.tag !== undefined ? { tag: params.tag } : {}) })
         return { content: raw.content, usage: raw.usage }
       } catch (err) {
         // Preserve typed errors so callers (e.g. the bootstrap retry loop)
@@ -98,3 +143,23 @@ export function createLlmClient(model: string, generateFn: GenerateFn): LlmClien
     },
   }
 }
+
+function reportUsage(options: LlmClientOptions, event: LlmUsageEvent): void {
+  if (options.onUsage === undefined) return
+  try {
+    options.onUsage(event)
+  } catch (err) {
+    console.error('[omg] llm: usage listener failed:', err instanceof Error ? err.message : String(err))
+  }
+}
+
+/**
+ * Wraps `client` so every call carries `tag` for the usage ledger. A tag
+ * already set on the params wins.
+ */
+export function withUsageTag(client: LlmClient, tag: LlmCallTag): LlmClient {
+  return {
+    ...(client.model !== undefined ? { model: client.model } : {}),
+    generate: (params) => client.generate({ ...params, tag: params.tag ?? tag }),
+  }
+}
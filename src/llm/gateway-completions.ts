@@ -8,6 +8,13 @@
  * Requires `gateway.http.endpoints.chatCompletions.enabled: true` in the
  * gateway config.
  *
+ * With `baseUrl` set, the same client talks to any other OpenAI-compatible
+ * endpoint — this backs the `openai-compatible` backend in `backends.ts`.
+ *
+ * A `responseSchema` in the call params is sent as a strict `json_schema`
+ * `response_format`. If the endpoint rejects it with a 4xx, the call is
+ * retried once without it and later calls from the same client skip it.
+ *
  * Error types thrown:
  *   - `RateLimitError`         — HTTP 429, rate-limit body, or non-JSON 200 (overloaded)
  *   - `GatewayUnreachableError` — network-level failures (ECONNREFUSED, etc.)
@@ -35,6 +42,9 @@ interface OpenAiResponse {
   readonly usage: OpenAiUsage
 }
 
+/** Body text of a 4xx that means the endpoint does not support `response_format`. */
+const UNSUPPORTED_RESPONSE_FORMAT_RE = /response_format|json_schema|structured output/i
+
 export interface GatewayCompletionsOptions {
   /** Gateway port (default 18789). */
   readonly port?: number
@@ -42,6 +52,12 @@ export interface GatewayCompletionsOptions {
   readonly authToken?: string
   /** Model override — if omitted, the gateway uses its default model. */
   readonly model?: string
+  /**
+   * Base URL of another OpenAI-compatible API (e.g. `http://127.0.0.1:11434/v1`
+   * for Ollama). When set, `port` is ignored and requests go to
+   * `{baseUrl}/chat/completions`; error messages name that URL.
+   */
+  readonly baseUrl?: string
   /**
    * Per-request timeout in milliseconds (default 120 000 = 2 minutes).
    * Throws GatewayUnreachableError on timeout so callers can retry or fail fast.
@@ -53,17 +69,23 @@ export interface GatewayCompletionsOptions {
  * Creates a generate function that calls the local OpenClaw gateway's
  * `/v1/chat/completions` endpoint.
  *
- * This is the only supported LLM path: requests go through the gateway's
- * model routing and auth, using the same providers configured for agent sessions.
+ * By default requests go through the gateway's model routing and auth, using
+ * the same providers configured for agent sessions. Pass `baseUrl` to target
+ * another OpenAI-compatible API instead.
  */
 export function createGatewayCompletionsGenerateFn(
   options: GatewayCompletionsOptions = {}
 ): (params: LlmGenerateParams) => Promise<LlmResponse> {
   const port = options.port ?? 18789
-  const url = `http://127.0.0.1:${port}/v1/chat/completions`
+  const url = options.baseUrl !== undefined
+    ? `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`
+    : `http://127.0.0.1:${port}/v1/chat/completions`
   const { authToken, model, timeoutMs = 120_000 } = options
+  const source = options.baseUrl !== undefined ? url : 'Gateway'
+  const endpoint = options.baseUrl !== undefined ? url : 'Gateway /v1/chat/completions'
+  let responseFormatSupported = true
 
-  return async (params: LlmGenerateParams): Promise<LlmResponse> => {
+  const generate = async (params: LlmGenerateParams): Promise<LlmResponse> => {
     const messages: OpenAiMessage[] = [
       { role: 'system', content: params.system },
       { role: 'user', content: params.user },
@@ -76,6 +98,13 @@ export function createGatewayCompletionsGenerateFn(
     if (model) {
       body['model'] = model
     }
+    const sendsResponseFormat = params.responseSchema !== undefined && responseFormatSupported
+    if (sendsResponseFormat) {
+      body['response_format'] = {
+        type: 'json_schema',
+        json_schema: { name: params.responseSchema!.name, schema: params.responseSchema!.schema, strict: true },
+      }
+    }
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -94,22 +123,33 @@ export function createGatewayCompletionsGenerateFn(
       })
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err)
-      throw new GatewayUnreachableError(`Gateway /v1/chat/completions unreachable: ${msg}`)
+      throw new GatewayUnreachableError(`${endpoint} unreachable: ${msg}`)
     }
 
     if (response.status === 429) {
       const errorText = await response.text().catch(() => 'rate limit exceeded')
-      throw new RateLimitError(`Gateway rate limit (429): ${errorText.slice(0, 200)}`)
+      throw new RateLimitError(`${source} rate limit (429): ${errorText.slice(0, 200)}`)
     }
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'unknown error')
       if (classifyGatewayError(errorText) === 'rate-limit') {
         throw new RateLimitError(
-          `Gateway /v1/chat/completions rate limited (${response.status}): ${errorText.slice(0, 200)}`
+          `${endpoint} rate limited (${response.status}): ${errorText.slice(0, 200)}`
         )
       }
-      throw new Error(`Gateway /v1/chat/completions error (${response.status}): ${errorText}`)
+      if (
+        sendsResponseFormat &&
+        response.status >= 400 && response.status < 500 &&
+        UNSUPPORTED_RESPONSE_FORMAT_RE.test(errorText)
+      ) {
+        responseFormatSupported = false
+        console.warn(
+          `[omg] gateway: ${endpoint} rejected response_format (${response.status}) — falling back to XML output`
+        )
+        return generate(params)
+      }
+      throw new Error(`${endpoint} error (${response.status}): ${errorText}`)
     }
 
     const rawText = await response.text()
@@ -119,9 +159,9 @@ export function createGatewayCompletionsGenerateFn(
     // upstream refused") throw GatewayUnreachableError, not RateLimitError.
     if (rawText.startsWith('⚠️') || rawText.startsWith('Connection error')) {
       if (classifyGatewayError(rawText) === 'unreachable') {
-        throw new GatewayUnreachableError(`Gateway error response: ${rawText.slice(0, 200)}`)
+        throw new GatewayUnreachableError(`${source} error response: ${rawText.slice(0, 200)}`)
       }
-      throw new RateLimitError(`Gateway error response: ${rawText.slice(0, 200)}`)
+      throw new RateLimitError(`${source} error response: ${rawText.slice(0, 200)}`)
     }
 
     let data: OpenAiResponse
@@ -130,13 +170,13 @@ export function createGatewayCompletionsGenerateFn(
     } catch {
       // Non-JSON in a 200 response usually means the gateway is overloaded
       throw new RateLimitError(
-        `Gateway /v1/chat/completions returned non-JSON body: ${rawText.slice(0, 200)}`
+        `${endpoint} returned non-JSON body: ${rawText.slice(0, 200)}`
       )
     }
 
     const firstChoice = data.choices[0]
     if (!firstChoice) {
-      throw new Error(`Gateway /v1/chat/completions returned empty choices array`)
+      throw new Error(`${endpoint} returned empty choices array`)
     }
 
     if (firstChoice.finish_reason === 'length') {
@@ -155,4 +195,6 @@ export function createGatewayCompletionsGenerateFn(
       },
     }
   }
+
+  return generate
 }
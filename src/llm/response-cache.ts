@@ -0,0 +1,217 @@
+/**
+ * Content-addressed response cache for LLM calls.
+ *
+ * Wraps an {@link LlmClient} so identical calls — same model, system prompt,
+ * user prompt, maxTokens and response schema — are answered from disk. This
+ * makes re-run bootstraps, maintenance re-runs after a crash and eval suites
+ * nearly free when they repeat earlier prompts. `omg bootstrap --retry-failed`
+ * deliberately uses an uncached client.
+ *
+ * Entries live in `{omgRoot}/.llm-cache/{sha256}.json`. Entries older than the
+ * TTL are ignored and removed, and the directory is kept under a size cap by
+ * periodically evicting the oldest entries first. Set `OMG_LLM_CACHE=off` to bypass the
+ * cache without changing config (e.g. for live tests).
+ *
+ * Cache failures never fail a call — they are logged and the call goes to the
+ * wrapped client.
+ */
+
+import { promises as fs } from 'node:fs'
+import path from 'node:path'
+import crypto from 'node:crypto'
+import { atomicWrite, isEnoent } from '../utils/fs.js'
+import { emitMetric } from '../metrics/index.js'
+import type { LlmClient, LlmGenerateParams, LlmResponse } from './client.js'
+
+/** Environment variable that bypasses every response cache when set to `off`, `0` or `false`. */
+export const LLM_CACHE_BYPASS_ENV = 'OMG_LLM_CACHE'
+
+/** Cache directory name under the OMG root. */
+export const LLM_CACHE_DIR = '.llm-cache'
+
+const CACHE_ENTRY_VERSION = 1
+
+/**
+ * Stores between prunes. Pruning lists and stats the whole directory, so it
+ * runs on the first store of a wrapper and then once per this many stores
+ * rather than on every miss.
+ */
+export const PRUNE_EVERY_WRITES = 50
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ResponseCacheOptions {
+  /** Directory holding the cache entries, normally `{omgRoot}/.llm-cache`. */
+  readonly cacheDir: string
+  /** Entries older than this are treated as misses and removed. */
+  readonly ttlMs: number
+  /** Total size cap for the cache directory in bytes. */
+  readonly maxBytes: number
+  /** When true, every call goes straight to the wrapped client. */
+  readonly bypass?: boolean
+}
+
+interface CacheEntry {
+  readonly version: number
+  readonly createdAt: string
+  readonly model: string
+  readonly response: LlmResponse
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** True when {@link LLM_CACHE_BYPASS_ENV} disables caching for this process. */
+export function isResponseCacheBypassed(): boolean {
+  const value = process.env[LLM_CACHE_BYPASS_ENV]?.trim().toLowerCase()
+  return value === 'off' || value === '0' || value === 'false'
+}
+
+/** Cache key for one call: a sha256 over the model and every response-shaping param. */
+export function computeCacheKey(model: string, params: LlmGenerateParams): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      model,
+      params.system,
+      params.user,
+      params.maxTokens,
+      params.responseSchema ?? null,
+    ]))
+    .digest('hex')
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  if (typeof value !== 'object' || value === null) return false
+  const entry = value as Record<string, unknown>
+  const response = entry['response'] as Record<string, unknown> | undefined
+  return (
+    entry['version'] === CACHE_ENTRY_VERSION &&
+    typeof entry['createdAt'] === 'string' &&
+    typeof response?.['content'] === 'string'
+  )
+}
+
+/** Reads a live entry, or null when it is missing, unreadable or expired. */
+async function readEntry(filePath: string, ttlMs: number): Promise<CacheEntry | null> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, 'utf-8')
+  } catch (err) {
+    if (!isEnoent(err)) console.error(`[omg] llm-cache: failed to read ${filePath}:`, err)
+    return null
+  }
+
+  let entry: unknown
+  try {
+    entry = JSON.parse(raw)
+  } catch {
+    entry = null
+  }
+  const expired = isCacheEntry(entry) && Date.now() - Date.parse(entry.createdAt) > ttlMs
+  if (!isCacheEntry(entry) || expired) {
+    await fs.unlink(filePath).catch(() => {})
+    return null
+  }
+  return entry
+}
+
+/**
+ * Removes expired entries, then the oldest entries until the directory fits
+ * in `maxBytes`. Never throws.
+ */
+export async function pruneResponseCache(cacheDir: string, ttlMs: number, maxBytes: number): Promise<void> {
+  let names: string[]
+  try {
+    names = (await fs.readdir(cacheDir)).filter((n) => n.endsWith('.json'))
+  } catch (err) {
+    if (!isEnoent(err)) console.error(`[omg] llm-cache: failed to list ${cacheDir}:`, err)
+    return
+  }
+
+  const files: { filePath: string; size: number; mtimeMs: number }[] = []
+  for (const name of names) {
+    const filePath = path.join(cacheDir, name)
+    const stat = await fs.stat(filePath).catch(() => null)
+    if (stat !== null) files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs })
+  }
+
+  const cutoff = Date.now() - ttlMs
+  files.sort((a, b) => a.mtimeMs - b.mtimeMs)
+  let total = files.reduce((sum, f) => sum + f.size, 0)
+  for (const file of files) {
+    if (file.mtimeMs >= cutoff && total <= maxBytes) break
+    await fs.unlink(file.filePath).catch(() => {})
+    total -= file.size
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Wrapper
+// ---------------------------------------------------------------------------
+
+/**
+ * Wraps `client` with the on-disk response cache.
+ *
+ * A hit returns the stored content with zero usage — no tokens were spent —
+ * and emits an `llm-cache` metric with the tokens it saved. Errors from the
+ * wrapped client are never cached.
+ */
+export function createCachedLlmClient(client: LlmClient, options: ResponseCacheOptions): LlmClient {
+  const { cacheDir, ttlMs, maxBytes } = options
+  const model = client.model ?? 'unknown'
+  let hits = 0
+  let writesUntilPrune = 0
+
+  return {
+    model,
+    async generate(params: LlmGenerateParams): Promise<LlmResponse> {
+      if (options.bypass === true || isResponseCacheBypassed()) {
+        return client.generate(params)
+      }
+
+      const key = computeCacheKey(model, params)
+      const filePath = path.join(cacheDir, `${key}.json`)
+
+      const entry = await readEntry(filePath, ttlMs)
+      if (entry !== null) {
+        hits++
+        emitMetric({
+          stage: 'llm-cache',
+          timestamp: new Date().toISOString(),
+          data: {
+            stage: 'llm-cache',
+            model,
+            hits,
+            savedInputTokens: entry.response.usage.inputTokens,
+            savedOutputTokens: entry.response.usage.outputTokens,
+          },
+        })
+        return { content: entry.response.content, usage: { inputTokens: 0, outputTokens: 0 } }
+      }
+
+      const response = await client.generate(params)
+
+      const newEntry: CacheEntry = {
+        version: CACHE_ENTRY_VERSION,
+        createdAt: new Date().toISOString(),
+        model,
+        response: { content: response.content, usage: response.usage },
+      }
+      try {
+        await fs.mkdir(cacheDir, { recursive: true })
+        await atomicWrite(filePath, JSON.stringify(newEntry))
+        if (writesUntilPrune-- <= 0) {
+          writesUntilPrune = PRUNE_EVERY_WRITES - 1
+          await pruneResponseCache(cacheDir, ttlMs, maxBytes)
+        }
+      } catch (err) {
+        console.error('[omg] llm-cache: failed to store response:', err instanceof Error ? err.message : String(err))
+      }
+      return response
+    },
+  }
+}
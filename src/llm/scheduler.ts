@@ -0,0 +1,262 @@
+/**
+ * Process-wide scheduler for LLM work.
+ *
+ * `agent_end` observations, `before_compaction` forced observations, bootstrap
+ * ticks and maintenance crons all call the gateway. Routing every call through
+ * one scheduler gives them:
+ *
+ *   - bounded concurrency (`llm.scheduler.maxConcurrency` calls in flight);
+ *   - priority classes — queued calls start in the order
+ *     interactive > compaction > maintenance > bootstrap, FIFO within a class;
+ *   - a shared rate-limit circuit — a `RateLimitError` from any caller pauses
+ *     all dispatch through the bootstrap {@link RateLimitBreaker} (15s → 300s)
+ *     until a call succeeds again;
+ *   - user-activity backoff — background classes (maintenance, bootstrap) wait
+ *     until no prompt has been built for `llm.scheduler.backgroundIdleMs`;
+ *   - aging — a call queued for `llm.scheduler.maxWaitMs` starts next whatever
+ *     its class, so neither a busy user nor a stream of higher-priority work
+ *     starves background work.
+ *
+ * Each dispatch emits an `llm-scheduler` metric with the wait time and queue
+ * depths. Pure factory — no global singletons. The plugin owns one instance.
+ */
+
+import { RateLimitError } from './errors.js'
+import { RateLimitBreaker } from '../bootstrap/rate-limit-breaker.js'
+import { emitMetric } from '../metrics/index.js'
+import type { LlmClient } from './client.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Priority classes, highest first. */
+export const LLM_PRIORITIES = ['interactive', 'compaction', 'maintenance', 'bootstrap'] as const
+
+export type LlmPriority = typeof LLM_PRIORITIES[number]
+
+/** Classes that yield to an active user. */
+const BACKGROUND_PRIORITIES: ReadonlySet<LlmPriority> = new Set(['maintenance', 'bootstrap'])
+
+export interface LlmSchedulerOptions {
+  /** Maximum calls in flight across all callers. */
+  readonly maxConcurrency: number
+  /** Background classes wait until this long after the last user activity. */
+  readonly backgroundIdleMs: number
+  /** A call queued this long starts next regardless of class and user activity. 0 disables aging. */
+  readonly maxWaitMs: number
+}
+
+/** Point-in-time view of the scheduler, for status output and tests. */
+export interface LlmSchedulerStats {
+  readonly active: number
+  readonly queued: Readonly<Record<LlmPriority, number>>
+  /** True while the rate-limit circuit holds all dispatch. */
+  readonly paused: boolean
+}
+
+export interface LlmScheduler {
+  /** Runs `task` once a slot is free and its class is next in line. */
+  run<T>(priority: LlmPriority, task: () => Promise<T>): Promise<T>
+  /** Records that a user is chatting; background classes back off. */
+  noteUserActivity(): void
+  /**
+   * Resolves once no user activity has been noted for `backgroundIdleMs`, or
+   * after `maxWaitMs` at the latest. Lets callers defer background work before
+   * taking locks rather than holding them in the queue.
+   */
+  whenIdle(): Promise<void>
+  stats(): LlmSchedulerStats
+}
+
+interface QueuedTask {
+  readonly priority: LlmPriority
+  readonly enqueuedAt: number
+  readonly start: () => void
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/** Creates an {@link LlmScheduler}. */
+export function createLlmScheduler(options: LlmSchedulerOptions): LlmScheduler {
+  const queues: Record<LlmPriority, QueuedTask[]> = {
+    interactive: [],
+    compaction: [],
+    maintenance: [],
+    bootstrap: [],
+  }
+  let active = 0
+  // Never aborts: the circuit only paces dispatch, callers decide when to give up
+  const circuit = new RateLimitBreaker({ label: 'llm-scheduler', maxConsecutive: Number.POSITIVE_INFINITY })
+  let awaitingCircuit = false
+  let lastActivityAt = Number.NEGATIVE_INFINITY
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null
+  let wakeAt = 0
+
+  const queueDepths = (): Record<LlmPriority, number> => ({
+    interactive: queues.interactive.length,
+    compaction: queues.compaction.length,
+    maintenance: queues.maintenance.length,
+    bootstrap: queues.bootstrap.length,
+  })
+
+  /** Re-runs {@link pump} at `at` (epoch ms), keeping only the earliest wake-up. */
+  const scheduleWake = (at: number): void => {
+    if (wakeTimer !== null && wakeAt <= at) return
+    if (wakeTimer !== null) clearTimeout(wakeTimer)
+    wakeAt = at
+    wakeTimer = setTimeout(() => {
+      wakeTimer = null
+      pump()
+    }, Math.max(0, at - Date.now()))
+    wakeTimer.unref?.()
+  }
+
+  /** The queue whose head has waited longest, if that wait has reached `maxWaitMs`. */
+  const overdueQueue = (now: number): QueuedTask[] | null => {
+    if (options.maxWaitMs <= 0) return null
+    let overdue: QueuedTask[] | null = null
+    for (const priority of LLM_PRIORITIES) {
+      const head = queues[priority][0]
+      if (head === undefined || now - head.enqueuedAt < options.maxWaitMs) continue
+      if (overdue === null || head.enqueuedAt < overdue[0]!.enqueuedAt) overdue = queues[priority]
+    }
+    return overdue
+  }
+
+  const nextTask = (now: number): QueuedTask | null => {
+    const overdue = overdueQueue(now)
+    if (overdue !== null) return overdue.shift() ?? null
+
+    for (const priority of LLM_PRIORITIES) {
+      const queue = queues[priority]
+      if (queue.length === 0) continue
+      if (BACKGROUND_PRIORITIES.has(priority) && now - lastActivityAt < options.backgroundIdleMs) {
+        // Every lower class is background too — nothing else can start until
+        // the user goes idle or the oldest background call comes due.
+        let wakeAt = lastActivityAt + options.backgroundIdleMs
+        if (options.maxWaitMs > 0) {
+          for (const background of BACKGROUND_PRIORITIES) {
+            const head = queues[background][0]
+            if (head !== undefined) wakeAt = Math.min(wakeAt, head.enqueuedAt + options.maxWaitMs)
+          }
+        }
+        scheduleWake(wakeAt)
+        return null
+      }
+      return queue.shift() ?? null
+    }
+    return null
+  }
+
+  const pump = (): void => {
+    while (active < options.maxConcurrency) {
+      if (circuit.backingOff) {
+        if (!awaitingCircuit) {
+          awaitingCircuit = true
+          void circuit.awaitGate().then(() => {
+            awaitingCircuit = false
+            pump()
+          })
+        }
+        return
+      }
+      const now = Date.now()
+      const task = nextTask(now)
+      if (task === null) return
+
+      active++
+      emitMetric({
+        stage: 'llm-scheduler',
+        timestamp: new Date(now).toISOString(),
+        data: {
+          stage: 'llm-scheduler',
+          priority: task.priority,
+          waitMs: now - task.enqueuedAt,
+          active,
+          queued: queueDepths(),
+        },
+      })
+      task.start()
+    }
+  }
+
+  const onSettled = (ok: boolean, err?: unknown): void => {
+    active--
+    if (ok) {
+      circuit.onSuccess()
+    } else if (err instanceof RateLimitError) {
+      circuit.startBackoff()
+    }
+    pump()
+  }
+
+  return {
+    run<T>(priority: LlmPriority, task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queues[priority].push({
+          priority,
+          enqueuedAt: Date.now(),
+          start: () => {
+            let settled: Promise<T>
+            try {
+              settled = task()
+            } catch (err) {
+              settled = Promise.reject(err)
+            }
+            settled.then(
+              (value) => {
+                onSettled(true)
+                resolve(value)
+              },
+              (err: unknown) => {
+                onSettled(false, err)
+                reject(err)
+              },
+            )
+          },
+        })
+        pump()
+      })
+    },
+
+    noteUserActivity(): void {
+      lastActivityAt = Date.now()
+    },
+
+    whenIdle(): Promise<void> {
+      const deadline = options.maxWaitMs > 0 ? Date.now() + options.maxWaitMs : Number.POSITIVE_INFINITY
+      return new Promise<void>((resolve) => {
+        const check = (): void => {
+          const until = Math.min(lastActivityAt + options.backgroundIdleMs, deadline)
+          if (Date.now() >= until) {
+            resolve()
+            return
+          }
+          setTimeout(check, until - Date.now()).unref?.()
+        }
+        check()
+      })
+    },
+
+    stats(): LlmSchedulerStats {
+      return {
+        active,
+        queued: queueDepths(),
+        paused: circuit.backingOff,
+      }
+    },
+  }
+}
+
+/**
+ * Wraps `client` so every call goes through `scheduler` at `priority`.
+ */
+export function withScheduler(client: LlmClient, scheduler: LlmScheduler, priority: LlmPriority): LlmClient {
+  return {
+    ...(client.model !== undefined ? { model: client.model } : {}),
+    generate: (params) => scheduler.run(priority, () => client.generate(params)),
+  }
+}
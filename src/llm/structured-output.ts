@@ -0,0 +1,148 @@
+/**
+ * Structured-output (JSON schema) support for LLM calls.
+ *
+ * When `llm.structuredOutput` is on, extract, merge and reflection calls send
+ * a JSON schema alongside the usual XML prompt. Endpoints that honour
+ * `response_format` reply with JSON matching it; everything else ignores the
+ * schema and replies in XML. The parsers accept either shape, so the XML
+ * recovery path stays the fallback.
+ *
+ * Schemas are written in zod and converted with {@link zodToJsonSchema}, which
+ * covers the subset those schemas use and emits strict-mode compatible output
+ * (every property required, no additional properties).
+ */
+
+import { z } from 'zod'
+import type { LlmGenerateParams, LlmResponseSchema } from './client.js'
+
+/**
+ * Appended to a system prompt when a response schema is sent. The schema's
+ * field names mirror the XML elements in camelCase.
+ */
+export const STRUCTURED_OUTPUT_INSTRUCTION = `## Structured Output
+
+If this request enforces a JSON response schema, return the same content as one JSON object matching that schema instead of XML. Field names mirror the XML element and attribute names in camelCase. Lists are JSON arrays, not comma-separated strings. Use null for optional values you would omit in XML.`
+
+// ---------------------------------------------------------------------------
+// zod → JSON schema
+// ---------------------------------------------------------------------------
+
+type JsonSchema = Record<string, unknown>
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description !== undefined ? { ...json, description: schema.description } : json
+}
+
+/**
+ * Converts a zod schema into a JSON schema object.
+ *
+ * Supports objects, strings, numbers, booleans, enums, literals, arrays,
+ * nullables and unions. Optional and defaulted object properties are emitted
+ * as required — structured-output endpoints expect every property present,
+ * so schemas meant for them should use `.nullable()` instead.
+ *
+ * @throws If the schema uses an unsupported zod type.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return withDescription(schema, zodToJsonSchema(schema._def.innerType as z.ZodTypeAny))
+  }
+  if (schema instanceof z.ZodEffects) {
+    return withDescription(schema, zodToJsonSchema(schema.innerType()))
+  }
+  if (schema instanceof z.ZodNullable) {
+    return withDescription(schema, { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] })
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+    const properties: Record<string, JsonSchema> = {}
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value)
+    }
+    return withDescription(schema, {
+      type: 'object',
+      properties,
+      required: Object.keys(shape),
+      additionalProperties: false,
+    })
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription(schema, { type: 'array', items: zodToJsonSchema(schema.element as z.ZodTypeAny) })
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription(schema, { type: 'string' })
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription(schema, { type: schema.isInt ? 'integer' : 'number' })
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription(schema, { type: 'boolean' })
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription(schema, { type: 'string', enum: [...(schema.options as readonly string[])] })
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return withDescription(schema, { const: schema.value as unknown })
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = schema.options as readonly z.ZodTypeAny[]
+    return withDescription(schema, { anyOf: options.map((o) => zodToJsonSchema(o)) })
+  }
+  throw new Error(`zodToJsonSchema: unsupported zod type ${schema.constructor.name}`)
+}
+
+/** Builds the {@link LlmResponseSchema} sent with a structured-output call. */
+export function toResponseSchema(name: string, schema: z.ZodTypeAny): LlmResponseSchema {
+  return { name, schema: zodToJsonSchema(schema) }
+}
+
+/**
+ * Adds `schema` and the structured-output instruction to a call's params when
+ * `enabled` (from `config.llm.structuredOutput`). Returns `params` unchanged
+ * otherwise.
+ */
+export function withStructuredOutput(
+  params: LlmGenerateParams,
+  schema: LlmResponseSchema,
+  enabled: boolean
+): LlmGenerateParams {
+  if (!enabled) return params
+  return {
+    ...params,
+    system: `${params.system.trimEnd()}\n\n${STRUCTURED_OUTPUT_INSTRUCTION}\n`,
+    responseSchema: schema,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the parsed object when `raw` is a JSON object response (optionally
+ * inside a markdown fence), or `null` when it is not — callers then fall back
+ * to their XML parser. Never throws.
+ */
+export function parseJsonResponse(raw: string): Record<string, unknown> | null {
+  if (typeof raw !== 'string') return null
+  let text = raw.trim()
+  const fence = text.match(/^```(?:json)?\s*\n([\s\S]*?)\n\s*```$/)
+  if (fence) text = fence[1]!.trim()
+  if (!text.startsWith('{')) return null
+
+  try {
+    const parsed: unknown = JSON.parse(text)
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+/** Formats the first zod issue as `path: message` for rejection logs. */
+export function describeZodError(error: z.ZodError): string {
+  const issue = error.issues[0]
+  if (issue === undefined) return 'invalid value'
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+}
@@ -0,0 +1,333 @@
+/**
+ * Append-only JSONL token usage ledger: {omgRoot}/.usage-ledger.jsonl
+ *
+ * Every successful LLM call made for a workspace is recorded by the
+ * `onUsage` listener passed to `createLlmClient`, tagged with the pipeline
+ * (extract, merge, reflect, dedup, bootstrap) and session that made it.
+ * Cache hits never reach `createLlmClient`, so they cost nothing here.
+ *
+ * The ledger backs `omg usage --since 7d` and the optional
+ * `llm.dailyTokenBudget`, which background jobs check before spending.
+ *
+ * Follows the same pattern as `bootstrap/failure-log.ts` — one JSON object per
+ * line, with schema validation on read and graceful skipping of malformed entries.
+ */
+import { join } from 'node:path'
+import { appendFile, open, stat } from 'node:fs/promises'
+import type { Stats } from 'node:fs'
+import { z } from 'zod'
+import { isEnoent, readFileOrNull } from '../utils/fs.js'
+import { LLM_PIPELINES, type LlmPipeline, type LlmUsageEvent } from './client.js'
+import type { OmgConfig } from '../config.js'
+
+// ---------------------------------------------------------------------------
+// Schema
+// ---------------------------------------------------------------------------
+
+const usageLedgerEntrySchema = z.object({
+  timestamp: z.string(),
+  pipeline: z.enum(LLM_PIPELINES),
+  model: z.string(),
+  sessionKey: z.string().optional(),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+})
+
+export type UsageLedgerEntry = z.infer<typeof usageLedgerEntrySchema>
+
+// ---------------------------------------------------------------------------
+// Paths
+// ---------------------------------------------------------------------------
+
+const USAGE_LEDGER_FILENAME = '.usage-ledger.jsonl'
+
+function ledgerPath(omgRoot: string): string {
+  return join(omgRoot, USAGE_LEDGER_FILENAME)
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends a single usage entry as a JSON line.
+ */
+export async function appendUsageEntry(omgRoot: string, entry: UsageLedgerEntry): Promise<void> {
+  await appendFile(ledgerPath(omgRoot), JSON.stringify(entry) + '\n', 'utf-8')
+}
+
+/**
+ * Returns an `onUsage` listener that records each call in the workspace
+ * ledger. Writes are fire-and-forget — a failed append is logged and never
+ * fails the call.
+ */
+export function createUsageRecorder(omgRoot: string): (event: LlmUsageEvent) => void {
+  return (event) => {
+    const entry: UsageLedgerEntry = {
+      timestamp: new Date().toISOString(),
+      pipeline: event.tag?.pipeline ?? 'other',
+      model: event.model,
+      ...(event.tag?.sessionKey !== undefined ? { sessionKey: event.tag.sessionKey } : {}),
+      inputTokens: event.usage.inputTokens,
+      outputTokens: event.usage.outputTokens,
+    }
+    appendUsageEntry(omgRoot, entry).catch((err) =>
+      console.error('[omg] usage: failed to append ledger entry:', err instanceof Error ? err.message : String(err))
+    )
+  }
+}
+
+/**
+ * Reads and parses the ledger, skipping malformed lines. When `sinceMs` is
+ * given, only entries at or after that epoch-ms instant are returned.
+ * Returns an empty array if the file does not exist.
+ */
+export async function readUsageLedger(omgRoot: string, sinceMs?: number): Promise<UsageLedgerEntry[]> {
+  const raw = await readFileOrNull(ledgerPath(omgRoot))
+  if (raw === null || raw.trim() === '') return []
+  return parseLedgerLines(raw, sinceMs)
+}
+
+/** Parses ledger JSONL, skipping malformed lines and entries before `sinceMs`. */
+function parseLedgerLines(raw: string, sinceMs?: number): UsageLedgerEntry[] {
+  const entries: UsageLedgerEntry[] = []
+  const lines = raw.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = (lines[i] ?? '').trim()
+    if (trimmed === '') continue
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      console.warn(`[omg] usage: ledger line ${i + 1} is malformed JSON — skipping`)
+      continue
+    }
+
+    const result = usageLedgerEntrySchema.safeParse(parsed)
+    if (!result.success) {
+      console.warn(`[omg] usage: ledger line ${i + 1} failed schema validation — skipping`)
+      continue
+    }
+    if (sinceMs !== undefined && Date.parse(result.data.timestamp) < sinceMs) continue
+
+    entries.push(result.data)
+  }
+  return entries
+}
+
+// ---------------------------------------------------------------------------
+// Daily budget
+// ---------------------------------------------------------------------------
+
+/** Outcome of {@link checkDailyTokenBudget}. */
+export interface DailyBudgetStatus {
+  /** Tokens (input + output) spent since UTC midnight. */
+  readonly used: number
+  readonly limit: number
+  readonly exhausted: boolean
+}
+
+/** Running total of one day's spend, and how far into the ledger it has read. */
+interface DailyTally {
+  readonly midnight: number
+  /** Inode of the ledger file read, so a replaced ledger is re-read. */
+  readonly ino: number
+  readonly used: number
+  /** Byte offset just past the last complete line counted. */
+  readonly offset: number
+}
+
+/** Per-omgRoot daily tallies, so budget checks only read entries appended since the last check. */
+const dailyTallies = new Map<string, DailyTally>()
+
+/** Drops the cached daily tallies (for tests). */
+export function clearDailyTokenTallies(): void {
+  dailyTallies.clear()
+}
+
+/**
+ * Tokens spent since `midnight`. Reads only the ledger bytes appended since
+ * the previous call; the whole ledger is re-read once per UTC day, or when
+ * it was replaced or truncated.
+ */
+async function tokensSince(omgRoot: string, midnight: number): Promise<number> {
+  const filePath = ledgerPath(omgRoot)
+  let info: Stats
+  try {
+    info = await stat(filePath)
+  } catch (err) {
+    if (!isEnoent(err)) throw err
+    dailyTallies.delete(omgRoot)
+    return 0
+  }
+  const { size, ino } = info
+
+  const cached = dailyTallies.get(omgRoot)
+  let tally = cached !== undefined && cached.midnight === midnight && cached.ino === ino && cached.offset <= size
+    ? cached
+    : { midnight, ino, used: 0, offset: 0 }
+  if (size > tally.offset) {
+    const handle = await open(filePath, 'r')
+    try {
+      const buffer = Buffer.alloc(size - tally.offset)
+      await handle.read(buffer, 0, buffer.length, tally.offset)
+      // A trailing line without its newline may still be being appended
+      const complete = buffer.subarray(0, buffer.lastIndexOf(0x0a) + 1)
+      const used = parseLedgerLines(complete.toString('utf-8'), midnight)
+        .reduce((sum, e) => sum + e.inputTokens + e.outputTokens, 0)
+      tally = { midnight, ino, used: tally.used + used, offset: tally.offset + complete.length }
+    } finally {
+      await handle.close()
+    }
+  }
+  dailyTallies.set(omgRoot, tally)
+  return tally.used
+}
+
+/**
+ * Compares today's (UTC) spend against `config.llm.dailyTokenBudget`.
+ * Returns null when no budget is configured.
+ */
+export async function checkDailyTokenBudget(
+  omgRoot: string,
+  config: OmgConfig,
+  now: Date = new Date()
+): Promise<DailyBudgetStatus | null> {
+  const limit = config.llm.dailyTokenBudget
+  if (limit === undefined) return null
+
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const used = await tokensSince(omgRoot, midnight)
+  return { used, limit, exhausted: used >= limit }
+}
+
+// ---------------------------------------------------------------------------
+// Reporting
+// ---------------------------------------------------------------------------
+
+const DURATION_UNITS_MS: Readonly<Record<string, number>> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parses a relative duration such as `30m`, `24h`, `7d` or `2w` into
+ * milliseconds.
+ *
+ * @throws If `raw` is not a positive integer followed by m, h, d or w.
+ */
+export function parseSinceDuration(raw: string): number {
+  const match = raw.trim().match(/^(\d+)([mhdw])$/)
+  const amount = match ? Number(match[1]) : 0
+  if (!match || amount <= 0) {
+    throw new Error(`Invalid duration "${raw}" — expected e.g. 30m, 24h, 7d or 2w`)
+  }
+  return amount * DURATION_UNITS_MS[match[2]!]!
+}
+
+/** Token totals for one group of ledger entries. */
+export interface UsageTotals {
+  readonly calls: number
+  readonly inputTokens: number
+  readonly outputTokens: number
+  /** USD cost from `config.pricing`, or null when a model in the group has no price. */
+  readonly costUsd: number | null
+}
+
+/** Ledger totals reported by `omg usage`. */
+export interface UsageSummary {
+  readonly total: UsageTotals
+  /** Keyed by UTC date (`YYYY-MM-DD`), oldest first. */
+  readonly byDay: readonly (readonly [string, UsageTotals])[]
+  readonly byPipeline: readonly (readonly [LlmPipeline, UsageTotals])[]
+  readonly byModel: readonly (readonly [string, UsageTotals])[]
+}
+
+/**
+ * Looks up the price for a ledger model name. Backend clients record
+ * `backend:model`, so the bare model name is tried as well.
+ */
+function priceFor(pricing: OmgConfig['pricing'], model: string): OmgConfig['pricing'][string] | undefined {
+  return pricing[model] ?? pricing[model.slice(model.indexOf(':') + 1)]
+}
+
+function totalsOf(entries: readonly UsageLedgerEntry[], pricing: OmgConfig['pricing']): UsageTotals {
+  let inputTokens = 0
+  let outputTokens = 0
+  let costUsd: number | null = 0
+  for (const e of entries) {
+    inputTokens += e.inputTokens
+    outputTokens += e.outputTokens
+    const price = priceFor(pricing, e.model)
+    costUsd = price === undefined || costUsd === null
+      ? null
+      : costUsd + (e.inputTokens / 1_000_000) * price.inputPerMTok + (e.outputTokens / 1_000_000) * price.outputPerMTok
+  }
+  return { calls: entries.length, inputTokens, outputTokens, costUsd }
+}
+
+function groupTotals<K extends string>(
+  entries: readonly UsageLedgerEntry[],
+  keyOf: (e: UsageLedgerEntry) => K,
+  pricing: OmgConfig['pricing']
+): (readonly [K, UsageTotals])[] {
+  const groups = new Map<K, UsageLedgerEntry[]>()
+  for (const e of entries) {
+    const key = keyOf(e)
+    const group = groups.get(key)
+    if (group) group.push(e)
+    else groups.set(key, [e])
+  }
+  return [...groups].map(([key, group]) => [key, totalsOf(group, pricing)] as const)
+}
+
+/** Totals `entries` overall and per UTC day, pipeline and model. */
+export function summarizeUsage(entries: readonly UsageLedgerEntry[], pricing: OmgConfig['pricing']): UsageSummary {
+  const byTokens = (a: readonly [string, UsageTotals], b: readonly [string, UsageTotals]): number =>
+    b[1].inputTokens + b[1].outputTokens - (a[1].inputTokens + a[1].outputTokens)
+  return {
+    total: totalsOf(entries, pricing),
+    byDay: groupTotals(entries, (e) => e.timestamp.slice(0, 10), pricing).sort(([a], [b]) => a.localeCompare(b)),
+    byPipeline: groupTotals(entries, (e) => e.pipeline, pricing).sort(byTokens),
+    byModel: groupTotals(entries, (e) => e.model, pricing).sort(byTokens),
+  }
+}
+
+function formatTotals(t: UsageTotals): string {
+  const cost = t.costUsd === null ? '' : `, $${t.costUsd.toFixed(2)}`
+  return (
+    `${t.calls} call(s), ${t.inputTokens.toLocaleString('en-US')} input / ` +
+    `${t.outputTokens.toLocaleString('en-US')} output tokens${cost}`
+  )
+}
+
+/**
+ * Renders a {@link UsageSummary} as human-readable CLI output.
+ * `sinceLabel` is the duration the user asked for, e.g. `7d`.
+ */
+export function formatUsageSummary(summary: UsageSummary, sinceLabel: string, budget: DailyBudgetStatus | null): string {
+  const lines = [`LLM usage — last ${sinceLabel}`]
+  if (summary.total.calls === 0) {
+    lines.push('No LLM calls recorded.')
+  } else {
+    lines.push(`Total: ${formatTotals(summary.total)}`)
+    for (const [title, rows] of [
+      ['By day (UTC):', summary.byDay],
+      ['By pipeline:', summary.byPipeline],
+      ['By model:', summary.byModel],
+    ] as const) {
+      lines.push(title)
+      for (const [key, totals] of rows) lines.push(`  ${key}: ${formatTotals(totals)}`)
+    }
+  }
+  if (budget !== null) {
+    lines.push(
+      `Daily budget: ${budget.used.toLocaleString('en-US')} / ${budget.limit.toLocaleString('en-US')} tokens today` +
+        (budget.exhausted ? ' — exhausted, background jobs deferred' : '')
+    )
+  }
+  return lines.join('\n')
+}
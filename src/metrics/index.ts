@@ -5,6 +5,8 @@ export type {
   ErrorMetrics,
   SemanticDedupMetrics,
   GuardrailMetrics,
+  LlmCacheMetrics,
+  LlmSchedulerMetrics,
   MetricData,
   MetricEvent,
 } from './types.js'
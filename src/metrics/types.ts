@@ -48,6 +48,8 @@ export interface SemanticDedupMetrics {
   readonly stage: 'semantic-dedup'
   readonly blocksProcessed: number
   readonly mergesExecuted: number
+  /** Suggestions queued for operator review (`semanticDedup.mode: "review"`). */
+  readonly mergesQueued: number
   readonly nodesArchived: number
   readonly tokensUsed: number
 }
@@ -61,8 +63,38 @@ export interface GuardrailMetrics {
   readonly candidatesSurvived: number
 }
 
+/** Metrics emitted on each LLM response cache hit. */
+export interface LlmCacheMetrics {
+  readonly stage: 'llm-cache'
+  readonly model: string
+  /** Hits served by this cached client since it was created. */
+  readonly hits: number
+  readonly savedInputTokens: number
+  readonly savedOutputTokens: number
+}
+
+/** Metrics emitted each time the LLM scheduler starts a queued call. */
+export interface LlmSchedulerMetrics {
+  readonly stage: 'llm-scheduler'
+  readonly priority: 'interactive' | 'compaction' | 'maintenance' | 'bootstrap'
+  /** Time the call spent queued. */
+  readonly waitMs: number
+  /** Calls in flight, including this one. */
+  readonly active: number
+  /** Calls still queued per priority class. */
+  readonly queued: Readonly<Record<'interactive' | 'compaction' | 'maintenance' | 'bootstrap', number>>
+}
+
 /** Union of all metric payload types. */
-export type MetricData = ExtractMetrics | ReflectionMetrics | SelectorMetrics | ErrorMetrics | SemanticDedupMetrics | GuardrailMetrics
+export type MetricData =
+  | ExtractMetrics
+  | ReflectionMetrics
+  | SelectorMetrics
+  | ErrorMetrics
+  | SemanticDedupMetrics
+  | GuardrailMetrics
+  | LlmCacheMetrics
+  | LlmSchedulerMetrics
 
 /** A timestamped metric event carrying one of the metric payloads. */
 export interface MetricEvent {
@@ -0,0 +1,74 @@
+/**
+ * Append-only JSONL log of contradictions found by the observer: {omgRoot}/.conflicts.jsonl
+ *
+ * Records with `resolution: "unresolved"` form the review queue; superseded
+ * records document automatic resolutions.
+ */
+import { join } from 'node:path'
+import { appendFile } from 'node:fs/promises'
+import { z } from 'zod'
+import { readFileOrNull } from '../utils/fs.js'
+
+/** A single contradiction between a new candidate and an existing node. */
+export interface ConflictRecord {
+  readonly timestamp: string
+  readonly resolution: 'superseded' | 'unresolved'
+  /** Node the candidate was written to. */
+  readonly newNodeId: string
+  readonly newCanonicalKey: string
+  /** Existing node the candidate contradicts. */
+  readonly existingNodeId: string
+  readonly reason: string
+}
+
+export const conflictRecordSchema = z.object({
+  timestamp: z.string(),
+  resolution: z.enum(['superseded', 'unresolved']),
+  newNodeId: z.string(),
+  newCanonicalKey: z.string(),
+  existingNodeId: z.string(),
+  reason: z.string(),
+})
+
+function conflictsPath(omgRoot: string): string {
+  return join(omgRoot, '.conflicts.jsonl')
+}
+
+/**
+ * Appends a single conflict record as a JSON line.
+ */
+export async function appendConflict(omgRoot: string, record: ConflictRecord): Promise<void> {
+  await appendFile(conflictsPath(omgRoot), JSON.stringify(record) + '\n', 'utf-8')
+}
+
+/**
+ * Reads and parses the conflict log, skipping malformed lines.
+ * Returns an empty array if the file does not exist.
+ */
+export async function readConflicts(omgRoot: string): Promise<ConflictRecord[]> {
+  const raw = await readFileOrNull(conflictsPath(omgRoot))
+  if (raw === null || raw.trim() === '') return []
+
+  const records: ConflictRecord[] = []
+  const lines = raw.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = (lines[i] ?? '').trim()
+    if (trimmed === '') continue
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(trimmed)
+    } catch {
+      console.warn(`[omg] conflicts: line ${i + 1} is malformed JSON — skipping`)
+      continue
+    }
+
+    const result = conflictRecordSchema.safeParse(parsed)
+    if (!result.success) {
+      console.warn(`[omg] conflicts: line ${i + 1} failed schema validation — skipping:`, result.error.message)
+      continue
+    }
+    records.push(result.data)
+  }
+  return records
+}
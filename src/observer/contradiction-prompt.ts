@@ -0,0 +1,201 @@
+/**
+ * contradiction-prompt.ts — Prompt builder and parser for the Contradiction check.
+ *
+ * The Contradiction check runs alongside the Merge phase for stable node types.
+ * It decides whether a new ExtractCandidate contradicts an existing node stored
+ * under a different canonical key (e.g. "prefers tabs" vs "prefers spaces").
+ */
+
+import { XMLParser } from 'fast-xml-parser'
+import type { ExtractCandidate, ScoredMergeTarget, ContradictionVerdict, NodeType } from '../types.js'
+
+// ---------------------------------------------------------------------------
+// Eligibility
+// ---------------------------------------------------------------------------
+
+/** Node types whose facts are expected to hold until explicitly changed. */
+export const CONTRADICTION_CHECK_TYPES: ReadonlySet<NodeType> = new Set(['identity', 'preference', 'decision'])
+
+/**
+ * Returns the merge targets a candidate could contradict: active nodes of the
+ * same stable type stored under a different canonical key. Returns an empty
+ * array for candidates whose type is not checked.
+ */
+export function selectContradictionTargets(
+  candidate: ExtractCandidate,
+  targets: readonly ScoredMergeTarget[]
+): readonly ScoredMergeTarget[] {
+  if (!CONTRADICTION_CHECK_TYPES.has(candidate.type)) return []
+  return targets.filter((t) =>
+    t.entry.type === candidate.type &&
+    !t.entry.archived &&
+    t.entry.canonicalKey !== candidate.canonicalKey
+  )
+}
+
+// ---------------------------------------------------------------------------
+// XML parser (shared config with main parser)
+// ---------------------------------------------------------------------------
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  trimValues: true,
+})
+
+// ---------------------------------------------------------------------------
+// buildContradictionSystemPrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Returns the system prompt for the Contradiction check LLM call.
+ *
+ * Instructs the LLM to return one of three verdicts:
+ *   - none:       no existing node is contradicted
+ *   - supersedes: the candidate replaces a contradicted node
+ *   - unresolved: a contradiction exists but which side holds is unclear
+ */
+export function buildContradictionSystemPrompt(): string {
+  return `You are the Contradiction Checker for a personal knowledge graph.
+
+Given a newly extracted knowledge candidate and a list of existing nodes of the
+same type, decide whether the candidate contradicts any of them — i.e. both
+cannot be true about the user at the same time.
+
+## Verdicts
+
+- **none**: No existing node is contradicted. Related, complementary, or more
+  specific facts are NOT contradictions ("uses vim" and "uses vim keybindings in VS Code").
+
+- **supersedes**: The candidate contradicts an existing node and clearly reflects
+  a later change of mind or circumstance ("switched from tabs to spaces", "moved to Berlin").
+  The existing node will be archived and replaced by the candidate.
+
+- **unresolved**: The candidate contradicts an existing node, but the conversation
+  does not make clear which one is current. Both nodes are kept and the conflict is
+  queued for human review.
+
+## Output Format
+
+Respond ONLY with valid XML. No text outside the XML.
+
+\`\`\`xml
+<!-- Option 1: no contradiction -->
+<contradiction-decision verdict="none" />
+
+<!-- Option 2: candidate replaces an existing node -->
+<contradiction-decision verdict="supersedes" target-node-id="omg/preference/preferences-indent-tabs">
+  <reason>User said they switched to spaces after joining the new team.</reason>
+</contradiction-decision>
+
+<!-- Option 3: contradiction with no clear winner -->
+<contradiction-decision verdict="unresolved" target-node-id="omg/preference/preferences-indent-tabs">
+  <reason>Candidate says spaces; existing node says tabs; no change was mentioned.</reason>
+</contradiction-decision>
+\`\`\`
+
+## Rules
+
+1. Default to **none** when in doubt.
+2. Use **supersedes** only when the candidate is explicitly newer or states a change.
+3. The target-node-id must be one of the listed existing nodes.
+4. Respond with exactly ONE <contradiction-decision> element.
+`
+}
+
+// ---------------------------------------------------------------------------
+// buildContradictionUserPrompt
+// ---------------------------------------------------------------------------
+
+/**
+ * Builds the user prompt for the Contradiction check LLM call.
+ * Renders the candidate summary and a compact table of same-type nodes.
+ */
+export function buildContradictionUserPrompt(
+  candidate: ExtractCandidate,
+  targets: readonly ScoredMergeTarget[]
+): string {
+  const rows = targets.map((t) => {
+    const updated = t.entry.updated.slice(0, 10)
+    const canonicalKey = t.entry.canonicalKey ?? '—'
+    return `| ${t.nodeId} | ${canonicalKey} | ${t.entry.description.slice(0, 80)} | ${updated} |`
+  })
+
+  return [
+    `## New Candidate
+
+Type: ${candidate.type}
+Canonical Key: ${candidate.canonicalKey}
+Description: ${candidate.description}
+
+Content:
+${candidate.body || '(empty)'}`,
+    `## Existing Nodes
+
+| Node ID | Canonical Key | Description | Updated |
+|---------|---------------|-------------|---------|
+${rows.join('\n')}`,
+    `Decide: does the candidate contradict any of the existing nodes?`,
+  ].join('\n\n')
+}
+
+// ---------------------------------------------------------------------------
+// parseContradictionOutput
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses the raw LLM output from the Contradiction check into a verdict.
+ *
+ * Never throws. Defaults to `none` on any parse failure, and when the target
+ * is not one of `allowedTargetIds`.
+ */
+export function parseContradictionOutput(
+  raw: string,
+  allowedTargetIds: ReadonlySet<string>
+): ContradictionVerdict {
+  const NONE: ContradictionVerdict = { verdict: 'none' }
+
+  if (typeof raw !== 'string' || raw.trim() === '') {
+    return NONE
+  }
+
+  const xmlMatch = raw.match(/<contradiction-decision[\s\S]*?\/>|<contradiction-decision[\s\S]*?<\/contradiction-decision>/)
+  const xmlSource = xmlMatch ? xmlMatch[0] : raw.trim()
+
+  let parsed: Record<string, unknown>
+  try {
+    const result = xmlParser.parse(`<root>${xmlSource}</root>`) as Record<string, unknown>
+    if (typeof result !== 'object' || result === null) return NONE
+    parsed = result
+  } catch (err) {
+    console.error(
+      '[omg] Contradiction parser: XMLParser.parse() threw — defaulting to none.',
+      err instanceof Error ? err.message : String(err)
+    )
+    return NONE
+  }
+
+  const root = parsed['root'] as Record<string, unknown> | undefined
+  const decision = root?.['contradiction-decision'] as Record<string, unknown> | undefined
+  if (!decision || typeof decision !== 'object') return NONE
+
+  const verdict = decision['@_verdict']
+  if (verdict === 'none') return NONE
+  if (verdict !== 'supersedes' && verdict !== 'unresolved') {
+    console.warn(`[omg] Contradiction parser: unknown verdict "${String(verdict)}" — defaulting to none`)
+    return NONE
+  }
+
+  const targetNodeId = typeof decision['@_target-node-id'] === 'string'
+    ? decision['@_target-node-id'].trim()
+    : ''
+  if (!allowedTargetIds.has(targetNodeId)) {
+    console.warn(`[omg] Contradiction parser: target "${targetNodeId}" is not a listed node — defaulting to none`)
+    return NONE
+  }
+
+  const reason = typeof decision['reason'] === 'string' ? decision['reason'].trim() : ''
+  return { verdict, targetNodeId, reason }
+}
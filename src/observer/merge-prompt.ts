@@ -7,6 +7,8 @@
 
 import { XMLParser } from 'fast-xml-parser'
 import type { ExtractCandidate, ScoredMergeTarget, MergeAction } from '../types.js'
+import { parseJsonResponse, describeZodError } from '../llm/structured-output.js'
+import { mergeDecisionJsonSchema } from './output-schemas.js'
 
 // ---------------------------------------------------------------------------
 // XML parser (shared config with main parser)
@@ -131,8 +133,44 @@ ${rows.join('\n')}`)
 // parseMergeOutput
 // ---------------------------------------------------------------------------
 
+/**
+ * Maps a JSON merge decision (structured-output mode) to a MergeAction.
+ * Applies the same required-field rules as the XML path.
+ */
+function parseMergeJson(json: Record<string, unknown>): MergeAction {
+  const KEEP_SEPARATE: MergeAction = { action: 'keep_separate' }
+
+  const result = mergeDecisionJsonSchema.safeParse(json)
+  if (!result.success) {
+    console.warn(`[omg] Merge parser: invalid JSON decision (${describeZodError(result.error)}) — defaulting to keep_separate`)
+    return KEEP_SEPARATE
+  }
+
+  const { action, targetNodeId, aliasKey, bodyAppend } = result.data
+  if (action === 'keep_separate') return KEEP_SEPARATE
+
+  const target = targetNodeId?.trim() ?? ''
+  if (!target) {
+    console.warn('[omg] Merge parser: action requires target-node-id but it is missing — defaulting to keep_separate')
+    return KEEP_SEPARATE
+  }
+
+  if (action === 'merge') {
+    const append = bodyAppend?.trim()
+    return { action: 'merge', targetNodeId: target, ...(append ? { bodyAppend: append } : {}) }
+  }
+
+  const alias = aliasKey?.trim() ?? ''
+  if (!alias) {
+    console.warn('[omg] Merge parser: alias action missing alias-key — defaulting to keep_separate')
+    return KEEP_SEPARATE
+  }
+  return { action: 'alias', targetNodeId: target, aliasKey: alias }
+}
+
 /**
  * Parses the raw LLM output from the Merge phase into a MergeAction.
+ * Accepts a JSON decision (structured-output mode) as well as XML.
  *
  * Never throws. Defaults to `keep_separate` on any parse failure.
  */
@@ -143,6 +181,11 @@ export function parseMergeOutput(raw: string): MergeAction {
     return KEEP_SEPARATE
   }
 
+  const json = parseJsonResponse(raw)
+  if (json !== null) {
+    return parseMergeJson(json)
+  }
+
   // Extract XML block
   const xmlMatch = raw.match(/<merge-decision[\s\S]*?\/>|<merge-decision[\s\S]*?<\/merge-decision>/)
   const xmlSource = xmlMatch ? xmlMatch[0] : raw.trim()
@@ -4,20 +4,30 @@
  * Exports two functions:
  *  - `runExtract`     — the new stateless extract phase (always runs)
  *  - `runMerge`       — the conditional merge decision (only when neighbors found)
+ *  - `runContradictionCheck` — contradiction verdict for stable-type candidates
  *  - `runObservation` — backward-compat wrapper calling runExtract internally
  *
  * LLM errors propagate to the caller; parse errors return an empty output.
  */
 
-import type { ObserverOutput, ObservationParams, ExtractOutput, ExtractParams, MergeAction } from '../types.js'
+import type { ObserverOutput, ObservationParams, ExtractOutput, ExtractParams, MergeAction, ContradictionVerdict } from '../types.js'
 import { emitMetric } from '../metrics/index.js'
 import { isNodeType, candidateToUpsertOperation } from '../types.js'
 import { buildObserverSystemPrompt, buildObserverUserPrompt, buildExtractSystemPrompt, buildExtractUserPrompt } from './prompts.js'
 import { parseObserverOutput, EMPTY_OUTPUT, parseExtractOutput, parseExtractOutputWithDiagnostics } from './parser.js'
 import type { ParserDiagnostics } from './parser.js'
 import { buildMergeSystemPrompt, buildMergeUserPrompt, parseMergeOutput } from './merge-prompt.js'
+import {
+  buildContradictionSystemPrompt,
+  buildContradictionUserPrompt,
+  parseContradictionOutput,
+  selectContradictionTargets,
+} from './contradiction-prompt.js'
 import type { ScoredMergeTarget } from '../types.js'
 import type { ExtractCandidate } from '../types.js'
+import type { LlmGenerateParams } from '../llm/client.js'
+import { withStructuredOutput } from '../llm/structured-output.js'
+import { EXTRACT_RESPONSE_SCHEMA, MERGE_RESPONSE_SCHEMA } from './output-schemas.js'
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -29,6 +39,9 @@ export const EXTRACT_MAX_TOKENS = 4096
 /** Maximum tokens to request from the LLM for the merge decision response. */
 const MERGE_MAX_TOKENS = 1024
 
+/** Maximum tokens to request from the LLM for the contradiction verdict. */
+const CONTRADICTION_MAX_TOKENS = 512
+
 /** @deprecated Kept for backward compat — use EXTRACT_MAX_TOKENS. */
 const OBSERVER_MAX_TOKENS = EXTRACT_MAX_TOKENS
 
@@ -54,7 +67,7 @@ export interface ExtractResultWithDiagnostics {
  * Throws if the LLM call fails.
  */
 export async function runExtractWithDiagnostics(params: ExtractParams): Promise<ExtractResultWithDiagnostics> {
-  const { unobservedMessages, nowNode, llmClient, sessionContext, maxOutputTokens } = params
+  const { unobservedMessages, nowNode, config, llmClient, sessionContext, maxOutputTokens } = params
 
   if (unobservedMessages.length === 0) {
     return {
@@ -75,7 +88,9 @@ export async function runExtractWithDiagnostics(params: ExtractParams): Promise<
 
   let response: Awaited<ReturnType<typeof llmClient.generate>>
   try {
-    response = await llmClient.generate({ system, user, maxTokens: effectiveMaxTokens })
+    response = await llmClient.generate(
+      withStructuredOutput({ system, user, maxTokens: effectiveMaxTokens }, EXTRACT_RESPONSE_SCHEMA, config.llm.structuredOutput),
+    )
   } catch (err) {
     throw new Error(
       `[omg] Extract: LLM call failed (messageCount: ${unobservedMessages.length}): ${err instanceof Error ? err.message : String(err)}`,
@@ -151,7 +166,7 @@ export async function runExtractWithDiagnostics(params: ExtractParams): Promise<
  * Throws if the LLM call fails.
  */
 export async function runExtract(params: ExtractParams): Promise<ExtractOutput> {
-  const { unobservedMessages, nowNode, llmClient, sessionContext, maxOutputTokens } = params
+  const { unobservedMessages, nowNode, config, llmClient, sessionContext, maxOutputTokens } = params
 
   if (unobservedMessages.length === 0) {
     return {
@@ -172,7 +187,9 @@ export async function runExtract(params: ExtractParams): Promise<ExtractOutput>
 
   let response: Awaited<ReturnType<typeof llmClient.generate>>
   try {
-    response = await llmClient.generate({ system, user, maxTokens: effectiveMaxTokens })
+    response = await llmClient.generate(
+      withStructuredOutput({ system, user, maxTokens: effectiveMaxTokens }, EXTRACT_RESPONSE_SCHEMA, config.llm.structuredOutput),
+    )
   } catch (err) {
     throw new Error(
       `[omg] Extract: LLM call failed (messageCount: ${unobservedMessages.length}): ${err instanceof Error ? err.message : String(err)}`,
@@ -224,13 +241,15 @@ export async function runExtract(params: ExtractParams): Promise<ExtractOutput>
  * - If no neighbors → return keep_separate immediately (no LLM call)
  * - Otherwise call the LLM to decide merge/alias/keep_separate
  * - Defaults to keep_separate on any parse failure
+ * - With `structuredOutput`, sends the merge JSON schema (XML replies still parse)
  *
  * Throws if the LLM call fails.
  */
 export async function runMerge(
   candidate: ExtractCandidate,
   neighbors: readonly ScoredMergeTarget[],
-  llmClient: { generate: (p: { system: string; user: string; maxTokens: number }) => Promise<{ content: string; usage: { inputTokens: number; outputTokens: number } }> }
+  llmClient: { generate: (p: LlmGenerateParams) => Promise<{ content: string; usage: { inputTokens: number; outputTokens: number } }> },
+  structuredOutput = false,
 ): Promise<MergeAction> {
   if (neighbors.length === 0) {
     return { action: 'keep_separate' }
@@ -241,7 +260,9 @@ export async function runMerge(
 
   let response: { content: string; usage: { inputTokens: number; outputTokens: number } }
   try {
-    response = await llmClient.generate({ system, user, maxTokens: MERGE_MAX_TOKENS })
+    response = await llmClient.generate(
+      withStructuredOutput({ system, user, maxTokens: MERGE_MAX_TOKENS }, MERGE_RESPONSE_SCHEMA, structuredOutput),
+    )
   } catch (err) {
     throw new Error(
       `[omg] Merge: LLM call failed (candidate: ${candidate.canonicalKey}): ${err instanceof Error ? err.message : String(err)}`,
@@ -256,6 +277,50 @@ export async function runMerge(
   return parseMergeOutput(response.content)
 }
 
+// ---------------------------------------------------------------------------
+// runContradictionCheck
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks whether a stable-type candidate (identity, preference, decision)
+ * contradicts one of its neighbors stored under a different canonical key.
+ *
+ * - If the candidate type is not checked or no neighbor qualifies → `none` (no LLM call)
+ * - Otherwise call the LLM for a none/supersedes/unresolved verdict
+ * - Defaults to `none` on any parse failure
+ *
+ * Throws if the LLM call fails.
+ */
+export async function runContradictionCheck(
+  candidate: ExtractCandidate,
+  neighbors: readonly ScoredMergeTarget[],
+  llmClient: { generate: (p: { system: string; user: string; maxTokens: number }) => Promise<{ content: string; usage: { inputTokens: number; outputTokens: number } }> }
+): Promise<ContradictionVerdict> {
+  const targets = selectContradictionTargets(candidate, neighbors)
+  if (targets.length === 0) {
+    return { verdict: 'none' }
+  }
+
+  const system = buildContradictionSystemPrompt()
+  const user = buildContradictionUserPrompt(candidate, targets)
+
+  let response: { content: string; usage: { inputTokens: number; outputTokens: number } }
+  try {
+    response = await llmClient.generate({ system, user, maxTokens: CONTRADICTION_MAX_TOKENS })
+  } catch (err) {
+    throw new Error(
+      `[omg] Contradiction: LLM call failed (candidate: ${candidate.canonicalKey}): ${err instanceof Error ? err.message : String(err)}`,
+      { cause: err },
+    )
+  }
+
+  console.log(
+    `[omg] Contradiction: tokens used — input: ${response.usage.inputTokens}, output: ${response.usage.outputTokens}`,
+  )
+
+  return parseContradictionOutput(response.content, new Set(targets.map((t) => t.nodeId)))
+}
+
 // ---------------------------------------------------------------------------
 // runObservation (backward compat wrapper)
 // ---------------------------------------------------------------------------
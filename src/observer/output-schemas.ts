@@ -0,0 +1,73 @@
+/**
+ * output-schemas.ts — JSON shapes of the Extract and Merge responses in
+ * structured-output mode.
+ *
+ * Each schema mirrors the XML format in the matching system prompt, with
+ * element names in camelCase and comma-separated lists as arrays. Parsers
+ * validate each candidate separately, so one bad entry does not discard the
+ * whole response.
+ */
+
+import { z } from 'zod'
+import { NODE_TYPES } from '../types.js'
+import { toResponseSchema } from '../llm/structured-output.js'
+
+// ---------------------------------------------------------------------------
+// Extract
+// ---------------------------------------------------------------------------
+
+/** One `<operation>` of the Extract response. */
+export const extractOperationJsonSchema = z.object({
+  type: z.enum(NODE_TYPES),
+  priority: z.enum(['high', 'medium', 'low']),
+  canonicalKey: z.string().min(1).describe('Dotted key, e.g. preferences.editor_theme'),
+  title: z.string(),
+  description: z.string().min(1).describe('Bilingual one-line summary'),
+  content: z.string(),
+  mocHints: z.array(z.string()),
+  tags: z.array(z.string()),
+  links: z.array(z.string()).describe('Canonical keys of related nodes'),
+  validFrom: z.string().nullable().describe('ISO 8601 date or timestamp, or null'),
+  validUntil: z.string().nullable().describe('ISO 8601 date or timestamp, or null'),
+  sourceTool: z.string().nullable().optional().describe('Name of the tool the fact came from, or null'),
+})
+
+/** The `<now-patch>` of the Extract response. */
+export const nowPatchJsonSchema = z.object({
+  focus: z.string(),
+  openLoops: z.array(z.string()),
+  suggestedLinks: z.array(z.string()),
+})
+
+/**
+ * Full Extract response. `operations` is validated loosely here and each
+ * entry is checked against {@link extractOperationJsonSchema} by the parser.
+ */
+export const extractJsonSchema = z.object({
+  operations: z.array(z.unknown()),
+  nowPatch: z.unknown(),
+})
+
+/** Sent with Extract calls in structured-output mode. */
+export const EXTRACT_RESPONSE_SCHEMA = toResponseSchema(
+  'omg_extract',
+  z.object({
+    operations: z.array(extractOperationJsonSchema),
+    nowPatch: nowPatchJsonSchema.nullable(),
+  })
+)
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+/** The `<merge-decision>` of the Merge response. */
+export const mergeDecisionJsonSchema = z.object({
+  action: z.enum(['keep_separate', 'merge', 'alias']),
+  targetNodeId: z.string().nullable().describe('Required for merge and alias'),
+  aliasKey: z.string().nullable().describe('Required for alias: the candidate canonical key'),
+  bodyAppend: z.string().nullable(),
+})
+
+/** Sent with Merge calls in structured-output mode. */
+export const MERGE_RESPONSE_SCHEMA = toResponseSchema('omg_merge_decision', mergeDecisionJsonSchema)
@@ -2,6 +2,8 @@
  * XML parser for the Observer LLM output.
  *
  * Converts raw LLM text (expected to be XML) into an {@link ObserverOutput}.
+ * Extract responses in structured-output mode arrive as JSON instead; those
+ * are validated against `output-schemas.ts` and skip the XML recovery path.
  * `parseObserverOutput` never throws. On any parse failure, logs the problem
  * and returns an empty ObserverOutput — operations that cannot be reliably
  * parsed are dropped rather than fabricated from heuristics.
@@ -25,6 +27,8 @@ import type {
   NowPatch,
 } from '../types.js'
 import { isNodeType, coerceNodeType, inferNodeTypeFromKey } from '../types.js'
+import { parseJsonResponse, describeZodError } from '../llm/structured-output.js'
+import { extractJsonSchema, extractOperationJsonSchema, nowPatchJsonSchema } from './output-schemas.js'
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -125,6 +129,29 @@ function extractCommaSeparated(raw: unknown): readonly string[] {
     .filter((t) => t.length > 0)
 }
 
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Normalizes a `<valid-from>` / `<valid-until>` value to an ISO 8601 timestamp.
+ * Date-only values cover the whole day in the host's local timezone: start of
+ * day for `from`, end of day for `until`.
+ * Returns undefined (with a warning) for missing or unparseable values.
+ */
+function coerceValidityBound(raw: unknown, bound: 'from' | 'until', canonicalKey: string): string | undefined {
+  if (typeof raw !== 'string' || raw.trim() === '') return undefined
+  const value = raw.trim()
+  const iso = DATE_ONLY_RE.test(value)
+    // No offset: Date.parse reads a date-time without one as local time
+    ? `${value}T${bound === 'from' ? '00:00:00' : '23:59:59'}`
+    : value
+  const ms = Date.parse(iso)
+  if (Number.isNaN(ms)) {
+    console.warn(`[omg] Observer parser: ignoring invalid valid-${bound} "${value}" (canonical-key="${canonicalKey}")`)
+    return undefined
+  }
+  return new Date(ms).toISOString()
+}
+
 /**
  * Converts a title string into a slug suitable for canonical keys.
  * E.g. "Editor Theme Preference" → "editor_theme_preference"
@@ -155,6 +182,16 @@ function summarizeRawOp(op: Record<string, unknown>): string {
   return summary.slice(0, 200)
 }
 
+/**
+ * Normalizes a `<source-tool>` value to a bare tool name. Returns undefined
+ * for anything that is not a plausible tool identifier.
+ */
+function coerceSourceTool(raw: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined
+  const name = raw.trim()
+  return /^[\w.:-]{1,100}$/.test(name) ? name : undefined
+}
+
 // ---------------------------------------------------------------------------
 // Shared field coercion (Phase 1)
 // ---------------------------------------------------------------------------
@@ -169,6 +206,9 @@ interface CoercedFields {
   readonly mocHints: readonly string[]
   readonly tags: readonly string[]
   readonly linkKeys: readonly string[]
+  readonly validFrom: string | undefined
+  readonly validUntil: string | undefined
+  readonly sourceTool: string | undefined
 }
 
 /**
@@ -240,6 +280,14 @@ function coerceOperationFields(
     console.warn(`${logPrefix} operation "${resolvedKey}" has ${tags.length} tags (recommended minimum: 8)`)
   }
 
+  const validFrom = coerceValidityBound(op['valid-from'], 'from', resolvedKey)
+  let validUntil = coerceValidityBound(op['valid-until'], 'until', resolvedKey)
+  if (validFrom !== undefined && validUntil !== undefined && validUntil < validFrom) {
+    console.warn(`${logPrefix} ignoring valid-until before valid-from (key="${resolvedKey}")`)
+    validUntil = undefined
+  }
+  const sourceTool = coerceSourceTool(op['source-tool'])
+
   return {
     fields: {
       type: resolvedType,
@@ -251,6 +299,9 @@ function coerceOperationFields(
       mocHints,
       tags,
       linkKeys,
+      validFrom,
+      validUntil,
+      sourceTool,
     },
     rejection: null,
   }
@@ -282,6 +333,9 @@ function parseOperation(
     ...(f.mocHints.length > 0 ? { mocHints: f.mocHints } : {}),
     ...(f.linkKeys.length > 0 ? { linkKeys: f.linkKeys } : {}),
     ...(f.tags.length > 0 ? { tags: f.tags } : {}),
+    ...(f.validFrom !== undefined ? { validFrom: f.validFrom } : {}),
+    ...(f.validUntil !== undefined ? { validUntil: f.validUntil } : {}),
+    ...(f.sourceTool !== undefined ? { sourceTool: f.sourceTool } : {}),
   }
 }
 
@@ -309,6 +363,9 @@ function parseCandidate(
     ...(f.mocHints.length > 0 ? { mocHints: f.mocHints } : {}),
     ...(f.linkKeys.length > 0 ? { linkKeys: f.linkKeys } : {}),
     ...(f.tags.length > 0 ? { tags: f.tags } : {}),
+    ...(f.validFrom !== undefined ? { validFrom: f.validFrom } : {}),
+    ...(f.validUntil !== undefined ? { validUntil: f.validUntil } : {}),
+    ...(f.sourceTool !== undefined ? { sourceTool: f.sourceTool } : {}),
   }
 }
 
@@ -583,6 +640,94 @@ function parseNowPatch(raw: unknown): NowPatch | null {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Extract JSON parser (structured-output mode)
+// ---------------------------------------------------------------------------
+
+/** Validates one JSON operation and maps it to an ExtractCandidate. */
+function parseCandidateJson(op: unknown, rejections: ParserRejection[]): ExtractCandidate | null {
+  const result = extractOperationJsonSchema.safeParse(op)
+  if (!result.success) {
+    const reason = `invalid JSON operation — ${describeZodError(result.error)}`
+    console.warn(`[omg] Extract parser: dropping — ${reason}`)
+    rejections.push({ reason, rawSnippet: JSON.stringify(op).slice(0, 200) })
+    return null
+  }
+
+  const f = result.data
+  const canonicalKey = f.canonicalKey.trim()
+  const clean = (items: readonly string[]): string[] => items.map((i) => i.trim()).filter((i) => i.length > 0)
+  const mocHints = clean(f.mocHints)
+  const tags = clean(f.tags)
+  const linkKeys = clean(f.links)
+
+  if (tags.length < 8) {
+    console.warn(`[omg] Extract parser: operation "${canonicalKey}" has ${tags.length} tags (recommended minimum: 8)`)
+  }
+
+  const validFrom = coerceValidityBound(f.validFrom, 'from', canonicalKey)
+  let validUntil = coerceValidityBound(f.validUntil, 'until', canonicalKey)
+  if (validFrom !== undefined && validUntil !== undefined && validUntil < validFrom) {
+    console.warn(`[omg] Extract parser: ignoring valid-until before valid-from (key="${canonicalKey}")`)
+    validUntil = undefined
+  }
+  const sourceTool = coerceSourceTool(f.sourceTool)
+
+  return {
+    type: f.type,
+    canonicalKey,
+    title: f.title.trim(),
+    description: f.description.trim(),
+    body: f.content.trim(),
+    priority: f.priority,
+    ...(mocHints.length > 0 ? { mocHints } : {}),
+    ...(linkKeys.length > 0 ? { linkKeys } : {}),
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(validFrom !== undefined ? { validFrom } : {}),
+    ...(validUntil !== undefined ? { validUntil } : {}),
+    ...(sourceTool !== undefined ? { sourceTool } : {}),
+  }
+}
+
+/** Parses a JSON Extract response. Never throws. */
+function parseExtractJsonWithDiagnostics(
+  json: Record<string, unknown>,
+): { output: ExtractOutput; diagnostics: ParserDiagnostics } {
+  const envelope = extractJsonSchema.safeParse(json)
+  if (!envelope.success) {
+    console.error(`[omg] Extract parser: JSON response does not match the schema (${describeZodError(envelope.error)}) — returning empty output`)
+    return {
+      output: { ...EMPTY_EXTRACT_OUTPUT },
+      diagnostics: { totalCandidates: 0, accepted: 0, rejected: [] },
+    }
+  }
+
+  const candidates: ExtractCandidate[] = []
+  const rejections: ParserRejection[] = []
+  for (const op of envelope.data.operations) {
+    const candidate = parseCandidateJson(op, rejections)
+    if (candidate !== null) candidates.push(candidate)
+  }
+
+  const diagnostics: ParserDiagnostics = {
+    totalCandidates: envelope.data.operations.length,
+    accepted: candidates.length,
+    rejected: rejections,
+  }
+  logDiagnostics('[omg] Extract parser:', diagnostics)
+
+  const patch = nowPatchJsonSchema.safeParse(envelope.data.nowPatch)
+  const focus = patch.success ? patch.data.focus.trim() : ''
+  const nowPatch: NowPatch | null = patch.success && focus
+    ? { focus: focus.slice(0, 200), openLoops: patch.data.openLoops, suggestedLinks: patch.data.suggestedLinks }
+    : null
+
+  return {
+    output: { candidates, nowPatch, mocUpdates: deriveMocUpdatesFromCandidates(candidates) },
+    diagnostics,
+  }
+}
+
 /**
  * Parses the raw LLM output from the Extract phase into an {@link ExtractOutput}.
  *
@@ -596,6 +741,7 @@ export function parseExtractOutput(raw: string): ExtractOutput {
 /**
  * Parses extract output and returns diagnostics alongside the output.
  * For callers that need programmatic access to rejection details.
+ * Accepts a JSON response (structured-output mode) as well as XML.
  */
 export function parseExtractOutputWithDiagnostics(
   raw: string,
@@ -615,6 +761,11 @@ export function parseExtractOutputWithDiagnostics(
     }
   }
 
+  const json = parseJsonResponse(raw)
+  if (json !== null) {
+    return parseExtractJsonWithDiagnostics(json)
+  }
+
   const stripped = stripMarkdownFences(raw)
   const extracted = extractXmlRoot(stripped, '[omg] Extract parser:')
   if (extracted === null) {
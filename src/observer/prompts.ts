@@ -149,6 +149,18 @@ Updated project description with new details from this session.
       </content>
       <links>preferences.editor_theme</links>
     </operation>
+
+    <operation type="fact" priority="medium">
+      <canonical-key>facts.weekly_team_sync</canonical-key>
+      <title>Weekly Team Sync</title>
+      <description>Recurring team sync every Tuesday 10:00 with Ola and Marek — Cotygodniowe spotkanie zespołu we wtorki o 10:00</description>
+      <content>
+The user has a recurring team sync every Tuesday at 10:00 with Ola and Marek (from their calendar).
+      </content>
+      <moc-hints>projects</moc-hints>
+      <tags>team-sync, spotkanie-zespołu, Tuesday, wtorek, calendar, kalendarz, recurring, cykliczne, Ola, Marek</tags>
+      <source-tool>calendar_list_events</source-tool>
+    </operation>
   </operations>
 
   <!-- Optional: patch the current-state snapshot. Omit if no meaningful change. -->
@@ -195,6 +207,18 @@ Updated project description with new details from this session.
     (e.g. a roleplay session, a debugging session, a planning session), combine them into
     ONE episode node with a comprehensive description. Prefer one rich episode over multiple
     narrow ones covering the same activity.
+16. Optional validity window: when a fact is explicitly time-bound (a trip, a temporary
+    setup, a deadline, "until Friday"), add <valid-from> and/or <valid-until> with an
+    ISO 8601 date or timestamp, e.g. <valid-until>2026-03-14</valid-until>.
+    A bare date covers that whole day in the user's local time; give a timestamp
+    with an offset when the exact hour matters.
+    Omit both for facts with no stated time limit — never guess an expiry.
+17. Messages marked [tool:NAME] are tool calls and tool results. Results often hold durable
+    facts the user never typed: recurring calendar events, contents of files the user owns
+    or edits, CRM contact details, account settings. Extract those like any other fact.
+    Ignore transient output — search hits, command logs, status checks, errors, one-off
+    lookups. When a node's facts come mainly from a tool result, add
+    <source-tool>NAME</source-tool> with the tool name exactly as shown.
 `
 }
 
@@ -383,7 +407,7 @@ export function buildObserverUserPrompt(params: ObserverUserPromptParams): strin
 
   // --- Messages to Observe ---
   const messageLines = messages
-    .map((msg) => `[${msg.role}]: ${msg.content}`)
+    .map((msg) => `[${msg.role === 'tool' ? `tool:${msg.toolName ?? 'unknown'}` : msg.role}]: ${msg.content}`)
     .join('\n\n')
   parts.push(`## Messages to Observe\n${messageLines}`)
 
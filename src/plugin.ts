@@ -7,23 +7,56 @@
  *   - `before_compaction`   — forces observation before history is compacted
  *   - `tool_result_persist` — tags memory_search results with referenced node IDs
  *
+ * It also registers the agent-callable `omg_search`, `omg_get`, and
+ * `omg_remember` tools when the host exposes `api.registerTool`.
+ *
  * OpenClaw plugins can export either a function `(api) => void` or an object
  * with `{ id, name, configSchema, register(api) { ... } }`. This module
  * exports the named `register` function for explicit wiring, a `plugin` object
  * for OpenClaw's auto-discovery, and a default export for backward compatibility.
  */
 
+import { resolve as resolvePath, join as joinPath } from 'node:path'
 import { parseConfig, omgConfigSchema } from './config.js'
-import { createLlmClient } from './llm/client.js'
+import { createLlmClient, type LlmClient, type LlmClientOptions } from './llm/client.js'
+import { createRoleClients, clientForRole, type LlmRoleClients } from './llm/backends.js'
+import { createCachedLlmClient, LLM_CACHE_DIR } from './llm/response-cache.js'
+import { createLlmScheduler, withScheduler, type LlmPriority } from './llm/scheduler.js'
+import {
+  createUsageRecorder,
+  readUsageLedger,
+  summarizeUsage,
+  formatUsageSummary,
+  parseSinceDuration,
+  checkDailyTokenBudget,
+} from './llm/usage-ledger.js'
 import { createGatewayCompletionsGenerateFn } from './llm/gateway-completions.js'
 import { agentEnd } from './hooks/agent-end.js'
 import { createCircuitBreaker } from './hooks/circuit-breaker.js'
 import { beforeAgentStart } from './hooks/before-agent-start.js'
 import { createMemoryTools } from './context/memory-search.js'
+import type { MemoryTools } from './context/memory-search.js'
+import { createLocalMemoryTools, resolveEmbeddingProvider } from './context/embeddings.js'
 import { beforeCompaction } from './hooks/before-compaction.js'
 import { toolResultPersist } from './hooks/tool-result-persist.js'
+import { normalizeMessages } from './hooks/normalize-messages.js'
+import { createOmgTools, searchGraph, getGraphNode, OMG_TOOL_NAMES } from './tools/omg-tools.js'
+import {
+  getGraphStatus,
+  formatGraphStatus,
+  formatSearchHits,
+  formatNodeDetail,
+  reindexGraph,
+} from './cli/graph-commands.js'
+import { setNodeArchived } from './graph/archive.js'
+import { exportGraphBundle, importGraphBundle } from './graph/bundle.js'
+import { listSnapshots, rollbackSnapshot } from './graph/snapshot.js'
+import { applyPendingMerge, rejectPendingMerge } from './dedup/semantic-dedup.js'
+import { formatPendingMerges, getPendingMerges, readReviewLog } from './dedup/review-queue.js'
+import { unmergeNode } from './dedup/unmerge.js'
+import type { OmgTool } from './tools/omg-tools.js'
 import { registerCronJobs } from './cron/register.js'
-import { graphMaintenanceCronHandler, maintenanceCronHandler } from './cron/definitions.js'
+import { graphMaintenanceCronHandler, maintenanceCronHandler, runDeferredMaintenance } from './cron/definitions.js'
 import {
   readWorkspaceRegistry,
   writeWorkspaceRegistry,
@@ -33,6 +66,7 @@ import {
 } from './cron/workspace-registry.js'
 import { scaffoldGraphIfNeeded } from './scaffold.js'
 import { runBootstrap, runBootstrapTick, runBootstrapRetry } from './bootstrap/bootstrap.js'
+import { estimateBootstrap, formatBootstrapEstimate } from './bootstrap/dry-run.js'
 import { readBootstrapState, writeBootstrapState, markMaintenanceDone } from './bootstrap/state.js'
 import { resolveOmgRoot } from './utils/paths.js'
 import type { Message } from './types.js'
@@ -57,6 +91,14 @@ export interface PluginHookContext {
   readonly messages?: readonly Message[]
 }
 
+/** Context passed to tool factories registered via `api.registerTool`. */
+export interface PluginToolContext {
+  readonly agentId?: string
+  readonly sessionKey?: string
+  /** Per-agent workspace directory. Falls back to the globally-resolved workspace. */
+  readonly workspaceDir?: string
+}
+
 /**
  * Minimal OpenClaw plugin API surface used by this plugin.
  *
@@ -148,6 +190,19 @@ export interface PluginApi {
     }
   }
 
+  /**
+   * Registers agent-callable tools. The factory runs per agent session and may
+   * return null to withhold the tools (e.g. for workspaces outside the allowlist).
+   * Optional — guard with `typeof api.registerTool === 'function'`.
+   *
+   * @param factory  Builds the tool definitions for the given agent context.
+   * @param options  Names of the tools the factory produces.
+   */
+  registerTool?(
+    factory: (ctx: PluginToolContext) => readonly OmgTool[] | null,
+    options: { names: readonly string[] }
+  ): void
+
   /**
    * Registers a CLI sub-command with OpenClaw's CLI framework.
    * Optional — not all host versions expose this method. Guard with
@@ -178,51 +233,6 @@ export interface OpenClawPluginDefinition {
   register(api: PluginApi): void
 }
 
-// ---------------------------------------------------------------------------
-// Message normalization
-// ---------------------------------------------------------------------------
-
-/**
- * Content block as used by the Anthropic Messages API.
- * Gateway messages may use this format instead of plain strings.
- */
-interface ContentBlock {
-  readonly type: string
-  readonly text?: string
-}
-
-/**
- * Normalizes raw gateway messages into the OMG `Message` format.
- *
- * The OpenClaw gateway passes messages in Anthropic API format where `content`
- * is an array of content blocks (`[{type: "text", text: "..."}]`), but OMG's
- * `Message` type expects `content` to be a plain string.
- *
- * This function handles both formats gracefully:
- *   - Plain string content → passed through unchanged
- *   - Array of content blocks → text blocks are extracted and joined
- *   - Any other shape → converted to string via JSON.stringify
- */
-function normalizeMessages(raw: readonly unknown[]): readonly Message[] {
-  return raw.map((msg) => {
-    const m = msg as { role?: string; content?: unknown }
-    const role = m.role === 'assistant' ? 'assistant' : 'user'
-    const content = normalizeContent(m.content)
-    return { role, content } as Message
-  })
-}
-
-function normalizeContent(content: unknown): string {
-  if (typeof content === 'string') return content
-  if (Array.isArray(content)) {
-    return (content as readonly ContentBlock[])
-      .filter((block) => block.type === 'text' && typeof block.text === 'string')
-      .map((block) => block.text!)
-      .join('\n')
-  }
-  return typeof content === 'undefined' ? '' : JSON.stringify(content)
-}
-
 // ---------------------------------------------------------------------------
 // LLM generation resolution
 // ---------------------------------------------------------------------------
@@ -346,6 +356,24 @@ export function parseBatchIndices(raw: string): readonly number[] {
   return indices
 }
 
+/**
+ * Splits commander action arguments into positional args and the options object.
+ * Commander calls actions as `(...positionalArgs, options, command)`; for
+ * `omg <sub> <arg>` the first positional is the sub-command word itself.
+ */
+function splitCliArgs(actionArgs: readonly unknown[]): {
+  positional: readonly string[]
+  opts: Record<string, unknown>
+} {
+  if (actionArgs.length < 2) return { positional: [], opts: {} }
+  const positional = actionArgs
+    .slice(0, -2)
+    .flatMap((arg) => (Array.isArray(arg) ? arg : [arg]))
+    .filter((arg): arg is string => typeof arg === 'string')
+  const opts = (actionArgs[actionArgs.length - 2] ?? {}) as Record<string, unknown>
+  return { positional, opts }
+}
+
 // ---------------------------------------------------------------------------
 // Workspace allowlisting
 // ---------------------------------------------------------------------------
@@ -427,7 +455,19 @@ export function register(api: PluginApi): void {
 
   // Probe for OpenClaw memory tools (optional — degrades gracefully to registry-only)
   const memoryTools = createMemoryTools(api)
-  console.error(`[omg] register: ${memoryTools ? 'memory_search/memory_get tools available — hybrid scoring enabled' : 'registry-only scoring'}`)
+  // Without the host tools, fall back to the local embedding index (per workspace).
+  const embeddingProvider = memoryTools ? null : resolveEmbeddingProvider(config)
+  const memoryToolsFor = (wsDir: string): MemoryTools | null =>
+    memoryTools ?? (embeddingProvider
+      ? createLocalMemoryTools(resolveOmgRoot(wsDir, config), embeddingProvider, config.injection.semantic.maxResults)
+      : null)
+  console.error(`[omg] register: ${
+    memoryTools
+      ? 'memory_search/memory_get tools available — hybrid scoring enabled'
+      : embeddingProvider
+        ? `memory_search unavailable — hybrid scoring via local ${embeddingProvider.id} embeddings`
+        : 'registry-only scoring'
+  }`)
 
   // Resolve workspaceDir from (in priority order):
   //   1. Host-provided api.workspaceDir (per-agent context, may be undefined at gateway level)
@@ -445,7 +485,65 @@ export function register(api: PluginApi): void {
   // the auth token from the gateway's auth-profiles store.
   const observerModel = config.observer.model ?? 'claude-sonnet-4-20250514'
   const generateFn = resolveGenerateFn(api, observerModel, config.observer.timeoutMs)
-  const llmClient = createLlmClient(observerModel, generateFn)
+  // Clients are built lazily per workspace: every call is recorded in that
+  // workspace's usage ledger, and the response cache (when enabled) lives
+  // under its OMG root. Roles routed through `config.llm` get their own
+  // fallback chains; the observer route (if any) replaces the default client
+  // everywhere it is used.
+  const llmByWorkspace = new Map<string, { llmClient: LlmClient; llmClients: LlmRoleClients }>()
+  const withCache = (wsDir: string, client: LlmClient): LlmClient =>
+    config.llm.cache.enabled
+      ? createCachedLlmClient(client, {
+          cacheDir: joinPath(resolveOmgRoot(wsDir, config), LLM_CACHE_DIR),
+          ttlMs: config.llm.cache.ttlHours * 60 * 60 * 1000,
+          maxBytes: config.llm.cache.maxSizeMb * 1024 * 1024,
+        })
+      : client
+  const usageOptionsFor = (wsDir: string): LlmClientOptions => ({
+    onUsage: createUsageRecorder(resolveOmgRoot(wsDir, config)),
+  })
+  const uncachedLlmFor = (wsDir: string): { llmClient: LlmClient; llmClients: LlmRoleClients } => {
+    const clientOptions = usageOptionsFor(wsDir)
+    const roleClients = createRoleClients(
+      config,
+      (model, timeoutMs) => resolveGenerateFn(api, model, timeoutMs),
+      clientOptions
+    )
+    return {
+      llmClient: clientForRole(createLlmClient(observerModel, generateFn, clientOptions), roleClients, 'observer'),
+      llmClients: roleClients,
+    }
+  }
+  const llmFor = (wsDir: string): { llmClient: LlmClient; llmClients: LlmRoleClients } => {
+    let clients = llmByWorkspace.get(wsDir)
+    if (clients === undefined) {
+      const uncached = uncachedLlmFor(wsDir)
+      clients = {
+        llmClient: withCache(wsDir, uncached.llmClient),
+        llmClients: Object.fromEntries(
+          Object.entries(uncached.llmClients).map(([role, client]) => [role, withCache(wsDir, client)])
+        ),
+      }
+      llmByWorkspace.set(wsDir, clients)
+    }
+    return clients
+  }
+
+  // Hook and cron calls share one scheduler (concurrency, priorities, shared
+  // rate-limit pause); operator CLI commands call the LLM directly.
+  const scheduler = createLlmScheduler(config.llm.scheduler)
+  const scheduledLlmFor = (
+    wsDir: string,
+    priority: LlmPriority
+  ): { llmClient: LlmClient; llmClients: LlmRoleClients } => {
+    const { llmClient, llmClients } = llmFor(wsDir)
+    return {
+      llmClient: withScheduler(llmClient, scheduler, priority),
+      llmClients: Object.fromEntries(
+        Object.entries(llmClients).map(([role, client]) => [role, withScheduler(client, scheduler, priority)])
+      ),
+    }
+  }
 
   // Per-workspace bootstrap flag: tracks which workspaceDirs have already had
   // bootstrap triggered this gateway lifetime. Using a Set keyed by resolved
@@ -497,12 +595,17 @@ export function register(api: PluginApi): void {
             try {
               await scaffoldGraphIfNeeded(wsDir, config)
               const omgRoot = resolveOmgRoot(wsDir, config)
+              await runDeferredMaintenance({ workspaceDir: wsDir, config, ...llmFor(wsDir), scheduler })
 
               // Skip tick entirely if bootstrap is fully completed — avoids lock churn
               const bsState = await readBootstrapState(omgRoot).catch(() => null)
               if (bsState?.status === 'completed' && bsState.maintenanceDone) continue
 
-              const result = await runBootstrapTick({ workspaceDir: wsDir, config, llmClient })
+              const result = await runBootstrapTick({
+                workspaceDir: wsDir,
+                config,
+                llmClient: scheduledLlmFor(wsDir, 'bootstrap').llmClient,
+              })
 
               // Run maintenance when bootstrap just completed on this tick
               const needsMaintenance = result.completed
@@ -516,9 +619,12 @@ export function register(api: PluginApi): void {
                   )
 
               if (needsMaintenance || pendingMaintenance) {
-                await graphMaintenanceCronHandler({ workspaceDir: wsDir, config, llmClient }, 0)  // ageCutoffMs=0: all nodes eligible post-bootstrap
+                const maintained = await graphMaintenanceCronHandler(
+                  { workspaceDir: wsDir, config, ...llmFor(wsDir), scheduler },
+                  0,  // ageCutoffMs=0: all nodes eligible post-bootstrap
+                )
                 const state = await readBootstrapState(omgRoot)
-                if (state) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
+                if (state && maintained) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
               }
             } catch (err) {
               console.error(`[omg] service: bootstrap tick failed for ${wsDir}:`, err)
@@ -541,16 +647,26 @@ export function register(api: PluginApi): void {
     if (!effectiveWorkspaceDir) return Promise.resolve(undefined)
     if (allowedWorkspaces.size > 0 && !allowedWorkspaces.has(effectiveWorkspaceDir)) return undefined
 
+    // A user is chatting — background LLM work backs off for a while
+    scheduler.noteUserActivity()
+
     // Scaffold once per workspace per gateway lifetime (cheap, idempotent).
     if (!bootstrappedWorkspaces.has(effectiveWorkspaceDir)) {
       bootstrappedWorkspaces.add(effectiveWorkspaceDir)
       scaffoldGraphIfNeeded(effectiveWorkspaceDir, config)
         .catch((err) => console.error('[omg] before_prompt_build: scaffold failed:', err))
         .then(() => {
-          // Fallback: service API unavailable (old host) → run one bounded tick per turn
+          // Fallback: service API unavailable (old host) → run one bounded tick per turn.
+          // Wait for the user to go idle first so the tick doesn't sit in the
+          // scheduler queue holding the bootstrap lock.
           if (!serviceAvailable) {
             const omgRoot = resolveOmgRoot(effectiveWorkspaceDir, config)
-            return runBootstrapTick({ workspaceDir: effectiveWorkspaceDir, config, llmClient })
+            return scheduler.whenIdle()
+              .then(() => runBootstrapTick({
+                workspaceDir: effectiveWorkspaceDir,
+                config,
+                llmClient: scheduledLlmFor(effectiveWorkspaceDir, 'bootstrap').llmClient,
+              }))
               .then(async (result) => {
                 const needsMaintenance = result.completed
                 const pendingMaintenance = !needsMaintenance && !result.ran
@@ -559,9 +675,12 @@ export function register(api: PluginApi): void {
                       () => false,
                     )
                 if (needsMaintenance || pendingMaintenance) {
-                  await graphMaintenanceCronHandler({ workspaceDir: effectiveWorkspaceDir, config, llmClient }, 0)
+                  const maintained = await graphMaintenanceCronHandler(
+                    { workspaceDir: effectiveWorkspaceDir, config, ...llmFor(effectiveWorkspaceDir), scheduler },
+                    0,
+                  )
                   const state = await readBootstrapState(omgRoot)
-                  if (state) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
+                  if (state && maintained) await writeBootstrapState(omgRoot, markMaintenanceDone(state))
                 }
               })
               .catch((err) => console.error('[omg] before_prompt_build: bootstrap tick failed:', err))
@@ -582,7 +701,8 @@ export function register(api: PluginApi): void {
         const cronCtx = {
           workspaceDir: effectiveWorkspaceDir,
           config,
-          llmClient,
+          ...llmFor(effectiveWorkspaceDir),
+          scheduler,
           jobIdNamespace: effectiveWorkspaceDir,
         }
         try {
@@ -594,7 +714,13 @@ export function register(api: PluginApi): void {
     }
 
     const sessionKey = ctx.sessionKey ?? 'default'
-    const result = await beforeAgentStart(event, { workspaceDir: effectiveWorkspaceDir, sessionKey, config, memoryTools })
+    const result = await beforeAgentStart(event, {
+      workspaceDir: effectiveWorkspaceDir,
+      sessionKey,
+      config,
+      memoryTools: memoryToolsFor(effectiveWorkspaceDir),
+      ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}),
+    })
     if (result) {
       const chars = result.prependContext.length
       const estTokens = Math.ceil(chars / 4)
@@ -613,18 +739,21 @@ export function register(api: PluginApi): void {
     const sessionKey = ctx.sessionKey ?? ctx.agentId ?? 'default'
     // Messages are passed in the event object by the gateway, not in ctx.
     // ctx only contains agentId, sessionKey, workspaceDir.
-    // Gateway messages use Anthropic API format (content as array of blocks),
-    // so we normalize them to our Message type (content as plain string).
+    // Gateway messages use provider format (content as array of blocks, tool
+    // calls as blocks or separate messages), so we normalize them to our
+    // Message type (content as plain string, tool traffic as `tool` messages).
     const rawMessages = (event as unknown as { messages?: readonly unknown[] }).messages ?? ctx.messages ?? []
-    const messages = normalizeMessages(rawMessages)
+    const messages = normalizeMessages(rawMessages, config.observation.tools)
     console.error(`[omg] agent_end [${sessionKey}]: messages=${messages.length}, threshold=${config.observation.messageTokenThreshold}, triggerMode=${config.observation.triggerMode}`)
     return agentEnd(event, {
       workspaceDir: effectiveWorkspaceDir,
       sessionKey,
       messages,
       config,
-      llmClient,
+      ...scheduledLlmFor(effectiveWorkspaceDir, 'interactive'),
+      memoryTools: memoryToolsFor(effectiveWorkspaceDir),
       circuitBreaker,
+      ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}),
     })
   })
 
@@ -637,14 +766,33 @@ export function register(api: PluginApi): void {
     return beforeCompaction(_event, {
       workspaceDir: effectiveWorkspaceDir,
       sessionKey,
-      messages: normalizeMessages(rawMessages),
+      messages: normalizeMessages(rawMessages, config.observation.tools),
       config,
-      llmClient,
+      ...scheduledLlmFor(effectiveWorkspaceDir, 'compaction'),
+      ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}),
     })
   })
 
   api.on('tool_result_persist', (event) => toolResultPersist(event))
 
+  // Agent-callable memory tools (omg_search / omg_get / omg_remember)
+  if (typeof api.registerTool === 'function') {
+    api.registerTool(
+      (toolCtx) => {
+        const effectiveWorkspaceDir = toolCtx.workspaceDir ?? workspaceDir
+        if (!effectiveWorkspaceDir) return null
+        if (allowedWorkspaces.size > 0 && !allowedWorkspaces.has(effectiveWorkspaceDir)) return null
+        return createOmgTools({
+          workspaceDir: effectiveWorkspaceDir,
+          config,
+          sessionKey: toolCtx.sessionKey ?? toolCtx.agentId,
+          ...(toolCtx.agentId !== undefined ? { agentId: toolCtx.agentId } : {}),
+        })
+      },
+      { names: OMG_TOOL_NAMES }
+    )
+  }
+
   api.on('gateway_start', async () => {
     // Auto-enable the gateway's /v1/chat/completions endpoint if not already on.
     // The OMG plugin needs this to route LLM calls through OpenClaw's model providers.
@@ -674,7 +822,7 @@ export function register(api: PluginApi): void {
       await scaffoldGraphIfNeeded(wsDir, config).catch((err) =>
         console.error(`[omg] gateway_start: scaffold failed for ${wsDir}:`, err)
       )
-      const cronCtx = { workspaceDir: wsDir, config, llmClient, jobIdNamespace: wsDir }
+      const cronCtx = { workspaceDir: wsDir, config, ...llmFor(wsDir), scheduler, jobIdNamespace: wsDir }
       try {
         registerCronJobs(api, config, cronCtx)
         registeredCronWorkspaces.add(wsDir)
@@ -707,6 +855,7 @@ export function register(api: PluginApi): void {
           .option('--timeout <ms>', 'Override LLM timeout for retry (5000-600000)')
           .option('--error-type <type>', 'Filter retry by error type: llm-error|parse-empty|zero-operations|write-all-failed')
           .option('--batches <indices>', 'Comma-separated batch indices to retry (e.g. "6,12,25")')
+          .option('--dry-run', 'Estimate batches, tokens, cron ticks and cost without calling the LLM')
           .action(async (...actionArgs: unknown[]) => {
             // Commander calls action as (...positionalArgs, options, command).
             // 'omg bootstrap' registers 'bootstrap' as a positional arg of command 'omg',
@@ -715,6 +864,16 @@ export function register(api: PluginApi): void {
             const opts = (actionArgs.length >= 2
               ? actionArgs[actionArgs.length - 2]
               : {}) as Record<string, unknown>
+            // Dry run needs no LLM, so it also works in the plain CLI context
+            if (Boolean(opts['dryRun'])) {
+              if (!workspaceDir) {
+                console.error('[omg] bootstrap: workspaceDir is not available')
+                return
+              }
+              const source = (opts['source'] as BootstrapSource | undefined) ?? 'all'
+              console.log(formatBootstrapEstimate(await estimateBootstrap({ workspaceDir, config, source })))
+              return
+            }
             if (typeof api.generate !== 'function') {
               const omgRoot = workspaceDir ? resolveOmgRoot(workspaceDir, config) : null
               const stateFile = omgRoot ? `${omgRoot}/.bootstrap-state.json` : '<omgRoot>/.bootstrap-state.json'
@@ -767,19 +926,21 @@ export function register(api: PluginApi): void {
                 }
               }
 
-              // Build factory closure for timeout override
+              // Build factory closure for timeout override. Retries bypass the
+              // response cache: a cached unparseable or empty answer is exactly
+              // what failed the batch the first time.
               const rawGlobal = api.config as Record<string, unknown>
               const port = resolveGatewayPort(rawGlobal)
               const authToken = resolveGatewayAuthToken(rawGlobal)
               const retryLlmClientFactory = (overrideMs: number): ReturnType<typeof createLlmClient> => {
                 const fn = createGatewayCompletionsGenerateFn({ port, authToken, model: observerModel, timeoutMs: overrideMs })
-                return createLlmClient(observerModel, fn)
+                return createLlmClient(observerModel, fn, usageOptionsFor(workspaceDir))
               }
 
               const result = await runBootstrapRetry({
                 workspaceDir,
                 config,
-                llmClient,
+                llmClient: uncachedLlmFor(workspaceDir).llmClient,
                 timeoutMs: retryTimeoutMs,
                 errorTypeFilter,
                 batchIndices: retryBatchIndices,
@@ -792,7 +953,7 @@ export function register(api: PluginApi): void {
             }
             const force = Boolean(opts['force'])
             const source = (opts['source'] as BootstrapSource | undefined) ?? 'all'
-            const result = await runBootstrap({ workspaceDir, config, llmClient, force, source })
+            const result = await runBootstrap({ workspaceDir, config, llmClient: llmFor(workspaceDir).llmClient, force, source })
             if (!result.ran) {
               console.log('[omg] bootstrap: already complete — use --force to re-run')
             }
@@ -812,7 +973,7 @@ export function register(api: PluginApi): void {
               return
             }
             console.log('[omg] run-maintenance: starting graph maintenance (dedup + reflection)...')
-            const cronCtx = { workspaceDir, config, llmClient }
+            const cronCtx = { workspaceDir, config, ...llmFor(workspaceDir), ignoreTokenBudget: true }
             try {
               await graphMaintenanceCronHandler(cronCtx)
               console.log('[omg] run-maintenance: graph maintenance completed')
@@ -830,6 +991,288 @@ export function register(api: PluginApi): void {
       },
       { commands: ['omg run-maintenance'] }
     )
+
+    api.registerCli(
+      (ctx) => {
+        const program = ctx.program as CliProgram
+
+        // Resolves the graph root for a command, logging a uniform error when unavailable.
+        const requireOmgRoot = (command: string): string | null => {
+          if (!workspaceDir) {
+            console.error(`[omg] ${command}: workspaceDir is not available`)
+            return null
+          }
+          return resolveOmgRoot(workspaceDir, config)
+        }
+
+        program
+          .command('omg status')
+          .action(async () => {
+            const omgRoot = requireOmgRoot('status')
+            if (!omgRoot) return
+            try {
+              console.log(formatGraphStatus(await getGraphStatus(omgRoot)))
+            } catch (err) {
+              console.error('[omg] status: failed:', err)
+            }
+          })
+
+        program
+          .command('omg search <query>')
+          .option('--limit <n>', 'Maximum number of results', '10')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('search')
+            if (!omgRoot) return
+            const { positional, opts } = splitCliArgs(actionArgs)
+            const query = positional.slice(1).join(' ').trim()
+            if (query === '') {
+              console.error('[omg] search: a query is required')
+              return
+            }
+            const limit = Number(opts['limit'] ?? 10)
+            if (!Number.isInteger(limit) || limit < 1) {
+              console.error('[omg] search: --limit must be a positive integer')
+              return
+            }
+            try {
+              console.log(formatSearchHits(query, await searchGraph(omgRoot, query, { limit })))
+            } catch (err) {
+              console.error('[omg] search: failed:', err)
+            }
+          })
+
+        program
+          .command('omg show <node-id>')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('show')
+            if (!omgRoot) return
+            const nodeId = splitCliArgs(actionArgs).positional[1]
+            if (!nodeId) {
+              console.error('[omg] show: a node ID is required')
+              return
+            }
+            try {
+              const node = await getGraphNode(omgRoot, nodeId)
+              if (!node) {
+                console.error(`[omg] show: node "${nodeId}" not found`)
+                return
+              }
+              console.log(formatNodeDetail(node))
+            } catch (err) {
+              console.error('[omg] show: failed:', err)
+            }
+          })
+
+        for (const [command, archived] of [['archive', true], ['restore', false]] as const) {
+          program
+            .command(`omg ${command} <node-id>`)
+            .action(async (...actionArgs: unknown[]) => {
+              const omgRoot = requireOmgRoot(command)
+              if (!omgRoot) return
+              const nodeId = splitCliArgs(actionArgs).positional[1]
+              if (!nodeId) {
+                console.error(`[omg] ${command}: a node ID is required`)
+                return
+              }
+              try {
+                const result = await setNodeArchived(omgRoot, nodeId, archived)
+                if (!result.changed) {
+                  console.log(`[omg] ${command}: ${nodeId} is already ${archived ? 'archived' : 'active'}`)
+                  return
+                }
+                const mocs = result.mocDomains.length > 0 ? ` (MOCs: ${result.mocDomains.join(', ')})` : ''
+                console.log(`[omg] ${command}: ${nodeId} ${archived ? 'archived' : 'restored'}${mocs}`)
+              } catch (err) {
+                console.error(`[omg] ${command}: ${err instanceof Error ? err.message : String(err)}`)
+              }
+            })
+        }
+
+        program
+          .command('omg reindex')
+          .action(async () => {
+            const omgRoot = requireOmgRoot('reindex')
+            if (!omgRoot) return
+            try {
+              const result = await reindexGraph(omgRoot)
+              console.log(
+                `[omg] reindex: registry rebuilt with ${result.registeredNodes} entries; ` +
+                  `index.md lists ${result.indexedNodes} active nodes`
+              )
+            } catch (err) {
+              console.error('[omg] reindex: failed:', err)
+            }
+          })
+
+        program
+          .command('omg usage')
+          .option('--since <duration>', 'Time window, e.g. 24h, 7d or 2w', '7d')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('usage')
+            if (!omgRoot) return
+            const since = String(splitCliArgs(actionArgs).opts['since'] ?? '7d')
+            let windowMs: number
+            try {
+              windowMs = parseSinceDuration(since)
+            } catch (err) {
+              console.error(`[omg] usage: ${err instanceof Error ? err.message : String(err)}`)
+              return
+            }
+            try {
+              const entries = await readUsageLedger(omgRoot, Date.now() - windowMs)
+              const budget = await checkDailyTokenBudget(omgRoot, config)
+              console.log(formatUsageSummary(summarizeUsage(entries, config.pricing), since, budget))
+            } catch (err) {
+              console.error('[omg] usage: failed:', err)
+            }
+          })
+
+        program
+          .command('omg dedup review')
+          .action(async () => {
+            const omgRoot = requireOmgRoot('dedup review')
+            if (!omgRoot) return
+            try {
+              console.log(formatPendingMerges(getPendingMerges(await readReviewLog(omgRoot))))
+            } catch (err) {
+              console.error('[omg] dedup review: failed:', err)
+            }
+          })
+
+        program
+          .command('omg dedup apply <id>')
+          .option('--reject', 'Reject the merge; its nodes are never proposed together again')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('dedup apply')
+            if (!omgRoot) return
+            const { positional, opts } = splitCliArgs(actionArgs)
+            const id = positional[2]
+            if (!id) {
+              console.error('[omg] dedup apply: a pending merge ID is required (see `omg dedup review`)')
+              return
+            }
+            try {
+              if (opts['reject']) {
+                const merge = await rejectPendingMerge(omgRoot, id)
+                console.log(`[omg] dedup apply: rejected ${id} — ${merge.keepNodeId} and ${merge.mergeNodeIds.join(', ')} stay separate`)
+                return
+              }
+              const { merge, nodesArchived } = await applyPendingMerge(omgRoot, id)
+              console.log(`[omg] dedup apply: merged ${id} into ${merge.keepNodeId} — ${nodesArchived} node(s) archived`)
+            } catch (err) {
+              console.error(`[omg] dedup apply: ${err instanceof Error ? err.message : String(err)}`)
+            }
+          })
+
+        program
+          .command('omg dedup unmerge <keeper-id> <loser-id>')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('dedup unmerge')
+            if (!omgRoot) return
+            const { positional } = splitCliArgs(actionArgs)
+            const keeperId = positional[2]
+            const loserId = positional[3]
+            if (!keeperId || !loserId) {
+              console.error('[omg] dedup unmerge: a keeper node ID and a merged node ID are required')
+              return
+            }
+            try {
+              const result = await unmergeNode(omgRoot, keeperId, loserId)
+              const reverted = [
+                `${result.aliasesRemoved.length} alias(es) removed`,
+                result.bodyReverted ? 'merged text removed' : 'body unchanged',
+                `${result.linksRestored.length} link(s) restored`,
+              ]
+              console.log(`[omg] dedup unmerge: restored ${loserId} from ${keeperId} — ${reverted.join(', ')}`)
+            } catch (err) {
+              console.error(`[omg] dedup unmerge: ${err instanceof Error ? err.message : String(err)}`)
+            }
+          })
+
+        program
+          .command('omg export <file>')
+          .option('--include-archived', 'Also export archived nodes')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('export')
+            if (!omgRoot) return
+            const { positional, opts } = splitCliArgs(actionArgs)
+            const file = positional[1]
+            if (!file) {
+              console.error('[omg] export: an output file is required')
+              return
+            }
+            try {
+              const result = await exportGraphBundle(omgRoot, resolvePath(file), {
+                includeArchived: Boolean(opts['includeArchived']),
+              })
+              console.log(`[omg] export: wrote ${result.nodeCount} node(s) to ${file}`)
+            } catch (err) {
+              console.error('[omg] export: failed:', err)
+            }
+          })
+
+        program
+          .command('omg import <file>')
+          .option('--scope <scope>', 'Scope used to compute node uids (defaults to the configured scope)')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('import')
+            if (!omgRoot || !workspaceDir) return
+            const { positional, opts } = splitCliArgs(actionArgs)
+            const file = positional[1]
+            if (!file) {
+              console.error('[omg] import: an input file is required')
+              return
+            }
+            const scope = typeof opts['scope'] === 'string' ? opts['scope'] : (config.scope ?? workspaceDir)
+            try {
+              const result = await importGraphBundle(omgRoot, resolvePath(file), { scope })
+              console.log(
+                `[omg] import: ${result.created} created, ${result.updated} updated, ` +
+                  `${result.skipped} skipped (local copy newer), ${result.failed} failed`
+              )
+            } catch (err) {
+              console.error(`[omg] import: ${err instanceof Error ? err.message : String(err)}`)
+            }
+          })
+
+        program
+          .command('omg rollback <run-id>')
+          .action(async (...actionArgs: unknown[]) => {
+            const omgRoot = requireOmgRoot('rollback')
+            if (!omgRoot) return
+            const runId = splitCliArgs(actionArgs).positional[1]
+            try {
+              const available = await listSnapshots(omgRoot)
+              if (!runId || !available.includes(runId)) {
+                console.error(
+                  `[omg] rollback: ${runId ? `no snapshot for run "${runId}"` : 'a run ID is required'}. ` +
+                    `Available: ${available.length > 0 ? available.join(', ') : '(none)'}`
+                )
+                return
+              }
+              const result = await rollbackSnapshot(omgRoot, runId)
+              console.log(
+                `[omg] rollback: ${runId} — ${result.restored} file(s) restored, ` +
+                  `${result.removed} removed; registry rebuilt`
+              )
+              if (result.skipped.length > 0) {
+                console.warn(
+                  `[omg] rollback: ${result.skipped.length} file(s) changed since the run were left as they are: ` +
+                    result.skipped.join(', ')
+                )
+              }
+            } catch (err) {
+              console.error(`[omg] rollback: ${err instanceof Error ? err.message : String(err)}`)
+            }
+          })
+      },
+      {
+        commands: [
+          'omg status', 'omg search', 'omg show', 'omg archive', 'omg restore', 'omg reindex', 'omg usage',
+          'omg dedup review', 'omg dedup apply', 'omg dedup unmerge', 'omg export', 'omg import', 'omg rollback',
+        ],
+      }
+    )
   }
 }
 
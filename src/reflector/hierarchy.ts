@@ -0,0 +1,332 @@
+/**
+ * hierarchy.ts — Multi-level reflection: weekly → monthly → yearly rollups.
+ *
+ * Clustered reflections (reflections/{domain}/{start}__{end}.md) are the
+ * bottom of the hierarchy. During graph maintenance each closed calendar
+ * period of a domain is synthesised from the reflections below it:
+ *
+ *   weekly   — clustered reflections starting in an ISO week (Monday, UTC)
+ *   monthly  — weeklies and not-yet-rolled-up clustered reflections in a month
+ *   yearly   — monthlies and anything below not yet rolled up in a year
+ *
+ * A child belongs to the period its time range starts in. Periods with fewer
+ * than `hierarchy.minChildren` children are skipped, so their children roll
+ * straight into the next level. Each rollup links to its children, carries the
+ * time range they cover and is written to
+ * reflections/{domain}/{level}/{period}.md; it is rewritten only when its set
+ * of children changes. Flat reflections written by monolithic reflection have
+ * no domain directory and stay outside the hierarchy.
+ */
+
+import { join, relative, sep } from 'node:path'
+import type { OmgConfig } from '../config.js'
+import type { LlmClient } from '../llm/client.js'
+import type { GraphNode, NodeFrontmatter, ReflectionLevel } from '../types.js'
+import { REFLECTION_LEVELS, reflectionLevelRank } from '../types.js'
+import { getRegistryEntries, getNodeFilePaths, type RegistryNodeEntry } from '../graph/registry.js'
+import { readGraphNode } from '../graph/node-reader.js'
+import { writeReflectionRollupNode } from '../graph/node-writer.js'
+import { slugify } from '../utils/id.js'
+
+const ROLLUP_MAX_TOKENS = 1500
+/** Characters of each child body included in the prompt. */
+const ROLLUP_CHILD_MAX_CHARS = 2000
+/** Tags carried over from the children, most frequent first. */
+const ROLLUP_MAX_TAGS = 10
+
+const CLUSTERED_FILE_RE = /^(\d{4}-\d{2}-\d{2})__(\d{4}-\d{2}-\d{2})\.md$/
+
+type HierarchyConfig = OmgConfig['reflection']['hierarchy']
+
+/** A calendar period of one hierarchy level. */
+export interface ReflectionPeriod {
+  /** "2026-01-12" (week start), "2026-01" or "2026". */
+  readonly key: string
+  readonly startMs: number
+  /** Exclusive. */
+  readonly endMs: number
+}
+
+/** A rollup to write: one domain, level and period, and the reflections it covers. */
+export interface RollupPlan {
+  readonly domain: string
+  readonly level: ReflectionLevel
+  readonly period: string
+  readonly nodeId: string
+  readonly childIds: readonly string[]
+  readonly timeRange: { readonly start: string; readonly end: string }
+}
+
+/** Outcome of {@link rollupReflections}. */
+export interface ReflectionRollupResult {
+  readonly rollupsWritten: number
+  readonly tokensUsed: number
+  readonly errors: readonly string[]
+}
+
+// ---------------------------------------------------------------------------
+// Periods and placement
+// ---------------------------------------------------------------------------
+
+/** Returns the UTC calendar period of `level` that contains `iso`. */
+export function periodOf(level: ReflectionLevel, iso: string): ReflectionPeriod {
+  const d = new Date(iso)
+  const year = d.getUTCFullYear()
+  const month = d.getUTCMonth()
+  if (level === 'yearly') {
+    return { key: String(year), startMs: Date.UTC(year, 0, 1), endMs: Date.UTC(year + 1, 0, 1) }
+  }
+  if (level === 'monthly') {
+    return {
+      key: `${year}-${String(month + 1).padStart(2, '0')}`,
+      startMs: Date.UTC(year, month, 1),
+      endMs: Date.UTC(year, month + 1, 1),
+    }
+  }
+  const mondayOffset = (d.getUTCDay() + 6) % 7
+  const startMs = Date.UTC(year, month, d.getUTCDate() - mondayOffset)
+  return { key: new Date(startMs).toISOString().slice(0, 10), startMs, endMs: startMs + 7 * 86_400_000 }
+}
+
+/** Domain of a reflection from its directory under `reflections/`; null for flat reflections. */
+export function reflectionDomain(omgRoot: string, filePath: string): string | null {
+  const parts = relative(join(omgRoot, 'reflections'), filePath).split(sep)
+  return parts.length >= 2 && parts[0] !== '..' ? parts[0]! : null
+}
+
+/**
+ * Time range of a reflection: its `timeRange`, or for clustered reflections
+ * written before it was recorded, the dates in the file name.
+ */
+export function reflectionTimeRange(entry: RegistryNodeEntry): { readonly start: string; readonly end: string } | null {
+  if (entry.timeRange !== undefined) return entry.timeRange
+  const match = CLUSTERED_FILE_RE.exec(entry.filePath.split(/[\\/]/).pop() ?? '')
+  if (!match) return null
+  return { start: `${match[1]}T00:00:00.000Z`, end: `${match[2]}T23:59:59.999Z` }
+}
+
+export function rollupNodeId(domain: string, level: ReflectionLevel, period: string): string {
+  return `omg/reflection/${slugify(domain)}-${level}-${period}`
+}
+
+/**
+ * Plans the `level` rollups due in `entries`: for every closed period of every
+ * domain, the live reflections below `level` that start in it and are not
+ * already covered by a rollup below `level`. Periods with fewer than
+ * `minChildren` children, and rollups whose children are the same and were not
+ * rewritten since the rollup was, are left out.
+ */
+export function planRollups(
+  entries: readonly (readonly [string, RegistryNodeEntry])[],
+  omgRoot: string,
+  level: ReflectionLevel,
+  config: HierarchyConfig,
+  nowMs: number,
+): RollupPlan[] {
+  const rank = reflectionLevelRank(level)
+  const entryById = new Map(entries)
+
+  const reflections: { id: string; entry: RegistryNodeEntry; domain: string }[] = []
+  for (const [id, entry] of entries) {
+    if (entry.archived || entry.type !== 'reflection') continue
+    const domain = reflectionDomain(omgRoot, entry.filePath)
+    if (domain !== null) reflections.push({ id, entry, domain })
+  }
+
+  const covered = new Set<string>()
+  for (const { entry } of reflections) {
+    const r = reflectionLevelRank(entry.reflectionLevel)
+    if (r >= 1 && r < rank) for (const link of entry.links ?? []) covered.add(link)
+  }
+
+  const groups = new Map<string, { domain: string; period: ReflectionPeriod; ids: string[] }>()
+  for (const { id, entry, domain } of reflections) {
+    if (reflectionLevelRank(entry.reflectionLevel) >= rank || covered.has(id)) continue
+    const range = reflectionTimeRange(entry)
+    if (range === null) continue
+    const period = periodOf(level, range.start)
+    if (period.endMs > nowMs) continue
+    const key = `${domain}\u0000${period.key}`
+    const group = groups.get(key) ?? { domain, period, ids: [] }
+    group.ids.push(id)
+    groups.set(key, group)
+  }
+
+  const plans: RollupPlan[] = []
+  for (const { domain, period, ids } of groups.values()) {
+    if (ids.length < config.minChildren) continue
+    const childIds = [...ids].sort()
+    const nodeId = rollupNodeId(domain, level, period.key)
+    const existing = entryById.get(nodeId)
+    if (existing && !existing.archived && sameMembers(existing.links ?? [], childIds) && !childRewritten(existing, childIds, entryById)) continue
+
+    const ranges = childIds.map((id) => reflectionTimeRange(entryById.get(id)!)!)
+    plans.push({
+      domain,
+      level,
+      period: period.key,
+      nodeId,
+      childIds,
+      timeRange: {
+        start: ranges.map((r) => r.start).sort()[0]!,
+        end: ranges.map((r) => r.end).sort().at(-1)!,
+      },
+    })
+  }
+  return plans.sort((a, b) => a.period.localeCompare(b.period) || a.domain.localeCompare(b.domain))
+}
+
+function sameMembers(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && [...a].sort().every((v, i) => v === b[i])
+}
+
+/** True when a child was rewritten after `rollup`, e.g. a weekly refreshed under its monthly. */
+function childRewritten(
+  rollup: RegistryNodeEntry,
+  childIds: readonly string[],
+  entryById: ReadonlyMap<string, RegistryNodeEntry>,
+): boolean {
+  const rollupMs = Date.parse(rollup.updated)
+  return childIds.some((id) => Date.parse(entryById.get(id)?.updated ?? '') > rollupMs)
+}
+
+// ---------------------------------------------------------------------------
+// Prompts
+// ---------------------------------------------------------------------------
+
+const LEVEL_LABEL: Record<ReflectionLevel, string> = { weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' }
+const PERIOD_NOUN: Record<ReflectionLevel, string> = { weekly: 'week', monthly: 'month', yearly: 'year' }
+
+export function buildRollupSystemPrompt(level: ReflectionLevel): string {
+  return `You write the ${level} reflection for one domain of a personal knowledge graph.
+
+You are given the earlier reflections covering this ${PERIOD_NOUN[level]}, oldest first.
+Synthesise them into one reflection on the ${PERIOD_NOUN[level]} as a whole: the main
+themes, what changed or was decided, and threads still open at its end. Prefer
+patterns over individual events, keep dates where they matter, and do not invent
+anything the reflections do not say.
+
+Respond with the reflection only — concise markdown, no heading, at most a few
+short paragraphs or bullet lists.`
+}
+
+export function buildRollupUserPrompt(plan: RollupPlan, children: readonly GraphNode[]): string {
+  const sections = [...children]
+    .sort((a, b) => (a.frontmatter.timeRange?.start ?? '').localeCompare(b.frontmatter.timeRange?.start ?? ''))
+    .map((child) => {
+      const range = child.frontmatter.timeRange
+      const when = range ? ` (${range.start.slice(0, 10)} – ${range.end.slice(0, 10)})` : ''
+      const body = child.body.trim()
+      const clipped = body.length > ROLLUP_CHILD_MAX_CHARS ? `${body.slice(0, ROLLUP_CHILD_MAX_CHARS)}…` : body
+      return `### ${child.frontmatter.description}${when}\n${clipped}`
+    })
+  return (
+    `Domain: ${plan.domain}\n` +
+    `${LEVEL_LABEL[plan.level]} period: ${plan.period} (${plan.timeRange.start.slice(0, 10)} – ${plan.timeRange.end.slice(0, 10)})\n\n` +
+    `Reflections (${children.length}):\n\n${sections.join('\n\n')}`
+  )
+}
+
+function rollupDescription(plan: RollupPlan): string {
+  const when = plan.level === 'weekly' ? `week of ${plan.period}` : plan.period
+  return `${LEVEL_LABEL[plan.level]} reflection on ${plan.domain}: ${when}`
+}
+
+function rollupTags(children: readonly GraphNode[]): string[] {
+  const counts = new Map<string, number>()
+  for (const child of children) {
+    for (const tag of child.frontmatter.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1)
+  }
+  return [...counts]
+    .sort(([ta, a], [tb, b]) => b - a || ta.localeCompare(tb))
+    .slice(0, ROLLUP_MAX_TAGS)
+    .map(([tag]) => tag)
+}
+
+// ---------------------------------------------------------------------------
+// Maintenance pass
+// ---------------------------------------------------------------------------
+
+/**
+ * Writes the weekly, then monthly, then yearly rollups that are due (see
+ * {@link planRollups}), at most `hierarchy.maxRollupsPerRun` in total. Each
+ * level sees the rollups written for the level below in the same run.
+ * Rollup failures are logged and collected; never throws.
+ */
+export async function rollupReflections(params: {
+  readonly omgRoot: string
+  readonly config: OmgConfig
+  readonly llmClient: LlmClient
+  /** Defaults to the current time; periods ending after it are still open. */
+  readonly nowMs?: number
+}): Promise<ReflectionRollupResult> {
+  const { omgRoot, config, llmClient, nowMs = Date.now() } = params
+  const hierarchyConfig = config.reflection.hierarchy
+  const errors: string[] = []
+  let rollupsWritten = 0
+  let tokensUsed = 0
+
+  for (const level of REFLECTION_LEVELS) {
+    if (rollupsWritten >= hierarchyConfig.maxRollupsPerRun) break
+
+    let entries: readonly [string, RegistryNodeEntry][]
+    try {
+      entries = await getRegistryEntries(omgRoot)
+    } catch (err) {
+      const msg = `failed to read registry: ${err instanceof Error ? err.message : String(err)}`
+      console.error('[omg] reflection-hierarchy:', msg)
+      errors.push(msg)
+      break
+    }
+    const entryById = new Map(entries)
+
+    const plans = planRollups(entries, omgRoot, level, hierarchyConfig, nowMs)
+    for (const plan of plans.slice(0, hierarchyConfig.maxRollupsPerRun - rollupsWritten)) {
+      try {
+        const filePaths = await getNodeFilePaths(omgRoot, plan.childIds)
+        const children = (await Promise.all([...filePaths.values()].map((fp) => readGraphNode(fp))))
+          .filter((n): n is GraphNode => n !== null)
+        if (children.length < hierarchyConfig.minChildren) continue
+
+        const response = await llmClient.generate({
+          system: buildRollupSystemPrompt(level),
+          user: buildRollupUserPrompt(plan, children),
+          maxTokens: ROLLUP_MAX_TOKENS,
+        })
+        tokensUsed += response.usage.inputTokens + response.usage.outputTokens
+
+        const body = response.content.trim()
+        if (body === '') {
+          console.warn(`[omg] reflection-hierarchy: empty ${level} reflection for ${plan.domain} ${plan.period} — skipping`)
+          continue
+        }
+
+        const now = new Date(nowMs).toISOString()
+        const tags = rollupTags(children)
+        const frontmatter: NodeFrontmatter = {
+          id: plan.nodeId,
+          description: rollupDescription(plan),
+          type: 'reflection',
+          priority: 'medium',
+          created: entryById.get(plan.nodeId)?.created ?? now,
+          updated: now,
+          ...(tags.length > 0 ? { tags } : {}),
+          links: plan.childIds,
+          reflectionLevel: level,
+          timeRange: plan.timeRange,
+        }
+        await writeReflectionRollupNode(
+          { frontmatter, body, domain: plan.domain, level, period: plan.period },
+          { omgRoot, sessionKey: `cron:omg-reflection:${plan.domain}` },
+        )
+        rollupsWritten++
+      } catch (err) {
+        const msg = `${level} ${plan.domain} ${plan.period}: ${err instanceof Error ? err.message : String(err)}`
+        console.error('[omg] reflection-hierarchy:', msg)
+        errors.push(msg)
+      }
+    }
+  }
+
+  return { rollupsWritten, tokensUsed, errors }
+}
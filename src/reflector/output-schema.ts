@@ -0,0 +1,57 @@
+/**
+ * output-schema.ts — JSON shape of the Reflector response in
+ * structured-output mode.
+ *
+ * Mirrors the `<reflection>` XML format from the system prompt, with element
+ * and attribute names in camelCase and comma-separated lists as arrays.
+ */
+
+import { z } from 'zod'
+import { toResponseSchema } from '../llm/structured-output.js'
+
+/** One `<node>` of `<reflection-nodes>`. */
+export const reflectionNodeJsonSchema = z.object({
+  id: z.string().describe('Node ID, e.g. omg/reflection/cli-workflow'),
+  compressionLevel: z.number().int().min(0).max(3),
+  description: z.string(),
+  tags: z.array(z.string()),
+  sources: z.array(z.string()).describe('IDs of the observation nodes this synthesises'),
+  body: z.string(),
+})
+
+/** One `<moc>` of `<moc-updates>`. */
+export const reflectorMocJsonSchema = z.object({
+  domain: z.string(),
+  nodeId: z.string(),
+  action: z.enum(['add', 'remove']),
+})
+
+/** One `<update>` of `<node-updates>`. */
+export const reflectorUpdateJsonSchema = z.object({
+  targetId: z.string(),
+  field: z.enum(['description', 'priority', 'body', 'tags', 'links']),
+  action: z.enum(['set', 'add', 'remove']),
+  value: z.string(),
+})
+
+/**
+ * Full Reflector response. Sections are validated loosely here and their
+ * entries one at a time by the parser.
+ */
+export const reflectionJsonSchema = z.object({
+  reflectionNodes: z.array(z.unknown()),
+  archiveNodes: z.array(z.unknown()),
+  mocUpdates: z.array(z.unknown()).default([]),
+  nodeUpdates: z.array(z.unknown()).default([]),
+})
+
+/** Sent with Reflector calls in structured-output mode. */
+export const REFLECTION_RESPONSE_SCHEMA = toResponseSchema(
+  'omg_reflection',
+  z.object({
+    reflectionNodes: z.array(reflectionNodeJsonSchema),
+    archiveNodes: z.array(z.string()),
+    mocUpdates: z.array(reflectorMocJsonSchema),
+    nodeUpdates: z.array(reflectorUpdateJsonSchema),
+  })
+)
@@ -6,12 +6,20 @@
  * and returns an empty output — records that cannot be reliably parsed are
  * dropped rather than fabricated from heuristics.
  *
- * Follows the same defensive approach as `src/observer/parser.ts`.
+ * Follows the same defensive approach as `src/observer/parser.ts`, including
+ * accepting JSON responses from structured-output mode.
  */
 
 import { XMLParser } from 'fast-xml-parser'
 import type { MocUpdateEntry, NodeUpdateEntry, CompressionLevel } from '../types.js'
 import { isCompressionLevel } from '../types.js'
+import { parseJsonResponse, describeZodError } from '../llm/structured-output.js'
+import {
+  reflectionJsonSchema,
+  reflectionNodeJsonSchema,
+  reflectorMocJsonSchema,
+  reflectorUpdateJsonSchema,
+} from './output-schema.js'
 
 // ---------------------------------------------------------------------------
 // Internal types
@@ -267,12 +275,107 @@ function parseNodeUpdates(section: unknown): readonly NodeUpdateEntry[] {
   return results
 }
 
+// ---------------------------------------------------------------------------
+// JSON parser (structured-output mode)
+// ---------------------------------------------------------------------------
+
+/**
+ * Parses a JSON Reflector response. Entries are validated one at a time and
+ * held to the same ID and field rules as the XML sections.
+ */
+function parseReflectorJson(json: Record<string, unknown>): ReflectorXmlOutput {
+  const envelope = reflectionJsonSchema.safeParse(json)
+  if (!envelope.success) {
+    console.error(
+      `[omg] Reflector parser: JSON response does not match the schema (${describeZodError(envelope.error)}) — returning empty output`,
+    )
+    return { ...EMPTY_REFLECTOR_OUTPUT }
+  }
+  const data = envelope.data
+
+  const reflectionNodes: ReflectionNodeSpec[] = []
+  for (const raw of data.reflectionNodes) {
+    const result = reflectionNodeJsonSchema.safeParse(raw)
+    if (!result.success) {
+      console.warn(`[omg] Reflector parser: dropping reflection node — ${describeZodError(result.error)}`)
+      continue
+    }
+    const node = result.data
+    const id = node.id.trim()
+    const description = node.description.trim()
+    if (!isValidNodeId(id)) {
+      console.warn(`[omg] Reflector parser: dropping reflection node — invalid or missing id "${id}"`)
+      continue
+    }
+    if (!description) {
+      console.warn(`[omg] Reflector parser: dropping reflection node "${id}" — missing description`)
+      continue
+    }
+    const tags = node.tags.map((t) => t.trim()).filter((t) => t.length > 0)
+    if (tags.length < 10) {
+      console.warn(`[omg] Reflector parser: reflection node "${id}" has ${tags.length} tags (recommended minimum: 10)`)
+    }
+    reflectionNodes.push({
+      id,
+      description,
+      body: node.body.trim(),
+      tags,
+      sources: node.sources.map((s) => s.trim()).filter(isValidNodeId),
+      compressionLevel: isCompressionLevel(node.compressionLevel) ? node.compressionLevel : 0,
+    })
+  }
+
+  const archiveNodeIds: string[] = []
+  for (const raw of data.archiveNodes) {
+    const id = typeof raw === 'string' ? raw.trim() : ''
+    if (!isValidNodeId(id)) {
+      console.warn(`[omg] Reflector parser: dropping archive entry — invalid node ID "${id}"`)
+      continue
+    }
+    if (!archiveNodeIds.includes(id)) archiveNodeIds.push(id)
+  }
+
+  const mocUpdates: ReflectorMocUpdate[] = []
+  for (const raw of data.mocUpdates) {
+    const result = reflectorMocJsonSchema.safeParse(raw)
+    if (!result.success) {
+      console.warn(`[omg] Reflector parser: dropping moc entry — ${describeZodError(result.error)}`)
+      continue
+    }
+    const domain = result.data.domain.trim()
+    const nodeId = result.data.nodeId.trim()
+    if (!domain || !isValidNodeId(nodeId)) {
+      console.warn(`[omg] Reflector parser: dropping moc entry (domain="${domain}") — invalid domain or nodeId "${nodeId}"`)
+      continue
+    }
+    mocUpdates.push({ domain, nodeId, action: result.data.action })
+  }
+
+  const nodeUpdates: NodeUpdateEntry[] = []
+  for (const raw of data.nodeUpdates) {
+    const result = reflectorUpdateJsonSchema.safeParse(raw)
+    if (!result.success) {
+      console.warn(`[omg] Reflector parser: dropping update entry — ${describeZodError(result.error)}`)
+      continue
+    }
+    const targetId = result.data.targetId.trim()
+    if (!isValidNodeId(targetId)) {
+      console.warn(`[omg] Reflector parser: dropping update entry — invalid or missing targetId "${targetId}"`)
+      continue
+    }
+    nodeUpdates.push({ ...result.data, targetId, value: result.data.value.trim() })
+  }
+
+  return { reflectionNodes, archiveNodeIds, mocUpdates, nodeUpdates }
+}
+
 // ---------------------------------------------------------------------------
 // Main export
 // ---------------------------------------------------------------------------
 
 /**
  * Parses the raw Reflector LLM output string into a `ReflectorXmlOutput`.
+ * A JSON response (structured-output mode) is parsed without the XML step.
  *
  * Never throws. Returns `EMPTY_REFLECTOR_OUTPUT` when:
  *   - The input is empty or not a string.
@@ -291,6 +394,11 @@ export function parseReflectorOutput(raw: string): ReflectorXmlOutput {
     return { ...EMPTY_REFLECTOR_OUTPUT }
   }
 
+  const json = parseJsonResponse(raw)
+  if (json !== null) {
+    return parseReflectorJson(json)
+  }
+
   // Extract the XML block — the LLM may wrap it in ``` fences or add preamble text.
   const xmlMatch = raw.match(/<reflection[\s\S]*?<\/reflection>/)
   const xmlSource = xmlMatch ? xmlMatch[0] : raw.trim()
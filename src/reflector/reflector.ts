@@ -16,6 +16,8 @@ import type { LlmClient } from '../llm/client.js'
 import { buildReflectorSystemPrompt, buildReflectorUserPrompt, buildClusteredReflectorUserPrompt } from './prompts.js'
 import type { CompactNodePacket } from './compact-packet.js'
 import { parseReflectorOutput, type ReflectorXmlOutput } from './parser.js'
+import { REFLECTION_RESPONSE_SCHEMA } from './output-schema.js'
+import { withStructuredOutput } from '../llm/structured-output.js'
 import { writeReflectionNode, writeClusteredReflectionNode } from '../graph/node-writer.js'
 import { getRegistryEntry, updateRegistryEntry } from '../graph/registry.js'
 import { readGraphNode } from '../graph/node-reader.js'
@@ -295,7 +297,9 @@ export async function runReflection(params: ReflectionParams): Promise<Reflector
     let responseContent: string
     let responseTokens: number
     try {
-      const response = await llmClient.generate({ system, user, maxTokens: REFLECTOR_MAX_TOKENS })
+      const response = await llmClient.generate(
+        withStructuredOutput({ system, user, maxTokens: REFLECTOR_MAX_TOKENS }, REFLECTION_RESPONSE_SCHEMA, config.llm.structuredOutput),
+      )
       responseContent = response.content
       responseTokens = response.usage.inputTokens + response.usage.outputTokens
     } catch (err) {
@@ -358,6 +362,7 @@ export async function runReflection(params: ReflectionParams): Promise<Reflector
         tags: [...spec.tags],
         ...(spec.sources.length > 0 ? { links: spec.sources } : {}),
         compressionLevel: spec.compressionLevel,
+        ...(cluster && { timeRange: { start: cluster.timeRange.start, end: cluster.timeRange.end } }),
       }
 
       // Clustered mode: use deterministic domain-scoped paths
@@ -0,0 +1,383 @@
+/**
+ * omg-tools.ts — Agent-callable OMG tools.
+ *
+ * Gives the agent active access to the graph mid-turn, complementing the
+ * passive `<omg-context>` block injected by `before_prompt_build`:
+ *   - `omg_search`   — ranks registry entries with the same scoring as the context selector
+ *   - `omg_get`      — hydrates a single node (frontmatter + body) by ID
+ *   - `omg_remember` — writes an explicit memory through the observer's upsert path
+ *
+ * Tools never throw — failures are returned as error text so the agent can
+ * recover without aborting the turn.
+ */
+
+import { z } from 'zod'
+import type { OmgConfig } from '../config.js'
+import type { GraphNode, NodeType } from '../types.js'
+import { INFERABLE_NODE_TYPES } from '../types.js'
+import { getRegistryEntries, getRegistryEntry } from '../graph/registry.js'
+import type { RegistryNodeEntry } from '../graph/registry.js'
+import { readGraphNode } from '../graph/node-reader.js'
+import { writeObservationNode } from '../graph/node-writer.js'
+import { applyMocUpdate, mocGroupOf } from '../graph/moc-manager.js'
+import {
+  scoreRegistryEntries,
+  computeRegistryScore,
+  computeRegistryKeywordMatch,
+  buildHighDfTokens,
+  extractKeywords,
+} from '../context/selector.js'
+import { isVisibleToAgent, type AgentVisibility } from '../context/visibility.js'
+import { resolveOmgRoot, resolveMocPath } from '../utils/paths.js'
+import { slugify } from '../utils/id.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Text content block returned to the agent. */
+export interface OmgToolContent {
+  readonly type: 'text'
+  readonly text: string
+}
+
+/** Result shape expected by the OpenClaw agent tool runtime. */
+export interface OmgToolResult {
+  readonly content: readonly OmgToolContent[]
+  /** Structured payload for programmatic consumers (not shown to the model). */
+  readonly details?: unknown
+}
+
+/** A single agent tool definition as accepted by `api.registerTool`. */
+export interface OmgTool {
+  readonly name: string
+  readonly label: string
+  readonly description: string
+  /** JSON Schema describing the tool's input parameters. */
+  readonly parameters: Record<string, unknown>
+  execute(toolCallId: string, params: unknown): Promise<OmgToolResult>
+}
+
+/** Per-agent context used to resolve the graph the tools operate on. */
+export interface OmgToolsContext {
+  readonly workspaceDir: string
+  readonly config: OmgConfig
+  /** Session key recorded as the source of memories written via `omg_remember`. */
+  readonly sessionKey?: string
+  /**
+   * Agent calling the tools. `omg_remember` records it as the node's owner and
+   * `omg_search` hides nodes the `injection.agentVisibility` policy keeps from it.
+   */
+  readonly agentId?: string
+}
+
+/** A single ranked hit returned by {@link searchGraph}. */
+export interface OmgSearchHit {
+  readonly id: string
+  readonly type: NodeType
+  readonly priority: string
+  readonly description: string
+  readonly updated: string
+  readonly score: number
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const OMG_TOOL_NAMES = ['omg_search', 'omg_get', 'omg_remember'] as const
+
+const DEFAULT_SEARCH_LIMIT = 10
+const MAX_SEARCH_LIMIT = 50
+
+/** Below this many candidates, high-document-frequency stopwording is skipped. */
+const MIN_ENTRIES_FOR_DF_FILTER = 10
+
+/** Node types never surfaced by `omg_search` — structural, not knowledge. */
+const SEARCH_EXCLUDED_TYPES: ReadonlySet<string> = new Set(['moc', 'index', 'now'])
+
+// ---------------------------------------------------------------------------
+// Input schemas
+// ---------------------------------------------------------------------------
+
+const searchInputSchema = z.object({
+  query: z.string().trim().min(1, 'query must not be empty'),
+  limit: z.number().int().min(1).max(MAX_SEARCH_LIMIT).optional(),
+  type: z.enum(INFERABLE_NODE_TYPES).optional(),
+})
+
+const getInputSchema = z.object({
+  id: z.string().trim().min(1, 'id must not be empty'),
+})
+
+const rememberInputSchema = z.object({
+  type: z.enum(INFERABLE_NODE_TYPES),
+  description: z.string().trim().min(1, 'description must not be empty'),
+  content: z.string().trim().min(1, 'content must not be empty'),
+  canonicalKey: z.string().trim().min(1).optional(),
+  priority: z.enum(['high', 'medium', 'low']).optional(),
+  tags: z.array(z.string()).optional(),
+  mocHints: z.array(z.string()).optional(),
+})
+
+// ---------------------------------------------------------------------------
+// Core operations
+// ---------------------------------------------------------------------------
+
+/**
+ * Searches the registry for nodes matching `query`.
+ *
+ * Uses the context selector's registry scoring (priority × recency ×
+ * description/tags/canonicalKey keyword match). Only entries with at least
+ * one keyword hit are returned; archived and structural nodes are excluded,
+ * as are nodes `options.visibility` hides from `options.agentId`.
+ */
+export async function searchGraph(
+  omgRoot: string,
+  query: string,
+  options: {
+    readonly limit?: number
+    readonly type?: NodeType
+    readonly agentId?: string
+    readonly visibility?: AgentVisibility
+  } = {}
+): Promise<readonly OmgSearchHit[]> {
+  const entries = await getRegistryEntries(omgRoot, {
+    archived: false,
+    ...(options.type !== undefined ? { type: options.type } : {}),
+  })
+  const visibility = options.visibility ?? 'shared'
+  const candidates = entries.filter(([, e]) =>
+    !SEARCH_EXCLUDED_TYPES.has(e.type) && isVisibleToAgent(e, options.agentId, visibility)
+  )
+
+  // High-DF filtering drops noise terms on large graphs, but on small graphs
+  // nearly every token is "high-DF" — use the plain stopword list there.
+  const keywords = extractKeywords(
+    [{ role: 'user', content: query }],
+    candidates.length >= MIN_ENTRIES_FOR_DF_FILTER ? buildHighDfTokens(candidates) : undefined
+  )
+  if (keywords.size === 0) return []
+
+  const matching = candidates.filter(([, e]) => computeRegistryKeywordMatch(e, keywords) > 1.0)
+  const limit = options.limit ?? DEFAULT_SEARCH_LIMIT
+
+  return scoreRegistryEntries(matching, keywords)
+    .slice(0, limit)
+    .map(([id, e]) => toSearchHit(id, e, keywords))
+}
+
+/**
+ * Resolves a node ID through the registry and reads the node from disk.
+ * Returns null when the ID is unknown, the file is missing/invalid, or
+ * `options.visibility` hides the node from `options.agentId`.
+ */
+export async function getGraphNode(
+  omgRoot: string,
+  nodeId: string,
+  options: {
+    readonly agentId?: string
+    readonly visibility?: AgentVisibility
+  } = {}
+): Promise<GraphNode | null> {
+  const entry = await getRegistryEntry(omgRoot, nodeId)
+  if (!entry) return null
+  if (!isVisibleToAgent(entry, options.agentId, options.visibility ?? 'shared')) return null
+  return readGraphNode(entry.filePath)
+}
+
+/**
+ * Derives a deterministic canonical key from type and description, e.g.
+ * `('preference', 'Editor theme')` → `'preference.editor_theme'`.
+ * Re-remembering the same description therefore updates the same node.
+ */
+export function deriveCanonicalKey(type: NodeType, description: string): string {
+  const slug = slugify(description).replace(/-/g, '_')
+  if (slug === '') {
+    throw new Error(`Cannot derive canonicalKey: description "${description}" produces an empty slug`)
+  }
+  return `${type}.${slug}`
+}
+
+// ---------------------------------------------------------------------------
+// Tool factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Creates the `omg_search`, `omg_get`, and `omg_remember` tool definitions
+ * bound to the graph for `ctx.workspaceDir`.
+ */
+export function createOmgTools(ctx: OmgToolsContext): readonly OmgTool[] {
+  const omgRoot = resolveOmgRoot(ctx.workspaceDir, ctx.config)
+  const scope = ctx.config.scope ?? ctx.workspaceDir
+
+  const omgSearch: OmgTool = {
+    name: 'omg_search',
+    label: 'OMG Search',
+    description:
+      'Search the long-term memory graph for nodes relevant to a query. ' +
+      'Returns node IDs with descriptions; use omg_get to read a node in full.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords describing what to look for.' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_SEARCH_LIMIT, description: 'Maximum results (default 10).' },
+        type: { type: 'string', enum: [...INFERABLE_NODE_TYPES], description: 'Restrict results to one node type.' },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+    async execute(_toolCallId, params) {
+      const parsed = searchInputSchema.safeParse(params)
+      if (!parsed.success) return errorResult('omg_search', parsed.error.issues[0]?.message ?? 'invalid input')
+      try {
+        const hits = await searchGraph(omgRoot, parsed.data.query, {
+          limit: parsed.data.limit,
+          type: parsed.data.type,
+          ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}),
+          visibility: ctx.config.injection.agentVisibility,
+        })
+        if (hits.length === 0) {
+          return textResult(`No memory nodes matched "${parsed.data.query}".`, { hits })
+        }
+        const lines = hits.map((h) => `- ${h.id} [${h.type}, ${h.priority}] ${h.description}`)
+        return textResult(`Found ${hits.length} node(s):\n${lines.join('\n')}`, { hits })
+      } catch (err) {
+        return errorResult('omg_search', err)
+      }
+    },
+  }
+
+  const omgGet: OmgTool = {
+    name: 'omg_get',
+    label: 'OMG Get',
+    description: 'Read a single memory graph node in full by its ID (e.g. "omg/preference/editor-theme").',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Node ID as returned by omg_search.' },
+      },
+      required: ['id'],
+      additionalProperties: false,
+    },
+    async execute(_toolCallId, params) {
+      const parsed = getInputSchema.safeParse(params)
+      if (!parsed.success) return errorResult('omg_get', parsed.error.issues[0]?.message ?? 'invalid input')
+      try {
+        const node = await getGraphNode(omgRoot, parsed.data.id, {
+          ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}),
+          visibility: ctx.config.injection.agentVisibility,
+        })
+        if (!node) return textResult(`Memory node "${parsed.data.id}" was not found.`, { node: null })
+        const fm = node.frontmatter
+        const text = [
+          `### ${fm.description}`,
+          `<!-- ${fm.id} | ${fm.type} | ${fm.priority} | updated ${fm.updated}${fm.archived ? ' | archived' : ''} -->`,
+          ...(fm.tags && fm.tags.length > 0 ? [`Tags: ${fm.tags.join(', ')}`] : []),
+          ...(fm.links && fm.links.length > 0 ? [`Links: ${fm.links.join(', ')}`] : []),
+          '',
+          node.body.trim(),
+        ].join('\n')
+        return textResult(text, { node: { frontmatter: fm, body: node.body } })
+      } catch (err) {
+        return errorResult('omg_get', err)
+      }
+    },
+  }
+
+  const omgRemember: OmgTool = {
+    name: 'omg_remember',
+    label: 'OMG Remember',
+    description:
+      'Explicitly record a durable memory (identity, preference, project, decision, fact, or episode). ' +
+      'Remembering the same canonicalKey again updates the existing node instead of creating a duplicate.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: [...INFERABLE_NODE_TYPES], description: 'Kind of memory.' },
+        description: { type: 'string', description: 'One-line summary of the memory.' },
+        content: { type: 'string', description: 'Full markdown content to store.' },
+        canonicalKey: {
+          type: 'string',
+          description: 'Stable dotted key (e.g. "preferences.editor_theme"). Derived from type + description when omitted.',
+        },
+        priority: { type: 'string', enum: ['high', 'medium', 'low'], description: 'Defaults to medium.' },
+        tags: { type: 'array', items: { type: 'string' } },
+        mocHints: { type: 'array', items: { type: 'string' }, description: 'MOC domains to file the node under.' },
+      },
+      required: ['type', 'description', 'content'],
+      additionalProperties: false,
+    },
+    async execute(_toolCallId, params) {
+      const parsed = rememberInputSchema.safeParse(params)
+      if (!parsed.success) return errorResult('omg_remember', parsed.error.issues[0]?.message ?? 'invalid input')
+      const input = parsed.data
+      try {
+        const canonicalKey = input.canonicalKey ?? deriveCanonicalKey(input.type, input.description)
+        const node = await writeObservationNode(
+          {
+            kind: 'upsert',
+            canonicalKey,
+            type: input.type,
+            title: input.description,
+            description: input.description,
+            body: input.content,
+            priority: input.priority ?? 'medium',
+            ...(input.mocHints && input.mocHints.length > 0 ? { mocHints: input.mocHints } : {}),
+            ...(input.tags && input.tags.length > 0 ? { tags: input.tags } : {}),
+          },
+          { omgRoot, sessionKey: ctx.sessionKey ?? 'omg_remember', scope, ...(ctx.agentId !== undefined ? { agentId: ctx.agentId } : {}) }
+        )
+
+        for (const domain of input.mocHints ?? []) {
+          try {
+            await applyMocUpdate(resolveMocPath(omgRoot, domain), {
+              action: 'add',
+              nodeId: node.frontmatter.id,
+              description: node.frontmatter.description,
+              group: mocGroupOf(node.frontmatter, domain),
+            })
+          } catch (err) {
+            console.error(`[omg] omg_remember: MOC update failed for domain "${domain}":`, err)
+          }
+        }
+
+        return textResult(`Remembered as ${node.frontmatter.id} (canonicalKey: ${canonicalKey}).`, {
+          id: node.frontmatter.id,
+          canonicalKey,
+        })
+      } catch (err) {
+        return errorResult('omg_remember', err)
+      }
+    },
+  }
+
+  return [omgSearch, omgGet, omgRemember]
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toSearchHit(id: string, entry: RegistryNodeEntry, keywords: ReadonlySet<string>): OmgSearchHit {
+  return {
+    id,
+    type: entry.type,
+    priority: entry.priority,
+    description: entry.description,
+    updated: entry.updated,
+    score: computeRegistryScore(entry, keywords),
+  }
+}
+
+function textResult(text: string, details?: unknown): OmgToolResult {
+  return { content: [{ type: 'text', text }], ...(details !== undefined ? { details } : {}) }
+}
+
+function errorResult(toolName: string, err: unknown): OmgToolResult {
+  const message = err instanceof Error ? err.message : String(err)
+  if (err instanceof Error) {
+    console.error(`[omg] ${toolName}: failed:`, err)
+  }
+  return { content: [{ type: 'text', text: `${toolName} failed: ${message}` }], details: { error: message } }
+}
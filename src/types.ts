@@ -138,6 +138,20 @@ export function isCompressionLevel(v: unknown): v is CompressionLevel {
   return typeof v === 'number' && (COMPRESSION_LEVELS as readonly number[]).includes(v)
 }
 
+/**
+ * Rollup levels of the reflection hierarchy, finest first. Clustered
+ * reflections (no level) roll into weekly ones, weeklies into monthly,
+ * monthlies into yearly.
+ */
+export const REFLECTION_LEVELS = ['weekly', 'monthly', 'yearly'] as const
+
+export type ReflectionLevel = typeof REFLECTION_LEVELS[number]
+
+/** Position of a reflection in the hierarchy: 0 for clustered reflections, 1–3 for rollups. */
+export function reflectionLevelRank(level: ReflectionLevel | undefined): number {
+  return level === undefined ? 0 : REFLECTION_LEVELS.indexOf(level) + 1
+}
+
 // ---------------------------------------------------------------------------
 // Node Frontmatter
 // ---------------------------------------------------------------------------
@@ -146,7 +160,10 @@ export function isCompressionLevel(v: unknown): v is CompressionLevel {
 export interface NodeSource {
   /** Identifier of the conversation session that produced this observation. */
   readonly sessionKey: string
-  /** Category of message that produced this observation (e.g. "user", "assistant"). */
+  /**
+   * Category of message that produced this observation (e.g. "user",
+   * "assistant"), or `tool:<name>` for facts mined from a tool result.
+   */
   readonly kind: string
   /** Unix epoch timestamp (ms) of the source message. */
   readonly timestamp: number
@@ -196,6 +213,16 @@ export interface NodeFrontmatter {
   readonly mergedInto?: string
   /** IDs of nodes that were merged into this node (provenance trail). Append-only. */
   readonly mergedFrom?: readonly string[]
+  /** ISO 8601 instant from which the node's content holds. Absent = valid since creation. */
+  readonly validFrom?: string
+  /** ISO 8601 instant after which the node's content no longer holds. Absent = open-ended. */
+  readonly validUntil?: string
+  /** IDs of the agents that wrote this node. Absent = shared workspace knowledge (e.g. bootstrap). */
+  readonly agents?: readonly string[]
+  /** Hierarchy level of a reflection rollup; absent on clustered reflections and other nodes. */
+  readonly reflectionLevel?: ReflectionLevel
+  /** ISO 8601 span of the observations a reflection covers. */
+  readonly timeRange?: { readonly start: string; readonly end: string }
 }
 
 // ---------------------------------------------------------------------------
@@ -263,6 +290,14 @@ export type ObserverOperation =
       /** canonicalKeys of related nodes to link to. */
       readonly linkKeys?: readonly string[]
       readonly tags?: readonly string[]
+      /** Start of the validity window (ISO 8601), for time-bounded facts. */
+      readonly validFrom?: string
+      /** End of the validity window (ISO 8601); the node is archived once it passes. */
+      readonly validUntil?: string
+      /** IDs of nodes this write replaces (set by the contradiction check). */
+      readonly supersedes?: readonly string[]
+      /** Tool whose output the fact came from; recorded in `sources` as `tool:<name>`. */
+      readonly sourceTool?: string
     }
 
 /** Convenience union of all valid Observer action kinds. */
@@ -513,6 +548,13 @@ export interface GraphContextSlice {
   readonly nodes: readonly GraphNode[]
   /** The [[omg/now]] node, if present. */
   readonly nowNode: GraphNode | null
+  /**
+   * Mid-ranked nodes rendered as description plus wikilink only (graded disclosure).
+   * Absent or empty when every selected node fits in full.
+   */
+  readonly summaryNodes?: readonly GraphNode[]
+  /** Tail nodes rendered as a wikilink outline grouped by type (graded disclosure). */
+  readonly outlineNodes?: readonly GraphNode[]
   /** Estimated token count for this slice. An approximation — not a hard guarantee. */
   readonly estimatedTokens: number
 }
@@ -536,6 +578,8 @@ export interface WriteContext {
    * Defaults to omgRoot when not provided.
    */
   readonly scope?: string
+  /** Agent writing the node; added to the node's `agents` ownership list. */
+  readonly agentId?: string
 }
 
 /**
@@ -562,6 +606,13 @@ export interface MocUpdateEntry {
   readonly action: 'add' | 'remove'
   /** Wikilink target to add or remove (e.g. "omg/identity/preferred-name-2026-02-20"). */
   readonly nodeId: string
+  /** Node description, shown next to an added wikilink. */
+  readonly description?: string
+  /**
+   * MOC sub-section an added wikilink belongs under (see `mocGroupOf` in
+   * graph/moc-manager.ts). When omitted it goes under "Other".
+   */
+  readonly group?: string
 }
 
 /**
@@ -598,6 +649,12 @@ export interface ExtractCandidate {
   readonly mocHints?: readonly string[]
   readonly linkKeys?: readonly string[]
   readonly tags?: readonly string[]
+  /** Start of the validity window (ISO 8601). */
+  readonly validFrom?: string
+  /** End of the validity window (ISO 8601). */
+  readonly validUntil?: string
+  /** Tool whose call or result the fact was mined from. */
+  readonly sourceTool?: string
 }
 
 /**
@@ -640,6 +697,17 @@ export type MergeAction =
   | { readonly action: 'merge'; readonly targetNodeId: string; readonly bodyAppend?: string }
   | { readonly action: 'alias'; readonly targetNodeId: string; readonly aliasKey: string }
 
+/**
+ * Verdict returned by the Contradiction check for a single candidate.
+ *
+ * - `none`       — the candidate contradicts no existing node (default)
+ * - `supersedes` — the candidate replaces the contradicted target node
+ * - `unresolved` — the candidate contradicts the target but neither clearly wins
+ */
+export type ContradictionVerdict =
+  | { readonly verdict: 'none' }
+  | { readonly verdict: 'supersedes' | 'unresolved'; readonly targetNodeId: string; readonly reason: string }
+
 /** A scored existing node considered as a merge target for an ExtractCandidate. */
 export interface ScoredMergeTarget {
   readonly nodeId: string
@@ -666,6 +734,9 @@ export function candidateToUpsertOperation(candidate: ExtractCandidate): Observe
     ...(candidate.mocHints && candidate.mocHints.length > 0 ? { mocHints: candidate.mocHints } : {}),
     ...(candidate.linkKeys && candidate.linkKeys.length > 0 ? { linkKeys: candidate.linkKeys } : {}),
     ...(candidate.tags && candidate.tags.length > 0 ? { tags: candidate.tags } : {}),
+    ...(candidate.validFrom !== undefined ? { validFrom: candidate.validFrom } : {}),
+    ...(candidate.validUntil !== undefined ? { validUntil: candidate.validUntil } : {}),
+    ...(candidate.sourceTool !== undefined ? { sourceTool: candidate.sourceTool } : {}),
   }
 }
 
@@ -687,8 +758,11 @@ export interface NodeIndexEntry {
  * A single conversation message to be observed.
  */
 export interface Message {
-  readonly role: 'user' | 'assistant'
+  /** `tool` marks a tool call or tool result; see {@link Message.toolName}. */
+  readonly role: 'user' | 'assistant' | 'tool'
   readonly content: string
+  /** Name of the tool that was called. Set only when `role` is `tool`. */
+  readonly toolName?: string
 }
 
 /**
@@ -1,4 +1,5 @@
 import { promises as fs } from 'node:fs'
+import { AsyncLocalStorage } from 'node:async_hooks'
 import { dirname, join } from 'node:path'
 import { randomBytes } from 'node:crypto'
 
@@ -26,6 +27,24 @@ export async function readFileOrNull(filePath: string): Promise<string | null> {
   }
 }
 
+/**
+ * Called with the target path before {@link atomicWrite} replaces a file.
+ * Must not throw; the write waits for it to settle.
+ */
+export type WriteObserver = (filePath: string) => Promise<void>
+
+/** Observers of the current async call chain, innermost last. */
+const writeObservers = new AsyncLocalStorage<readonly WriteObserver[]>()
+
+/**
+ * Runs `fn` with `observer` called before every {@link atomicWrite} made
+ * within its async call chain. Writes from concurrent callers outside that
+ * chain are not observed.
+ */
+export function observeWrites<T>(observer: WriteObserver, fn: () => Promise<T>): Promise<T> {
+  return writeObservers.run([...(writeObservers.getStore() ?? []), observer], fn)
+}
+
 /**
  * Writes content to a temporary file in the same directory as filePath,
  * then atomically renames it to filePath. Prevents partial writes from
@@ -40,6 +59,10 @@ export async function atomicWrite(filePath: string, content: string): Promise<vo
   const tmpName = `.tmp-${randomBytes(6).toString('hex')}`
   const tmpPath = join(dir, tmpName)
 
+  for (const observer of writeObservers.getStore() ?? []) {
+    await observer(filePath)
+  }
+
   try {
     await fs.writeFile(tmpPath, content, 'utf-8')
     await fs.rename(tmpPath, filePath)
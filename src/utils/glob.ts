@@ -0,0 +1,41 @@
+/**
+ * Minimal glob matching for POSIX-style relative paths.
+ *
+ * Supports `**` (any number of path segments, including none), `*` (any run
+ * of characters within a segment) and `?` (one character within a segment).
+ * A pattern without `/` is matched against the file name at any depth.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern.includes('/') ? pattern : `**/${pattern}`
+  let re = ''
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]!
+    if (ch === '*') {
+      if (source[i + 1] === '*') {
+        const atSegmentEnd = source[i + 2] === '/'
+        re += atSegmentEnd ? '(?:.*/)?' : '.*'
+        i += atSegmentEnd ? 2 : 1
+      } else {
+        re += '[^/]*'
+      }
+    } else if (ch === '?') {
+      re += '[^/]'
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+/**
+ * Returns true when `relPath` matches at least one `include` glob and no
+ * `exclude` glob.
+ */
+export function matchesGlobs(
+  relPath: string,
+  include: readonly string[],
+  exclude: readonly string[]
+): boolean {
+  const matches = (pattern: string): boolean => globToRegExp(pattern).test(relPath)
+  return include.some(matches) && !exclude.some(matches)
+}
@@ -22,16 +22,41 @@ export function extractWikilinks(content: string): string[] {
 }
 
 /**
- * Appends `- [[target]]` on a new line if not already present.
- * Idempotent: if target already present, returns content unchanged.
+ * Returns true when `line` is the list entry for `target`: `- [[target]]`,
+ * optionally followed by an annotation (`- [[target]] — description`).
  */
-export function insertWikilink(content: string, target: string): string {
+export function isWikilinkLine(line: string, target: string): boolean {
   const linkLine = `- [[${target}]]`
+  return line === linkLine || line.startsWith(`${linkLine} `)
+}
+
+/**
+ * Collapses an annotation to a single line so it cannot break the list.
+ */
+function toSingleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Formats the list entry for `target`, annotated when `annotation` is non-empty:
+ * `- [[target]] — annotation`.
+ */
+export function formatWikilinkLine(target: string, annotation?: string): string {
+  const note = annotation !== undefined ? toSingleLine(annotation) : ''
+  return note.length > 0 ? `- [[${target}]] — ${note}` : `- [[${target}]]`
+}
 
-  if (content.includes(linkLine)) {
+/**
+ * Appends the list entry for `target` (see {@link formatWikilinkLine}) on a
+ * new line if not already present.
+ * Idempotent: if target already has an entry, annotated or not, returns content unchanged.
+ */
+export function insertWikilink(content: string, target: string, annotation?: string): string {
+  if (content.split('\n').some((line) => isWikilinkLine(line, target))) {
     return content
   }
 
+  const linkLine = formatWikilinkLine(target, annotation)
   if (content === '') {
     return linkLine
   }
@@ -41,17 +66,11 @@ export function insertWikilink(content: string, target: string): string {
 }
 
 /**
- * Removes the line `- [[target]]` from content.
+ * Removes the list entry for `target`, annotated or not.
  * If not present, returns content unchanged.
  */
 export function removeWikilink(content: string, target: string): string {
-  const linkLine = `- [[${target}]]`
-
-  if (!content.includes(linkLine)) {
-    return content
-  }
-
   const lines = content.split('\n')
-  const filtered = lines.filter((line) => line !== linkLine)
-  return filtered.join('\n')
+  const filtered = lines.filter((line) => !isWikilinkLine(line, target))
+  return filtered.length === lines.length ? content : filtered.join('\n')
 }
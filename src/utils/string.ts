@@ -4,3 +4,20 @@
 export function capitalise(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1)
 }
+
+/**
+ * Language-agnostic diacritics removal via Unicode NFKD decomposition.
+ * Also handles non-decomposable stroke characters (ł→l, đ→d, ø→o, etc.)
+ * that NFKD doesn't split into base + combining mark.
+ */
+export function fold(s: string): string {
+  return s
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .replace(/ł/g, 'l')
+    .replace(/đ/g, 'd')
+    .replace(/ø/g, 'o')
+    .replace(/ħ/g, 'h')
+    .replace(/ŧ/g, 't')
+}
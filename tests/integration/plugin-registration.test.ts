@@ -35,7 +35,8 @@ vi.mock('../../src/hooks/before-compaction.js', () => ({
 vi.mock('../../src/hooks/tool-result-persist.js', () => ({
   toolResultPersist: vi.fn().mockReturnValue(undefined),
 }))
-vi.mock('../../src/llm/client.js', () => ({
+vi.mock('../../src/llm/client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/llm/client.js')>()),
   createLlmClient: vi.fn().mockReturnValue({ generate: vi.fn() }),
 }))
 vi.mock('../../src/cron/register.js', () => ({
@@ -178,7 +179,21 @@ describe('plugin.register — registerCli', () => {
   it('calls registerCli when it is a function', () => {
     const api = makeMockApi()
     plugin.register(api)
-    expect(api.registerCli).toHaveBeenCalledTimes(2)
+    expect(api.registerCli).toHaveBeenCalledTimes(3)
+  })
+
+  it('registers the graph inspection commands together', () => {
+    const api = makeMockApi()
+    plugin.register(api)
+    expect(api.registerCli).toHaveBeenCalledWith(
+      expect.any(Function),
+      {
+        commands: [
+          'omg status', 'omg search', 'omg show', 'omg archive', 'omg restore', 'omg reindex', 'omg usage',
+          'omg dedup review', 'omg dedup apply', 'omg dedup unmerge', 'omg export', 'omg import', 'omg rollback',
+        ],
+      }
+    )
   })
 
   it('passes commands: ["omg bootstrap"] to registerCli', () => {
@@ -250,9 +265,10 @@ describe('plugin.register — before_prompt_build scaffold + safety net', () =>
     expect(runBootstrapTick).not.toHaveBeenCalled()
   })
 
-  it('calls runBootstrapTick as safety net when scheduleCron is unavailable', async () => {
+  it('calls runBootstrapTick as safety net once the user goes idle when scheduleCron is unavailable', async () => {
     const { runBootstrapTick } = await import('../../src/bootstrap/bootstrap.js')
     vi.mocked(runBootstrapTick as ReturnType<typeof vi.fn>).mockClear()
+    vi.useFakeTimers()
 
     const api = makeMockApi()
     // Remove scheduleCron to simulate old host
@@ -268,6 +284,11 @@ describe('plugin.register — before_prompt_build scaffold + safety net', () =>
     await handler!({ prompt: 'hello' }, { sessionKey: 'sess-1' })
     // Give fire-and-forget microtasks to run
     for (let i = 0; i < 10; i++) await Promise.resolve()
+    expect(runBootstrapTick).not.toHaveBeenCalled()
+
+    // llm.scheduler.backgroundIdleMs defaults to one minute
+    await vi.advanceTimersByTimeAsync(60_000)
+    vi.useRealTimers()
 
     expect(runBootstrapTick).toHaveBeenCalledOnce()
   })
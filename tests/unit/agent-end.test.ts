@@ -182,6 +182,168 @@ describe('agentEnd — observation with node output', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// agentEnd — contradiction check
+// ---------------------------------------------------------------------------
+
+describe('agentEnd — contradiction check', () => {
+  const EXTRACT_XML = `<observations>
+<operations>
+<operation type="preference" priority="high">
+  <canonical-key>preferences.indentation_spaces</canonical-key>
+  <title>Indentation Spaces</title>
+  <description>Indentation preference: prefers spaces over tabs</description>
+  <content>Switched to spaces after joining the new team.</content>
+</operation>
+</operations>
+</observations>`
+
+  beforeEach(() => {
+    vol.fromJSON({
+      [`${OMG_ROOT}/nodes/preference/preferences-indentation-tabs.md`]: `---
+id: omg/preference/preferences-indentation-tabs
+description: "Indentation preference: prefers tabs over spaces"
+type: preference
+priority: high
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-01T00:00:00Z
+canonicalKey: preferences.indentation_tabs
+---
+Uses tabs everywhere.`,
+    })
+  })
+
+  function makeSequencedClient(decision: string): LlmClient {
+    return {
+      generate: vi.fn()
+        .mockResolvedValue({ content: '<merge-decision action="keep_separate" />', usage: { inputTokens: 10, outputTokens: 5 } })
+        .mockResolvedValueOnce({ content: EXTRACT_XML, usage: { inputTokens: 100, outputTokens: 50 } })
+        .mockResolvedValueOnce({ content: decision, usage: { inputTokens: 50, outputTokens: 20 } }),
+    }
+  }
+
+  it('supersedes and archives the contradicted node', async () => {
+    const config = parseConfig({ observation: { triggerMode: 'every-turn' } })
+    const llmClient = makeSequencedClient(
+      '<contradiction-decision verdict="supersedes" target-node-id="omg/preference/preferences-indentation-tabs"><reason>Switched teams.</reason></contradiction-decision>'
+    )
+
+    await agentEnd(
+      { success: true },
+      { workspaceDir: WORKSPACE, sessionKey: SESSION_KEY, messages: makeMessages(2), config, llmClient }
+    )
+
+    const { fs } = await import('memfs')
+    const newNode = fs.readFileSync(`${OMG_ROOT}/nodes/preference/preferences-indentation-spaces.md`, 'utf-8') as string
+    expect(newNode).toContain('omg/preference/preferences-indentation-tabs')
+    expect(newNode).toMatch(/supersedes:/)
+    const oldNode = fs.readFileSync(`${OMG_ROOT}/nodes/preference/preferences-indentation-tabs.md`, 'utf-8') as string
+    expect(oldNode).toContain('archived: true')
+
+    const { readConflicts } = await import('../../src/observer/conflicts.js')
+    expect(await readConflicts(OMG_ROOT)).toEqual([
+      expect.objectContaining({ resolution: 'superseded', existingNodeId: 'omg/preference/preferences-indentation-tabs' }),
+    ])
+  })
+
+  it("does not supersede another agent's private node", async () => {
+    const tabsPath = `${OMG_ROOT}/nodes/preference/preferences-indentation-tabs.md`
+    const { fs } = await import('memfs')
+    const owned = (fs.readFileSync(tabsPath, 'utf-8') as string).replace('canonicalKey:', 'agents: [agent-b]\ncanonicalKey:')
+    vol.writeFileSync(tabsPath, owned)
+    const config = parseConfig({ observation: { triggerMode: 'every-turn' }, injection: { agentVisibility: 'private' } })
+    const llmClient = makeSequencedClient(
+      '<contradiction-decision verdict="supersedes" target-node-id="omg/preference/preferences-indentation-tabs"><reason>Switched teams.</reason></contradiction-decision>'
+    )
+
+    await agentEnd(
+      { success: true },
+      { workspaceDir: WORKSPACE, sessionKey: SESSION_KEY, messages: makeMessages(2), config, llmClient, agentId: 'agent-a' }
+    )
+
+    expect(fs.readFileSync(tabsPath, 'utf-8')).toBe(owned)
+    const prompts = vi.mocked(llmClient.generate).mock.calls.map(([params]) => params.user)
+    expect(prompts.some((p) => p.includes('Uses tabs everywhere.'))).toBe(false)
+  })
+
+  it('queues unresolved contradictions and keeps both nodes', async () => {
+    const config = parseConfig({ observation: { triggerMode: 'every-turn' } })
+    const llmClient = makeSequencedClient(
+      '<contradiction-decision verdict="unresolved" target-node-id="omg/preference/preferences-indentation-tabs"><reason>Unclear.</reason></contradiction-decision>'
+    )
+
+    await agentEnd(
+      { success: true },
+      { workspaceDir: WORKSPACE, sessionKey: SESSION_KEY, messages: makeMessages(2), config, llmClient }
+    )
+
+    const { fs } = await import('memfs')
+    const oldNode = fs.readFileSync(`${OMG_ROOT}/nodes/preference/preferences-indentation-tabs.md`, 'utf-8') as string
+    expect(oldNode).not.toContain('archived: true')
+
+    const { readConflicts } = await import('../../src/observer/conflicts.js')
+    expect(await readConflicts(OMG_ROOT)).toEqual([
+      expect.objectContaining({ resolution: 'unresolved', reason: 'Unclear.' }),
+    ])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// agentEnd — merge targets respect agent visibility
+// ---------------------------------------------------------------------------
+
+describe('agentEnd — merge visibility', () => {
+  it("does not merge into another agent's private node", async () => {
+    const themePath = `${OMG_ROOT}/nodes/preference/preferences-editor-theme-dark.md`
+    const owned = `---
+id: omg/preference/preferences-editor-theme-dark
+description: "Editor theme: prefers a dark editor theme"
+type: preference
+priority: medium
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-01T00:00:00Z
+agents: [agent-b]
+canonicalKey: preferences.editor_theme_dark
+---
+Dark theme everywhere.`
+    vol.fromJSON({ [themePath]: owned })
+    const config = parseConfig({
+      observation: { triggerMode: 'every-turn' },
+      injection: { agentVisibility: 'private' },
+      merge: { contradictionCheck: false, mergeThreshold: 0 },
+    })
+    const llmClient: LlmClient = {
+      generate: vi.fn()
+        .mockResolvedValue({
+          content: '<merge-decision action="merge" target-node-id="omg/preference/preferences-editor-theme-dark"><body-append>Also in the terminal.</body-append></merge-decision>',
+          usage: { inputTokens: 10, outputTokens: 5 },
+        })
+        .mockResolvedValueOnce({
+          content: `<observations>
+<operations>
+<operation type="preference" priority="medium">
+  <canonical-key>preferences.editor_theme</canonical-key>
+  <title>Editor Theme</title>
+  <description>Editor theme: prefers a dark editor theme</description>
+  <content>Dark theme in the terminal too.</content>
+</operation>
+</operations>
+</observations>`,
+          usage: { inputTokens: 100, outputTokens: 50 },
+        }),
+    }
+
+    await agentEnd(
+      { success: true },
+      { workspaceDir: WORKSPACE, sessionKey: SESSION_KEY, messages: makeMessages(2), config, llmClient, agentId: 'agent-a' }
+    )
+
+    const { fs } = await import('memfs')
+    expect(fs.readFileSync(themePath, 'utf-8')).toBe(owned)
+    expect(fs.existsSync(`${OMG_ROOT}/nodes/preference/preferences-editor-theme.md`)).toBe(true)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // agentEnd — MOC update via links (not tags)
 // ---------------------------------------------------------------------------
@@ -122,6 +122,7 @@ function makeCompletedState(overrides: Partial<BootstrapState> = {}): BootstrapS
     done: [],
     lastError: null,
     maintenanceDone: false,
+    incrementalSources: null,
     ...overrides,
   }
 }
@@ -243,6 +244,21 @@ describe('runBootstrap — source selection', () => {
     // No log files exist, so observer should not be called
     expect(runObservation).not.toHaveBeenCalled()
   })
+
+  it('ingests configured source adapters alongside the built-in sources', async () => {
+    vol.fromJSON({
+      '/home/user/Vault/Travel.md': '# Travel\n\nPrefers window seats.',
+      '/workspace/memory/omg/nodes/.keep': '',
+    })
+    const adapterConfig = parseConfig({
+      bootstrap: { sources: { adapters: [{ kind: 'markdown-dir', path: '~/Vault' }] } },
+    })
+
+    await runBootstrap(makeBootstrapParams({ config: adapterConfig }))
+
+    const messages = JSON.stringify(vi.mocked(runObservation).mock.calls[0]?.[0].unobservedMessages)
+    expect(messages).toContain('Vault:Travel.md')
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -784,6 +800,23 @@ describe('runBootstrapTick', () => {
     expect(result.moreWorkRemains).toBe(false)
   })
 
+  it('defers without calling the LLM once the daily token budget is spent', async () => {
+    vol.fromJSON({
+      '/workspace/memory/file1.md': '# File 1\n\nContent for file 1.',
+      [`${OMG_ROOT}/.usage-ledger.jsonl`]: JSON.stringify({
+        timestamp: new Date().toISOString(), pipeline: 'bootstrap', model: 'm', inputTokens: 600, outputTokens: 400,
+      }) + '\n',
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const budgetConfig = parseConfig({ llm: { dailyTokenBudget: 1000 } })
+    const result = await runBootstrapTick(makeBootstrapParams({ config: budgetConfig, source: 'memory' }))
+
+    expect(result.ran).toBe(false)
+    expect(runObservation).not.toHaveBeenCalled()
+    expect(vol.existsSync(STATE_PATH)).toBe(false)
+  })
+
   it('processes only batchBudgetPerRun batches when more exist', async () => {
     // Create enough files to produce multiple batches (one per chunk with budget=0)
     vol.fromJSON({
@@ -909,6 +942,74 @@ describe('runBootstrapTick', () => {
 // runBootstrap — unchanged behavior (full run, no maxBatches)
 // ---------------------------------------------------------------------------
 
+describe('runBootstrapTick — incremental', () => {
+  const tickConfig = parseConfig({ bootstrap: { batchCharBudget: 0 } })
+
+  it('ingests only sources added or changed since the last run', async () => {
+    vol.fromJSON({
+      '/workspace/memory/file1.md': '# File 1\n\nContent for file 1.',
+      '/workspace/memory/file2.md': '# File 2\n\nContent for file 2.',
+      '/workspace/memory/omg/nodes/.keep': '',
+    })
+    await runBootstrapTick(makeBootstrapParams({ config: tickConfig }))
+    vi.mocked(runObservation).mockClear()
+
+    vol.writeFileSync('/workspace/memory/file2.md', '# File 2\n\nEdited content for file 2.')
+    vol.writeFileSync('/workspace/memory/file3.md', '# File 3\n\nContent for file 3.')
+    const result = await runBootstrapTick(makeBootstrapParams({ config: tickConfig }))
+
+    expect(result).toMatchObject({ ran: true, completed: true, incremental: true, batchesProcessed: 2 })
+    const ingested = vi.mocked(runObservation).mock.calls.map(([call]) => JSON.stringify(call.unobservedMessages))
+    expect(ingested.some((m) => m.includes('memory/file1.md'))).toBe(false)
+    const state = JSON.parse(vol.readFileSync(STATE_PATH, 'utf-8') as string) as BootstrapState
+    expect(state.status).toBe('completed')
+    expect(state.incrementalSources).toEqual(['memory/file2.md', 'memory/file3.md'])
+  })
+
+  it('does nothing when no source changed', async () => {
+    vol.fromJSON({
+      '/workspace/memory/file1.md': '# File 1\n\nContent for file 1.',
+      '/workspace/memory/omg/nodes/.keep': '',
+    })
+    await runBootstrapTick(makeBootstrapParams({ config: tickConfig }))
+    vi.mocked(runObservation).mockClear()
+
+    const result = await runBootstrapTick(makeBootstrapParams({ config: tickConfig }))
+
+    expect(result.ran).toBe(false)
+    expect(runObservation).not.toHaveBeenCalled()
+    const state = JSON.parse(vol.readFileSync(STATE_PATH, 'utf-8') as string) as BootstrapState
+    expect(state.sourcesCheckedAt).toBeDefined()
+  })
+
+  it('records a baseline instead of re-ingesting when the state has no hashes yet', async () => {
+    vol.fromJSON({
+      [STATE_PATH]: JSON.stringify(makeCompletedState()),
+      '/workspace/memory/file1.md': '# File 1\n\nContent for file 1.',
+    })
+
+    const result = await runBootstrapTick(makeBootstrapParams({ config: tickConfig }))
+
+    expect(result.ran).toBe(false)
+    expect(runObservation).not.toHaveBeenCalled()
+    const state = JSON.parse(vol.readFileSync(STATE_PATH, 'utf-8') as string) as BootstrapState
+    expect(Object.keys(state.sourceHashes ?? {})).toEqual(['memory/file1.md'])
+  })
+
+  it('stays idle after completion when incremental is disabled', async () => {
+    vol.fromJSON({
+      [STATE_PATH]: JSON.stringify(makeCompletedState({ sourceHashes: {} })),
+      '/workspace/memory/file1.md': '# File 1\n\nContent for file 1.',
+    })
+
+    const result = await runBootstrapTick(makeBootstrapParams({
+      config: parseConfig({ bootstrap: { incremental: false } }),
+    }))
+
+    expect(result.ran).toBe(false)
+  })
+})
+
 describe('runBootstrap — still processes all batches (no budget limit)', () => {
   it('processes all batches regardless of batchBudgetPerRun config', async () => {
     vol.fromJSON({
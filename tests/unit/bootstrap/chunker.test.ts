@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { chunkText, chunkToMessages, estimateChunkTokens, CHUNK_TOKEN_BUDGET } from '../../../src/bootstrap/chunker.js'
+import {
+  chunkText,
+  chunkToMessages,
+  estimateChunkTokens,
+  inferSourceFormat,
+  streamChunks,
+  CHUNK_TOKEN_BUDGET,
+} from '../../../src/bootstrap/chunker.js'
 
 // ---------------------------------------------------------------------------
 // chunkText
@@ -63,6 +70,65 @@ describe('chunkText', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// chunkText — structure-aware splitting
+// ---------------------------------------------------------------------------
+
+describe('chunkText — structure', () => {
+  const travel = [
+    '# Japan',
+    '',
+    '## Hotels',
+    '',
+    'Stayed at the Park Hyatt in Tokyo.',
+    '',
+    '## Food',
+    '',
+    '- Ramen in Fukuoka',
+    '- Sushi in Tsukiji',
+  ].join('\n')
+
+  it('splits markdown between sections and records heading breadcrumbs', () => {
+    const chunks = chunkText(travel, 'notes/travel.md', { charBudget: 60 })
+    expect(chunks.map((c) => c.breadcrumb)).toEqual(['Japan › Hotels', 'Japan › Food'])
+    expect(chunks[0]!.text).toBe('# Japan\n\n## Hotels\n\nStayed at the Park Hyatt in Tokyo.')
+    expect(chunks[1]!.text).toBe('## Food\n\n- Ramen in Fukuoka\n- Sushi in Tsukiji')
+  })
+
+  it('never cuts words when a paragraph exceeds the budget', () => {
+    const text = 'alpha beta gamma delta epsilon zeta'
+    const chunks = chunkText(text, 'notes.txt', { charBudget: 12 })
+    expect(chunks.map((c) => c.text)).toEqual(['alpha beta', 'gamma delta', 'epsilon zeta'])
+  })
+
+  it('keeps log records with their indented continuation lines', () => {
+    const log = '2026-03-01 ERROR failed\n  at foo()\n  at bar()\n2026-03-01 INFO ok'
+    const chunks = chunkText(log, 'gateway.log', { charBudget: 45 })
+    expect(chunks.map((c) => c.text)).toEqual(['2026-03-01 ERROR failed\n  at foo()\n  at bar()', '2026-03-01 INFO ok'])
+  })
+
+  it('repeats whole trailing units as overlap', () => {
+    const text = 'one one\n\ntwo two\n\nthree three'
+    const chunks = chunkText(text, 'notes.txt', { charBudget: 20, overlapChars: 8 })
+    expect(chunks.map((c) => c.text)).toEqual(['one one\n\ntwo two', 'two two\n\nthree three'])
+  })
+
+  it('yields chunks lazily', () => {
+    const iterator = streamChunks('a\n\nb', 'notes.txt', { charBudget: 1 })
+    expect(iterator.next().value?.text).toBe('a')
+  })
+})
+
+describe('inferSourceFormat', () => {
+  it('maps labels to formats', () => {
+    expect(inferSourceFormat('memory/notes.md')).toBe('markdown')
+    expect(inferSourceFormat('gateway/2026-03-01.log')).toBe('log')
+    expect(inferSourceFormat('sessions/abc.jsonl')).toBe('log')
+    expect(inferSourceFormat('sqlite:pati[3]')).toBe('text')
+    expect(inferSourceFormat('notes.txt')).toBe('text')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // chunkToMessages
 // ---------------------------------------------------------------------------
@@ -90,6 +156,11 @@ describe('chunkToMessages', () => {
     expect(messages.at(0)!.content).not.toContain('(part')
   })
 
+  it('includes the heading breadcrumb in the label', () => {
+    const chunk = { source: 'notes/travel.md', text: 'body', chunkIndex: 1, breadcrumb: 'Japan › Hotels' }
+    expect(chunkToMessages(chunk).at(0)!.content).toContain('[BOOTSTRAP SOURCE: notes/travel.md › Japan › Hotels (part 2)]')
+  })
+
   it('separates label from text with two newlines', () => {
     const chunk = { source: 'src', text: 'body', chunkIndex: 0 }
     const messages = chunkToMessages(chunk)
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+vi.mock('node:os', () => ({
+  default: { homedir: () => '/home/user' },
+  homedir: () => '/home/user',
+}))
+
+import { estimateBootstrap, formatBootstrapEstimate } from '../../../src/bootstrap/dry-run.js'
+import { parseConfig } from '../../../src/config.js'
+
+beforeEach(() => {
+  vol.reset()
+  vol.fromJSON({
+    '/workspace/memory/small.md': '# Small\n\nA short note.',
+    '/workspace/memory/large.md': `# Large\n\n${'Long paragraph. '.repeat(200)}`,
+    '/home/user/Vault/idea.md': '# Idea\n\nBuild a boat.',
+  })
+})
+
+describe('estimateBootstrap', () => {
+  it('breaks batches and tokens down per source and counts cron ticks', async () => {
+    const config = parseConfig({
+      bootstrap: {
+        batchCharBudget: 0,
+        batchBudgetPerRun: 2,
+        sources: { openclawSessions: false, adapters: [{ kind: 'markdown-dir', path: '~/Vault' }] },
+      },
+    })
+
+    const estimate = await estimateBootstrap({ workspaceDir: '/workspace', config })
+
+    expect(estimate.sources.map((s) => [s.source, s.entries, s.chunks, s.batches])).toEqual([
+      ['workspace memory', 2, 2, 2],
+      ['markdown-dir Vault', 1, 1, 1],
+    ])
+    expect(estimate.batchCount).toBe(3)
+    expect(estimate.ticks).toBe(2)
+    expect(estimate.inputTokens).toBe(estimate.sources.reduce((sum, s) => sum + s.inputTokens, 0))
+    expect(estimate.largest[0]?.label).toBe('memory/large.md')
+  })
+
+  it('prices the estimate for each model in the price table', async () => {
+    const config = parseConfig({
+      bootstrap: { sources: { openclawSessions: false } },
+      pricing: { 'model-a': { inputPerMTok: 1_000_000, outputPerMTok: 0 } },
+    })
+
+    const estimate = await estimateBootstrap({ workspaceDir: '/workspace', config })
+
+    expect(estimate.costs).toEqual([{ model: 'model-a', inputCost: estimate.inputTokens, outputCost: 0 }])
+    expect(formatBootstrapEstimate(estimate)).toContain('model-a: $')
+  })
+
+  it('writes nothing to disk', async () => {
+    const before = JSON.stringify(vol.toJSON())
+    await estimateBootstrap({ workspaceDir: '/workspace', config: parseConfig({}) })
+    expect(JSON.stringify(vol.toJSON())).toBe(before)
+  })
+})
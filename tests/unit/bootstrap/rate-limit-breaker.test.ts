@@ -32,6 +32,14 @@ describe('RateLimitBreaker — startBackoff', () => {
     expect(breaker.aborted).toBe(true)
   })
 
+  it('never aborts when maxConsecutive is Infinity', () => {
+    const breaker = new RateLimitBreaker({ label: 'llm-scheduler', maxConsecutive: Number.POSITIVE_INFINITY })
+    for (let i = 0; i < MAX_CONSECUTIVE * 2; i++) {
+      expect(breaker.startBackoff()).toBe(true)
+    }
+    expect(breaker.aborted).toBe(false)
+  })
+
   it('increments consecutiveFailures on each call', () => {
     const breaker = new RateLimitBreaker()
     breaker.startBackoff()
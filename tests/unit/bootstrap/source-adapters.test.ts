@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+vi.mock('node:os', () => ({
+  default: { homedir: () => '/home/user' },
+  homedir: () => '/home/user',
+}))
+
+import { createSourceAdapter, readAdapterSources } from '../../../src/bootstrap/source-adapters.js'
+import { parseConfig } from '../../../src/config.js'
+
+function adapterConfig(adapter: Record<string, unknown>) {
+  return parseConfig({ bootstrap: { sources: { adapters: [adapter] } } }).bootstrap.sources.adapters[0]!
+}
+
+beforeEach(() => {
+  vol.reset()
+})
+
+// ---------------------------------------------------------------------------
+// markdown-dir
+// ---------------------------------------------------------------------------
+
+describe('markdown-dir adapter', () => {
+  it('reads vault notes with stable labels and skips .obsidian', async () => {
+    vol.fromJSON({
+      '/home/user/Vault/Daily/2026-01-01.md': '# Day\n\nWent hiking.',
+      '/home/user/Vault/Projects.md': '# Projects',
+      '/home/user/Vault/.obsidian/workspace.md': 'ui state',
+      '/home/user/Vault/image.png': 'binary',
+    })
+
+    const adapter = createSourceAdapter(adapterConfig({ kind: 'markdown-dir', path: '~/Vault' }))
+    const entries = await adapter.read('/workspace')
+
+    expect(adapter.name).toBe('Vault')
+    expect(entries.map((e) => e.label)).toEqual(['Vault:Daily/2026-01-01.md', 'Vault:Projects.md'])
+  })
+
+  it('applies include and exclude globs relative to the adapter path', async () => {
+    vol.fromJSON({
+      '/workspace/notes/a.md': 'A',
+      '/workspace/notes/drafts/b.md': 'B',
+      '/workspace/notes/c.txt': 'C',
+    })
+
+    const adapter = createSourceAdapter(adapterConfig({
+      kind: 'markdown-dir',
+      path: 'notes',
+      name: 'notes',
+      include: ['**/*.md', '*.txt'],
+      exclude: ['drafts/**'],
+    }))
+
+    expect((await adapter.read('/workspace')).map((e) => e.label)).toEqual(['notes:a.md', 'notes:c.txt'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// conversation-export
+// ---------------------------------------------------------------------------
+
+describe('conversation-export adapter', () => {
+  it('reads the displayed branch of a ChatGPT export, one entry per conversation', async () => {
+    vol.fromJSON({
+      '/exports/chatgpt/conversations.json': JSON.stringify([{
+        id: 'conv-1',
+        title: 'Trip planning',
+        current_node: 'n3',
+        mapping: {
+          root: { message: null, parent: null },
+          n1: { parent: 'root', message: { author: { role: 'user' }, content: { parts: ['Plan Kyoto'] } } },
+          n2: { parent: 'n1', message: { author: { role: 'assistant' }, content: { parts: ['Abandoned draft'] } } },
+          n3: { parent: 'n1', message: { author: { role: 'assistant' }, content: { parts: ['Day 1: temples'] } } },
+        },
+      }]),
+    })
+
+    const entries = await createSourceAdapter(adapterConfig({ kind: 'conversation-export', path: '/exports/chatgpt' })).read('/workspace')
+
+    expect(entries).toEqual([{
+      label: 'chatgpt:conversations.json#conv-1',
+      text: '# Trip planning\n\nuser: Plan Kyoto\n\nassistant: Day 1: temples',
+    }])
+  })
+
+  it('reads Claude exports', async () => {
+    vol.fromJSON({
+      '/exports/claude/conversations.json': JSON.stringify([{
+        uuid: 'abc',
+        name: 'Editor setup',
+        chat_messages: [
+          { sender: 'human', text: 'I use Neovim' },
+          { sender: 'assistant', text: '', content: [{ type: 'text', text: 'Noted.' }] },
+        ],
+      }]),
+    })
+
+    const entries = await createSourceAdapter(adapterConfig({ kind: 'conversation-export', path: '/exports/claude' })).read('/workspace')
+
+    expect(entries).toEqual([{
+      label: 'claude:conversations.json#abc',
+      text: '# Editor setup\n\nuser: I use Neovim\n\nassistant: Noted.',
+    }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// jsonl-messages
+// ---------------------------------------------------------------------------
+
+describe('jsonl-messages adapter', () => {
+  it('renders one record per message and indents multi-line content', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vol.fromJSON({
+      '/logs/chat.jsonl': [
+        JSON.stringify({ role: 'user', content: 'hello', timestamp: '2026-01-01T00:00:00Z' }),
+        'not json',
+        JSON.stringify({ message: { role: 'assistant', content: [{ type: 'text', text: 'line one\nline two' }] } }),
+      ].join('\n'),
+    })
+
+    const entries = await createSourceAdapter(adapterConfig({ kind: 'jsonl-messages', path: '/logs', name: 'chat' })).read('/workspace')
+
+    expect(entries).toEqual([{
+      label: 'chat:chat.jsonl',
+      text: '[2026-01-01T00:00:00Z] user: hello\nassistant: line one\n  line two',
+    }])
+    vi.restoreAllMocks()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// readAdapterSources
+// ---------------------------------------------------------------------------
+
+describe('readAdapterSources', () => {
+  it('returns an empty list for a missing directory', async () => {
+    const entries = await readAdapterSources([adapterConfig({ kind: 'markdown-dir', path: '/missing' })], '/workspace')
+    expect(entries).toEqual([])
+  })
+})
@@ -196,6 +196,34 @@ describe('readSqliteChunks', () => {
     warnSpy.mockRestore()
   })
 
+  it('labels chunks by chunk id, falling back to rowid when the table has no id column', async () => {
+    vol.fromJSON({
+      '/home/user/.openclaw/memory/pati.sqlite': 'dummy',
+      '/home/user/.openclaw/memory/legacy.sqlite': 'dummy',
+    })
+    const queries: string[] = []
+    vi.doMock('node:sqlite', () => ({
+      DatabaseSync: class {
+        constructor(private readonly dbPath: string) {}
+        prepare(sql: string) {
+          queries.push(sql)
+          const legacy = this.dbPath.endsWith('legacy.sqlite')
+          if (legacy && sql.startsWith('SELECT id')) throw new Error('no such column: id')
+          return { all: () => [{ id: legacy ? 7 : 'c-9f2', text: 'Chunk text' }] }
+        }
+        close() {}
+      },
+    }))
+
+    try {
+      const result = await readSqliteChunks('/workspace/myproject')
+      expect(result.map((e) => e.label).sort()).toEqual(['sqlite:legacy[7]', 'sqlite:pati[c-9f2]'])
+      expect(queries).toContain('SELECT rowid AS id, text FROM chunks ORDER BY rowid')
+    } finally {
+      vi.doUnmock('node:sqlite')
+    }
+  })
+
   it('ignores .tmp files in memory directory', async () => {
     vol.fromJSON({
       '/home/user/.openclaw/memory/pati.sqlite.tmp-abc123': 'dummy',
@@ -21,6 +21,8 @@ import {
   readBootstrapState,
   writeBootstrapState,
   createDebouncedFlush,
+  diffSourceHashes,
+  isSourceRescanDue,
   type BootstrapState,
 } from '../../../src/bootstrap/state.js'
 
@@ -41,6 +43,7 @@ function makeState(overrides: Partial<BootstrapState> = {}): BootstrapState {
     done: [],
     lastError: null,
     maintenanceDone: false,
+    incrementalSources: null,
     ...overrides,
   }
 }
@@ -193,6 +196,28 @@ describe('finalizeState', () => {
   })
 })
 
+describe('diffSourceHashes', () => {
+  it('reports new and changed sources but not removed ones', () => {
+    const previous = { 'a.md': '111', 'b.md': '222', 'gone.md': '333' }
+    const current = { 'a.md': '111', 'b.md': '999', 'c.md': '444' }
+    expect(diffSourceHashes(previous, current)).toEqual(['b.md', 'c.md'])
+  })
+})
+
+describe('isSourceRescanDue', () => {
+  const now = Date.parse('2026-03-01T12:00:00Z')
+
+  it('is due when sources were never rescanned', () => {
+    expect(isSourceRescanDue(makeState({ status: 'completed' }), 60, now)).toBe(true)
+  })
+
+  it('waits out the interval since the last rescan', () => {
+    const state = makeState({ status: 'completed', sourcesCheckedAt: '2026-03-01T11:30:00Z' })
+    expect(isSourceRescanDue(state, 60, now)).toBe(false)
+    expect(isSourceRescanDue(state, 30, now)).toBe(true)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // isStaleRunning
 // ---------------------------------------------------------------------------
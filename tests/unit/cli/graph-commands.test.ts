@@ -0,0 +1,181 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol, fs as memfs } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import {
+  getGraphStatus,
+  formatGraphStatus,
+  reindexGraph,
+  formatNodeDetail,
+} from '../../../src/cli/graph-commands.js'
+import { setNodeArchived } from '../../../src/graph/archive.js'
+import { clearRegistryCache, getRegistryEntry } from '../../../src/graph/registry.js'
+import { writeObservationNode } from '../../../src/graph/node-writer.js'
+import { applyMocUpdate } from '../../../src/graph/moc-manager.js'
+import { recordCronSuccess } from '../../../src/cron/register.js'
+
+const OMG_ROOT = '/ws/memory/omg'
+const MOC_PATH = `${OMG_ROOT}/mocs/moc-preferences.md`
+
+function readFile(path: string): string {
+  return memfs.readFileSync(path, 'utf-8') as string
+}
+
+async function writePreference(): Promise<string> {
+  const node = await writeObservationNode(
+    {
+      kind: 'upsert',
+      canonicalKey: 'preferences.editor_theme',
+      type: 'preference',
+      title: 'Editor theme',
+      description: 'Prefers dark editor theme',
+      body: 'Dark mode everywhere.',
+      priority: 'medium',
+      mocHints: ['preferences'],
+    },
+    { omgRoot: OMG_ROOT, sessionKey: 'test' }
+  )
+  await applyMocUpdate(MOC_PATH, { action: 'add', nodeId: node.frontmatter.id })
+  return node.frontmatter.id
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/mocs`, { recursive: true })
+})
+
+// ---------------------------------------------------------------------------
+// status
+// ---------------------------------------------------------------------------
+
+describe('getGraphStatus', () => {
+  it('counts active nodes by type and archived nodes separately', async () => {
+    const id = await writePreference()
+    await writeObservationNode(
+      {
+        kind: 'upsert',
+        canonicalKey: 'facts.deploy_target',
+        type: 'fact',
+        title: 'Deploy target',
+        description: 'Deploys go to Fly.io',
+        body: 'Fly.io',
+        priority: 'low',
+      },
+      { omgRoot: OMG_ROOT, sessionKey: 'test' }
+    )
+    await setNodeArchived(OMG_ROOT, id, true)
+
+    const status = await getGraphStatus(OMG_ROOT)
+    expect(status.totalNodes).toBe(2)
+    expect(status.activeNodes).toBe(1)
+    expect(status.archivedNodes).toBe(1)
+    expect(status.byType).toEqual({ fact: 1 })
+    expect(status.bootstrap).toBeNull()
+  })
+
+  it('reports bootstrap state and recorded cron runs', async () => {
+    vol.writeFileSync(`${OMG_ROOT}/.bootstrap-state.json`, JSON.stringify({
+      version: 2,
+      status: 'paused',
+      startedAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T01:00:00Z',
+      cursor: 3,
+      total: 10,
+      ok: 5,
+      fail: 1,
+      done: [0, 1, 2],
+      lastError: null,
+      maintenanceDone: false,
+    }))
+    recordCronSuccess('omg-reflection')
+
+    const text = formatGraphStatus(await getGraphStatus(OMG_ROOT))
+    expect(text).toContain('Bootstrap: paused — 3/10 batches')
+    expect(text).toContain('omg-reflection:')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// archive / restore
+// ---------------------------------------------------------------------------
+
+describe('setNodeArchived', () => {
+  it('archives the node file, registry entry, and removes the MOC link', async () => {
+    const id = await writePreference()
+    const result = await setNodeArchived(OMG_ROOT, id, true)
+
+    expect(result).toEqual({ nodeId: id, changed: true, mocDomains: ['preferences'] })
+    expect(readFile(`${OMG_ROOT}/nodes/preference/preferences-editor-theme.md`)).toContain('archived: true')
+    expect((await getRegistryEntry(OMG_ROOT, id))?.archived).toBe(true)
+    expect(readFile(MOC_PATH)).not.toContain(`[[${id}]]`)
+  })
+
+  it('restores an archived node and re-adds the MOC link', async () => {
+    const id = await writePreference()
+    await setNodeArchived(OMG_ROOT, id, true)
+    const result = await setNodeArchived(OMG_ROOT, id, false)
+
+    expect(result.changed).toBe(true)
+    expect(readFile(`${OMG_ROOT}/nodes/preference/preferences-editor-theme.md`)).not.toContain('archived:')
+    expect((await getRegistryEntry(OMG_ROOT, id))?.archived).toBe(false)
+    expect(readFile(MOC_PATH)).toContain(`[[${id}]]`)
+  })
+
+  it('is a no-op when the node is already in the requested state', async () => {
+    const id = await writePreference()
+    const result = await setNodeArchived(OMG_ROOT, id, false)
+    expect(result.changed).toBe(false)
+  })
+
+  it('throws for unknown node IDs', async () => {
+    await expect(setNodeArchived(OMG_ROOT, 'omg/fact/nope', true)).rejects.toThrow('not in the registry')
+  })
+})
+
+// ---------------------------------------------------------------------------
+// reindex / show
+// ---------------------------------------------------------------------------
+
+describe('reindexGraph', () => {
+  it('rebuilds the registry from disk and regenerates index.md', async () => {
+    await writePreference()
+    vol.unlinkSync(`${OMG_ROOT}/.registry.json`)
+    clearRegistryCache()
+
+    const result = await reindexGraph(OMG_ROOT)
+    expect(result.indexedNodes).toBe(1)
+    expect(await getRegistryEntry(OMG_ROOT, 'omg/preference/preferences-editor-theme')).not.toBeNull()
+    expect(readFile(`${OMG_ROOT}/index.md`)).toContain('Nodes: 1')
+    expect(readFile(`${OMG_ROOT}/index.md`)).toContain('[[moc-preferences]]')
+  })
+})
+
+describe('formatNodeDetail', () => {
+  it('includes key frontmatter fields and the body', () => {
+    const text = formatNodeDetail({
+      filePath: '/x.md',
+      body: 'Body text',
+      frontmatter: {
+        id: 'omg/fact/x',
+        description: 'X',
+        type: 'fact',
+        priority: 'low',
+        created: '2026-01-01T00:00:00Z',
+        updated: '2026-01-02T00:00:00Z',
+        tags: ['a', 'b'],
+      },
+    })
+    expect(text).toContain('omg/fact/x')
+    expect(text).toContain('tags: a, b')
+    expect(text).toContain('Body text')
+  })
+})
@@ -458,6 +458,46 @@ describe('parseConfig — triggerMode', () => {
   })
 })
 
+describe('parseConfig — semanticDedup.mode', () => {
+  it('merges automatically by default', () => {
+    expect(parseConfig({}).semanticDedup.mode).toBe('auto')
+  })
+
+  it('mode invalid value → throws ConfigValidationError', () => {
+    expectFieldError(
+      () => parseConfig({ semanticDedup: { mode: 'ask' } }),
+      'semanticDedup.mode'
+    )
+  })
+})
+
+describe('parseConfig — observation.tools', () => {
+  it('observes every tool except the memory tools by default', () => {
+    expect(parseConfig({}).observation.tools).toEqual({
+      enabled: true,
+      allow: [],
+      deny: ['memory_search', 'memory_get', 'omg_search', 'omg_get', 'omg_remember'],
+      maxChars: 4_000,
+    })
+  })
+
+  it('maxChars of 0 → throws ConfigValidationError', () => {
+    expectFieldError(
+      () => parseConfig({ observation: { tools: { maxChars: 0 } } }),
+      'observation.tools.maxChars'
+    )
+  })
+
+  it('unknown key in observation.tools → detected by onUnknownKeys', () => {
+    let capturedKeys: readonly string[] = []
+    parseConfig(
+      { observation: { tools: { include: ['read_file'] } } },
+      { onUnknownKeys: (keys) => { capturedKeys = keys } }
+    )
+    expect(capturedKeys).toContain('observation.tools.include')
+  })
+})
+
 // ---------------------------------------------------------------------------
 // identity.mode
 // ---------------------------------------------------------------------------
@@ -930,6 +970,27 @@ describe('parseConfig — graphMaintenance', () => {
     )
   })
 
+  it('graphMaintenance.mocSummaries defaults and validation', () => {
+    expect(parseConfig({}).graphMaintenance.mocSummaries).toEqual({ enabled: false, minNodes: 5, refreshRatio: 0.2 })
+    expectFieldError(
+      () => parseConfig({ graphMaintenance: { mocSummaries: { refreshRatio: 1.5 } } }),
+      'graphMaintenance.mocSummaries.refreshRatio'
+    )
+  })
+
+  it('graphMaintenance.domainDiscovery defaults and validation', () => {
+    expect(parseConfig({}).graphMaintenance.domainDiscovery).toEqual({
+      enabled: true,
+      sourceDomains: ['misc', 'facts'],
+      minClusterSize: 5,
+      maxDomainsPerRun: 3,
+    })
+    expectFieldError(
+      () => parseConfig({ graphMaintenance: { domainDiscovery: { minClusterSize: 1 } } }),
+      'graphMaintenance.domainDiscovery.minClusterSize'
+    )
+  })
+
   it('invalid graphMaintenance.cronSchedule → throws ConfigValidationError', () => {
     expectFieldError(
       () => parseConfig({ graphMaintenance: { cronSchedule: 'not-a-cron' } }),
@@ -981,6 +1042,19 @@ describe('parseConfig — bootstrap.batchBudgetPerRun', () => {
   })
 })
 
+describe('parseConfig — bootstrap.incrementalIntervalMinutes', () => {
+  it('defaults to 60', () => {
+    expect(parseConfig({}).bootstrap.incrementalIntervalMinutes).toBe(60)
+  })
+
+  it('rejects 0', () => {
+    expectFieldError(
+      () => parseConfig({ bootstrap: { incrementalIntervalMinutes: 0 } }),
+      'bootstrap.incrementalIntervalMinutes'
+    )
+  })
+})
+
 describe('parseConfig — bootstrap.cronSchedule', () => {
   it('defaults to */5 * * * *', () => {
     const result = parseConfig({})
@@ -1064,6 +1138,20 @@ describe('parseConfig — reflection.ageCutoffByType', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// reflection.hierarchy
+// ---------------------------------------------------------------------------
+
+describe('parseConfig — reflection.hierarchy', () => {
+  it('defaults and validation', () => {
+    expect(parseConfig({}).reflection.hierarchy).toEqual({ enabled: true, minChildren: 2, maxRollupsPerRun: 10 })
+    expectFieldError(
+      () => parseConfig({ reflection: { hierarchy: { minChildren: 1 } } }),
+      'reflection.hierarchy.minChildren'
+    )
+  })
+})
+
 // ---------------------------------------------------------------------------
 // injection.graph config
 // ---------------------------------------------------------------------------
@@ -1134,3 +1222,83 @@ describe('parseConfig — injection.graph', () => {
     expect(capturedKeys).toContain('injection.graph.typo')
   })
 })
+
+describe('parseConfig — llm backends', () => {
+  it('defaults to no backends and no routing', () => {
+    const result = parseConfig({})
+    expect(result.llm.backends).toEqual({})
+    expect(result.llm.routing).toEqual({})
+  })
+
+  it('accepts an openai-compatible backend routed for a role', () => {
+    const result = parseConfig({
+      llm: {
+        backends: {
+          local: { kind: 'openai-compatible', baseUrl: 'http://127.0.0.1:11434/v1', model: 'llama3' },
+          gw: { kind: 'gateway' },
+        },
+        routing: { dedup: ['local', 'gw'] },
+      },
+    })
+    expect(result.llm.routing.dedup).toEqual(['local', 'gw'])
+  })
+
+  it('routing to an undefined backend → throws with the role path', () => {
+    expectFieldError(
+      () => parseConfig({ llm: { routing: { reflector: ['missing'] } } }),
+      'llm.routing.reflector'
+    )
+  })
+
+  it('unknown key in llm.routing → detected by onUnknownKeys', () => {
+    let capturedKeys: readonly string[] = []
+    parseConfig(
+      { llm: { routing: { summarizer: [] } } },
+      { onUnknownKeys: (keys) => { capturedKeys = keys } }
+    )
+    expect(capturedKeys).toContain('llm.routing.summarizer')
+  })
+})
+
+describe('parseConfig — llm.structuredOutput', () => {
+  it('defaults to false', () => {
+    expect(parseConfig({}).llm.structuredOutput).toBe(false)
+  })
+})
+
+describe('parseConfig — llm.cache', () => {
+  it('is disabled by default with a 7-day TTL and 50 MB cap', () => {
+    expect(parseConfig({}).llm.cache).toEqual({ enabled: false, ttlHours: 168, maxSizeMb: 50 })
+  })
+
+  it('unknown key in llm.cache → detected by onUnknownKeys', () => {
+    let capturedKeys: readonly string[] = []
+    parseConfig(
+      { llm: { cache: { ttl: 1 } } },
+      { onUnknownKeys: (keys) => { capturedKeys = keys } }
+    )
+    expect(capturedKeys).toContain('llm.cache.ttl')
+  })
+})
+
+describe('parseConfig — llm.dailyTokenBudget', () => {
+  it('is unset by default', () => {
+    expect(parseConfig({}).llm.dailyTokenBudget).toBeUndefined()
+  })
+
+  it('rejects non-positive budgets', () => {
+    expect(() => parseConfig({ llm: { dailyTokenBudget: 0 } })).toThrow(/llm.dailyTokenBudget must be positive/)
+  })
+})
+
+describe('parseConfig — llm.scheduler', () => {
+  it('defaults to two concurrent calls, a one-minute background backoff and ten-minute aging', () => {
+    expect(parseConfig({}).llm.scheduler).toEqual({ maxConcurrency: 2, backgroundIdleMs: 60_000, maxWaitMs: 600_000 })
+  })
+
+  it('rejects a concurrency of zero', () => {
+    expect(() => parseConfig({ llm: { scheduler: { maxConcurrency: 0 } } })).toThrow(
+      /llm.scheduler.maxConcurrency must be at least 1/
+    )
+  })
+})
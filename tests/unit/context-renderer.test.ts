@@ -28,6 +28,8 @@ function makeSlice(overrides: Partial<GraphContextSlice> = {}): GraphContextSlic
     nowNode: overrides.nowNode ?? null,
     mocs: overrides.mocs ?? [],
     nodes: overrides.nodes ?? [],
+    summaryNodes: overrides.summaryNodes,
+    outlineNodes: overrides.outlineNodes,
     estimatedTokens: overrides.estimatedTokens ?? 100,
   }
 }
@@ -108,3 +110,36 @@ describe('renderContextBlock', () => {
     expect(result).not.toContain('## Relevant Knowledge')
   })
 })
+
+// ---------------------------------------------------------------------------
+// renderContextBlock — graded disclosure tiers
+// ---------------------------------------------------------------------------
+
+describe('renderContextBlock — graded tiers', () => {
+  it('renders summary nodes as wikilink plus description, without bodies', () => {
+    const node = makeNode('omg/fact/deploy', 'Long body that must not appear.')
+    const result = renderContextBlock(makeSlice({ summaryNodes: [node] }))
+    expect(result).toContain('## Related Notes\n- [[omg/fact/deploy]] (fact) — Description of omg/fact/deploy')
+    expect(result).not.toContain('Long body that must not appear.')
+  })
+
+  it('renders outline nodes grouped by type in rank order', () => {
+    const result = renderContextBlock(makeSlice({
+      outlineNodes: [
+        makeNode('omg/fact/a', ''),
+        makeNode('omg/preference/b', '', 'preference'),
+        makeNode('omg/fact/c', ''),
+      ],
+    }))
+    expect(result).toContain('## More in Memory\n- fact: [[omg/fact/a]], [[omg/fact/c]]\n- preference: [[omg/preference/b]]')
+  })
+
+  it('places tiers after full nodes and omits empty tiers', () => {
+    const result = renderContextBlock(makeSlice({
+      nodes: [makeNode('omg/fact/full', 'Full body.')],
+      summaryNodes: [makeNode('omg/fact/sum', 'x')],
+    }))
+    expect(result.indexOf('Full body.')).toBeLessThan(result.indexOf('## Related Notes'))
+    expect(result).not.toContain('## More in Memory')
+  })
+})
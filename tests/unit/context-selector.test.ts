@@ -322,6 +322,41 @@ describe('selectContext — token budget', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// selectContext — reflection hierarchy
+// ---------------------------------------------------------------------------
+
+describe('selectContext — reflection hierarchy', () => {
+  function makeReflection(id: string, links: string[], reflectionLevel?: 'weekly' | 'monthly'): GraphNode {
+    const node = makeNode({ id, type: 'reflection', links, body: `Kayak trips and gear. ${'x'.repeat(300)}` })
+    return { ...node, frontmatter: { ...node.frontmatter, ...(reflectionLevel && { reflectionLevel }) } }
+  }
+
+  const nodes = [
+    makeReflection('omg/reflection/trip-a', ['omg/fact/a']),
+    makeReflection('omg/reflection/trip-b', ['omg/fact/b']),
+    makeReflection('omg/reflection/outdoors-weekly-2026-01-05', ['omg/reflection/trip-a', 'omg/reflection/trip-b'], 'weekly'),
+    makeReflection('omg/reflection/outdoors-monthly-2026-01', ['omg/reflection/outdoors-weekly-2026-01-05'], 'monthly'),
+    makeNode({ id: 'omg/fact/paddle', body: 'Owns a carbon kayak paddle.' }),
+  ]
+  const select = (maxContextTokens: number) =>
+    selectContext({
+      indexContent: '',
+      nowContent: null,
+      allNodes: nodes,
+      recentMessages: [{ role: 'user', content: 'kayak' }],
+      config: parseConfig({ injection: { maxContextTokens, maxNodes: 10, renderMode: 'full' } }),
+    }).nodes.map((n) => n.frontmatter.id)
+
+  it('collapses covered reflections into the coarsest ranked rollup when the budget is tight', () => {
+    expect(select(250)).toEqual(['omg/reflection/outdoors-monthly-2026-01', 'omg/fact/paddle'])
+  })
+
+  it('keeps the finer reflections when everything fits', () => {
+    expect(select(10_000)).toHaveLength(5)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // selectContext — multilingual keyword extraction
 // ---------------------------------------------------------------------------
@@ -991,6 +1026,86 @@ describe('selectContextV2 — two-pass registry-based selection', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// selectContextV2 — validity windows
+// ---------------------------------------------------------------------------
+
+describe('selectContextV2 — validity windows', () => {
+  it('skips entries that have expired or are not yet valid', async () => {
+    const day = 86_400_000
+    const current = makeRegistryEntry({ filePath: '/current.md' })
+    const expired = { ...makeRegistryEntry({ filePath: '/expired.md' }), validUntil: new Date(Date.now() - day).toISOString() }
+    const future = { ...makeRegistryEntry({ filePath: '/future.md' }), validFrom: new Date(Date.now() + day).toISOString() }
+    const open = {
+      ...makeRegistryEntry({ filePath: '/open.md' }),
+      validFrom: new Date(Date.now() - day).toISOString(),
+      validUntil: new Date(Date.now() + day).toISOString(),
+    }
+    const nodes = new Map<string, GraphNode>([
+      ['/current.md', makeHydratedNode('omg/fact/current', current)],
+      ['/expired.md', makeHydratedNode('omg/fact/expired', expired)],
+      ['/future.md', makeHydratedNode('omg/fact/future', future)],
+      ['/open.md', makeHydratedNode('omg/fact/open', open)],
+    ])
+    const hydrateNode = vi.fn().mockImplementation((fp: string) => Promise.resolve(nodes.get(fp) ?? null))
+
+    const slice = await selectContextV2({
+      indexContent: '',
+      nowContent: null,
+      registryEntries: [
+        ['omg/fact/current', current],
+        ['omg/fact/expired', expired],
+        ['omg/fact/future', future],
+        ['omg/fact/open', open],
+      ],
+      recentMessages: [],
+      config,
+      hydrateNode,
+    })
+
+    expect(hydrateNode).not.toHaveBeenCalledWith('/expired.md')
+    expect(hydrateNode).not.toHaveBeenCalledWith('/future.md')
+    expect(slice.nodes.map((n) => n.frontmatter.id).sort()).toEqual(['omg/fact/current', 'omg/fact/open'])
+  })
+})
+
+describe('selectContextV2 — agent visibility', () => {
+  const mine = { ...makeRegistryEntry({ filePath: '/mine.md' }), agents: ['pati'] }
+  const theirs = { ...makeRegistryEntry({ filePath: '/theirs.md' }), agents: ['email-triage'] }
+  const nodes = new Map<string, GraphNode>([
+    ['/mine.md', makeHydratedNode('omg/fact/mine', mine)],
+    ['/theirs.md', makeHydratedNode('omg/fact/theirs', theirs)],
+  ])
+  const hydrateNode = (fp: string) => Promise.resolve(nodes.get(fp) ?? null)
+  const registryEntries: [string, RegistryNodeEntry][] = [['omg/fact/mine', mine], ['omg/fact/theirs', theirs]]
+
+  it('drops other agents\' nodes under the private policy', async () => {
+    const slice = await selectContextV2({
+      indexContent: '',
+      nowContent: null,
+      registryEntries,
+      recentMessages: [],
+      config: parseConfig({ injection: { agentVisibility: 'private' } }),
+      hydrateNode,
+      agentId: 'pati',
+    })
+    expect(slice.nodes.map((n) => n.frontmatter.id)).toEqual(['omg/fact/mine'])
+  })
+
+  it('keeps every node under the default shared policy', async () => {
+    const slice = await selectContextV2({
+      indexContent: '',
+      nowContent: null,
+      registryEntries,
+      recentMessages: [],
+      config,
+      hydrateNode,
+      agentId: 'pati',
+    })
+    expect(slice.nodes).toHaveLength(2)
+  })
+})
+
 // ---------------------------------------------------------------------------
 // selectContextV2 — hybrid semantic scoring
 // ---------------------------------------------------------------------------
@@ -1367,3 +1482,42 @@ describe('selectContextV2 — graph expansion', () => {
     expect(slice.nodes.length).toBeGreaterThanOrEqual(0)
   })
 })
+
+// ---------------------------------------------------------------------------
+// selectContext — graded disclosure
+// ---------------------------------------------------------------------------
+
+describe('selectContext — graded disclosure', () => {
+  const nodes = Array.from({ length: 12 }, (_, i) =>
+    makeNode({ id: `omg/fact/node-${i}`, description: `Fact number ${i}`, body: 'x'.repeat(400) })
+  )
+
+  it('degrades nodes past maxNodes to summaries and then outline within budget', () => {
+    const graded = parseConfig({ injection: { maxNodes: 2, maxSummaryNodes: 3, maxOutlineNodes: 4, maxContextTokens: 10_000 } })
+    const slice = selectContext({ indexContent: '', nowContent: null, allNodes: nodes, recentMessages: [], config: graded })
+
+    expect(slice.nodes).toHaveLength(2)
+    expect(slice.summaryNodes).toHaveLength(3)
+    expect(slice.outlineNodes).toHaveLength(4)
+    const all = [...slice.nodes, ...slice.summaryNodes!, ...slice.outlineNodes!].map((n) => n.frontmatter.id)
+    expect(new Set(all).size).toBe(9)
+  })
+
+  it('keeps nodes that do not fit in full as summaries instead of dropping them', () => {
+    const tight = parseConfig({ injection: { maxNodes: 5, maxContextTokens: 150 } })
+    const slice = selectContext({ indexContent: '', nowContent: null, allNodes: nodes.slice(0, 3), recentMessages: [], config: tight })
+
+    expect(slice.nodes).toHaveLength(1)
+    expect(slice.nodes.length + (slice.summaryNodes?.length ?? 0) + (slice.outlineNodes?.length ?? 0)).toBe(3)
+    expect(slice.estimatedTokens).toBeLessThanOrEqual(150)
+  })
+
+  it('renders only full nodes when renderMode is "full"', () => {
+    const full = parseConfig({ injection: { maxNodes: 2, renderMode: 'full' } })
+    const slice = selectContext({ indexContent: '', nowContent: null, allNodes: nodes, recentMessages: [], config: full })
+
+    expect(slice.nodes).toHaveLength(2)
+    expect(slice.summaryNodes).toBeUndefined()
+    expect(slice.outlineNodes).toBeUndefined()
+  })
+})
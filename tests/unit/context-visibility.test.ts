@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { isVisibleToAgent } from '../../src/context/visibility.js'
+
+describe('isVisibleToAgent', () => {
+  const own = { type: 'preference' as const, agents: ['pati'] }
+  const other = { type: 'preference' as const, agents: ['email-triage'] }
+  const otherIdentity = { type: 'identity' as const, agents: ['email-triage'] }
+  const unowned = { type: 'fact' as const }
+
+  it('shows everything under the shared policy', () => {
+    expect(isVisibleToAgent(other, 'pati', 'shared')).toBe(true)
+  })
+
+  it('hides other agents\' nodes under the private policy', () => {
+    expect(isVisibleToAgent(own, 'pati', 'private')).toBe(true)
+    expect(isVisibleToAgent(unowned, 'pati', 'private')).toBe(true)
+    expect(isVisibleToAgent(other, 'pati', 'private')).toBe(false)
+    expect(isVisibleToAgent(otherIdentity, 'pati', 'private')).toBe(false)
+  })
+
+  it('shares identity nodes under private-with-shared-identity', () => {
+    expect(isVisibleToAgent(otherIdentity, 'pati', 'private-with-shared-identity')).toBe(true)
+    expect(isVisibleToAgent(other, 'pati', 'private-with-shared-identity')).toBe(false)
+  })
+
+  it('does not filter when the agent is unknown', () => {
+    expect(isVisibleToAgent(other, undefined, 'private')).toBe(true)
+  })
+})
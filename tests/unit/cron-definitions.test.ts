@@ -33,6 +33,24 @@ vi.mock('../../src/dedup/dedup.js', () => ({
   }),
 }))
 
+vi.mock('../../src/graph/moc-summary.js', () => ({
+  refreshMocSummaries: vi.fn().mockResolvedValue({
+    domainsChecked: 0,
+    summariesWritten: 0,
+    tokensUsed: 0,
+    errors: [],
+  }),
+}))
+
+vi.mock('../../src/graph/domain-discovery.js', () => ({
+  discoverDomains: vi.fn().mockResolvedValue({
+    proposals: [],
+    domainsCreated: [],
+    nodesRehomed: 0,
+    errors: [],
+  }),
+}))
+
 vi.mock('../../src/bootstrap/bootstrap.js', () => ({
   runBootstrapTick: vi.fn().mockResolvedValue({
     ran: true,
@@ -44,7 +62,7 @@ vi.mock('../../src/bootstrap/bootstrap.js', () => ({
   }),
 }))
 
-const { createCronDefinitions } = await import('../../src/cron/definitions.js')
+const { createCronDefinitions, graphMaintenanceCronHandler, runDeferredMaintenance } = await import('../../src/cron/definitions.js')
 
 const WORKSPACE = '/workspace'
 const OMG_ROOT = `${WORKSPACE}/memory/omg`
@@ -159,6 +177,119 @@ describe('createCronDefinitions — omg-reflection handler', () => {
     )
   })
 
+  it('passes the routed dedup client to runDedup when one is configured', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { runDedup } = await import('../../src/dedup/dedup.js')
+    vi.mocked(runDedup).mockClear()
+
+    const dedupClient = makeMockLlm()
+    const defs = createCronDefinitions({ ...makeCtx(), llmClients: { dedup: dedupClient } })
+    const maintenance = defs.find((d) => d.id === 'omg-reflection')!
+    await maintenance.handler()
+
+    const passed = vi.mocked(runDedup).mock.calls[0]![0].llmClient
+    await passed.generate({ system: 's', user: 'u', maxTokens: 10 })
+    expect(dedupClient.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ tag: { pipeline: 'dedup' } })
+    )
+  })
+
+  it('continues the run when the MOC summary step throws', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { refreshMocSummaries } = await import('../../src/graph/moc-summary.js')
+    vi.mocked(refreshMocSummaries).mockRejectedValueOnce(new Error('registry unreadable'))
+    const ctx = makeCtx()
+    const summaryCtx = {
+      ...ctx,
+      config: {
+        ...ctx.config,
+        graphMaintenance: { ...ctx.config.graphMaintenance, mocSummaries: { ...ctx.config.graphMaintenance.mocSummaries, enabled: true } },
+      },
+    }
+
+    await expect(graphMaintenanceCronHandler(summaryCtx)).resolves.toBe(true)
+    expect(refreshMocSummaries).toHaveBeenCalledOnce()
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('moc-summary failed (continuing to reflection)'),
+      expect.any(Error)
+    )
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('no nodes eligible for reflection'))
+  })
+
+  it('continues the run when domain discovery throws', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { discoverDomains } = await import('../../src/graph/domain-discovery.js')
+    vi.mocked(discoverDomains).mockRejectedValueOnce(new Error('MOC unwritable'))
+    const ctx = makeCtx()
+    const discoveryCtx = {
+      ...ctx,
+      config: {
+        ...ctx.config,
+        graphMaintenance: { ...ctx.config.graphMaintenance, domainDiscovery: { ...ctx.config.graphMaintenance.domainDiscovery, enabled: true } },
+      },
+    }
+
+    await expect(graphMaintenanceCronHandler(discoveryCtx)).resolves.toBe(true)
+    expect(discoverDomains).toHaveBeenCalledOnce()
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('domain-discovery failed (continuing to reflection)'),
+      expect.any(Error)
+    )
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('no nodes eligible for reflection'))
+  })
+
+  it('defers without running dedup once the daily token budget is spent', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { runDedup } = await import('../../src/dedup/dedup.js')
+    vi.mocked(runDedup).mockClear()
+    vol.writeFileSync(
+      `${OMG_ROOT}/.usage-ledger.jsonl`,
+      JSON.stringify({
+        timestamp: new Date().toISOString(), pipeline: 'extract', model: 'm', inputTokens: 900, outputTokens: 200,
+      }) + '\n'
+    )
+    const ctx = makeCtx()
+    const budgetCtx = { ...ctx, config: { ...ctx.config, llm: { ...ctx.config.llm, dailyTokenBudget: 1000 } } }
+
+    await expect(graphMaintenanceCronHandler(budgetCtx)).resolves.toBe(false)
+    expect(runDedup).not.toHaveBeenCalled()
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('daily token budget exhausted (1100/1000)'))
+
+    await expect(graphMaintenanceCronHandler({ ...budgetCtx, ignoreTokenBudget: true })).resolves.toBe(true)
+    expect(runDedup).toHaveBeenCalledOnce()
+  })
+
+  it('marks a budget-deferred run pending and re-runs it once the budget has room', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { runDedup } = await import('../../src/dedup/dedup.js')
+    vi.mocked(runDedup).mockClear()
+    const ledger = `${OMG_ROOT}/.usage-ledger.jsonl`
+    vol.writeFileSync(
+      ledger,
+      JSON.stringify({
+        timestamp: new Date().toISOString(), pipeline: 'extract', model: 'm', inputTokens: 900, outputTokens: 200,
+      }) + '\n'
+    )
+    const ctx = makeCtx()
+    const budgetCtx = { ...ctx, config: { ...ctx.config, llm: { ...ctx.config.llm, dailyTokenBudget: 1000 } } }
+
+    await createCronDefinitions(budgetCtx).find((d) => d.id === 'omg-reflection')!.handler()
+    expect(vol.existsSync(`${OMG_ROOT}/.maintenance-deferred`)).toBe(true)
+
+    await runDeferredMaintenance(budgetCtx)
+    expect(runDedup).not.toHaveBeenCalled()
+
+    vol.unlinkSync(ledger)
+    await runDeferredMaintenance(budgetCtx)
+    expect(runDedup).toHaveBeenCalledOnce()
+    expect(vol.existsSync(`${OMG_ROOT}/.maintenance-deferred`)).toBe(false)
+
+    await runDeferredMaintenance(budgetCtx)
+    expect(runDedup).toHaveBeenCalledOnce()
+  })
+
   it('uses cron:omg-reflection as sessionKey for reflection', async () => {
     vi.spyOn(console, 'warn').mockImplementation(() => {})
     const { runReflection } = await import('../../src/reflector/reflector.js')
@@ -187,6 +318,26 @@ Old content.`,
     }
   })
 
+  it('saves a snapshot of the files the run changed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const nodePath = `${OMG_ROOT}/nodes/fact/home.md`
+    vol.fromJSON({ [nodePath]: 'before' })
+    const { runDedup } = await import('../../src/dedup/dedup.js')
+    const { atomicWrite } = await import('../../src/utils/fs.js')
+    vi.mocked(runDedup).mockImplementationOnce(async () => {
+      await atomicWrite(nodePath, 'after')
+      return { clustersProcessed: 1, mergesExecuted: 1, nodesArchived: 0, conflictsDetected: 0, tokensUsed: 0, errors: [] }
+    })
+
+    const defs = createCronDefinitions(makeCtx())
+    await defs.find((d) => d.id === 'omg-reflection')!.handler()
+
+    const [snapshotFile] = vol.readdirSync(`${OMG_ROOT}/.snapshots`) as string[]
+    expect(snapshotFile).toMatch(/^omg-reflection-\d{8}t\d{6}z\.json$/)
+    const manifest = JSON.parse(vol.readFileSync(`${OMG_ROOT}/.snapshots/${snapshotFile}`, 'utf-8') as string)
+    expect(manifest.files).toEqual([{ path: 'nodes/fact/home.md', before: 'before', afterHash: expect.any(String) }])
+  })
+
   it('continues to reflection even if dedup throws', async () => {
     vi.spyOn(console, 'warn').mockImplementation(() => {})
     vi.spyOn(console, 'error').mockImplementation(() => {})
@@ -278,6 +429,41 @@ Content.`,
 
     expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('dead link(s) removed'))
   })
+
+  it('archives nodes whose validUntil has passed', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vol.fromJSON({
+      [`${OMG_ROOT}/nodes/fact/fact.trip-2026-01-01.md`]: `---
+id: omg/fact.trip
+description: Travelling in Lisbon
+type: fact
+priority: medium
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-01T00:00:00Z
+validUntil: 2026-01-10T23:59:59Z
+---
+Away until the 10th.`,
+      [`${OMG_ROOT}/nodes/fact/fact.home-2026-01-01.md`]: `---
+id: omg/fact.home
+description: Lives in Warsaw
+type: fact
+priority: medium
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-01T00:00:00Z
+---
+Home base.`,
+    })
+
+    const defs = createCronDefinitions(makeCtx())
+    const maintenance = defs.find((d) => d.id === 'omg-maintenance')!
+    await maintenance.handler()
+
+    const { getRegistryEntry } = await import('../../src/graph/registry.js')
+    expect((await getRegistryEntry(OMG_ROOT, 'omg/fact.trip'))?.archived).toBe(true)
+    expect((await getRegistryEntry(OMG_ROOT, 'omg/fact.home'))?.archived).toBeUndefined()
+    expect(vol.readFileSync(`${OMG_ROOT}/nodes/fact/fact.trip-2026-01-01.md`, 'utf-8')).toContain('archived: true')
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('1 expired node(s) archived'))
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -325,6 +511,26 @@ describe('createCronDefinitions — omg-bootstrap', () => {
     expect(runBootstrapTick).toHaveBeenCalledOnce()
   })
 
+  it('handler skips the tick when a completed bootstrap rescanned its sources recently', async () => {
+    const { runBootstrapTick } = await import('../../src/bootstrap/bootstrap.js')
+    const completed = {
+      version: 2, status: 'completed', startedAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z',
+      cursor: 1, total: 1, ok: 1, fail: 0, done: [0], lastError: null, maintenanceDone: true,
+      incrementalSources: null,
+    }
+    const defs = createCronDefinitions(makeCtx())
+    const bootstrap = defs.find((d) => d.id === 'omg-bootstrap')!
+
+    vi.mocked(runBootstrapTick).mockClear()
+    vol.writeFileSync(`${OMG_ROOT}/.bootstrap-state.json`, JSON.stringify({ ...completed, sourcesCheckedAt: new Date().toISOString() }))
+    await bootstrap.handler()
+    expect(runBootstrapTick).not.toHaveBeenCalled()
+
+    vol.writeFileSync(`${OMG_ROOT}/.bootstrap-state.json`, JSON.stringify({ ...completed, sourcesCheckedAt: '2026-01-01T00:00:00Z' }))
+    await bootstrap.handler()
+    expect(runBootstrapTick).toHaveBeenCalledOnce()
+  })
+
   it('handler triggers graphMaintenanceCronHandler when bootstrap completes', async () => {
     const { runBootstrapTick } = await import('../../src/bootstrap/bootstrap.js')
     const { runDedup } = await import('../../src/dedup/dedup.js')
@@ -369,6 +575,28 @@ describe('createCronDefinitions — omg-bootstrap', () => {
     expect(runDedup).not.toHaveBeenCalled()
   })
 
+  it('handler does NOT trigger graphMaintenanceCronHandler after an incremental run', async () => {
+    const { runBootstrapTick } = await import('../../src/bootstrap/bootstrap.js')
+    const { runDedup } = await import('../../src/dedup/dedup.js')
+
+    vi.mocked(runBootstrapTick).mockResolvedValueOnce({
+      ran: true,
+      batchesProcessed: 1,
+      chunksSucceeded: 1,
+      nodesWritten: 2,
+      moreWorkRemains: false,
+      completed: true,
+      incremental: true,
+    })
+    vi.mocked(runDedup).mockClear()
+
+    const defs = createCronDefinitions(makeCtx())
+    const bootstrap = defs.find((d) => d.id === 'omg-bootstrap')!
+    await bootstrap.handler()
+
+    expect(runDedup).not.toHaveBeenCalled()
+  })
+
   it('handler does not throw when runBootstrapTick throws', async () => {
     const { runBootstrapTick } = await import('../../src/bootstrap/bootstrap.js')
     vi.mocked(runBootstrapTick).mockRejectedValueOnce(new Error('boom'))
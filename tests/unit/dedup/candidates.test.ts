@@ -63,6 +63,16 @@ describe('generateCandidatePairs — filtering', () => {
     expect(pairs).toHaveLength(0)
   })
 
+  it('filters out reflection rollups', () => {
+    const entries: [string, RegistryNodeEntry][] = [
+      ['omg/reflection/a', makeEntry({ type: 'reflection', canonicalKey: 'reflections.kayak', description: 'kayaking trips on weekends' })],
+      ['omg/reflection/b', makeEntry({ type: 'reflection', canonicalKey: 'reflections.kayak_weekly', description: 'kayaking trips on weekends', reflectionLevel: 'weekly' })],
+    ]
+    expect(generateCandidatePairs(entries, null, DEFAULT_CONFIG)).toHaveLength(0)
+    const flat = entries.map(([id, e]): [string, RegistryNodeEntry] => [id, { ...e, reflectionLevel: undefined }])
+    expect(generateCandidatePairs(flat, null, DEFAULT_CONFIG)).toHaveLength(1)
+  })
+
   it('returns empty array for a single-node bucket (no pairs possible)', () => {
     const entries: [string, RegistryNodeEntry][] = [
       ['omg/preference/a', makeEntry({ canonicalKey: 'preferences.theme', description: 'dark theme preference' })],
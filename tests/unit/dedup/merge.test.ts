@@ -4,6 +4,7 @@ import { applyPatch, archiveAsMerged, executeMerge } from '../../../src/dedup/me
 import type { NodeFrontmatter } from '../../../src/types.js'
 import type { MergePlan } from '../../../src/dedup/types.js'
 import { clearRegistryCache } from '../../../src/graph/registry.js'
+import { parseFrontmatter } from '../../../src/utils/frontmatter.js'
 
 vi.mock('node:fs', async () => {
   const m = await vi.importActual<typeof import('memfs')>('memfs')
@@ -251,6 +252,59 @@ describe('executeMerge — happy path', () => {
     expect(nodesArchived).toBe(1)
     expect(auditEntry.keepNodeId).toBe('omg/preference/keeper')
     expect(auditEntry.mergedNodeIds).toEqual(['omg/preference/loser'])
+    expect(auditEntry.action).toBe('merge')
+    // No registry entries link to the loser, so nothing was redirected
+    expect(auditEntry.redirectedLinks).toBeUndefined()
+  })
+
+  it('keeps keeper fields the merge does not touch', async () => {
+    vol.fromJSON({
+      [`${OMG_ROOT}/nodes/preference/keeper.md`]: KEEPER_CONTENT.replace(
+        'tags:',
+        'agents:\n  - main\nvalidFrom: 2024-01-01T00:00:00Z\nvalidUntil: 2030-01-01T00:00:00Z\n' +
+          'reflectionLevel: weekly\ntimeRange:\n  start: 2024-01-01T00:00:00Z\n  end: 2024-01-07T00:00:00Z\ntags:'
+      ),
+      [`${OMG_ROOT}/nodes/preference/loser.md`]: LOSER_CONTENT,
+    })
+    const filePaths = new Map([
+      ['omg/preference/keeper', `${OMG_ROOT}/nodes/preference/keeper.md`],
+      ['omg/preference/loser', `${OMG_ROOT}/nodes/preference/loser.md`],
+    ])
+
+    await executeMerge(makePlan(), filePaths, OMG_ROOT)
+
+    const { promises: fs } = await import('node:fs')
+    const { frontmatter } = parseFrontmatter(await fs.readFile(`${OMG_ROOT}/nodes/preference/keeper.md`, 'utf-8'))
+    expect(frontmatter).toMatchObject({
+      description: 'Merged description',
+      agents: ['main'],
+      validFrom: '2024-01-01T00:00:00Z',
+      validUntil: '2030-01-01T00:00:00Z',
+      reflectionLevel: 'weekly',
+      timeRange: { start: '2024-01-01T00:00:00Z', end: '2024-01-07T00:00:00Z' },
+    })
+  })
+
+  it("unions the losers' sources into the keeper's", async () => {
+    const sources = (...entries: string[]): string =>
+      'sources:\n' + entries.map((e) => `  - sessionKey: ${e}\n    kind: user\n    timestamp: 1\n`).join('') + 'tags:'
+    vol.fromJSON({
+      [`${OMG_ROOT}/nodes/preference/keeper.md`]: KEEPER_CONTENT.replace('tags:', sources('s1')),
+      [`${OMG_ROOT}/nodes/preference/loser.md`]: LOSER_CONTENT.replace('tags:', sources('s1', 's2')),
+    })
+    const filePaths = new Map([
+      ['omg/preference/keeper', `${OMG_ROOT}/nodes/preference/keeper.md`],
+      ['omg/preference/loser', `${OMG_ROOT}/nodes/preference/loser.md`],
+    ])
+
+    await executeMerge(makePlan(), filePaths, OMG_ROOT)
+
+    const { promises: fs } = await import('node:fs')
+    const { frontmatter } = parseFrontmatter(await fs.readFile(`${OMG_ROOT}/nodes/preference/keeper.md`, 'utf-8'))
+    expect(frontmatter['sources']).toEqual([
+      { sessionKey: 's1', kind: 'user', timestamp: 1 },
+      { sessionKey: 's2', kind: 'user', timestamp: 1 },
+    ])
   })
 })
 
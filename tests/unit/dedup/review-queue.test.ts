@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+const {
+  appendReviewRecord,
+  readReviewLog,
+  getPendingMerges,
+  derivePairConstraints,
+  computeReviewId,
+  formatPendingMerges,
+  pairKey,
+} = await import('../../../src/dedup/review-queue.js')
+import type { PendingMerge } from '../../../src/dedup/review-queue.js'
+
+const OMG_ROOT = '/workspace/memory/omg'
+
+function makePending(id: string, keepNodeId: string, mergeNodeIds: string[]): PendingMerge {
+  return {
+    kind: 'pending',
+    id,
+    timestamp: '2026-03-01T00:00:00Z',
+    keepNodeId,
+    mergeNodeIds,
+    similarityScore: 91,
+    rationale: 'Same preference',
+    bodies: Object.fromEntries([keepNodeId, ...mergeNodeIds].map((n) => [n, `Body of ${n}`])),
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  vol.fromJSON({ [`${OMG_ROOT}/.keep`]: '' })
+})
+
+describe('computeReviewId', () => {
+  it('is stable regardless of merge node order', () => {
+    expect(computeReviewId('a', ['b', 'c'])).toBe(computeReviewId('a', ['c', 'b']))
+    expect(computeReviewId('a', ['b'])).not.toBe(computeReviewId('b', ['a']))
+    expect(computeReviewId('a', ['b'])).toMatch(/^[a-f0-9]{8}$/)
+  })
+})
+
+describe('readReviewLog', () => {
+  it('round-trips records and skips malformed lines', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await appendReviewRecord(OMG_ROOT, makePending('p1', 'omg/a', ['omg/b']))
+    vol.appendFileSync(`${OMG_ROOT}/.dedup-review.jsonl`, 'not json\n{"kind":"decision"}\n')
+    await appendReviewRecord(OMG_ROOT, { kind: 'decision', id: 'p1', timestamp: '2026-03-02T00:00:00Z', decision: 'rejected' })
+
+    const records = await readReviewLog(OMG_ROOT)
+
+    expect(records.map((r) => r.kind)).toEqual(['pending', 'decision'])
+    vi.restoreAllMocks()
+  })
+
+  it('returns an empty array when the queue does not exist', async () => {
+    expect(await readReviewLog(OMG_ROOT)).toEqual([])
+  })
+})
+
+describe('getPendingMerges / derivePairConstraints', () => {
+  it('turns decisions into must-merge and never-merge pairs', () => {
+    const records = [
+      makePending('p1', 'omg/a', ['omg/b', 'omg/c']),
+      makePending('p2', 'omg/d', ['omg/e']),
+      makePending('p3', 'omg/f', ['omg/g']),
+      { kind: 'decision' as const, id: 'p1', timestamp: '2026-03-02T00:00:00Z', decision: 'accepted' as const },
+      { kind: 'decision' as const, id: 'p2', timestamp: '2026-03-02T00:00:00Z', decision: 'rejected' as const },
+    ]
+
+    expect(getPendingMerges(records).map((p) => p.id)).toEqual(['p3'])
+    const constraints = derivePairConstraints(records)
+    expect([...constraints.mustMerge]).toEqual([pairKey('omg/b', 'omg/a'), pairKey('omg/a', 'omg/c')])
+    expect([...constraints.neverMerge]).toEqual([pairKey('omg/e', 'omg/d')])
+  })
+
+  it('turns unmerges into never-merge pairs, overriding an accepted decision', () => {
+    const records = [
+      makePending('p1', 'omg/a', ['omg/b']),
+      { kind: 'decision' as const, id: 'p1', timestamp: '2026-03-02T00:00:00Z', decision: 'accepted' as const },
+    ]
+    const unmerge = {
+      timestamp: '2026-03-03T00:00:00Z',
+      action: 'unmerge' as const,
+      keepNodeId: 'omg/a',
+      mergedNodeIds: ['omg/b'],
+      aliasKeys: [],
+      conflicts: [],
+      patch: {},
+    }
+
+    const constraints = derivePairConstraints(records, [unmerge])
+    expect(constraints.mustMerge.size).toBe(0)
+    expect([...constraints.neverMerge]).toEqual([pairKey('omg/a', 'omg/b')])
+  })
+})
+
+describe('formatPendingMerges', () => {
+  it('shows the score, rationale and both bodies', () => {
+    const output = formatPendingMerges([makePending('p1', 'omg/a', ['omg/b'])])
+    expect(output).toContain('[p1] score 91 — keep omg/a, merge omg/b')
+    expect(output).toContain('Rationale: Same preference')
+    expect(output).toContain('    Body of omg/a')
+    expect(output).toContain('    Body of omg/b')
+  })
+
+  it('reports an empty queue', () => {
+    expect(formatPendingMerges([])).toBe('No pending dedup merges.')
+  })
+})
@@ -2,9 +2,11 @@ import { describe, it, expect } from 'vitest'
 import { generateSemanticBlocks } from '../../../src/dedup/semantic-blocks.js'
 import type { RegistryNodeEntry } from '../../../src/graph/registry.js'
 import type { SemanticDedupConfig } from '../../../src/dedup/semantic-types.js'
+import { pairKey } from '../../../src/dedup/review-queue.js'
 
 const DEFAULT_CONFIG: SemanticDedupConfig = {
   enabled: true,
+  mode: 'auto',
   heuristicPrefilterThreshold: 0.25,
   semanticMergeThreshold: 85,
   maxBlockSize: 6,
@@ -65,6 +67,16 @@ describe('generateSemanticBlocks', () => {
     expect(generateSemanticBlocks(entries, DEFAULT_CONFIG)).toHaveLength(0)
   })
 
+  it('never blocks a reflection rollup with its children', () => {
+    const entries = [
+      makeEntry('reflection', 'Kayaking trips on weekends', 'reflections.kayak-a'),
+      makeEntry('reflection', 'Kayaking trips on weekends in January', 'reflections.kayak-weekly', '2026-01-15T00:00:00Z', { reflectionLevel: 'weekly' }),
+    ]
+    expect(generateSemanticBlocks(entries, DEFAULT_CONFIG)).toHaveLength(0)
+    const flat = entries.map(([id, e]): [string, RegistryNodeEntry] => [id, { ...e, reflectionLevel: undefined }])
+    expect(generateSemanticBlocks(flat, DEFAULT_CONFIG)).toHaveLength(1)
+  })
+
   it('groups entries by type and domain', () => {
     // Two similar facts in the same domain should form a block
     const entries = [
@@ -120,4 +132,46 @@ describe('generateSemanticBlocks', () => {
     ]
     expect(generateSemanticBlocks(entries, config)).toHaveLength(0)
   })
+
+  it('uses embedding cosine when it scores a pair above the heuristic', () => {
+    const config = { ...DEFAULT_CONFIG, heuristicPrefilterThreshold: 0.9 }
+    const entries = [
+      makeEntry('fact', 'Quantum computing architecture', 'facts.quantum'),
+      makeEntry('fact', 'Weather patterns in Europe', 'facts.weather'),
+    ]
+    const vectors = new Map([
+      ['omg/facts-quantum', [1, 0]],
+      ['omg/facts-weather', [0.99, 0.1]],
+    ])
+    const blocks = generateSemanticBlocks(entries, config, vectors)
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0]!.maxHeuristicScore).toBeGreaterThan(0.9)
+  })
+
+  it('never blocks a pair the operator rejected', () => {
+    const entries = [
+      makeEntry('fact', 'User prefers dark mode in editor', 'facts.dark-mode-pref'),
+      makeEntry('fact', 'User prefers dark mode theme', 'facts.dark-mode-theme'),
+    ]
+    const constraints = {
+      mustMerge: new Set<string>(),
+      neverMerge: new Set([pairKey('omg/facts-dark-mode-pref', 'omg/facts-dark-mode-theme')]),
+    }
+    expect(generateSemanticBlocks(entries, DEFAULT_CONFIG, null, constraints)).toHaveLength(0)
+  })
+
+  it('always blocks a pair the operator accepted, ignoring score and time window', () => {
+    const config = { ...DEFAULT_CONFIG, heuristicPrefilterThreshold: 0.99, timeWindowDays: 1 }
+    const entries = [
+      makeEntry('fact', 'Quantum computing architecture', 'facts.quantum', '2026-01-01T00:00:00Z'),
+      makeEntry('fact', 'Weather patterns in Europe', 'facts.weather', '2026-02-15T00:00:00Z'),
+    ]
+    const constraints = {
+      mustMerge: new Set([pairKey('omg/facts-weather', 'omg/facts-quantum')]),
+      neverMerge: new Set<string>(),
+    }
+    const blocks = generateSemanticBlocks(entries, config, null, constraints)
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0]!.maxHeuristicScore).toBe(1)
+  })
 })
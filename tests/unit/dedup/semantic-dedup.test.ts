@@ -13,7 +13,8 @@ vi.mock('node:fs/promises', async () => {
   return { default: m.fs.promises, ...m.fs.promises }
 })
 
-const { runSemanticDedup } = await import('../../../src/dedup/semantic-dedup.js')
+const { runSemanticDedup, applyPendingMerge, rejectPendingMerge } = await import('../../../src/dedup/semantic-dedup.js')
+const { readReviewLog, getPendingMerges } = await import('../../../src/dedup/review-queue.js')
 
 const OMG_ROOT = '/workspace/memory/omg'
 
@@ -174,3 +175,96 @@ Content.`,
     expect(result.errors[0]).toContain('LLM')
   })
 })
+
+describe('runSemanticDedup — review mode', () => {
+  const NODES = {
+    [`${OMG_ROOT}/nodes/fact/fact.review-a-2026-01-15.md`]: `---
+id: omg/fact.review-a
+description: User prefers dark mode theme
+type: fact
+priority: medium
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-15T00:00:00Z
+canonicalKey: facts.review-a
+---
+Dark mode preference.`,
+    [`${OMG_ROOT}/nodes/fact/fact.review-b-2026-01-15.md`]: `---
+id: omg/fact.review-b
+description: User prefers dark mode in editor
+type: fact
+priority: medium
+created: 2026-01-01T00:00:00Z
+updated: 2026-01-15T00:00:00Z
+canonicalKey: facts.review-b
+---
+Editor dark mode.`,
+  }
+  const SUGGESTION = JSON.stringify({
+    suggestions: [{
+      keepNodeId: 'omg/fact.review-a',
+      mergeNodeIds: ['omg/fact.review-b'],
+      similarityScore: 95,
+      rationale: 'Both describe the dark mode preference',
+    }],
+  })
+  const config = parseConfig({ semanticDedup: { enabled: true, mode: 'review', heuristicPrefilterThreshold: 0.1 } })
+
+  beforeEach(() => {
+    vol.fromJSON(NODES)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('queues suggestions with bodies instead of merging, once per suggestion', async () => {
+    const first = await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: makeMockLlm(SUGGESTION) })
+    const second = await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: makeMockLlm(SUGGESTION) })
+
+    expect(first).toMatchObject({ mergesExecuted: 0, mergesQueued: 1, nodesArchived: 0 })
+    expect(second.mergesQueued).toBe(0)
+    const pending = getPendingMerges(await readReviewLog(OMG_ROOT))
+    expect(pending).toHaveLength(1)
+    expect(pending[0]!.bodies).toEqual({
+      'omg/fact.review-a': 'Dark mode preference.',
+      'omg/fact.review-b': 'Editor dark mode.',
+    })
+  })
+
+  it('applies an accepted merge and archives the merged node', async () => {
+    await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: makeMockLlm(SUGGESTION) })
+    const [pending] = getPendingMerges(await readReviewLog(OMG_ROOT))
+
+    const { nodesArchived } = await applyPendingMerge(OMG_ROOT, pending!.id)
+
+    expect(nodesArchived).toBe(1)
+    expect(getPendingMerges(await readReviewLog(OMG_ROOT))).toHaveLength(0)
+    const loser = vol.readFileSync(`${OMG_ROOT}/nodes/fact/fact.review-b-2026-01-15.md`, 'utf-8') as string
+    expect(loser).toContain('archived: true')
+    await expect(applyPendingMerge(OMG_ROOT, pending!.id)).rejects.toThrow('No pending merge')
+  })
+
+  it('never proposes a rejected pair again', async () => {
+    await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: makeMockLlm(SUGGESTION) })
+    const [pending] = getPendingMerges(await readReviewLog(OMG_ROOT))
+    await rejectPendingMerge(OMG_ROOT, pending!.id)
+
+    const llm = makeMockLlm(SUGGESTION)
+    const result = await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: llm })
+
+    expect(llm.generate).not.toHaveBeenCalled()
+    expect(result.mergesQueued).toBe(0)
+  })
+
+  it('merges an already-accepted pair without queueing it', async () => {
+    vol.writeFileSync(
+      `${OMG_ROOT}/.dedup-review.jsonl`,
+      [
+        { kind: 'pending', id: 'old', timestamp: '2026-02-01T00:00:00Z', keepNodeId: 'omg/fact.review-a', mergeNodeIds: ['omg/fact.review-b'], similarityScore: 90, rationale: 'r', bodies: {} },
+        { kind: 'decision', id: 'old', timestamp: '2026-02-02T00:00:00Z', decision: 'accepted' },
+      ].map((r) => JSON.stringify(r)).join('\n') + '\n',
+    )
+
+    const result = await runSemanticDedup({ omgRoot: OMG_ROOT, config, llmClient: makeMockLlm(SUGGESTION) })
+
+    expect(result).toMatchObject({ mergesExecuted: 1, mergesQueued: 0 })
+  })
+})
@@ -0,0 +1,170 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol, fs as memfs } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import { unmergeNode } from '../../../src/dedup/unmerge.js'
+import { executeMerge } from '../../../src/dedup/merge.js'
+import { appendAuditEntry, readAuditLog } from '../../../src/dedup/audit.js'
+import { loadPairConstraints, pairKey } from '../../../src/dedup/review-queue.js'
+import { clearRegistryCache, getRegistryEntry, getNodeFilePaths } from '../../../src/graph/registry.js'
+import { writeObservationNode } from '../../../src/graph/node-writer.js'
+import { applyMocUpdate } from '../../../src/graph/moc-manager.js'
+import { parseFrontmatter } from '../../../src/utils/frontmatter.js'
+
+const OMG_ROOT = '/ws/memory/omg'
+const MOC_PATH = `${OMG_ROOT}/mocs/moc-preferences.md`
+
+async function writePreference(key: string, body: string, linkKeys?: string[]): Promise<{ id: string; path: string }> {
+  const node = await writeObservationNode(
+    {
+      kind: 'upsert',
+      canonicalKey: key,
+      type: 'preference',
+      title: key,
+      description: `Preference ${key}`,
+      body,
+      priority: 'medium',
+      mocHints: ['preferences'],
+      ...(linkKeys && { linkKeys }),
+    },
+    { omgRoot: OMG_ROOT, sessionKey: 'test' }
+  )
+  await applyMocUpdate(MOC_PATH, { action: 'add', nodeId: node.frontmatter.id })
+  return { id: node.frontmatter.id, path: node.filePath }
+}
+
+function readNode(path: string): ReturnType<typeof parseFrontmatter> {
+  return parseFrontmatter(memfs.readFileSync(path, 'utf-8') as string)
+}
+
+/** Writes keeper, loser and a node linking to the loser, then merges loser into keeper. */
+async function mergeFixture(): Promise<{ keeper: { id: string; path: string }; loser: { id: string; path: string }; linker: { id: string; path: string } }> {
+  const keeper = await writePreference('preferences.editor_theme', 'Dark mode everywhere.')
+  const loser = await writePreference('preferences.dark_theme', 'Likes dark themes.')
+  const linker = await writePreference('preferences.terminal', 'Uses a dark terminal.', [loser.id])
+
+  const plan = {
+    keepUid: '',
+    keepNodeId: keeper.id,
+    mergeUids: [],
+    mergeNodeIds: [loser.id],
+    aliasKeys: ['preferences.dark_theme'],
+    conflicts: [],
+    patch: { bodyAppend: 'Also likes dark themes.' },
+  }
+  const filePaths = await getNodeFilePaths(OMG_ROOT, [keeper.id, loser.id])
+  const { auditEntry } = await executeMerge(plan, filePaths, OMG_ROOT)
+  await appendAuditEntry(OMG_ROOT, auditEntry)
+  await applyMocUpdate(MOC_PATH, { action: 'remove', nodeId: loser.id })
+  return { keeper, loser, linker }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/mocs`, { recursive: true })
+})
+
+describe('unmergeNode', () => {
+  it('restores the loser and reverts the keeper, links and MOC', async () => {
+    const { keeper, loser, linker } = await mergeFixture()
+    expect((await getRegistryEntry(OMG_ROOT, linker.id))?.links).toContain(keeper.id)
+
+    const result = await unmergeNode(OMG_ROOT, keeper.id, loser.id)
+
+    expect(result.aliasesRemoved).toEqual(['preferences.dark_theme'])
+    expect(result.bodyReverted).toBe(true)
+    expect(result.linksRestored).toEqual([linker.id])
+    expect(result.mocDomains).toEqual(['preferences'])
+
+    const keeperNode = readNode(keeper.path)
+    expect(keeperNode.body.trim()).toBe('Dark mode everywhere.')
+    expect(keeperNode.frontmatter['aliases']).toBeUndefined()
+    expect(keeperNode.frontmatter['mergedFrom']).toBeUndefined()
+
+    const loserNode = readNode(loser.path)
+    expect(loserNode.frontmatter['archived']).toBeUndefined()
+    expect(loserNode.frontmatter['mergedInto']).toBeUndefined()
+    expect((await getRegistryEntry(OMG_ROOT, loser.id))?.archived).toBe(false)
+    expect(memfs.readFileSync(MOC_PATH, 'utf-8')).toContain(`[[${loser.id}]]`)
+
+    expect((await getRegistryEntry(OMG_ROOT, linker.id))?.links).toContain(loser.id)
+    expect((await getRegistryEntry(OMG_ROOT, linker.id))?.links).not.toContain(keeper.id)
+    expect(readNode(linker.path).frontmatter['links']).toContain(loser.id)
+    expect(readNode(linker.path).frontmatter['links']).not.toContain(keeper.id)
+  })
+
+  it('keeps the keeper link when the node linked the keeper before the merge', async () => {
+    const keeper = await writePreference('preferences.editor_theme', 'Dark mode everywhere.')
+    const loser = await writePreference('preferences.dark_theme', 'Likes dark themes.')
+    const linker = await writePreference('preferences.terminal', 'Uses a dark terminal.', [keeper.id, loser.id])
+    const plan = {
+      keepUid: '', keepNodeId: keeper.id, mergeUids: [], mergeNodeIds: [loser.id],
+      aliasKeys: [], conflicts: [], patch: {},
+    }
+    const { auditEntry } = await executeMerge(plan, await getNodeFilePaths(OMG_ROOT, [keeper.id, loser.id]), OMG_ROOT)
+    await appendAuditEntry(OMG_ROOT, auditEntry)
+
+    await unmergeNode(OMG_ROOT, keeper.id, loser.id)
+
+    expect(readNode(linker.path).frontmatter['links']).toEqual(expect.arrayContaining([keeper.id, loser.id]))
+  })
+
+  it('takes back only the unmerged loser\'s share of a multi-loser append', async () => {
+    const keeper = await writePreference('preferences.editor_theme', 'Dark mode everywhere.')
+    const kayak = await writePreference('preferences.kayak', 'Paddles a sea kayak on weekends.')
+    const coffee = await writePreference('preferences.coffee', 'Drinks espresso with oat milk.')
+    const plan = {
+      keepUid: '', keepNodeId: keeper.id, mergeUids: [], mergeNodeIds: [kayak.id, coffee.id],
+      aliasKeys: [], conflicts: [],
+      patch: { bodyAppend: 'Paddles a kayak most weekends.\n\nPrefers espresso with oat milk.' },
+    }
+    const { auditEntry } = await executeMerge(plan, await getNodeFilePaths(OMG_ROOT, [keeper.id, kayak.id, coffee.id]), OMG_ROOT)
+    await appendAuditEntry(OMG_ROOT, auditEntry)
+    expect(auditEntry.bodyShares).toEqual([
+      { nodeId: kayak.id, text: 'Paddles a kayak most weekends.' },
+      { nodeId: coffee.id, text: 'Prefers espresso with oat milk.' },
+    ])
+
+    const result = await unmergeNode(OMG_ROOT, keeper.id, coffee.id)
+
+    expect(result.bodyReverted).toBe(true)
+    expect(result.auditEntry.patch).toEqual({ bodyAppend: 'Prefers espresso with oat milk.' })
+    expect(readNode(keeper.path).body.trim()).toBe('Dark mode everywhere.\n\nPaddles a kayak most weekends.')
+
+    await unmergeNode(OMG_ROOT, keeper.id, kayak.id)
+    expect(readNode(keeper.path).body.trim()).toBe('Dark mode everywhere.')
+  })
+
+  it('records an unmerge audit entry that blocks the pair from merging again', async () => {
+    const { keeper, loser } = await mergeFixture()
+
+    await unmergeNode(OMG_ROOT, keeper.id, loser.id)
+
+    const last = (await readAuditLog(OMG_ROOT)).at(-1)
+    expect(last).toMatchObject({
+      action: 'unmerge',
+      keepNodeId: keeper.id,
+      mergedNodeIds: [loser.id],
+      patch: { bodyAppend: 'Also likes dark themes.' },
+    })
+    const { neverMerge } = await loadPairConstraints(OMG_ROOT)
+    expect(neverMerge.has(pairKey(keeper.id, loser.id))).toBe(true)
+  })
+
+  it('throws when the node was not merged into the keeper', async () => {
+    const keeper = await writePreference('preferences.editor_theme', 'Dark mode everywhere.')
+    const other = await writePreference('preferences.font', 'Uses a monospace font.')
+
+    await expect(unmergeNode(OMG_ROOT, keeper.id, other.id)).rejects.toThrow('was not merged into')
+    await expect(unmergeNode(OMG_ROOT, keeper.id, 'omg/preference/missing')).rejects.toThrow('not in the registry')
+  })
+})
@@ -0,0 +1,102 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol, fs as memfs } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import { proposeDomains, discoverDomains } from '../../src/graph/domain-discovery.js'
+import { clearRegistryCache, getRegistryEntry, type RegistryNodeEntry } from '../../src/graph/registry.js'
+import { relinkNode, writeObservationNode } from '../../src/graph/node-writer.js'
+import { applyMocUpdate } from '../../src/graph/moc-manager.js'
+import { parseFrontmatter } from '../../src/utils/frontmatter.js'
+import { parseConfig } from '../../src/config.js'
+
+const OMG_ROOT = '/ws/memory/omg'
+const CONFIG = parseConfig({ graphMaintenance: { domainDiscovery: { minClusterSize: 3 } } })
+const DISCOVERY = CONFIG.graphMaintenance.domainDiscovery
+
+function entry(overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  return {
+    type: 'fact',
+    kind: 'observation',
+    description: 'A fact',
+    priority: 'medium',
+    created: '2026-01-01T00:00:00Z',
+    updated: '2026-01-01T00:00:00Z',
+    filePath: '/x.md',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/mocs`, { recursive: true })
+})
+
+describe('proposeDomains', () => {
+  it('clusters catch-all nodes by shared tag and pulls in linked untagged nodes', () => {
+    const entries: [string, RegistryNodeEntry][] = [
+      ['omg/fact/a', entry({ tags: ['Health'] })],
+      ['omg/fact/b', entry({ tags: ['health', 'sleep'] })],
+      ['omg/fact/c', entry({ links: ['omg/fact/a'] })],
+      ['omg/fact/d', entry({ tags: ['travel'], links: ['omg/moc-facts'] })],
+      ['omg/fact/e', entry({ tags: ['travel', 'fact'] })],
+      // Already organized or archived nodes are left alone
+      ['omg/preference/f', entry({ type: 'preference', tags: ['health'], canonicalKey: 'preferences.gym' })],
+      ['omg/fact/g', entry({ tags: ['health'], archived: true })],
+    ]
+
+    expect(proposeDomains(entries, DISCOVERY)).toEqual([
+      { domain: 'health', nodeIds: ['omg/fact/a', 'omg/fact/b', 'omg/fact/c'] },
+    ])
+    expect(proposeDomains(entries, { ...DISCOVERY, minClusterSize: 2 }).map((p) => p.domain)).toEqual(['health', 'travel'])
+  })
+})
+
+describe('discoverDomains', () => {
+  it('creates the MOC, re-homes members and lists the MOC in index.md', async () => {
+    const ids: string[] = []
+    for (const key of ['blood_type', 'allergy', 'doctor']) {
+      const node = await writeObservationNode(
+        {
+          kind: 'upsert',
+          canonicalKey: `facts.${key}`,
+          type: 'fact',
+          title: key,
+          description: `Health fact ${key}`,
+          body: key,
+          priority: 'medium',
+          mocHints: ['facts'],
+          tags: ['health'],
+        },
+        { omgRoot: OMG_ROOT, sessionKey: 'test' }
+      )
+      await applyMocUpdate(`${OMG_ROOT}/mocs/moc-facts.md`, { action: 'add', nodeId: node.frontmatter.id })
+      ids.push(node.frontmatter.id)
+    }
+    await relinkNode(OMG_ROOT, ids[1]!, (links) => [...links, 'omg/fact/clinic'])
+
+    const result = await discoverDomains({ omgRoot: OMG_ROOT, config: CONFIG })
+
+    expect(result).toMatchObject({ domainsCreated: ['health'], nodesRehomed: 3, errors: [] })
+    const moc = memfs.readFileSync(`${OMG_ROOT}/mocs/moc-health.md`, 'utf-8') as string
+    for (const id of ids) expect(moc).toContain(`[[${id}]]`)
+    expect(memfs.readFileSync(`${OMG_ROOT}/mocs/moc-facts.md`, 'utf-8')).not.toContain('[[')
+    expect((await getRegistryEntry(OMG_ROOT, ids[0]!))?.links).toEqual(['omg/moc-health'])
+    const relinked = await getRegistryEntry(OMG_ROOT, ids[1]!)
+    expect(relinked?.links).toEqual(['omg/moc-health', 'omg/fact/clinic'])
+    const file = parseFrontmatter(memfs.readFileSync(relinked!.filePath, 'utf-8') as string)
+    expect(file.frontmatter['links']).toEqual(['omg/moc-health', 'omg/fact/clinic'])
+    expect(memfs.readFileSync(`${OMG_ROOT}/index.md`, 'utf-8')).toContain('- [[moc-health]]')
+
+    // Nothing left to organize on the next run
+    expect((await discoverDomains({ omgRoot: OMG_ROOT, config: CONFIG })).proposals).toEqual([])
+  })
+})
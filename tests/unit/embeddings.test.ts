@@ -0,0 +1,181 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import {
+  createHashedNgramProvider,
+  createLocalMemoryTools,
+  cosineSimilarity,
+  resolveEmbeddingProvider,
+  syncVectorIndex,
+  clearVectorIndexCache,
+} from '../../src/context/embeddings.js'
+import type { EmbeddingProvider } from '../../src/context/embeddings.js'
+import { buildSemanticCandidates } from '../../src/context/memory-search.js'
+import { registerNode, clearRegistryCache } from '../../src/graph/registry.js'
+import type { RegistryNodeEntry } from '../../src/graph/registry.js'
+import { parseConfig } from '../../src/config.js'
+
+const OMG_ROOT = '/test/omg'
+const VECTORS_PATH = `${OMG_ROOT}/.vectors.json`
+
+function makeEntry(overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  return {
+    type: 'fact',
+    kind: 'observation',
+    description: 'Test fact',
+    priority: 'medium',
+    created: '2026-02-20T10:00:00Z',
+    updated: '2026-02-20T10:00:00Z',
+    filePath: `${OMG_ROOT}/nodes/fact/fact-test.md`,
+    ...overrides,
+  }
+}
+
+function countingProvider(): EmbeddingProvider & { calls: string[][] } {
+  const inner = createHashedNgramProvider(64)
+  const calls: string[][] = []
+  return {
+    id: inner.id,
+    dimensions: inner.dimensions,
+    calls,
+    async embed(texts) {
+      calls.push([...texts])
+      return inner.embed(texts)
+    },
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  clearVectorIndexCache()
+  vol.mkdirSync(`${OMG_ROOT}/nodes/fact`, { recursive: true })
+})
+
+// ─── Hashed n-gram provider ─────────────────────────────────────────────────
+
+describe('createHashedNgramProvider', () => {
+  it('produces deterministic unit-length vectors of the configured size', async () => {
+    const provider = createHashedNgramProvider(128)
+    const [a, b] = await provider.embed(['Prefers dark mode', 'Prefers dark mode'])
+    expect(a).toHaveLength(128)
+    expect(a).toEqual(b)
+    expect(cosineSimilarity(a!, a!)).toBeCloseTo(1, 5)
+  })
+
+  it('scores inflected and diacritic variants above unrelated text', async () => {
+    const provider = createHashedNgramProvider()
+    const [query, inflected, unrelated] = await provider.embed([
+      'imię żony',
+      'Żona ma na imię Anna',
+      'Production deploys go to Fly.io',
+    ])
+    expect(cosineSimilarity(query!, inflected!)).toBeGreaterThan(cosineSimilarity(query!, unrelated!))
+  })
+})
+
+describe('resolveEmbeddingProvider', () => {
+  it('returns the hashed-ngram provider by default', () => {
+    expect(resolveEmbeddingProvider(parseConfig({}))?.dimensions).toBe(256)
+  })
+
+  it('returns null when the fallback is disabled', () => {
+    expect(resolveEmbeddingProvider(parseConfig({ embedding: { provider: 'none' } }))).toBeNull()
+  })
+})
+
+// ─── Vector file ────────────────────────────────────────────────────────────
+
+describe('syncVectorIndex', () => {
+  const entries: [string, RegistryNodeEntry][] = [
+    ['omg/fact/a', makeEntry({ description: 'Deploys go to Fly.io' })],
+    ['omg/fact/b', makeEntry({ description: 'Editor theme is dark' })],
+    ['omg/fact/old', makeEntry({ description: 'Used vim', archived: true })],
+  ]
+
+  it('embeds non-archived entries and persists the vectors', async () => {
+    const provider = countingProvider()
+    const vectors = await syncVectorIndex(OMG_ROOT, entries, provider)
+
+    expect([...vectors.keys()]).toEqual(['omg/fact/a', 'omg/fact/b'])
+    const file = JSON.parse(vol.readFileSync(VECTORS_PATH, 'utf-8') as string)
+    expect(Object.keys(file.vectors)).toEqual(['omg/fact/a', 'omg/fact/b'])
+  })
+
+  it('only re-embeds entries whose updated timestamp changed', async () => {
+    const provider = countingProvider()
+    await syncVectorIndex(OMG_ROOT, entries, provider)
+    clearVectorIndexCache()
+
+    const changed: [string, RegistryNodeEntry][] = [
+      entries[0]!,
+      ['omg/fact/b', makeEntry({ description: 'Editor theme is light', updated: '2026-03-01T00:00:00Z' })],
+    ]
+    await syncVectorIndex(OMG_ROOT, changed, provider)
+    expect(provider.calls).toEqual([
+      ['Deploys go to Fly.io', 'Editor theme is dark'],
+      ['Editor theme is light'],
+    ])
+  })
+
+  it('re-embeds everything when the provider dimensions change', async () => {
+    await syncVectorIndex(OMG_ROOT, entries, createHashedNgramProvider(64))
+    const vectors = await syncVectorIndex(OMG_ROOT, entries, createHashedNgramProvider(96))
+    expect(vectors.get('omg/fact/a')).toHaveLength(96)
+  })
+})
+
+// ─── MemoryTools adapter ────────────────────────────────────────────────────
+
+describe('createLocalMemoryTools', () => {
+  beforeEach(async () => {
+    await registerNode(OMG_ROOT, 'omg/fact/deploy', makeEntry({
+      description: 'Production deploys go to Fly.io',
+      filePath: `${OMG_ROOT}/nodes/fact/deploy.md`,
+    }))
+    await registerNode(OMG_ROOT, 'omg/fact/wife', makeEntry({
+      description: 'Żona ma na imię Anna',
+      filePath: `${OMG_ROOT}/nodes/fact/wife.md`,
+    }))
+  })
+
+  it('returns results that normalise into semantic candidates', async () => {
+    const tools = createLocalMemoryTools(OMG_ROOT, createHashedNgramProvider())
+    const response = await tools.search('jak ma na imię moja żona?')
+
+    expect(response).not.toBeNull()
+    const candidates = buildSemanticCandidates(response!)
+    expect(candidates[0]).toMatchObject({
+      filePath: `${OMG_ROOT}/nodes/fact/wife.md`,
+      semanticScore: 1,
+      snippet: 'Żona ma na imię Anna',
+    })
+  })
+
+  it('respects maxResults', async () => {
+    const tools = createLocalMemoryTools(OMG_ROOT, createHashedNgramProvider(), 1)
+    const response = await tools.search('deploys żona')
+    expect(response?.results).toHaveLength(1)
+  })
+
+  it('get reads node files under omgRoot only', async () => {
+    vol.writeFileSync(`${OMG_ROOT}/nodes/fact/deploy.md`, 'body')
+    vol.writeFileSync('/etc-secret.txt', 'secret')
+    const tools = createLocalMemoryTools(OMG_ROOT, createHashedNgramProvider())
+
+    expect(await tools.get(`${OMG_ROOT}/nodes/fact/deploy.md`)).toEqual({
+      filePath: `${OMG_ROOT}/nodes/fact/deploy.md`,
+      content: 'body',
+    })
+    expect(await tools.get('/etc-secret.txt')).toBeNull()
+  })
+})
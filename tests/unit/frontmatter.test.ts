@@ -390,6 +390,33 @@ describe('parseNodeFrontmatter — uid, canonicalKey, aliases (new optional fiel
   })
 })
 
+describe('parseNodeFrontmatter — validity window', () => {
+  it('accepts validFrom and validUntil', () => {
+    const result = parseNodeFrontmatter({
+      ...validMinimal,
+      validFrom: '2026-03-01T00:00:00Z',
+      validUntil: '2026-03-14T23:59:59Z',
+    })
+    expect(result.validFrom).toBe('2026-03-01T00:00:00Z')
+    expect(result.validUntil).toBe('2026-03-14T23:59:59Z')
+  })
+
+  it('rejects a non-ISO validUntil', () => {
+    expectFieldError(() => parseNodeFrontmatter({ ...validMinimal, validUntil: 'next friday' }), 'validUntil')
+  })
+
+  it('rejects validUntil before validFrom', () => {
+    expectFieldError(
+      () => parseNodeFrontmatter({
+        ...validMinimal,
+        validFrom: '2026-03-14T00:00:00Z',
+        validUntil: '2026-03-01T00:00:00Z',
+      }),
+      'validUntil',
+    )
+  })
+})
+
 // ---------------------------------------------------------------------------
 // nodeFrontmatterSchema export
 // ---------------------------------------------------------------------------
@@ -0,0 +1,139 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import { exportGraphBundle, importGraphBundle, parseBundle, serializeBundle } from '../../src/graph/bundle.js'
+import { writeObservationNode } from '../../src/graph/node-writer.js'
+import { applyMocUpdate } from '../../src/graph/moc-manager.js'
+import { clearRegistryCache, getRegistryEntries, getRegistryEntry, rebuildRegistry } from '../../src/graph/registry.js'
+import { readGraphNode } from '../../src/graph/node-reader.js'
+import { computeUid } from '../../src/utils/id.js'
+import type { ObserverOperation } from '../../src/types.js'
+
+const SOURCE = '/source/omg'
+const TARGET = '/target/omg'
+const BUNDLE = '/tmp/graph.jsonl'
+
+function upsert(canonicalKey: string, description: string): Extract<ObserverOperation, { kind: 'upsert' }> {
+  return {
+    kind: 'upsert',
+    canonicalKey,
+    type: 'preference',
+    title: description,
+    description,
+    body: `${description}.`,
+    priority: 'medium',
+    mocHints: ['preferences'],
+  }
+}
+
+async function seedSource(): Promise<void> {
+  const node = await writeObservationNode(upsert('preferences.editor_theme', 'Dark theme'), { omgRoot: SOURCE, sessionKey: 's', scope: '/source' })
+  await applyMocUpdate(`${SOURCE}/mocs/moc-preferences.md`, { action: 'add', nodeId: node.frontmatter.id })
+  await rebuildRegistry(SOURCE)
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(SOURCE, { recursive: true })
+  vol.mkdirSync(TARGET, { recursive: true })
+  vol.mkdirSync('/tmp', { recursive: true })
+})
+
+describe('exportGraphBundle', () => {
+  it('writes a header line and one line per node with its MOC membership', async () => {
+    await seedSource()
+    const result = await exportGraphBundle(SOURCE, BUNDLE)
+
+    expect(result.nodeCount).toBe(1)
+    const [header, line] = (vol.readFileSync(BUNDLE, 'utf-8') as string).trim().split('\n').map((l) => JSON.parse(l))
+    expect(header).toMatchObject({ format: 'omg-bundle', version: 1, nodeCount: 1 })
+    expect(line.frontmatter.id).toBe('omg/preference/preferences-editor-theme')
+    expect(line.mocs).toEqual(['preferences'])
+  })
+
+  it('leaves archived nodes out unless asked', async () => {
+    await seedSource()
+    const filePath = `${SOURCE}/nodes/preference/preferences-editor-theme.md`
+    vol.writeFileSync(filePath, (vol.readFileSync(filePath, 'utf-8') as string).replace('---\n', '---\narchived: true\n'))
+    await rebuildRegistry(SOURCE)
+
+    expect((await exportGraphBundle(SOURCE, BUNDLE)).nodeCount).toBe(0)
+    expect((await exportGraphBundle(SOURCE, BUNDLE, { includeArchived: true })).nodeCount).toBe(1)
+  })
+})
+
+describe('importGraphBundle', () => {
+  it('recreates nodes under the target scope and re-adds MOC membership', async () => {
+    await seedSource()
+    await exportGraphBundle(SOURCE, BUNDLE)
+
+    const result = await importGraphBundle(TARGET, BUNDLE, { scope: '/target' })
+
+    expect(result).toEqual({ created: 1, updated: 0, skipped: 0, failed: 0 })
+    const node = await readGraphNode(`${TARGET}/nodes/preference/preferences-editor-theme.md`)
+    expect(node?.frontmatter.uid).toBe(computeUid('/target', 'preference', 'preferences.editor_theme'))
+    expect(node?.frontmatter.links).toEqual(['omg/moc-preferences'])
+    expect(vol.readFileSync(`${TARGET}/mocs/moc-preferences.md`, 'utf-8')).toContain('[[omg/preference/preferences-editor-theme]]')
+    expect(await getRegistryEntry(TARGET, 'omg/preference/preferences-editor-theme')).not.toBeNull()
+  })
+
+  it('does not duplicate nodes when imported twice', async () => {
+    await seedSource()
+    await exportGraphBundle(SOURCE, BUNDLE)
+
+    await importGraphBundle(TARGET, BUNDLE, { scope: '/target' })
+    const second = await importGraphBundle(TARGET, BUNDLE, { scope: '/target' })
+
+    expect(second).toEqual({ created: 0, updated: 0, skipped: 1, failed: 0 })
+    expect((await getRegistryEntries(TARGET, { type: 'preference' })).length).toBe(1)
+  })
+
+  it('preserves mergedFrom provenance and aliases', async () => {
+    const bundle = serializeBundle([{
+      frontmatter: {
+        id: 'omg/fact/facts-home-city',
+        description: 'Lives in Berlin',
+        type: 'fact',
+        priority: 'medium',
+        created: '2026-01-01T00:00:00Z',
+        updated: '2026-01-02T00:00:00Z',
+        canonicalKey: 'facts.home_city',
+        aliases: ['facts.city'],
+        mergedFrom: ['omg/fact/facts-city'],
+      },
+      body: 'Berlin.',
+      mocs: [],
+    }])
+    vol.writeFileSync(BUNDLE, bundle)
+
+    await importGraphBundle(TARGET, BUNDLE, { scope: '/target' })
+
+    const node = await readGraphNode(`${TARGET}/nodes/fact/facts-home-city.md`)
+    expect(node?.frontmatter.mergedFrom).toEqual(['omg/fact/facts-city'])
+    expect(node?.frontmatter.aliases).toEqual(['facts.city'])
+  })
+
+  it('rejects files that are not bundles', async () => {
+    vol.writeFileSync(BUNDLE, '{"hello":"world"}\n')
+    await expect(importGraphBundle(TARGET, BUNDLE, { scope: '/target' })).rejects.toThrow('Bundle header is invalid')
+  })
+})
+
+describe('parseBundle', () => {
+  it('skips invalid node lines and counts them', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const raw = serializeBundle([]) + 'not json\n{"frontmatter":{"id":"bad"},"body":""}\n'
+    expect(parseBundle(raw)).toEqual({ nodes: [], failed: 2 })
+    vi.restoreAllMocks()
+  })
+})
@@ -19,6 +19,8 @@ describe('src/index.ts public API surface', () => {
       'nodeFrontmatterSchema',
       'FrontmatterValidationError',
       'scaffoldGraphIfNeeded',
+      'createOmgTools',
+      'createLocalMemoryTools',
       'beforeCompaction',
       'plugin',
     ]
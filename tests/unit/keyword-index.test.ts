@@ -0,0 +1,236 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import {
+  getKeywordIndex,
+  rebuildKeywordIndex,
+  clearKeywordIndexCache,
+  flushKeywordIndex,
+  tokenizeEntry,
+} from '../../src/graph/keyword-index.js'
+import {
+  registerNode,
+  updateRegistryEntry,
+  removeRegistryEntry,
+  getRegistryEntries,
+  clearRegistryCache,
+} from '../../src/graph/registry.js'
+import type { RegistryNodeEntry } from '../../src/graph/registry.js'
+import { scoreRegistryEntries } from '../../src/context/selector.js'
+
+const OMG_ROOT = '/test/omg'
+const INDEX_PATH = `${OMG_ROOT}/.keyword-index.json`
+
+function makeEntry(overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  return {
+    type: 'fact',
+    kind: 'observation',
+    description: 'Test fact',
+    priority: 'medium',
+    created: '2026-02-20T10:00:00Z',
+    updated: '2026-02-20T10:00:00Z',
+    filePath: '/test/omg/nodes/fact/fact-test.md',
+    ...overrides,
+  }
+}
+
+async function readIndexFile(): Promise<{ docs: Record<string, unknown>; terms: Record<string, Record<string, number>> }> {
+  await flushKeywordIndex()
+  return JSON.parse(vol.readFileSync(INDEX_PATH, 'utf-8') as string)
+}
+
+async function seed(): Promise<void> {
+  await registerNode(OMG_ROOT, 'omg/fact/deploy', makeEntry({ description: 'Production deploys go to Fly.io' }))
+  await registerNode(OMG_ROOT, 'omg/preference/theme', makeEntry({
+    type: 'preference',
+    description: 'Prefers dark editor theme',
+    tags: ['editor'],
+    canonicalKey: 'preferences.editor_theme',
+  }))
+  await registerNode(OMG_ROOT, 'omg/fact/wife', makeEntry({ description: 'Żona ma na imię Anna' }))
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(OMG_ROOT, { recursive: true })
+})
+
+// ─── Tokenization ───────────────────────────────────────────────────────────
+
+describe('tokenizeEntry', () => {
+  it('folds and splits description, canonicalKey, and tags', () => {
+    const tokens = tokenizeEntry(makeEntry({
+      description: 'Żona lubi kawę',
+      canonicalKey: 'identity.spouse_name',
+      tags: ['family'],
+    }))
+    expect(tokens).toEqual(['zona', 'lubi', 'kawe', 'identity', 'spouse', 'name', 'family'])
+  })
+})
+
+// ─── Building + persistence ─────────────────────────────────────────────────
+
+describe('getKeywordIndex', () => {
+  it('builds and persists the index on first use', async () => {
+    await seed()
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+
+    expect(index.docCount).toBe(3)
+    expect(index.documentFrequency('editor')).toBe(1)
+    expect((await readIndexFile()).terms['editor']).toEqual({ 'omg/preference/theme': 3 })
+  })
+
+  it('excludes archived entries', async () => {
+    await registerNode(OMG_ROOT, 'omg/fact/old', makeEntry({ description: 'Used vim previously', archived: true }))
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+    expect(index.docCount).toBe(0)
+    expect(index.documentFrequency('vim')).toBe(0)
+  })
+
+  it('reuses a valid on-disk index after the cache is cleared', async () => {
+    await seed()
+    const entries = await getRegistryEntries(OMG_ROOT)
+    await getKeywordIndex(OMG_ROOT, entries)
+    await flushKeywordIndex()
+    const before = vol.statSync(INDEX_PATH).mtimeMs
+
+    clearKeywordIndexCache()
+    const index = await getKeywordIndex(OMG_ROOT, entries)
+    expect(index.docCount).toBe(3)
+    expect(vol.statSync(INDEX_PATH).mtimeMs).toBe(before)
+  })
+
+  it('rebuilds when the on-disk index is out of sync with the registry', async () => {
+    vol.writeFileSync(INDEX_PATH, JSON.stringify({ version: 1, docs: { 'omg/fact/gone': { length: 1, updated: 'x' } }, terms: { gone: { 'omg/fact/gone': 1 } } }))
+    await seed()
+    clearKeywordIndexCache()
+
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+    expect(index.docCount).toBe(3)
+    expect(index.documentFrequency('gone')).toBe(0)
+  })
+
+  it('rebuilds when the on-disk index is corrupt', async () => {
+    vol.writeFileSync(INDEX_PATH, '{ not json')
+    await seed()
+    clearKeywordIndexCache()
+
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+    expect(index.docCount).toBe(3)
+  })
+})
+
+// ─── Registry sync ──────────────────────────────────────────────────────────
+
+describe('registry sync', () => {
+  beforeEach(async () => {
+    await seed()
+    await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+  })
+
+  it('indexes newly registered nodes', async () => {
+    await registerNode(OMG_ROOT, 'omg/fact/db', makeEntry({ description: 'Postgres is the primary database' }))
+    expect((await readIndexFile()).terms['postgres']).toEqual({ 'omg/fact/db': 1 })
+  })
+
+  it('replaces postings when a description changes', async () => {
+    await updateRegistryEntry(OMG_ROOT, 'omg/fact/deploy', {
+      description: 'Production deploys go to Render',
+      updated: '2026-03-01T00:00:00Z',
+    })
+    const { terms } = await readIndexFile()
+    expect(terms['render']).toEqual({ 'omg/fact/deploy': 1 })
+    expect(terms['fly']).toBeUndefined()
+  })
+
+  it('drops archived and removed nodes', async () => {
+    await updateRegistryEntry(OMG_ROOT, 'omg/preference/theme', { archived: true })
+    await removeRegistryEntry(OMG_ROOT, 'omg/fact/deploy')
+
+    const { docs, terms } = await readIndexFile()
+    expect(Object.keys(docs)).toEqual(['omg/fact/wife'])
+    expect(terms['editor']).toBeUndefined()
+    expect(terms['deploys']).toBeUndefined()
+  })
+
+  it('coalesces changes into one debounced write', async () => {
+    vi.useFakeTimers()
+    try {
+      const before = (await readIndexFile()).docs
+      await registerNode(OMG_ROOT, 'omg/fact/db', makeEntry({ description: 'Postgres is the primary database' }))
+      await registerNode(OMG_ROOT, 'omg/fact/cache', makeEntry({ description: 'Redis caches sessions' }))
+      expect(JSON.parse(vol.readFileSync(INDEX_PATH, 'utf-8') as string).docs).toEqual(before)
+
+      await vi.runAllTimersAsync()
+      await vi.waitFor(() => {
+        expect(Object.keys(JSON.parse(vol.readFileSync(INDEX_PATH, 'utf-8') as string).docs)).toHaveLength(5)
+      })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('serves registry changes from the cached index without re-reading it', async () => {
+    await registerNode(OMG_ROOT, 'omg/fact/db', makeEntry({ description: 'Postgres is the primary database' }))
+    await updateRegistryEntry(OMG_ROOT, 'omg/fact/wife', { archived: true })
+    await flushKeywordIndex()
+    vol.unlinkSync(INDEX_PATH)
+
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+    expect(index.docCount).toBe(3)
+    expect(index.documentFrequency('postgres')).toBe(1)
+    expect(index.bm25(new Set(['zona'])).size).toBe(0)
+    expect(vol.existsSync(INDEX_PATH)).toBe(false)
+  })
+})
+
+// ─── Scoring ────────────────────────────────────────────────────────────────
+
+describe('bm25', () => {
+  it('matches inflected forms via adaptive prefix expansion', async () => {
+    await seed()
+    const index = await getKeywordIndex(OMG_ROOT, await getRegistryEntries(OMG_ROOT))
+    const scores = index.bm25(new Set(['zony']))
+    expect([...scores.keys()]).toEqual(['omg/fact/wife'])
+  })
+
+  it('scores rarer terms higher than common ones', async () => {
+    const entries: [string, RegistryNodeEntry][] = [
+      ['omg/fact/a', makeEntry({ description: 'editor config alpha' })],
+      ['omg/fact/b', makeEntry({ description: 'editor config beta' })],
+      ['omg/fact/c', makeEntry({ description: 'editor gamma' })],
+    ]
+    const index = await rebuildKeywordIndex(OMG_ROOT, entries)
+    const scores = index.bm25(new Set(['editor', 'gamma']))
+    expect(scores.get('omg/fact/c')!).toBeGreaterThan(scores.get('omg/fact/a')!)
+  })
+
+  it('reports high-DF terms at the given threshold', async () => {
+    const entries: [string, RegistryNodeEntry][] = [
+      ['omg/fact/a', makeEntry({ description: 'user likes tea' })],
+      ['omg/fact/b', makeEntry({ description: 'user likes coffee' })],
+      ['omg/fact/c', makeEntry({ description: 'user drinks water' })],
+    ]
+    const index = await rebuildKeywordIndex(OMG_ROOT, entries)
+    expect([...index.highDfTerms(0.6)].sort()).toEqual(['likes', 'user'])
+    expect(index.highDfTerms(0.6)).toBe(index.highDfTerms(0.6))
+  })
+
+  it('drives scoreRegistryEntries ranking when passed to the selector', async () => {
+    await seed()
+    const entries = await getRegistryEntries(OMG_ROOT)
+    const index = await getKeywordIndex(OMG_ROOT, entries)
+    const ranked = scoreRegistryEntries(entries, new Set(['deploys']), index)
+    expect(ranked[0]![0]).toBe('omg/fact/deploy')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest'
-import { createLlmClient } from '../../src/llm/client.js'
+import { createLlmClient, withUsageTag } from '../../src/llm/client.js'
 import type { LlmGenerateParams, LlmResponse, GenerateFn } from '../../src/llm/client.js'
 
 const PARAMS: LlmGenerateParams = {
@@ -192,4 +192,31 @@ describe('createLlmClient', () => {
       )
     })
   })
+
+  describe('usage listener', () => {
+    it('reports model, usage and the call tag after a successful call', async () => {
+      const onUsage = vi.fn()
+      const client = createLlmClient('test-model', vi.fn<GenerateFn>().mockResolvedValue(RESPONSE), { onUsage })
+
+      await withUsageTag(client, { pipeline: 'extract', sessionKey: 's1' }).generate(PARAMS)
+
+      expect(onUsage).toHaveBeenCalledWith({
+        model: 'test-model',
+        usage: { inputTokens: 10, outputTokens: 5 },
+        tag: { pipeline: 'extract', sessionKey: 's1' },
+      })
+    })
+
+    it('is not called for failed calls, and listener errors do not fail the call', async () => {
+      const onUsage = vi.fn(() => { throw new Error('listener broke') })
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const failing = createLlmClient('m', vi.fn<GenerateFn>().mockRejectedValue(new Error('fail')), { onUsage })
+      await expect(failing.generate(PARAMS)).rejects.toThrow('fail')
+      expect(onUsage).not.toHaveBeenCalled()
+
+      const ok = createLlmClient('m', vi.fn<GenerateFn>().mockResolvedValue(RESPONSE), { onUsage })
+      await expect(ok.generate(PARAMS)).resolves.toEqual(RESPONSE)
+      vi.restoreAllMocks()
+    })
+  })
 })
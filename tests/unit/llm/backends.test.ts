@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createFallbackLlmClient, createRoleClients, clientForRole } from '../../../src/llm/backends.js'
+import { RateLimitError, GatewayUnreachableError } from '../../../src/llm/errors.js'
+import { parseConfig } from '../../../src/config.js'
+import type { LlmClient, LlmResponse } from '../../../src/llm/client.js'
+
+const PARAMS = { system: 'sys', user: 'user', maxTokens: 100 }
+
+function okResponse(content: string): LlmResponse {
+  return { content, usage: { inputTokens: 1, outputTokens: 1 } }
+}
+
+function fakeClient(impl: () => Promise<LlmResponse>): LlmClient {
+  return { generate: vi.fn(impl) }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+})
+
+describe('createFallbackLlmClient', () => {
+  it('returns the first backend response without touching later ones', async () => {
+    const second = fakeClient(() => Promise.resolve(okResponse('second')))
+    const client = createFallbackLlmClient([
+      { name: 'a', client: fakeClient(() => Promise.resolve(okResponse('first'))) },
+      { name: 'b', client: second },
+    ])
+
+    expect((await client.generate(PARAMS)).content).toBe('first')
+    expect(second.generate).not.toHaveBeenCalled()
+  })
+
+  it('falls back on RateLimitError and GatewayUnreachableError', async () => {
+    const client = createFallbackLlmClient([
+      { name: 'a', client: fakeClient(() => Promise.reject(new RateLimitError('429'))) },
+      { name: 'b', client: fakeClient(() => Promise.reject(new GatewayUnreachableError('down'))) },
+      { name: 'c', client: fakeClient(() => Promise.resolve(okResponse('third'))) },
+    ])
+
+    expect((await client.generate(PARAMS)).content).toBe('third')
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('falling back to "b"'))
+  })
+
+  it('rethrows other errors without falling back', async () => {
+    const second = fakeClient(() => Promise.resolve(okResponse('second')))
+    const client = createFallbackLlmClient([
+      { name: 'a', client: fakeClient(() => Promise.reject(new Error('bad request'))) },
+      { name: 'b', client: second },
+    ])
+
+    await expect(client.generate(PARAMS)).rejects.toThrow('bad request')
+    expect(second.generate).not.toHaveBeenCalled()
+  })
+
+  it('rethrows the last backend error when the chain is exhausted', async () => {
+    const client = createFallbackLlmClient([
+      { name: 'a', client: fakeClient(() => Promise.reject(new RateLimitError('a limited'))) },
+      { name: 'b', client: fakeClient(() => Promise.reject(new RateLimitError('b limited'))) },
+    ])
+
+    await expect(client.generate(PARAMS)).rejects.toThrow(RateLimitError)
+    await expect(client.generate(PARAMS)).rejects.toThrow('b limited')
+  })
+})
+
+describe('createRoleClients', () => {
+  it('routes only configured roles; others fall back to the default client', async () => {
+    const gatewayGenerate = vi.fn((model: string) => () => Promise.resolve(okResponse(`gw:${model}`)))
+    const config = parseConfig({
+      llm: {
+        backends: { cheap: { kind: 'gateway', model: 'haiku' } },
+        routing: { dedup: ['cheap'] },
+      },
+    })
+
+    const clients = createRoleClients(config, gatewayGenerate)
+    const defaultClient = fakeClient(() => Promise.resolve(okResponse('default')))
+
+    expect((await clientForRole(defaultClient, clients, 'dedup').generate(PARAMS)).content).toBe('gw:haiku')
+    expect(clientForRole(defaultClient, clients, 'reflector')).toBe(defaultClient)
+    expect(gatewayGenerate).toHaveBeenCalledWith('haiku', config.observer.timeoutMs)
+  })
+
+  it('sends openai-compatible backends to their base URL with the env API key', async () => {
+    vi.stubEnv('LOCAL_LLM_KEY', 'secret')
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      text: () => Promise.resolve(JSON.stringify({
+        choices: [{ message: { content: 'local' } }],
+        usage: { prompt_tokens: 3, completion_tokens: 2 },
+      })),
+    }))
+    const config = parseConfig({
+      llm: {
+        backends: {
+          local: { kind: 'openai-compatible', baseUrl: 'http://127.0.0.1:8080/v1', model: 'qwen', apiKeyEnv: 'LOCAL_LLM_KEY' },
+        },
+        routing: { merge: ['local'] },
+      },
+    })
+
+    const clients = createRoleClients(config, vi.fn())
+    const result = await clients.merge!.generate(PARAMS)
+
+    expect(result.content).toBe('local')
+    const [url, init] = vi.mocked(fetch).mock.calls[0]!
+    expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions')
+    expect((init?.headers as Record<string, string>)['Authorization']).toBe('Bearer secret')
+    expect(JSON.parse(init?.body as string)['model']).toBe('qwen')
+  })
+
+  it('skips a backend whose apiKeyEnv is unset and leaves the role unrouted', () => {
+    const config = parseConfig({
+      llm: {
+        backends: {
+          remote: { kind: 'openai-compatible', baseUrl: 'https://api.example.com/v1', model: 'm', apiKeyEnv: 'OMG_TEST_MISSING_KEY' },
+        },
+        routing: { observer: ['remote'] },
+      },
+    })
+
+    const clients = createRoleClients(config, vi.fn())
+
+    expect(clients.observer).toBeUndefined()
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('OMG_TEST_MISSING_KEY is not set'))
+  })
+})
@@ -59,6 +59,57 @@ describe('createGatewayCompletionsGenerateFn — happy path', () => {
   })
 })
 
+describe('createGatewayCompletionsGenerateFn — baseUrl', () => {
+  it('posts to {baseUrl}/chat/completions instead of the gateway', async () => {
+    vi.mocked(fetch).mockResolvedValue(makeOkResponse(makeSuccessBody('ok')))
+
+    const generate = createGatewayCompletionsGenerateFn({ baseUrl: 'http://127.0.0.1:11434/v1/', port: 1234 })
+    await generate(DEFAULT_PARAMS)
+
+    expect(vi.mocked(fetch).mock.calls[0]![0]).toBe('http://127.0.0.1:11434/v1/chat/completions')
+  })
+
+  it('names the base URL in error messages', async () => {
+    vi.mocked(fetch).mockResolvedValue(makeErrorResponse(429, 'slow down'))
+
+    const generate = createGatewayCompletionsGenerateFn({ baseUrl: 'https://api.example.com/v1' })
+    await expect(generate(DEFAULT_PARAMS)).rejects.toThrow('https://api.example.com/v1/chat/completions rate limit (429)')
+  })
+})
+
+describe('createGatewayCompletionsGenerateFn — response schema', () => {
+  const SCHEMA = { name: 'omg_test', schema: { type: 'object' } }
+
+  it('sends response_format when the call carries a response schema', async () => {
+    vi.mocked(fetch).mockResolvedValue(makeOkResponse(makeSuccessBody('{}')))
+
+    const generate = createGatewayCompletionsGenerateFn()
+    await generate({ ...DEFAULT_PARAMS, responseSchema: SCHEMA })
+
+    const body = JSON.parse(vi.mocked(fetch).mock.calls[0]![1]?.body as string)
+    expect(body['response_format']).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'omg_test', schema: { type: 'object' }, strict: true },
+    })
+  })
+
+  it('retries without response_format when the endpoint rejects it, then stops sending it', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(makeErrorResponse(400, "Unsupported parameter: 'response_format'"))
+      .mockResolvedValue(makeOkResponse(makeSuccessBody('<observations/>')))
+
+    const generate = createGatewayCompletionsGenerateFn()
+    const result = await generate({ ...DEFAULT_PARAMS, responseSchema: SCHEMA })
+    await generate({ ...DEFAULT_PARAMS, responseSchema: SCHEMA })
+
+    expect(result.content).toBe('<observations/>')
+    const bodies = vi.mocked(fetch).mock.calls.map((c) => JSON.parse(c[1]?.body as string) as Record<string, unknown>)
+    expect(bodies.map((b) => 'response_format' in b)).toEqual([true, false, false])
+    warnSpy.mockRestore()
+  })
+})
+
 describe('createGatewayCompletionsGenerateFn — rate limit errors', () => {
   it('throws RateLimitError on HTTP 429', async () => {
     vi.mocked(fetch).mockResolvedValue(makeErrorResponse(429, 'Rate limit exceeded'))
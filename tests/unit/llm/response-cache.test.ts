@@ -0,0 +1,147 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import {
+  createCachedLlmClient,
+  computeCacheKey,
+  pruneResponseCache,
+  LLM_CACHE_BYPASS_ENV,
+  PRUNE_EVERY_WRITES,
+} from '../../../src/llm/response-cache.js'
+import type { LlmClient } from '../../../src/llm/client.js'
+
+const CACHE_DIR = '/test/omg/.llm-cache'
+const PARAMS = { system: 'sys', user: 'user', maxTokens: 100 }
+const OPTIONS = { cacheDir: CACHE_DIR, ttlMs: 60 * 60 * 1000, maxBytes: 1024 * 1024 }
+
+function makeClient(content = 'answer'): LlmClient {
+  return {
+    model: 'test-model',
+    generate: vi.fn().mockResolvedValue({ content, usage: { inputTokens: 40, outputTokens: 10 } }),
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllEnvs()
+  vi.useRealTimers()
+})
+
+describe('computeCacheKey', () => {
+  it('changes with the model, prompts and maxTokens', () => {
+    const base = computeCacheKey('m', PARAMS)
+    expect(computeCacheKey('m', PARAMS)).toBe(base)
+    expect(computeCacheKey('other', PARAMS)).not.toBe(base)
+    expect(computeCacheKey('m', { ...PARAMS, user: 'user 2' })).not.toBe(base)
+    expect(computeCacheKey('m', { ...PARAMS, maxTokens: 200 })).not.toBe(base)
+  })
+})
+
+describe('createCachedLlmClient', () => {
+  it('serves a repeated call from disk with zero usage and emits a hit metric', async () => {
+    const inner = makeClient()
+    const client = createCachedLlmClient(inner, OPTIONS)
+
+    const first = await client.generate(PARAMS)
+    const second = await client.generate(PARAMS)
+
+    expect(inner.generate).toHaveBeenCalledOnce()
+    expect(first).toEqual({ content: 'answer', usage: { inputTokens: 40, outputTokens: 10 } })
+    expect(second).toEqual({ content: 'answer', usage: { inputTokens: 0, outputTokens: 0 } })
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"stage":"llm-cache"'))
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"savedInputTokens":40'))
+  })
+
+  it('misses on a different prompt', async () => {
+    const inner = makeClient()
+    const client = createCachedLlmClient(inner, OPTIONS)
+
+    await client.generate(PARAMS)
+    await client.generate({ ...PARAMS, user: 'something else' })
+
+    expect(inner.generate).toHaveBeenCalledTimes(2)
+  })
+
+  it('treats entries older than the TTL as misses', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    const inner = makeClient()
+    const client = createCachedLlmClient(inner, OPTIONS)
+
+    await client.generate(PARAMS)
+    vi.setSystemTime(new Date('2026-01-01T02:00:00Z'))
+    await client.generate(PARAMS)
+
+    expect(inner.generate).toHaveBeenCalledTimes(2)
+  })
+
+  it('bypasses the cache with the option or the environment variable', async () => {
+    const inner = makeClient()
+    await createCachedLlmClient(inner, { ...OPTIONS, bypass: true }).generate(PARAMS)
+    vi.stubEnv(LLM_CACHE_BYPASS_ENV, 'off')
+    const client = createCachedLlmClient(inner, OPTIONS)
+    await client.generate(PARAMS)
+    await client.generate(PARAMS)
+
+    expect(inner.generate).toHaveBeenCalledTimes(3)
+    expect(vol.existsSync(CACHE_DIR)).toBe(false)
+  })
+
+  it('does not cache errors', async () => {
+    const inner: LlmClient = {
+      model: 'test-model',
+      generate: vi.fn()
+        .mockRejectedValueOnce(new Error('boom'))
+        .mockResolvedValue({ content: 'ok', usage: { inputTokens: 1, outputTokens: 1 } }),
+    }
+    const client = createCachedLlmClient(inner, OPTIONS)
+
+    await expect(client.generate(PARAMS)).rejects.toThrow('boom')
+    expect((await client.generate(PARAMS)).content).toBe('ok')
+  })
+
+  it('prunes on the first store and then only every PRUNE_EVERY_WRITES stores', async () => {
+    const client = createCachedLlmClient(makeClient(), { ...OPTIONS, maxBytes: 1 })
+
+    // The first store prunes (and evicts itself, being over the 1-byte cap)
+    await client.generate({ ...PARAMS, user: 'first' })
+    expect(vol.readdirSync(CACHE_DIR)).toHaveLength(0)
+
+    for (let i = 1; i < PRUNE_EVERY_WRITES; i++) await client.generate({ ...PARAMS, user: `call ${i}` })
+    expect(vol.readdirSync(CACHE_DIR)).toHaveLength(PRUNE_EVERY_WRITES - 1)
+
+    await client.generate({ ...PARAMS, user: 'pruning call' })
+    expect(vol.readdirSync(CACHE_DIR)).toHaveLength(0)
+  })
+})
+
+describe('pruneResponseCache', () => {
+  it('evicts the oldest entries until the directory fits the size cap', async () => {
+    vol.fromJSON({
+      [`${CACHE_DIR}/old.json`]: 'x'.repeat(600),
+      [`${CACHE_DIR}/new.json`]: 'y'.repeat(600),
+    })
+    vol.utimesSync(`${CACHE_DIR}/old.json`, new Date('2026-01-01'), new Date('2026-01-01'))
+    vol.utimesSync(`${CACHE_DIR}/new.json`, new Date('2026-01-02'), new Date('2026-01-02'))
+
+    await pruneResponseCache(CACHE_DIR, Number.MAX_SAFE_INTEGER, 1000)
+
+    expect(vol.existsSync(`${CACHE_DIR}/old.json`)).toBe(false)
+    expect(vol.existsSync(`${CACHE_DIR}/new.json`)).toBe(true)
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createLlmScheduler, withScheduler, type LlmPriority } from '../../../src/llm/scheduler.js'
+import { RateLimitError } from '../../../src/llm/errors.js'
+import type { LlmClient } from '../../../src/llm/client.js'
+
+/** A task the test resolves or rejects by hand. */
+function deferred<T = string>() {
+  let resolve!: (value: T) => void
+  let reject!: (err: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('createLlmScheduler', () => {
+  it('never runs more than maxConcurrency tasks at once', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 2, backgroundIdleMs: 0, maxWaitMs: 0 })
+    const tasks = [deferred(), deferred(), deferred()]
+    const started: number[] = []
+    const runs = tasks.map((t, i) => scheduler.run('interactive', () => {
+      started.push(i)
+      return t.promise
+    }))
+
+    expect(started).toEqual([0, 1])
+    expect(scheduler.stats().queued.interactive).toBe(1)
+
+    tasks[0]!.resolve('a')
+    await runs[0]
+    expect(started).toEqual([0, 1, 2])
+    tasks[1]!.resolve('b')
+    tasks[2]!.resolve('c')
+    await expect(Promise.all(runs)).resolves.toEqual(['a', 'b', 'c'])
+  })
+
+  it('starts queued work in priority order, FIFO within a class', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 0, maxWaitMs: 0 })
+    const blocker = deferred()
+    const order: string[] = []
+    const runs = [scheduler.run('interactive', () => blocker.promise)]
+    const enqueue = (priority: LlmPriority, label: string): void => {
+      runs.push(scheduler.run(priority, async () => {
+        order.push(label)
+        return label
+      }))
+    }
+    enqueue('bootstrap', 'bootstrap-1')
+    enqueue('maintenance', 'maintenance-1')
+    enqueue('interactive', 'interactive-1')
+    enqueue('compaction', 'compaction-1')
+    enqueue('interactive', 'interactive-2')
+
+    blocker.resolve('done')
+    await Promise.all(runs)
+
+    expect(order).toEqual(['interactive-1', 'interactive-2', 'compaction-1', 'maintenance-1', 'bootstrap-1'])
+  })
+
+  it('holds background work while a user is active, but not interactive work', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 2, backgroundIdleMs: 60_000, maxWaitMs: 0 })
+    scheduler.noteUserActivity()
+    const bootstrap = vi.fn().mockResolvedValue('bootstrap')
+    const interactive = vi.fn().mockResolvedValue('interactive')
+
+    const bootstrapRun = scheduler.run('bootstrap', bootstrap)
+    await scheduler.run('interactive', interactive)
+    expect(interactive).toHaveBeenCalledOnce()
+    expect(bootstrap).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    await expect(bootstrapRun).resolves.toBe('bootstrap')
+  })
+
+  it('pauses every class after a rate limit and resets after a success', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 2, backgroundIdleMs: 0, maxWaitMs: 0 })
+    await expect(scheduler.run('bootstrap', () => Promise.reject(new RateLimitError('429')))).rejects.toThrow('429')
+    expect(scheduler.stats().paused).toBe(true)
+
+    const interactive = vi.fn().mockResolvedValue('ok')
+    const run = scheduler.run('interactive', interactive)
+    await vi.advanceTimersByTimeAsync(14_999)
+    expect(interactive).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1)
+    await expect(run).resolves.toBe('ok')
+    expect(scheduler.stats().paused).toBe(false)
+  })
+
+  it('starts background work that has waited maxWaitMs while the user stays active', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 60_000, maxWaitMs: 120_000 })
+    const bootstrap = vi.fn().mockResolvedValue('bootstrap')
+    scheduler.noteUserActivity()
+    const run = scheduler.run('bootstrap', bootstrap)
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(30_000)
+      scheduler.noteUserActivity()
+    }
+    expect(bootstrap).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    await expect(run).resolves.toBe('bootstrap')
+  })
+
+  it('starts the oldest overdue call ahead of newer higher-priority work', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 0, maxWaitMs: 10_000 })
+    const blocker = deferred()
+    const order: string[] = []
+    const runs = [scheduler.run('interactive', () => blocker.promise)]
+    runs.push(scheduler.run('bootstrap', async () => {
+      order.push('bootstrap')
+      return 'bootstrap'
+    }))
+    await vi.advanceTimersByTimeAsync(10_000)
+    runs.push(scheduler.run('interactive', async () => {
+      order.push('interactive')
+      return 'interactive'
+    }))
+
+    blocker.resolve('done')
+    await Promise.all(runs)
+    expect(order).toEqual(['bootstrap', 'interactive'])
+  })
+
+  it('whenIdle resolves after the idle window, or after maxWaitMs at the latest', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 60_000, maxWaitMs: 90_000 })
+    await expect(scheduler.whenIdle()).resolves.toBeUndefined()
+
+    scheduler.noteUserActivity()
+    let idle = false
+    void scheduler.whenIdle().then(() => { idle = true })
+    await vi.advanceTimersByTimeAsync(59_999)
+    expect(idle).toBe(false)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(idle).toBe(true)
+
+    let capped = false
+    void scheduler.whenIdle().then(() => { capped = true })
+    for (let i = 0; i < 3; i++) {
+      scheduler.noteUserActivity()
+      await vi.advanceTimersByTimeAsync(30_000)
+    }
+    expect(capped).toBe(true)
+  })
+
+  it('frees the slot when a task fails with an ordinary error', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 0, maxWaitMs: 0 })
+    await expect(scheduler.run('interactive', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(scheduler.run('interactive', async () => 'next')).resolves.toBe('next')
+    expect(scheduler.stats()).toEqual({
+      active: 0,
+      queued: { interactive: 0, compaction: 0, maintenance: 0, bootstrap: 0 },
+      paused: false,
+    })
+  })
+
+  it('emits a queue-depth metric on each dispatch', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 0, maxWaitMs: 0 })
+    await scheduler.run('compaction', async () => 'x')
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"stage":"llm-scheduler"'))
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"priority":"compaction"'))
+  })
+})
+
+describe('withScheduler', () => {
+  it('routes generate calls through the scheduler at the given priority', async () => {
+    const scheduler = createLlmScheduler({ maxConcurrency: 1, backgroundIdleMs: 0, maxWaitMs: 0 })
+    const runSpy = vi.spyOn(scheduler, 'run')
+    const client: LlmClient = {
+      model: 'm',
+      generate: vi.fn().mockResolvedValue({ content: 'hi', usage: { inputTokens: 1, outputTokens: 1 } }),
+    }
+
+    const scheduled = withScheduler(client, scheduler, 'maintenance')
+    await expect(scheduled.generate({ system: 's', user: 'u', maxTokens: 10 })).resolves.toMatchObject({ content: 'hi' })
+
+    expect(scheduled.model).toBe('m')
+    expect(runSpy).toHaveBeenCalledWith('maintenance', expect.any(Function))
+  })
+})
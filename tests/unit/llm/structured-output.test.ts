@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import {
+  zodToJsonSchema,
+  parseJsonResponse,
+  withStructuredOutput,
+  STRUCTURED_OUTPUT_INSTRUCTION,
+} from '../../../src/llm/structured-output.js'
+import { EXTRACT_RESPONSE_SCHEMA } from '../../../src/observer/output-schemas.js'
+
+describe('zodToJsonSchema', () => {
+  it('converts objects with every property required and no extras', () => {
+    const schema = z.object({
+      name: z.string().describe('Display name'),
+      count: z.number().int(),
+      ratio: z.number(),
+      on: z.boolean(),
+      kind: z.enum(['a', 'b']),
+      tags: z.array(z.string()),
+      note: z.string().nullable(),
+    })
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Display name' },
+        count: { type: 'integer' },
+        ratio: { type: 'number' },
+        on: { type: 'boolean' },
+        kind: { type: 'string', enum: ['a', 'b'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+      },
+      required: ['name', 'count', 'ratio', 'on', 'kind', 'tags', 'note'],
+      additionalProperties: false,
+    })
+  })
+
+  it('converts unions and literals to anyOf / const', () => {
+    expect(zodToJsonSchema(z.union([z.literal('x'), z.number()]))).toEqual({
+      anyOf: [{ const: 'x' }, { type: 'number' }],
+    })
+  })
+
+  it('throws on unsupported types', () => {
+    expect(() => zodToJsonSchema(z.unknown())).toThrow('unsupported zod type')
+  })
+
+  it('produces the extract response schema from the zod definitions', () => {
+    const schema = EXTRACT_RESPONSE_SCHEMA.schema as { required: string[]; properties: Record<string, unknown> }
+    expect(EXTRACT_RESPONSE_SCHEMA.name).toBe('omg_extract')
+    expect(schema.required).toEqual(['operations', 'nowPatch'])
+  })
+})
+
+describe('parseJsonResponse', () => {
+  it('parses a bare JSON object', () => {
+    expect(parseJsonResponse('{"a": 1}')).toEqual({ a: 1 })
+  })
+
+  it('parses a JSON object inside a markdown fence', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+  })
+
+  it('returns null for XML, arrays and malformed JSON', () => {
+    expect(parseJsonResponse('<observations></observations>')).toBeNull()
+    expect(parseJsonResponse('[1, 2]')).toBeNull()
+    expect(parseJsonResponse('{"a": ')).toBeNull()
+  })
+})
+
+describe('withStructuredOutput', () => {
+  const params = { system: 'sys', user: 'user', maxTokens: 100 }
+
+  it('returns params unchanged when disabled', () => {
+    expect(withStructuredOutput(params, EXTRACT_RESPONSE_SCHEMA, false)).toBe(params)
+  })
+
+  it('adds the schema and instruction when enabled', () => {
+    const result = withStructuredOutput(params, EXTRACT_RESPONSE_SCHEMA, true)
+    expect(result.responseSchema).toBe(EXTRACT_RESPONSE_SCHEMA)
+    expect(result.system).toContain(STRUCTURED_OUTPUT_INSTRUCTION)
+    expect(result.user).toBe('user')
+  })
+})
@@ -0,0 +1,166 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import {
+  appendUsageEntry,
+  createUsageRecorder,
+  readUsageLedger,
+  summarizeUsage,
+  formatUsageSummary,
+  parseSinceDuration,
+  checkDailyTokenBudget,
+  clearDailyTokenTallies,
+  type UsageLedgerEntry,
+} from '../../../src/llm/usage-ledger.js'
+import { parseConfig } from '../../../src/config.js'
+
+const OMG_ROOT = '/test/omg'
+const LEDGER = `${OMG_ROOT}/.usage-ledger.jsonl`
+
+function entry(overrides: Partial<UsageLedgerEntry> = {}): UsageLedgerEntry {
+  return {
+    timestamp: '2026-03-02T10:00:00.000Z',
+    pipeline: 'extract',
+    model: 'm1',
+    inputTokens: 1000,
+    outputTokens: 100,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearDailyTokenTallies()
+  vol.mkdirSync(OMG_ROOT, { recursive: true })
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+})
+
+describe('createUsageRecorder', () => {
+  it('appends one tagged entry per call, defaulting the pipeline to other', async () => {
+    const record = createUsageRecorder(OMG_ROOT)
+    record({ model: 'm1', usage: { inputTokens: 5, outputTokens: 2 }, tag: { pipeline: 'merge', sessionKey: 's1' } })
+    record({ model: 'm2', usage: { inputTokens: 1, outputTokens: 1 } })
+    await vi.waitFor(async () => expect(await readUsageLedger(OMG_ROOT)).toHaveLength(2))
+
+    const [first, second] = await readUsageLedger(OMG_ROOT)
+    expect(first).toMatchObject({ pipeline: 'merge', sessionKey: 's1', model: 'm1', inputTokens: 5, outputTokens: 2 })
+    expect(second).toMatchObject({ pipeline: 'other', model: 'm2' })
+  })
+})
+
+describe('readUsageLedger', () => {
+  it('skips malformed lines and filters by the since instant', async () => {
+    await appendUsageEntry(OMG_ROOT, entry({ timestamp: '2026-03-01T00:00:00.000Z' }))
+    vol.appendFileSync(LEDGER, 'not json\n{"pipeline":"nope"}\n')
+    await appendUsageEntry(OMG_ROOT, entry({ timestamp: '2026-03-03T00:00:00.000Z' }))
+
+    expect(await readUsageLedger(OMG_ROOT)).toHaveLength(2)
+    expect(await readUsageLedger(OMG_ROOT, Date.parse('2026-03-02T00:00:00Z'))).toHaveLength(1)
+  })
+
+  it('returns an empty array when the ledger does not exist', async () => {
+    expect(await readUsageLedger(OMG_ROOT)).toEqual([])
+  })
+})
+
+describe('summarizeUsage', () => {
+  it('totals per day, pipeline and model and prices known models', () => {
+    const entries = [
+      entry(),
+      entry({ pipeline: 'reflect', model: 'backend:m1', timestamp: '2026-03-03T01:00:00.000Z' }),
+      entry({ pipeline: 'reflect', model: 'unpriced' }),
+    ]
+    const summary = summarizeUsage(entries, { m1: { inputPerMTok: 3, outputPerMTok: 15 } })
+
+    expect(summary.total).toMatchObject({ calls: 3, inputTokens: 3000, outputTokens: 300, costUsd: null })
+    expect(summary.byDay.map(([day]) => day)).toEqual(['2026-03-02', '2026-03-03'])
+    expect(summary.byPipeline[0]![0]).toBe('reflect')
+    const m1 = summary.byModel.find(([model]) => model === 'm1')![1]
+    expect(m1.costUsd).toBeCloseTo(0.0045)
+    const backend = summary.byModel.find(([model]) => model === 'backend:m1')![1]
+    expect(backend.costUsd).toBeCloseTo(0.0045)
+  })
+
+  it('formats the summary with the budget line', () => {
+    const text = formatUsageSummary(
+      summarizeUsage([entry()], {}),
+      '7d',
+      { used: 1100, limit: 1000, exhausted: true },
+    )
+    expect(text).toContain('LLM usage — last 7d')
+    expect(text).toContain('extract: 1 call(s), 1,000 input / 100 output tokens')
+    expect(text).toContain('Daily budget: 1,100 / 1,000 tokens today — exhausted')
+  })
+})
+
+describe('parseSinceDuration', () => {
+  it('parses minutes, hours, days and weeks', () => {
+    expect(parseSinceDuration('30m')).toBe(30 * 60 * 1000)
+    expect(parseSinceDuration('24h')).toBe(24 * 60 * 60 * 1000)
+    expect(parseSinceDuration('7d')).toBe(7 * 24 * 60 * 60 * 1000)
+    expect(parseSinceDuration('2w')).toBe(14 * 24 * 60 * 60 * 1000)
+  })
+
+  it('rejects anything else', () => {
+    expect(() => parseSinceDuration('7')).toThrow('Invalid duration')
+    expect(() => parseSinceDuration('0d')).toThrow('Invalid duration')
+    expect(() => parseSinceDuration('1y')).toThrow('Invalid duration')
+  })
+})
+
+describe('checkDailyTokenBudget', () => {
+  it('returns null without a configured budget', async () => {
+    expect(await checkDailyTokenBudget(OMG_ROOT, parseConfig({}))).toBeNull()
+  })
+
+  it('counts only entries since UTC midnight', async () => {
+    await appendUsageEntry(OMG_ROOT, entry({ timestamp: '2026-03-01T23:59:00.000Z' }))
+    await appendUsageEntry(OMG_ROOT, entry({ timestamp: '2026-03-02T08:00:00.000Z' }))
+    const config = parseConfig({ llm: { dailyTokenBudget: 1100 } })
+
+    const status = await checkDailyTokenBudget(OMG_ROOT, config, new Date('2026-03-02T12:00:00Z'))
+
+    expect(status).toEqual({ used: 1100, limit: 1100, exhausted: true })
+  })
+
+  it('adds only entries appended since the last check to the running total', async () => {
+    const config = parseConfig({ llm: { dailyTokenBudget: 5000 } })
+    const now = new Date('2026-03-02T12:00:00Z')
+    await appendUsageEntry(OMG_ROOT, entry())
+    expect((await checkDailyTokenBudget(OMG_ROOT, config, now))?.used).toBe(1100)
+
+    // Rewrite the counted line in place — a re-read would see the new value
+    const counted = vol.readFileSync(LEDGER, 'utf-8') as string
+    vol.writeFileSync(LEDGER, counted.replace('"inputTokens":1000', '"inputTokens":9000'), { flag: 'r+' })
+    await appendUsageEntry(OMG_ROOT, entry({ inputTokens: 10 }))
+    vol.appendFileSync(LEDGER, '{"timestamp":"2026-03-02T11:00:00.000Z"')
+
+    expect((await checkDailyTokenBudget(OMG_ROOT, config, now))?.used).toBe(1210)
+  })
+
+  it('starts a new total on a new UTC day and when the ledger is replaced', async () => {
+    const config = parseConfig({ llm: { dailyTokenBudget: 5000 } })
+    await appendUsageEntry(OMG_ROOT, entry())
+    expect((await checkDailyTokenBudget(OMG_ROOT, config, new Date('2026-03-02T12:00:00Z')))?.used).toBe(1100)
+    expect((await checkDailyTokenBudget(OMG_ROOT, config, new Date('2026-03-03T00:10:00Z')))?.used).toBe(0)
+
+    vol.unlinkSync(LEDGER)
+    await appendUsageEntry(OMG_ROOT, entry({ timestamp: '2026-03-03T00:05:00.000Z', inputTokens: 5, outputTokens: 5 }))
+    expect((await checkDailyTokenBudget(OMG_ROOT, config, new Date('2026-03-03T00:10:00Z')))?.used).toBe(10)
+  })
+})
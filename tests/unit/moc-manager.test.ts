@@ -19,7 +19,7 @@ function readFile(path: string): string {
   return memfs.readFileSync(path, 'utf-8') as string
 }
 
-function makeNode(id: string, domain: string = 'identity'): GraphNode {
+function makeNode(id: string, domain: string = 'identity', extra: Partial<GraphNode['frontmatter']> = {}): GraphNode {
   return {
     filePath: `/omg/nodes/${domain}/${id}.md`,
     body: '',
@@ -30,6 +30,7 @@ function makeNode(id: string, domain: string = 'identity'): GraphNode {
       priority: 'high',
       created: TODAY,
       updated: TODAY,
+      ...extra,
     },
   }
 }
@@ -206,6 +207,47 @@ describe('applyMocUpdate', () => {
     writeSpy.mockRestore()
   })
 
+  it('inserts an added link in id order in a MOC without sub-sections', async () => {
+    await regenerateMoc('identity', [makeNode('omg/identity/a'), makeNode('omg/identity/c')], '/omg')
+
+    await applyMocUpdate('/omg/mocs/moc-identity.md', { action: 'add', nodeId: 'omg/identity/b', description: 'B' })
+
+    expect(readFile('/omg/mocs/moc-identity.md')).toContain(
+      '- [[omg/identity/a]] — Test node omg/identity/a\n- [[omg/identity/b]] — B\n- [[omg/identity/c]]'
+    )
+  })
+
+  it("inserts an added link under its group's sub-section, creating the section in order", async () => {
+    await regenerateMoc('projects', [
+      makeNode('omg/project/a', 'projects', { canonicalKey: 'projects.omg.a' }),
+      makeNode('omg/project/z', 'projects', { canonicalKey: 'projects.zen.z' }),
+      makeNode('omg/project/misc', 'projects'),
+    ], '/omg')
+
+    await applyMocUpdate('/omg/mocs/moc-projects.md', { action: 'add', nodeId: 'omg/project/b', group: 'Omg' })
+    await applyMocUpdate('/omg/mocs/moc-projects.md', { action: 'add', nodeId: 'omg/project/k', group: 'Kite' })
+    await applyMocUpdate('/omg/mocs/moc-projects.md', { action: 'add', nodeId: 'omg/project/other' })
+
+    const body = readFile('/omg/mocs/moc-projects.md').split('---\n').at(-1)!.trim()
+    expect(body).toBe([
+      '# Projects',
+      '',
+      '## Kite',
+      '- [[omg/project/k]]',
+      '',
+      '## Omg',
+      '- [[omg/project/a]] — Test node omg/project/a',
+      '- [[omg/project/b]]',
+      '',
+      '## Zen',
+      '- [[omg/project/z]] — Test node omg/project/z',
+      '',
+      '## Other',
+      '- [[omg/project/misc]] — Test node omg/project/misc',
+      '- [[omg/project/other]]',
+    ].join('\n'))
+  })
+
   it('updates the frontmatter updated field to today', async () => {
     const oldDate = '2024-01-01'
     vol.fromJSON({
@@ -287,6 +329,51 @@ describe('regenerateMoc', () => {
     expect(content).toContain('# Identity')
   })
 
+  it('annotates links with descriptions and groups them by key prefix or tag', async () => {
+    const nodes = [
+      makeNode('omg/project/omg-release', 'projects', { canonicalKey: 'projects.omg.release_plan', description: 'Release in May' }),
+      makeNode('omg/project/omg-ci', 'projects', { canonicalKey: 'projects.omg.ci', description: 'CI on GitHub' }),
+      makeNode('omg/project/garden', 'projects', { canonicalKey: 'projects.garden', tags: ['projects', 'home_life'] }),
+      makeNode('omg/project/misc', 'projects', { canonicalKey: 'projects.misc' }),
+    ]
+
+    await regenerateMoc('projects', nodes, '/omg')
+
+    const content = readFile('/omg/mocs/moc-projects.md')
+    expect(content).toContain([
+      '# Projects',
+      '',
+      '## Home life',
+      '- [[omg/project/garden]] — Test node omg/project/garden',
+      '',
+      '## Omg',
+      '- [[omg/project/omg-ci]] — CI on GitHub',
+      '- [[omg/project/omg-release]] — Release in May',
+      '',
+      '## Other',
+      '- [[omg/project/misc]] — Test node omg/project/misc',
+    ].join('\n'))
+  })
+
+  it('keeps the summary and counts membership changes since it was written', async () => {
+    const a = makeNode('omg/identity/a')
+    const b = makeNode('omg/identity/b')
+    await regenerateMoc('identity', [a], '/omg', { summary: 'Who the user is.' })
+
+    let content = readFile('/omg/mocs/moc-identity.md')
+    expect(content).toContain('# Identity\n\nWho the user is.\n\n- [[omg/identity/a]]')
+    expect(content).toContain('summaryMembers: 1')
+    expect(content).toContain('membershipChanges: 0')
+
+    await regenerateMoc('identity', [b], '/omg')
+    await applyMocUpdate('/omg/mocs/moc-identity.md', { action: 'add', nodeId: 'omg/identity/c', description: 'C' })
+
+    content = readFile('/omg/mocs/moc-identity.md')
+    expect(content).toContain('Who the user is.')
+    expect(content).toContain('- [[omg/identity/c]] — C')
+    expect(content).toContain('membershipChanges: 3')
+  })
+
   it('completely overwrites existing content', async () => {
     vol.fromJSON({
       '/omg/mocs/moc-identity.md': [
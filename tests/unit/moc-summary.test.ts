@@ -0,0 +1,88 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol, fs as memfs } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import { needsSummaryRefresh, refreshMocSummaries } from '../../src/graph/moc-summary.js'
+import { clearRegistryCache } from '../../src/graph/registry.js'
+import { writeObservationNode } from '../../src/graph/node-writer.js'
+import { parseConfig } from '../../src/config.js'
+import type { LlmClient } from '../../src/llm/client.js'
+
+const OMG_ROOT = '/ws/memory/omg'
+const CONFIG = parseConfig({ graphMaintenance: { mocSummaries: { minNodes: 3 } } })
+const SUMMARY_CONFIG = CONFIG.graphMaintenance.mocSummaries
+
+function makeClient(content = 'The user has strong editor preferences.'): LlmClient & { generate: ReturnType<typeof vi.fn> } {
+  return { generate: vi.fn().mockResolvedValue({ content, usage: { inputTokens: 100, outputTokens: 20 } }) }
+}
+
+async function writePreferences(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await writeObservationNode(
+      {
+        kind: 'upsert',
+        canonicalKey: `preferences.item_${i}`,
+        type: 'preference',
+        title: `Item ${i}`,
+        description: `Preference number ${i}`,
+        body: `Body ${i}`,
+        priority: 'medium',
+        mocHints: ['preferences'],
+      },
+      { omgRoot: OMG_ROOT, sessionKey: 'test' }
+    )
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/mocs`, { recursive: true })
+})
+
+describe('needsSummaryRefresh', () => {
+  it('requires minNodes, then refreshes when missing or changed by refreshRatio', () => {
+    expect(needsSummaryRefresh({ summaryMembers: 0, membershipChanges: 0 }, 2, SUMMARY_CONFIG)).toBe(false)
+    expect(needsSummaryRefresh({ summaryMembers: 0, membershipChanges: 0 }, 3, SUMMARY_CONFIG)).toBe(true)
+    expect(needsSummaryRefresh({ summary: 'x', summaryMembers: 10, membershipChanges: 1 }, 10, SUMMARY_CONFIG)).toBe(false)
+    expect(needsSummaryRefresh({ summary: 'x', summaryMembers: 10, membershipChanges: 2 }, 10, SUMMARY_CONFIG)).toBe(true)
+  })
+})
+
+describe('refreshMocSummaries', () => {
+  it('writes a summary into the MOC and skips it on the next run', async () => {
+    await writePreferences(3)
+    const client = makeClient()
+
+    const first = await refreshMocSummaries({ omgRoot: OMG_ROOT, config: CONFIG, llmClient: client })
+
+    expect(first).toMatchObject({ domainsChecked: 1, summariesWritten: 1, tokensUsed: 120, errors: [] })
+    expect(client.generate.mock.calls[0]![0].user).toContain('- (preference) Preference number 2')
+    const moc = memfs.readFileSync(`${OMG_ROOT}/mocs/moc-preferences.md`, 'utf-8') as string
+    expect(moc).toContain('# Preferences\n\nThe user has strong editor preferences.')
+    expect(moc).toContain('summaryMembers: 3')
+    expect(moc).toContain('— Preference number 0')
+
+    const second = await refreshMocSummaries({ omgRoot: OMG_ROOT, config: CONFIG, llmClient: client })
+    expect(second.summariesWritten).toBe(0)
+    expect(client.generate).toHaveBeenCalledTimes(1)
+  })
+
+  it('leaves small domains without a summary', async () => {
+    await writePreferences(2)
+    const client = makeClient()
+
+    const result = await refreshMocSummaries({ omgRoot: OMG_ROOT, config: CONFIG, llmClient: client })
+
+    expect(result.summariesWritten).toBe(0)
+    expect(client.generate).not.toHaveBeenCalled()
+  })
+})
@@ -46,6 +46,7 @@ function makeUpsertOperation(overrides: Partial<{
   mocHints: string[]
   tags: string[]
   linkKeys: string[]
+  sourceTool: string
 }> = {}): ObserverOperation {
   return {
     kind: 'upsert',
@@ -231,6 +232,75 @@ describe('writeObservationNode — upsert (deterministic paths)', () => {
   })
 })
 
+// ─── writeObservationNode — agent ownership ──────────────────────────────────
+
+describe('writeObservationNode — agent ownership', () => {
+  it('records the writing agent in agents', async () => {
+    const node = await writeObservationNode(makeUpsertOperation(), { ...context, agentId: 'pati' })
+    const fm = parseFrontmatter(memfs.readFileSync(node.filePath, 'utf-8') as string).frontmatter
+    expect(fm['agents']).toEqual(['pati'])
+  })
+
+  it('adds a second agent to an owned node on rewrite', async () => {
+    await writeObservationNode(makeUpsertOperation(), { ...context, agentId: 'pati' })
+    const node = await writeObservationNode(makeUpsertOperation(), { ...context, agentId: 'email-triage' })
+    expect(node.frontmatter.agents).toEqual(['pati', 'email-triage'])
+  })
+
+  it('keeps an existing unowned node shared', async () => {
+    await writeObservationNode(makeUpsertOperation(), context)
+    const node = await writeObservationNode(makeUpsertOperation(), { ...context, agentId: 'pati' })
+    expect(node.frontmatter.agents).toBeUndefined()
+  })
+
+  it('appendToExistingNode adds the contributing agent to an owned node', async () => {
+    const seeded = await writeObservationNode(makeUpsertOperation(), { ...context, agentId: 'pati' })
+    const result = await appendToExistingNode(OMG_ROOT, seeded.frontmatter.id, 'More.', 'email-triage')
+    expect(result!.frontmatter.agents).toEqual(['pati', 'email-triage'])
+  })
+})
+
+// ─── writeObservationNode — tool sources ─────────────────────────────────────
+
+describe('writeObservationNode — tool sources', () => {
+  it('records the source tool for the session', async () => {
+    const node = await writeObservationNode(makeUpsertOperation({ sourceTool: 'calendar_list_events' }), context)
+    const fm = parseFrontmatter(memfs.readFileSync(node.filePath, 'utf-8') as string).frontmatter
+    expect(fm['sources']).toEqual([
+      { sessionKey: SESSION_KEY, kind: 'tool:calendar_list_events', timestamp: expect.any(Number) },
+    ])
+  })
+
+  it('keeps existing sources on rewrite and records each session and tool once', async () => {
+    await writeObservationNode(makeUpsertOperation({ sourceTool: 'calendar_list_events' }), context)
+    await writeObservationNode(makeUpsertOperation({ sourceTool: 'calendar_list_events' }), context)
+    await writeObservationNode(makeUpsertOperation(), context)
+    const node = await writeObservationNode(
+      makeUpsertOperation({ sourceTool: 'read_file' }),
+      { ...context, sessionKey: 'session-2' },
+    )
+    expect(node.frontmatter.sources?.map((s) => `${s.sessionKey} ${s.kind}`)).toEqual([
+      `${SESSION_KEY} tool:calendar_list_events`,
+      'session-2 tool:read_file',
+    ])
+  })
+
+  it('appendToExistingNode adds the merged source to the node', async () => {
+    const seeded = await writeObservationNode(makeUpsertOperation({ sourceTool: 'calendar_list_events' }), context)
+    const result = await appendToExistingNode(OMG_ROOT, seeded.frontmatter.id, 'More.', undefined, {
+      sessionKey: 'session-2', kind: 'tool:read_file', timestamp: 2,
+    })
+    const fm = parseFrontmatter(memfs.readFileSync(seeded.filePath, 'utf-8') as string).frontmatter
+    expect((fm['sources'] as { kind: string }[]).map((s) => s.kind)).toEqual(['tool:calendar_list_events', 'tool:read_file'])
+    expect(result!.frontmatter.sources).toEqual(fm['sources'])
+  })
+
+  it('writes no sources for a fact from conversation text', async () => {
+    const node = await writeObservationNode(makeUpsertOperation(), context)
+    expect(node.frontmatter.sources).toBeUndefined()
+  })
+})
+
 // ─── writeObservationNode — atomic write ─────────────────────────────────────
 
 describe('writeObservationNode — atomic write', () => {
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeMessages, isToolObserved } from '../../src/hooks/normalize-messages.js'
+import { parseConfig } from '../../src/config.js'
+
+const TOOLS = parseConfig({}).observation.tools
+
+// ---------------------------------------------------------------------------
+// Text content
+// ---------------------------------------------------------------------------
+
+describe('normalizeMessages — text content', () => {
+  it('passes string content through and joins text blocks', () => {
+    const messages = normalizeMessages([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: [{ type: 'text', text: 'Hi' }, { type: 'text', text: 'there' }] },
+    ], TOOLS)
+
+    expect(messages).toEqual([
+      { role: 'user', content: 'Hello' },
+      { role: 'assistant', content: 'Hi\nthere' },
+    ])
+  })
+
+  it('maps unknown roles to user', () => {
+    expect(normalizeMessages([{ role: 'system', content: 'x' }], TOOLS)).toEqual([{ role: 'user', content: 'x' }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Tool traffic
+// ---------------------------------------------------------------------------
+
+describe('normalizeMessages — tool calls and results', () => {
+  it('splits Anthropic tool_use / tool_result blocks into tool messages', () => {
+    const messages = normalizeMessages([
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Checking your calendar.' },
+          { type: 'tool_use', id: 'tu_1', name: 'calendar_list_events', input: { week: 12 } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'tu_1', content: [{ type: 'text', text: 'Tue 10:00 Team sync' }] }],
+      },
+    ], TOOLS)
+
+    expect(messages).toEqual([
+      { role: 'assistant', content: 'Checking your calendar.' },
+      { role: 'tool', toolName: 'calendar_list_events', content: 'call: {"week":12}' },
+      { role: 'tool', toolName: 'calendar_list_events', content: 'result: Tue 10:00 Team sync' },
+    ])
+  })
+
+  it('handles OpenAI tool_calls and role "tool" messages', () => {
+    const messages = normalizeMessages([
+      { role: 'assistant', content: null, tool_calls: [{ id: 'c1', function: { name: 'read_file', arguments: '{"path":"notes.md"}' } }] },
+      { role: 'tool', tool_call_id: 'c1', content: '# Notes' },
+    ], TOOLS)
+
+    expect(messages).toEqual([
+      { role: 'tool', toolName: 'read_file', content: 'call: {"path":"notes.md"}' },
+      { role: 'tool', toolName: 'read_file', content: 'result: # Notes' },
+    ])
+  })
+
+  it('handles OpenClaw toolCall blocks and toolResult messages', () => {
+    const messages = normalizeMessages([
+      { role: 'assistant', content: [{ type: 'toolCall', id: 'x', name: 'crm_lookup', arguments: { name: 'Ola' } }] },
+      { role: 'toolResult', toolCallId: 'x', toolName: 'crm_lookup', content: [{ type: 'text', text: 'Ola — CTO at Acme' }] },
+    ], TOOLS)
+
+    expect(messages.map((m) => [m.role, m.toolName, m.content])).toEqual([
+      ['tool', 'crm_lookup', 'call: {"name":"Ola"}'],
+      ['tool', 'crm_lookup', 'result: Ola — CTO at Acme'],
+    ])
+  })
+
+  it('drops denied tools and truncates long output', () => {
+    const messages = normalizeMessages([
+      { role: 'toolResult', toolName: 'memory_search', content: 'omg/fact/x' },
+      { role: 'toolResult', toolName: 'read_file', content: 'a'.repeat(20) },
+    ], { ...TOOLS, maxChars: 10 })
+
+    expect(messages).toEqual([{ role: 'tool', toolName: 'read_file', content: 'result: aaaaaaaaaa… [truncated]' }])
+  })
+
+  it('drops all tool traffic when disabled', () => {
+    const messages = normalizeMessages([
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'a', name: 'read_file', input: {} }] },
+      { role: 'tool', tool_call_id: 'a', content: 'text' },
+      { role: 'user', content: 'Thanks' },
+    ], { ...TOOLS, enabled: false })
+
+    expect(messages).toEqual([{ role: 'user', content: 'Thanks' }])
+  })
+})
+
+describe('isToolObserved', () => {
+  it('applies allow and deny lists with trailing-* prefixes, deny first', () => {
+    const tools = { ...TOOLS, allow: ['calendar_*', 'read_file'], deny: ['calendar_delete*'] }
+    expect(isToolObserved('calendar_list_events', tools)).toBe(true)
+    expect(isToolObserved('read_file', tools)).toBe(true)
+    expect(isToolObserved('calendar_delete_event', tools)).toBe(false)
+    expect(isToolObserved('web_search', tools)).toBe(false)
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import {
+  buildContradictionUserPrompt,
+  parseContradictionOutput,
+  selectContradictionTargets,
+} from '../../src/observer/contradiction-prompt.js'
+import { runContradictionCheck } from '../../src/observer/observer.js'
+import { appendConflict, readConflicts } from '../../src/observer/conflicts.js'
+import type { ConflictRecord } from '../../src/observer/conflicts.js'
+import type { ExtractCandidate, ScoredMergeTarget } from '../../src/types.js'
+import type { RegistryNodeEntry } from '../../src/graph/registry.js'
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const OMG_ROOT = '/workspace/memory/omg'
+
+function makeCandidate(overrides: Partial<ExtractCandidate> = {}): ExtractCandidate {
+  return {
+    type: 'preference',
+    canonicalKey: 'preferences.indent_spaces',
+    title: 'Indent With Spaces',
+    description: 'Indentation: prefers spaces',
+    body: 'Switched to spaces after joining the new team.',
+    priority: 'high',
+    ...overrides,
+  }
+}
+
+function makeTarget(nodeId: string, overrides: Partial<RegistryNodeEntry> = {}): ScoredMergeTarget {
+  const entry: RegistryNodeEntry = {
+    type: 'preference',
+    kind: 'observation',
+    description: 'Indentation: prefers tabs',
+    priority: 'high',
+    created: '2026-01-01T00:00:00Z',
+    updated: '2026-01-01T00:00:00Z',
+    filePath: `${OMG_ROOT}/nodes/preference/indent-tabs.md`,
+    canonicalKey: 'preferences.indent_tabs',
+    ...overrides,
+  }
+  return { nodeId, entry, localScore: 0.7, semanticScore: 0, finalScore: 0.6 }
+}
+
+beforeEach(() => {
+  vol.reset()
+  vol.fromJSON({ [`${OMG_ROOT}/.keep`]: '' })
+})
+
+// ---------------------------------------------------------------------------
+// selectContradictionTargets
+// ---------------------------------------------------------------------------
+
+describe('selectContradictionTargets', () => {
+  it('keeps active same-type neighbors with a different canonical key', () => {
+    const targets = [
+      makeTarget('omg/preference/indent-tabs'),
+      makeTarget('omg/preference/indent-spaces', { canonicalKey: 'preferences.indent_spaces' }),
+      makeTarget('omg/preference/old', { archived: true }),
+      makeTarget('omg/fact/tabs', { type: 'fact' }),
+    ]
+    expect(selectContradictionTargets(makeCandidate(), targets).map((t) => t.nodeId))
+      .toEqual(['omg/preference/indent-tabs'])
+  })
+
+  it('returns nothing for types that are not checked', () => {
+    const candidate = makeCandidate({ type: 'episode' })
+    expect(selectContradictionTargets(candidate, [makeTarget('omg/episode/x', { type: 'episode' })])).toEqual([])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// buildContradictionUserPrompt / parseContradictionOutput
+// ---------------------------------------------------------------------------
+
+describe('buildContradictionUserPrompt', () => {
+  it('lists the candidate and each existing node', () => {
+    const prompt = buildContradictionUserPrompt(makeCandidate(), [makeTarget('omg/preference/indent-tabs')])
+    expect(prompt).toContain('preferences.indent_spaces')
+    expect(prompt).toContain('| omg/preference/indent-tabs | preferences.indent_tabs | Indentation: prefers tabs | 2026-01-01 |')
+  })
+})
+
+describe('parseContradictionOutput', () => {
+  const allowed = new Set(['omg/preference/indent-tabs'])
+
+  it('parses a supersedes verdict with its reason', () => {
+    const raw = `<contradiction-decision verdict="supersedes" target-node-id="omg/preference/indent-tabs">
+  <reason>Switched teams.</reason>
+</contradiction-decision>`
+    expect(parseContradictionOutput(raw, allowed)).toEqual({
+      verdict: 'supersedes',
+      targetNodeId: 'omg/preference/indent-tabs',
+      reason: 'Switched teams.',
+    })
+  })
+
+  it('parses a self-closing unresolved verdict', () => {
+    const raw = '<contradiction-decision verdict="unresolved" target-node-id="omg/preference/indent-tabs" />'
+    expect(parseContradictionOutput(raw, allowed)).toEqual({
+      verdict: 'unresolved',
+      targetNodeId: 'omg/preference/indent-tabs',
+      reason: '',
+    })
+  })
+
+  it('defaults to none for unlisted targets, unknown verdicts and garbage', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(parseContradictionOutput('<contradiction-decision verdict="supersedes" target-node-id="omg/other" />', allowed))
+      .toEqual({ verdict: 'none' })
+    expect(parseContradictionOutput('<contradiction-decision verdict="maybe" />', allowed)).toEqual({ verdict: 'none' })
+    expect(parseContradictionOutput('not xml', allowed)).toEqual({ verdict: 'none' })
+    vi.restoreAllMocks()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// runContradictionCheck
+// ---------------------------------------------------------------------------
+
+describe('runContradictionCheck', () => {
+  it('skips the LLM call when no neighbor qualifies', async () => {
+    const generate = vi.fn()
+    const verdict = await runContradictionCheck(makeCandidate({ type: 'fact' }), [makeTarget('omg/fact/x', { type: 'fact' })], { generate })
+    expect(verdict).toEqual({ verdict: 'none' })
+    expect(generate).not.toHaveBeenCalled()
+  })
+
+  it('returns the parsed verdict for qualifying neighbors', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const generate = vi.fn().mockResolvedValue({
+      content: '<contradiction-decision verdict="supersedes" target-node-id="omg/preference/indent-tabs"><reason>Changed.</reason></contradiction-decision>',
+      usage: { inputTokens: 10, outputTokens: 5 },
+    })
+    const verdict = await runContradictionCheck(makeCandidate(), [makeTarget('omg/preference/indent-tabs')], { generate })
+    expect(verdict).toMatchObject({ verdict: 'supersedes', targetNodeId: 'omg/preference/indent-tabs' })
+    vi.restoreAllMocks()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// .conflicts.jsonl
+// ---------------------------------------------------------------------------
+
+describe('appendConflict / readConflicts', () => {
+  const record: ConflictRecord = {
+    timestamp: '2026-03-01T00:00:00Z',
+    resolution: 'unresolved',
+    newNodeId: 'omg/preference/preferences-indent-spaces',
+    newCanonicalKey: 'preferences.indent_spaces',
+    existingNodeId: 'omg/preference/indent-tabs',
+    reason: 'No change mentioned.',
+  }
+
+  it('returns an empty list when the log does not exist', async () => {
+    expect(await readConflicts(OMG_ROOT)).toEqual([])
+  })
+
+  it('round-trips records and skips malformed lines', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await appendConflict(OMG_ROOT, record)
+    vol.appendFileSync(`${OMG_ROOT}/.conflicts.jsonl`, 'not json\n{"timestamp":1}\n')
+    await appendConflict(OMG_ROOT, { ...record, resolution: 'superseded' })
+
+    const records = await readConflicts(OMG_ROOT)
+    expect(records.map((r) => r.resolution)).toEqual(['unresolved', 'superseded'])
+    vi.restoreAllMocks()
+  })
+})
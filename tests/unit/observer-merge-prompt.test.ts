@@ -222,3 +222,24 @@ describe('parseMergeOutput — alias', () => {
     }
   })
 })
+
+// ---------------------------------------------------------------------------
+// parseMergeOutput — JSON decisions
+// ---------------------------------------------------------------------------
+
+describe('parseMergeOutput — JSON decisions', () => {
+  it('parses a JSON merge decision', () => {
+    const raw = JSON.stringify({ action: 'merge', targetNodeId: 'omg/fact/a', aliasKey: null, bodyAppend: 'More.' })
+    expect(parseMergeOutput(raw)).toEqual({ action: 'merge', targetNodeId: 'omg/fact/a', bodyAppend: 'More.' })
+  })
+
+  it('parses a JSON alias decision', () => {
+    const raw = JSON.stringify({ action: 'alias', targetNodeId: 'omg/fact/a', aliasKey: 'facts.b', bodyAppend: null })
+    expect(parseMergeOutput(raw)).toEqual({ action: 'alias', targetNodeId: 'omg/fact/a', aliasKey: 'facts.b' })
+  })
+
+  it('defaults to keep_separate when a JSON merge has no target', () => {
+    const raw = JSON.stringify({ action: 'merge', targetNodeId: null, aliasKey: null, bodyAppend: null })
+    expect(parseMergeOutput(raw)).toEqual({ action: 'keep_separate' })
+  })
+})
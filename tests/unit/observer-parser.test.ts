@@ -457,6 +457,101 @@ describe('parseExtractOutput — valid candidates', () => {
     expect(result.candidates[0]?.tags).toEqual(['typescript', 'programming'])
   })
 
+  it('parses valid-from / valid-until, widening date-only values to the whole day', () => {
+    const xml = `<observations>
+<operations>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.lisbon_trip</canonical-key>
+  <title>Lisbon Trip</title>
+  <description>Travelling in Lisbon</description>
+  <content>Away for a week.</content>
+  <valid-from>2026-03-07</valid-from>
+  <valid-until>2026-03-14</valid-until>
+</operation>
+</operations>
+</observations>`
+    const c = parseExtractOutput(xml).candidates[0]!
+    expect(c.validFrom).toBe(new Date('2026-03-07T00:00:00').toISOString())
+    expect(c.validUntil).toBe(new Date('2026-03-14T23:59:59').toISOString())
+  })
+
+  it('resolves date-only validity bounds in the host timezone', () => {
+    const originalTz = process.env['TZ']
+    process.env['TZ'] = 'Asia/Tokyo'
+    try {
+      const xml = `<observations>
+<operations>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.lisbon_trip</canonical-key>
+  <title>Lisbon Trip</title>
+  <description>Travelling in Lisbon</description>
+  <content>Away for a week.</content>
+  <valid-from>2026-03-07</valid-from>
+  <valid-until>2026-03-14</valid-until>
+</operation>
+</operations>
+</observations>`
+      const c = parseExtractOutput(xml).candidates[0]!
+      expect(c.validFrom).toBe('2026-03-06T15:00:00.000Z')
+      expect(c.validUntil).toBe('2026-03-14T14:59:59.000Z')
+    } finally {
+      if (originalTz === undefined) delete process.env['TZ']
+      else process.env['TZ'] = originalTz
+    }
+  })
+
+  it('ignores unparseable or inverted validity bounds', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const xml = `<observations>
+<operations>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.trip</canonical-key>
+  <title>Trip</title>
+  <description>Trip</description>
+  <content>Trip.</content>
+  <valid-from>soon</valid-from>
+</operation>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.other_trip</canonical-key>
+  <title>Other Trip</title>
+  <description>Other trip</description>
+  <content>Trip.</content>
+  <valid-from>2026-03-14</valid-from>
+  <valid-until>2026-03-01</valid-until>
+</operation>
+</operations>
+</observations>`
+    const [first, second] = parseExtractOutput(xml).candidates
+    expect(first?.validFrom).toBeUndefined()
+    expect(second?.validFrom).toBe(new Date('2026-03-14T00:00:00').toISOString())
+    expect(second?.validUntil).toBeUndefined()
+    warnSpy.mockRestore()
+  })
+
+  it('parses source-tool and ignores values that are not tool names', () => {
+    const xml = `<observations>
+<operations>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.weekly_team_sync</canonical-key>
+  <title>Weekly Team Sync</title>
+  <description>Team sync every Tuesday</description>
+  <content>Tuesdays at 10:00.</content>
+  <source-tool> calendar_list_events </source-tool>
+</operation>
+<operation type="fact" priority="medium">
+  <canonical-key>facts.office</canonical-key>
+  <title>Office</title>
+  <description>Office in Kraków</description>
+  <content>Kraków.</content>
+  <source-tool>the calendar tool</source-tool>
+</operation>
+</operations>
+</observations>`
+    const [first, second] = parseExtractOutput(xml).candidates
+    expect(first?.sourceTool).toBe('calendar_list_events')
+    expect(second?.sourceTool).toBeUndefined()
+  })
+
   it('derives mocUpdates from candidates mocHints', () => {
     const xml = `<observations>
 <operations>
@@ -1281,3 +1376,86 @@ describe('parseExtractOutput — fenced XML', () => {
     expect(output.candidates[0]!.canonicalKey).toBe('preferences.editor_theme')
   })
 })
+
+// ---------------------------------------------------------------------------
+// Structured-output (JSON) responses
+// ---------------------------------------------------------------------------
+
+describe('parseExtractOutputWithDiagnostics — JSON responses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const JSON_OPERATION = {
+    type: 'preference',
+    priority: 'high',
+    canonicalKey: 'preferences.editor_theme',
+    title: 'Editor Theme Preference',
+    description: 'Dark mode in all editors',
+    content: 'The user prefers dark mode.',
+    mocHints: ['preferences'],
+    tags: ['editor', 'dark-mode'],
+    links: [],
+    validFrom: null,
+    validUntil: '2026-03-14',
+  }
+
+  it('maps JSON operations to candidates without the XML path', () => {
+    const raw = JSON.stringify({
+      operations: [JSON_OPERATION],
+      nowPatch: { focus: 'Editor setup', openLoops: ['pick a font'], suggestedLinks: [] },
+    })
+
+    const { output, diagnostics } = parseExtractOutputWithDiagnostics(raw)
+
+    expect(diagnostics).toEqual({ totalCandidates: 1, accepted: 1, rejected: [] })
+    expect(output.candidates[0]).toEqual({
+      type: 'preference',
+      canonicalKey: 'preferences.editor_theme',
+      title: 'Editor Theme Preference',
+      description: 'Dark mode in all editors',
+      body: 'The user prefers dark mode.',
+      priority: 'high',
+      mocHints: ['preferences'],
+      tags: ['editor', 'dark-mode'],
+      validUntil: new Date('2026-03-14T23:59:59').toISOString(),
+    })
+    expect(output.nowPatch).toEqual({ focus: 'Editor setup', openLoops: ['pick a font'], suggestedLinks: [] })
+    expect(output.mocUpdates).toEqual(['preferences'])
+  })
+
+  it('maps sourceTool when present and tolerates its absence', () => {
+    const raw = JSON.stringify({
+      operations: [{ ...JSON_OPERATION, sourceTool: 'read_file' }, { ...JSON_OPERATION, sourceTool: null }],
+      nowPatch: null,
+    })
+
+    const { output } = parseExtractOutputWithDiagnostics(raw)
+
+    expect(output.candidates.map((c) => c.sourceTool)).toEqual(['read_file', undefined])
+  })
+
+  it('rejects an invalid operation but keeps the valid ones', () => {
+    const raw = JSON.stringify({
+      operations: [JSON_OPERATION, { ...JSON_OPERATION, type: 'opinion' }],
+      nowPatch: null,
+    })
+
+    const { output, diagnostics } = parseExtractOutputWithDiagnostics(raw)
+
+    expect(output.candidates).toHaveLength(1)
+    expect(diagnostics.rejected).toHaveLength(1)
+    expect(diagnostics.rejected[0]!.reason).toContain('type')
+    expect(output.nowPatch).toBeNull()
+  })
+
+  it('returns empty output when the JSON envelope is wrong', () => {
+    const { output } = parseExtractOutputWithDiagnostics('{"candidates": []}')
+    expect(output.candidates).toHaveLength(0)
+  })
+})
@@ -263,6 +263,12 @@ describe('buildExtractSystemPrompt', () => {
     const prompt = buildExtractSystemPrompt()
     expect(prompt).toContain('Proper nouns preserved as-is')
   })
+
+  it('explains tool messages and the optional source-tool element', () => {
+    const prompt = buildExtractSystemPrompt()
+    expect(prompt).toContain('[tool:NAME]')
+    expect(prompt).toContain('<source-tool>calendar_list_events</source-tool>')
+  })
 })
 
 // ---------------------------------------------------------------------------
@@ -321,6 +327,15 @@ describe('buildObserverUserPrompt', () => {
     expect(prompt).toContain('[assistant]: Noted!')
   })
 
+  it('labels tool messages with the tool name', () => {
+    const prompt = buildObserverUserPrompt({
+      nowNode: null,
+      messages: [{ role: 'tool', toolName: 'read_file', content: 'result: # Notes' }],
+    })
+
+    expect(prompt).toContain('[tool:read_file]: result: # Notes')
+  })
+
   it('includes the now node content when provided', () => {
     const prompt = buildObserverUserPrompt({
       nowNode: '## Current Focus\nWorking on auth module',
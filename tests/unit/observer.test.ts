@@ -562,3 +562,24 @@ describe('runExtract', () => {
     })
   })
 })
+
+describe('runExtract — structured output', () => {
+  it('sends no response schema by default', async () => {
+    const client = makeMockClient()
+    await runExtract(makeExtractParams({ llmClient: client }))
+
+    expect(vi.mocked(client.generate).mock.calls[0]![0].responseSchema).toBeUndefined()
+  })
+
+  it('sends the extract schema and still parses an XML reply when enabled', async () => {
+    const client = makeMockClient()
+    const structuredConfig = parseConfig({ llm: { structuredOutput: true } })
+
+    const output = await runExtract(makeExtractParams({ config: structuredConfig, llmClient: client }))
+
+    const params = vi.mocked(client.generate).mock.calls[0]![0]
+    expect(params.responseSchema?.name).toBe('omg_extract')
+    expect(params.system).toContain('Structured Output')
+    expect(output.candidates).toHaveLength(1)
+  })
+})
@@ -14,7 +14,8 @@ vi.mock('../../src/hooks/before-compaction.js', () => ({
 vi.mock('../../src/hooks/tool-result-persist.js', () => ({
   toolResultPersist: vi.fn().mockReturnValue(undefined),
 }))
-vi.mock('../../src/llm/client.js', () => ({
+vi.mock('../../src/llm/client.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/llm/client.js')>()),
   createLlmClient: vi.fn().mockReturnValue({ generate: vi.fn() }),
 }))
 vi.mock('../../src/scaffold.js', () => ({
@@ -88,6 +89,37 @@ describe('register — hook registration', () => {
   })
 })
 
+// ---------------------------------------------------------------------------
+// register — agent tools
+// ---------------------------------------------------------------------------
+
+describe('register — agent tools', () => {
+  it('registers omg_search/omg_get/omg_remember when registerTool is available', () => {
+    const registerTool = vi.fn()
+    const api = { ...makeMockApi(), registerTool }
+    register(api)
+    expect(registerTool).toHaveBeenCalledWith(expect.any(Function), {
+      names: ['omg_search', 'omg_get', 'omg_remember'],
+    })
+
+    const factory = registerTool.mock.calls[0]![0] as (ctx: { workspaceDir?: string }) => unknown
+    const tools = factory({}) as Array<{ name: string }>
+    expect(tools.map((t) => t.name)).toEqual(['omg_search', 'omg_get', 'omg_remember'])
+  })
+
+  it('withholds tools for workspaces outside the allowlist', () => {
+    const registerTool = vi.fn()
+    const api = { ...makeMockApi({ agents: { defaults: { workspace: '/allowed' } } }), registerTool }
+    register(api)
+    const factory = registerTool.mock.calls[0]![0] as (ctx: { workspaceDir?: string }) => unknown
+    expect(factory({ workspaceDir: '/other' })).toBeNull()
+  })
+
+  it('does not fail when registerTool is absent', () => {
+    expect(() => register(makeMockApi())).not.toThrow()
+  })
+})
+
 // ---------------------------------------------------------------------------
 // register — config validation
 // ---------------------------------------------------------------------------
@@ -143,6 +175,26 @@ describe('register — agent_end handler', () => {
   })
 })
 
+describe('register — before_compaction handler', () => {
+  it('forwards ctx.agentId to beforeCompaction', async () => {
+    const { beforeCompaction } = await import('../../src/hooks/before-compaction.js')
+    const api = makeMockApi()
+    register(api)
+
+    const call = (api.on as ReturnType<typeof vi.fn>).mock.calls.find(
+      (c) => c[0] === 'before_compaction'
+    )
+    const handler = call![1] as (
+      event: Record<string, unknown>,
+      ctx: { sessionKey: string; agentId: string; messages: Array<{ role: string; content: string }> }
+    ) => Promise<void>
+
+    await handler({}, { sessionKey: 'test-session', agentId: 'ops', messages: [{ role: 'user', content: 'Hello' }] })
+
+    expect(beforeCompaction).toHaveBeenCalledWith({}, expect.objectContaining({ agentId: 'ops' }))
+  })
+})
+
 // ---------------------------------------------------------------------------
 // resolveAllowedWorkspaces
 // ---------------------------------------------------------------------------
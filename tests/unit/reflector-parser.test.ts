@@ -386,3 +386,58 @@ describe('parseReflectorOutput — malformed input', () => {
     expect(Array.isArray(EMPTY_REFLECTOR_OUTPUT.nodeUpdates)).toBe(true)
   })
 })
+
+// ---------------------------------------------------------------------------
+// Structured-output (JSON) responses
+// ---------------------------------------------------------------------------
+
+describe('parseReflectorOutput — JSON responses', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('parses all four sections from JSON', () => {
+    const raw = JSON.stringify({
+      reflectionNodes: [{
+        id: 'omg/reflection/workflow-prefs',
+        compressionLevel: 1,
+        description: 'Synthesised workflow preferences',
+        tags: ['cli', 'vim'],
+        sources: ['omg/preference/dark-mode', 'not an id'],
+        body: 'User prefers command-line tools.',
+      }],
+      archiveNodes: ['omg/preference/dark-mode', 'omg/preference/dark-mode'],
+      mocUpdates: [{ domain: 'reflections', nodeId: 'omg/reflection/workflow-prefs', action: 'add' }],
+      nodeUpdates: [{ targetId: 'omg/project/my-app', field: 'description', action: 'set', value: 'Updated.' }],
+    })
+
+    const output = parseReflectorOutput(raw)
+
+    expect(output.reflectionNodes).toEqual([{
+      id: 'omg/reflection/workflow-prefs',
+      description: 'Synthesised workflow preferences',
+      body: 'User prefers command-line tools.',
+      tags: ['cli', 'vim'],
+      sources: ['omg/preference/dark-mode'],
+      compressionLevel: 1,
+    }])
+    expect(output.archiveNodeIds).toEqual(['omg/preference/dark-mode'])
+    expect(output.mocUpdates).toEqual([{ domain: 'reflections', nodeId: 'omg/reflection/workflow-prefs', action: 'add' }])
+    expect(output.nodeUpdates).toEqual([{ targetId: 'omg/project/my-app', field: 'description', action: 'set', value: 'Updated.' }])
+  })
+
+  it('drops JSON entries with invalid node IDs', () => {
+    const raw = JSON.stringify({
+      reflectionNodes: [{ id: 'bad id', compressionLevel: 0, description: 'd', tags: [], sources: [], body: '' }],
+      archiveNodes: ['also bad'],
+      mocUpdates: [],
+      nodeUpdates: [],
+    })
+
+    expect(parseReflectorOutput(raw)).toEqual(EMPTY_REFLECTOR_OUTPUT)
+  })
+})
@@ -0,0 +1,182 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol, fs as memfs } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs, ...m.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const m = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: m.fs.promises, ...m.fs.promises }
+})
+
+import { periodOf, planRollups, rollupReflections } from '../../../src/reflector/hierarchy.js'
+import { clearRegistryCache, getRegistryEntry, type RegistryNodeEntry } from '../../../src/graph/registry.js'
+import { writeClusteredReflectionNode } from '../../../src/graph/node-writer.js'
+import { parseFrontmatter } from '../../../src/utils/frontmatter.js'
+import { parseConfig } from '../../../src/config.js'
+import type { LlmClient } from '../../../src/llm/client.js'
+
+const OMG_ROOT = '/ws/memory/omg'
+const CONFIG = parseConfig({})
+const HIERARCHY = CONFIG.reflection.hierarchy
+const NOW_MS = Date.parse('2026-02-10T00:00:00Z')
+
+function reflection(start: string, end: string, overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  return {
+    type: 'reflection',
+    kind: 'reflection',
+    description: 'A reflection',
+    priority: 'medium',
+    created: end,
+    updated: end,
+    filePath: `${OMG_ROOT}/reflections/outdoors/${start.slice(0, 10)}__${end.slice(0, 10)}.md`,
+    timeRange: { start, end },
+    ...overrides,
+  }
+}
+
+function makeClient(): LlmClient & { generate: ReturnType<typeof vi.fn> } {
+  return {
+    generate: vi.fn().mockResolvedValue({ content: 'Paddled most weekends.', usage: { inputTokens: 100, outputTokens: 20 } }),
+  }
+}
+
+async function writeClustered(id: string, start: string, end: string): Promise<void> {
+  await writeClusteredReflectionNode(
+    {
+      frontmatter: {
+        id,
+        description: `Outdoor trips ${start.slice(0, 10)}`,
+        type: 'reflection',
+        priority: 'medium',
+        created: end,
+        updated: end,
+        tags: ['kayak'],
+        timeRange: { start, end },
+      },
+      body: `Went kayaking around ${start.slice(0, 10)}.`,
+      sourceNodeIds: [],
+      domain: 'outdoors',
+      timeRange: { start, end },
+    },
+    { omgRoot: OMG_ROOT, sessionKey: 'test' }
+  )
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(OMG_ROOT, { recursive: true })
+})
+
+describe('periodOf', () => {
+  it('returns the UTC ISO week (from Monday), month and year', () => {
+    expect(periodOf('weekly', '2026-01-08T10:00:00Z').key).toBe('2026-01-05')
+    expect(periodOf('weekly', '2026-01-11T23:00:00Z').key).toBe('2026-01-05')
+    expect(periodOf('monthly', '2026-01-08T10:00:00Z')).toEqual({
+      key: '2026-01',
+      startMs: Date.parse('2026-01-01T00:00:00Z'),
+      endMs: Date.parse('2026-02-01T00:00:00Z'),
+    })
+    expect(periodOf('yearly', '2026-01-08T10:00:00Z').key).toBe('2026')
+  })
+})
+
+describe('planRollups', () => {
+  const entries: [string, RegistryNodeEntry][] = [
+    ['omg/reflection/a', reflection('2026-01-05T09:00:00Z', '2026-01-06T18:00:00Z')],
+    ['omg/reflection/b', reflection('2026-01-08T09:00:00Z', '2026-01-09T18:00:00Z')],
+    ['omg/reflection/c', reflection('2026-01-13T09:00:00Z', '2026-01-14T18:00:00Z')],
+    // Open week and flat (monolithic) reflections stay out of the hierarchy
+    ['omg/reflection/d', reflection('2026-02-09T09:00:00Z', '2026-02-09T18:00:00Z')],
+    ['omg/reflection/e', reflection('2026-02-09T09:00:00Z', '2026-02-09T19:00:00Z')],
+    ['omg/reflection/flat', reflection('2026-01-05T09:00:00Z', '2026-01-06T18:00:00Z', { filePath: `${OMG_ROOT}/reflections/flat.md` })],
+  ]
+
+  it('plans weekly rollups for closed weeks with enough children', () => {
+    expect(planRollups(entries, OMG_ROOT, 'weekly', HIERARCHY, NOW_MS)).toEqual([
+      {
+        domain: 'outdoors',
+        level: 'weekly',
+        period: '2026-01-05',
+        nodeId: 'omg/reflection/outdoors-weekly-2026-01-05',
+        childIds: ['omg/reflection/a', 'omg/reflection/b'],
+        timeRange: { start: '2026-01-05T09:00:00Z', end: '2026-01-09T18:00:00Z' },
+      },
+    ])
+  })
+
+  it('rolls weeklies and uncovered reflections into the month, once', () => {
+    const weekly: [string, RegistryNodeEntry] = [
+      'omg/reflection/outdoors-weekly-2026-01-05',
+      reflection('2026-01-05T09:00:00Z', '2026-01-09T18:00:00Z', {
+        reflectionLevel: 'weekly',
+        links: ['omg/reflection/a', 'omg/reflection/b'],
+        filePath: `${OMG_ROOT}/reflections/outdoors/weekly/2026-01-05.md`,
+      }),
+    ]
+    const withWeekly = [...entries, weekly]
+
+    const [monthly] = planRollups(withWeekly, OMG_ROOT, 'monthly', HIERARCHY, NOW_MS)
+    expect(monthly?.childIds).toEqual(['omg/reflection/c', 'omg/reflection/outdoors-weekly-2026-01-05'])
+    expect(planRollups(withWeekly, OMG_ROOT, 'weekly', HIERARCHY, NOW_MS)).toEqual([])
+
+    const existing: [string, RegistryNodeEntry] = [
+      'omg/reflection/outdoors-monthly-2026-01',
+      reflection('2026-01-05T09:00:00Z', '2026-01-14T18:00:00Z', { reflectionLevel: 'monthly', links: [...monthly!.childIds] }),
+    ]
+    expect(planRollups([...withWeekly, existing], OMG_ROOT, 'monthly', HIERARCHY, NOW_MS)).toEqual([])
+  })
+
+  it('refreshes a rollup when a child was rewritten after it', () => {
+    const weekly: [string, RegistryNodeEntry] = [
+      'omg/reflection/outdoors-weekly-2026-01-05',
+      reflection('2026-01-05T09:00:00Z', '2026-01-09T18:00:00Z', {
+        reflectionLevel: 'weekly',
+        links: ['omg/reflection/a', 'omg/reflection/b'],
+        updated: '2026-01-12T00:00:00Z',
+        filePath: `${OMG_ROOT}/reflections/outdoors/weekly/2026-01-05.md`,
+      }),
+    ]
+    expect(planRollups([...entries, weekly], OMG_ROOT, 'weekly', HIERARCHY, NOW_MS)).toEqual([])
+
+    const rewritten = entries.map(([id, e]): [string, RegistryNodeEntry] =>
+      [id, id === 'omg/reflection/b' ? { ...e, updated: '2026-01-20T00:00:00Z' } : e])
+    const [plan] = planRollups([...rewritten, weekly], OMG_ROOT, 'weekly', HIERARCHY, NOW_MS)
+    expect(plan?.nodeId).toBe('omg/reflection/outdoors-weekly-2026-01-05')
+  })
+})
+
+describe('rollupReflections', () => {
+  it('writes weekly and monthly rollups that link their children and skips them on rerun', async () => {
+    await writeClustered('omg/reflection/trip-a', '2026-01-05T09:00:00.000Z', '2026-01-06T18:00:00.000Z')
+    await writeClustered('omg/reflection/trip-b', '2026-01-08T09:00:00.000Z', '2026-01-09T18:00:00.000Z')
+    await writeClustered('omg/reflection/trip-c', '2026-01-20T09:00:00.000Z', '2026-01-21T18:00:00.000Z')
+    const client = makeClient()
+
+    const first = await rollupReflections({ omgRoot: OMG_ROOT, config: CONFIG, llmClient: client, nowMs: NOW_MS })
+
+    expect(first).toEqual({ rollupsWritten: 2, tokensUsed: 240, errors: [] })
+    expect(client.generate.mock.calls[0]![0].user).toContain('Went kayaking around 2026-01-05.')
+
+    const weekly = parseFrontmatter(memfs.readFileSync(`${OMG_ROOT}/reflections/outdoors/weekly/2026-01-05.md`, 'utf-8') as string)
+    expect(weekly.body.trim()).toBe('Paddled most weekends.')
+    expect(weekly.frontmatter).toMatchObject({
+      id: 'omg/reflection/outdoors-weekly-2026-01-05',
+      description: 'Weekly reflection on outdoors: week of 2026-01-05',
+      reflectionLevel: 'weekly',
+      links: ['omg/reflection/trip-a', 'omg/reflection/trip-b'],
+      tags: ['kayak'],
+      timeRange: { start: '2026-01-05T09:00:00.000Z', end: '2026-01-09T18:00:00.000Z' },
+    })
+
+    const monthly = await getRegistryEntry(OMG_ROOT, 'omg/reflection/outdoors-monthly-2026-01')
+    expect(monthly?.reflectionLevel).toBe('monthly')
+    expect(monthly?.links).toEqual(['omg/reflection/outdoors-weekly-2026-01-05', 'omg/reflection/trip-c'])
+
+    const second = await rollupReflections({ omgRoot: OMG_ROOT, config: CONFIG, llmClient: client, nowMs: NOW_MS })
+    expect(second.rollupsWritten).toBe(0)
+    expect(client.generate).toHaveBeenCalledTimes(2)
+  })
+})
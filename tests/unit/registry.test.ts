@@ -354,6 +354,26 @@ describe('cold-start rebuild from disk nodes', () => {
     // Registry file should now exist
     expect(memfs.existsSync(REGISTRY_PATH)).toBe(true)
   })
+
+  it('picks up clustered reflections and rollups in reflection subdirectories', async () => {
+    const reflection = (id: string, extra: string[] = []): string =>
+      ['---', `id: ${id}`, 'description: A reflection', 'type: reflection', 'priority: medium',
+        'created: 2026-02-20T10:00:00Z', 'updated: 2026-02-20T10:00:00Z', ...extra, '---', 'Body.'].join('\n')
+    vol.fromJSON({
+      [`${OMG_ROOT}/reflections/flat.md`]: reflection('omg/reflection/flat'),
+      [`${OMG_ROOT}/reflections/outdoors/2026-01-05__2026-01-06.md`]: reflection('omg/reflection/trip'),
+      [`${OMG_ROOT}/reflections/outdoors/weekly/2026-01-05.md`]: reflection('omg/reflection/outdoors-weekly-2026-01-05', ['reflectionLevel: weekly']),
+    })
+
+    const data = await rebuildRegistry(OMG_ROOT)
+
+    expect(Object.keys(data.nodes).sort()).toEqual([
+      'omg/reflection/flat',
+      'omg/reflection/outdoors-weekly-2026-01-05',
+      'omg/reflection/trip',
+    ])
+    expect(data.nodes['omg/reflection/outdoors-weekly-2026-01-05']?.reflectionLevel).toBe('weekly')
+  })
 })
 
 // ─── Version mismatch triggers rebuild ──────────────────────────────────────
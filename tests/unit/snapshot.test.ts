@@ -0,0 +1,141 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import { beginSnapshot, commitSnapshot, listSnapshots, makeRunId, rollbackSnapshot } from '../../src/graph/snapshot.js'
+import { clearRegistryCache, getRegistryEntry } from '../../src/graph/registry.js'
+import { atomicWrite } from '../../src/utils/fs.js'
+
+const OMG_ROOT = '/test/omg'
+const NODE_PATH = `${OMG_ROOT}/nodes/fact/home.md`
+
+function nodeFile(description: string, extra = ''): string {
+  return `---\nid: omg/fact/home\ndescription: ${description}\ntype: fact\npriority: medium\ncreated: 2026-03-01T00:00:00Z\nupdated: 2026-03-01T00:00:00Z\n${extra}---\nBody.`
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.fromJSON({
+    [NODE_PATH]: nodeFile('Lives in Berlin'),
+    [`${OMG_ROOT}/mocs/moc-places.md`]: '---\ntype: moc\n---\n- [[omg/fact/home]]',
+  })
+})
+
+describe('makeRunId', () => {
+  it('combines the label with a compact UTC timestamp', () => {
+    expect(makeRunId('omg-reflection', new Date('2026-03-10T03:00:00.123Z'))).toBe('omg-reflection-20260310t030000z')
+  })
+})
+
+describe('commitSnapshot', () => {
+  it('records the pre-run contents of the files the run wrote', async () => {
+    const handle = await beginSnapshot(OMG_ROOT, 'omg-reflection-20260310t030000z')
+    await handle.record(async () => {
+      await atomicWrite(NODE_PATH, nodeFile('Lives in Berlin', 'archived: true\n'))
+      await atomicWrite(NODE_PATH, nodeFile('Lives in Berlin', 'archived: true\npriority: low\n'))
+      vol.mkdirSync(`${OMG_ROOT}/reflections`, { recursive: true })
+      await atomicWrite(`${OMG_ROOT}/reflections/reflection-new.md`, 'new')
+      // Rewritten with identical contents: not a change
+      await atomicWrite(`${OMG_ROOT}/mocs/moc-places.md`, '---\ntype: moc\n---\n- [[omg/fact/home]]')
+    })
+
+    const manifest = await commitSnapshot(OMG_ROOT, handle, 10)
+
+    expect(manifest?.files).toEqual([
+      { path: 'nodes/fact/home.md', before: nodeFile('Lives in Berlin'), afterHash: expect.any(String) },
+      { path: 'reflections/reflection-new.md', before: null, afterHash: expect.any(String) },
+    ])
+    expect(await listSnapshots(OMG_ROOT)).toEqual(['omg-reflection-20260310t030000z'])
+  })
+
+  it('stops recording once committed', async () => {
+    const handle = await beginSnapshot(OMG_ROOT, 'omg-reflection-20260310t030000z')
+    await commitSnapshot(OMG_ROOT, handle, 10)
+    await handle.record(() => atomicWrite(NODE_PATH, nodeFile('Lives in Munich')))
+    expect(handle.before.size).toBe(0)
+  })
+
+  it('writes nothing when the run changed nothing', async () => {
+    const handle = await beginSnapshot(OMG_ROOT, 'omg-reflection-20260310t030000z')
+    expect(await commitSnapshot(OMG_ROOT, handle, 10)).toBeNull()
+    expect(await listSnapshots(OMG_ROOT)).toEqual([])
+  })
+
+  it('prunes the oldest snapshots beyond the retention count', async () => {
+    for (const day of ['08', '09', '10']) {
+      const handle = await beginSnapshot(OMG_ROOT, `omg-reflection-202603${day}t030000z`)
+      await handle.record(() => atomicWrite(NODE_PATH, nodeFile(`Day ${day}`)))
+      await commitSnapshot(OMG_ROOT, handle, 2)
+    }
+    expect(await listSnapshots(OMG_ROOT)).toEqual(['omg-reflection-20260309t030000z', 'omg-reflection-20260310t030000z'])
+  })
+})
+
+describe('rollbackSnapshot', () => {
+  it('restores changed files, removes created ones, and rebuilds the registry', async () => {
+    const runId = 'omg-reflection-20260310t030000z'
+    const handle = await beginSnapshot(OMG_ROOT, runId)
+    await handle.record(async () => {
+      await atomicWrite(NODE_PATH, nodeFile('Lives in Munich'))
+      vol.mkdirSync(`${OMG_ROOT}/reflections`, { recursive: true })
+      await atomicWrite(`${OMG_ROOT}/reflections/reflection-new.md`, 'new')
+    })
+    await commitSnapshot(OMG_ROOT, handle, 10)
+
+    const result = await rollbackSnapshot(OMG_ROOT, runId)
+
+    expect(result).toEqual({ restored: 1, removed: 1, skipped: [] })
+    expect(vol.readFileSync(NODE_PATH, 'utf-8')).toBe(nodeFile('Lives in Berlin'))
+    expect(vol.existsSync(`${OMG_ROOT}/reflections/reflection-new.md`)).toBe(false)
+    expect((await getRegistryEntry(OMG_ROOT, 'omg/fact/home'))?.description).toBe('Lives in Berlin')
+  })
+
+  it('skips and reports files changed since the run', async () => {
+    const runId = 'omg-reflection-20260310t030000z'
+    const handle = await beginSnapshot(OMG_ROOT, runId)
+    await handle.record(async () => {
+      await atomicWrite(NODE_PATH, nodeFile('Lives in Munich'))
+      await atomicWrite(`${OMG_ROOT}/mocs/moc-places.md`, '---\ntype: moc\n---\n')
+    })
+    await commitSnapshot(OMG_ROOT, handle, 10)
+    vol.writeFileSync(NODE_PATH, nodeFile('Lives in Hamburg'))
+
+    const result = await rollbackSnapshot(OMG_ROOT, runId)
+
+    expect(result).toEqual({ restored: 1, removed: 0, skipped: ['nodes/fact/home.md'] })
+    expect(vol.readFileSync(NODE_PATH, 'utf-8')).toBe(nodeFile('Lives in Hamburg'))
+    expect(vol.readFileSync(`${OMG_ROOT}/mocs/moc-places.md`, 'utf-8')).toContain('[[omg/fact/home]]')
+  })
+
+  it('leaves writes made outside the run alone', async () => {
+    const runId = 'omg-reflection-20260310t030000z'
+    const created = `${OMG_ROOT}/nodes/fact/office.md`
+    const handle = await beginSnapshot(OMG_ROOT, runId)
+    // A hook writes concurrently with the run: one node created, one updated
+    const hook = (async () => {
+      await atomicWrite(created, 'remembered mid-run')
+      await atomicWrite(`${OMG_ROOT}/mocs/moc-places.md`, '---\ntype: moc\n---\n- [[omg/fact/home]]\n- [[omg/fact/office]]')
+    })()
+    await handle.record(() => atomicWrite(NODE_PATH, nodeFile('Lives in Munich')))
+    await hook
+    const manifest = await commitSnapshot(OMG_ROOT, handle, 10)
+
+    expect(manifest?.files.map((f) => f.path)).toEqual(['nodes/fact/home.md'])
+    expect(await rollbackSnapshot(OMG_ROOT, runId)).toEqual({ restored: 1, removed: 0, skipped: [] })
+    expect(vol.readFileSync(created, 'utf-8')).toBe('remembered mid-run')
+    expect(vol.readFileSync(`${OMG_ROOT}/mocs/moc-places.md`, 'utf-8')).toContain('[[omg/fact/office]]')
+  })
+
+  it('throws for an unknown run', async () => {
+    await expect(rollbackSnapshot(OMG_ROOT, 'omg-reflection-20990101t000000z')).rejects.toThrow('No snapshot found')
+  })
+})
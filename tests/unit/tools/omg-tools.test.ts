@@ -0,0 +1,205 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import { createOmgTools, searchGraph, deriveCanonicalKey } from '../../../src/tools/omg-tools.js'
+import type { OmgTool } from '../../../src/tools/omg-tools.js'
+import { registerNode, clearRegistryCache, getRegistryEntry } from '../../../src/graph/registry.js'
+import type { RegistryNodeEntry } from '../../../src/graph/registry.js'
+import { parseConfig } from '../../../src/config.js'
+
+const WORKSPACE = '/workspace'
+const OMG_ROOT = '/workspace/memory/omg'
+const config = parseConfig({})
+
+function makeEntry(overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  const now = new Date().toISOString()
+  return {
+    type: 'preference',
+    kind: 'observation',
+    description: 'Prefers dark mode in the editor',
+    priority: 'medium',
+    created: now,
+    updated: now,
+    filePath: `${OMG_ROOT}/nodes/preference/preferences-editor-theme.md`,
+    ...overrides,
+  }
+}
+
+function getTool(name: string): OmgTool {
+  const tool = createOmgTools({ workspaceDir: WORKSPACE, config }).find((t) => t.name === name)
+  if (!tool) throw new Error(`tool ${name} not found`)
+  return tool
+}
+
+function textOf(result: { content: readonly { text: string }[] }): string {
+  return result.content.map((c) => c.text).join('\n')
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/mocs`, { recursive: true })
+})
+
+// ---------------------------------------------------------------------------
+// createOmgTools
+// ---------------------------------------------------------------------------
+
+describe('createOmgTools', () => {
+  it('returns omg_search, omg_get, and omg_remember', () => {
+    const names = createOmgTools({ workspaceDir: WORKSPACE, config }).map((t) => t.name)
+    expect(names).toEqual(['omg_search', 'omg_get', 'omg_remember'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// omg_search
+// ---------------------------------------------------------------------------
+
+describe('searchGraph / omg_search', () => {
+  beforeEach(async () => {
+    await registerNode(OMG_ROOT, 'omg/preference/preferences-editor-theme', makeEntry({ tags: ['editor'] }))
+    await registerNode(OMG_ROOT, 'omg/fact/deploy-target', makeEntry({
+      type: 'fact',
+      description: 'Production deploys go to Fly.io',
+      filePath: `${OMG_ROOT}/nodes/fact/deploy-target.md`,
+    }))
+    await registerNode(OMG_ROOT, 'omg/fact/old-editor', makeEntry({
+      type: 'fact',
+      description: 'Used the vim editor previously',
+      archived: true,
+      filePath: `${OMG_ROOT}/nodes/fact/old-editor.md`,
+    }))
+  })
+
+  it('returns only entries with a keyword hit', async () => {
+    const hits = await searchGraph(OMG_ROOT, 'which editor theme')
+    expect(hits.map((h) => h.id)).toEqual(['omg/preference/preferences-editor-theme'])
+  })
+
+  it('excludes archived nodes', async () => {
+    const hits = await searchGraph(OMG_ROOT, 'vim')
+    expect(hits).toEqual([])
+  })
+
+  it('filters by type when requested', async () => {
+    const hits = await searchGraph(OMG_ROOT, 'editor deploys', { type: 'fact' })
+    expect(hits.map((h) => h.id)).toEqual(['omg/fact/deploy-target'])
+  })
+
+  it('hides other agents\' nodes under a private visibility policy', async () => {
+    await registerNode(OMG_ROOT, 'omg/fact/ops-deploys', makeEntry({
+      type: 'fact',
+      description: 'Staging deploys go to Render',
+      agents: ['ops'],
+      filePath: `${OMG_ROOT}/nodes/fact/ops-deploys.md`,
+    }))
+
+    const shared = await searchGraph(OMG_ROOT, 'deploys', { agentId: 'main' })
+    expect(shared.map((h) => h.id)).toContain('omg/fact/ops-deploys')
+
+    const scoped = await searchGraph(OMG_ROOT, 'deploys', { agentId: 'main', visibility: 'private' })
+    expect(scoped.map((h) => h.id)).toEqual(['omg/fact/deploy-target'])
+  })
+
+  it('formats hits as text for the agent', async () => {
+    const result = await getTool('omg_search').execute('call-1', { query: 'deploys' })
+    expect(textOf(result)).toContain('omg/fact/deploy-target [fact, medium] Production deploys go to Fly.io')
+  })
+
+  it('returns an error result for invalid input instead of throwing', async () => {
+    const result = await getTool('omg_search').execute('call-1', { query: '' })
+    expect(textOf(result)).toMatch(/omg_search failed/)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// omg_remember + omg_get
+// ---------------------------------------------------------------------------
+
+describe('omg_remember / omg_get', () => {
+  it('writes a node at the deterministic upsert path and registers it', async () => {
+    const result = await getTool('omg_remember').execute('call-1', {
+      type: 'preference',
+      description: 'Editor theme',
+      content: 'User prefers a dark editor theme.',
+      canonicalKey: 'preferences.editor_theme',
+      mocHints: ['preferences'],
+    })
+
+    expect(textOf(result)).toContain('omg/preference/preferences-editor-theme')
+    expect(vol.existsSync(`${OMG_ROOT}/nodes/preference/preferences-editor-theme.md`)).toBe(true)
+    expect(await getRegistryEntry(OMG_ROOT, 'omg/preference/preferences-editor-theme')).not.toBeNull()
+
+    const moc = vol.readFileSync(`${OMG_ROOT}/mocs/moc-preferences.md`, 'utf-8') as string
+    expect(moc).toContain('[[omg/preference/preferences-editor-theme]]')
+  })
+
+  it('derives the same canonicalKey when none is given, so re-remembering updates in place', async () => {
+    const tool = getTool('omg_remember')
+    await tool.execute('call-1', { type: 'fact', description: 'Deploy target', content: 'Fly.io' })
+    await tool.execute('call-2', { type: 'fact', description: 'Deploy target', content: 'Render' })
+
+    const files = vol.readdirSync(`${OMG_ROOT}/nodes/fact`) as string[]
+    expect(files).toEqual(['fact-deploy-target.md'])
+    const raw = vol.readFileSync(`${OMG_ROOT}/nodes/fact/fact-deploy-target.md`, 'utf-8') as string
+    expect(raw).toContain('Render')
+  })
+
+  it('records the calling agent as an owner of the node', async () => {
+    const tool = createOmgTools({ workspaceDir: WORKSPACE, config, agentId: 'ops' }).find((t) => t.name === 'omg_remember')!
+    await tool.execute('call-1', { type: 'fact', description: 'Deploy target', content: 'Fly.io' })
+
+    const entry = await getRegistryEntry(OMG_ROOT, 'omg/fact/fact-deploy-target')
+    expect(entry?.agents).toEqual(['ops'])
+  })
+
+  it('omg_get returns the node body after omg_remember', async () => {
+    await getTool('omg_remember').execute('call-1', {
+      type: 'decision',
+      description: 'Use pnpm',
+      content: 'We standardised on pnpm for all packages.',
+    })
+    const result = await getTool('omg_get').execute('call-2', { id: 'omg/decision/decision-use-pnpm' })
+    expect(textOf(result)).toContain('### Use pnpm')
+    expect(textOf(result)).toContain('We standardised on pnpm')
+  })
+
+  it("omg_get treats another agent's private node as not found", async () => {
+    const privateConfig = parseConfig({ injection: { agentVisibility: 'private' } })
+    const toolFor = (agentId: string, name: string): OmgTool =>
+      createOmgTools({ workspaceDir: WORKSPACE, config: privateConfig, agentId }).find((t) => t.name === name)!
+    await toolFor('ops', 'omg_remember').execute('call-1', { type: 'fact', description: 'Deploy target', content: 'Fly.io' })
+
+    const hidden = await toolFor('main', 'omg_get').execute('call-2', { id: 'omg/fact/fact-deploy-target' })
+    expect(textOf(hidden)).toContain('was not found')
+    expect(textOf(hidden)).not.toContain('Fly.io')
+
+    const own = await toolFor('ops', 'omg_get').execute('call-3', { id: 'omg/fact/fact-deploy-target' })
+    expect(textOf(own)).toContain('Fly.io')
+  })
+
+  it('omg_get reports unknown IDs', async () => {
+    const result = await getTool('omg_get').execute('call-1', { id: 'omg/fact/missing' })
+    expect(textOf(result)).toContain('was not found')
+  })
+})
+
+describe('deriveCanonicalKey', () => {
+  it('builds a dotted key from type and slugified description', () => {
+    expect(deriveCanonicalKey('preference', 'Editor Theme!')).toBe('preference.editor_theme')
+  })
+
+  it('throws when the description has no slug characters', () => {
+    expect(() => deriveCanonicalKey('fact', '!!!')).toThrow()
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { globToRegExp, matchesGlobs } from '../../src/utils/glob.js'
+
+describe('globToRegExp', () => {
+  it('lets ** span zero or more directories', () => {
+    const re = globToRegExp('**/*.md')
+    expect(re.test('a.md')).toBe(true)
+    expect(re.test('x/y/a.md')).toBe(true)
+    expect(re.test('a.txt')).toBe(false)
+  })
+
+  it('keeps * and ? within one path segment', () => {
+    expect(globToRegExp('notes/*.md').test('notes/sub/a.md')).toBe(false)
+    expect(globToRegExp('day-?.md').test('day-1.md')).toBe(true)
+  })
+
+  it('matches patterns without a slash against the file name at any depth', () => {
+    expect(globToRegExp('*.jsonl').test('2026/01/chat.jsonl')).toBe(true)
+  })
+
+  it('escapes regex metacharacters', () => {
+    expect(globToRegExp('a+b.md').test('a+b.md')).toBe(true)
+    expect(globToRegExp('a+b.md').test('aab.md')).toBe(false)
+  })
+})
+
+describe('matchesGlobs', () => {
+  it('requires an include match and no exclude match', () => {
+    expect(matchesGlobs('drafts/a.md', ['**/*.md'], ['drafts/**'])).toBe(false)
+    expect(matchesGlobs('a.md', ['**/*.md'], ['drafts/**'])).toBe(true)
+    expect(matchesGlobs('a.md', [], [])).toBe(false)
+  })
+})
@@ -49,6 +49,12 @@ describe('insertWikilink', () => {
     const content = 'start\n- [[foo]]\nend'
     expect(insertWikilink(content, 'foo')).toBe(content)
   })
+
+  it('annotates the link and treats an annotated entry as present', () => {
+    expect(insertWikilink('# H', 'foo', 'Likes\n  tea')).toBe('# H\n- [[foo]] — Likes tea')
+    const content = '- [[foo]] — Likes tea'
+    expect(insertWikilink(content, 'foo')).toBe(content)
+  })
 })
 
 describe('removeWikilink', () => {
@@ -74,4 +80,8 @@ describe('removeWikilink', () => {
     const content = '- [[foobar]]\n- [[foo]]'
     expect(removeWikilink(content, 'foo')).toBe('- [[foobar]]')
   })
+
+  it('removes annotated entries', () => {
+    expect(removeWikilink('- [[foo]] — Likes tea\n- [[foobar]] — Other', 'foo')).toBe('- [[foobar]] — Other')
+  })
 })
@@ -0,0 +1,88 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest'
+import { vol } from 'memfs'
+
+vi.mock('node:fs', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs, ...memfsModule.fs }
+})
+vi.mock('node:fs/promises', async () => {
+  const memfsModule = await vi.importActual<typeof import('memfs')>('memfs')
+  return { default: memfsModule.fs.promises, ...memfsModule.fs.promises }
+})
+
+import { isValidAt, isExpired, archiveExpiredNodes } from '../../src/graph/validity.js'
+import { registerNode, getRegistryEntry, clearRegistryCache } from '../../src/graph/registry.js'
+import type { RegistryNodeEntry } from '../../src/graph/registry.js'
+
+const OMG_ROOT = '/test/omg'
+const NOW = Date.parse('2026-03-10T12:00:00Z')
+
+function makeEntry(id: string, overrides: Partial<RegistryNodeEntry> = {}): RegistryNodeEntry {
+  return {
+    type: 'fact',
+    kind: 'observation',
+    description: `Fact ${id}`,
+    priority: 'medium',
+    created: '2026-03-01T00:00:00Z',
+    updated: '2026-03-01T00:00:00Z',
+    filePath: `${OMG_ROOT}/nodes/fact/${id}.md`,
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  vol.reset()
+  clearRegistryCache()
+  vol.mkdirSync(`${OMG_ROOT}/nodes/fact`, { recursive: true })
+})
+
+describe('isValidAt / isExpired', () => {
+  it('treats entries without bounds as always valid', () => {
+    expect(isValidAt({}, NOW)).toBe(true)
+    expect(isExpired({}, NOW)).toBe(false)
+  })
+
+  it('excludes entries before validFrom and after validUntil', () => {
+    expect(isValidAt({ validFrom: '2026-03-11T00:00:00Z' }, NOW)).toBe(false)
+    expect(isValidAt({ validUntil: '2026-03-09T23:59:59Z' }, NOW)).toBe(false)
+    expect(isValidAt({ validFrom: '2026-03-01T00:00:00Z', validUntil: '2026-03-14T23:59:59Z' }, NOW)).toBe(true)
+  })
+
+  it('only reports expiry once validUntil has passed', () => {
+    expect(isExpired({ validUntil: '2026-03-09T23:59:59Z' }, NOW)).toBe(true)
+    expect(isExpired({ validFrom: '2026-03-11T00:00:00Z' }, NOW)).toBe(false)
+  })
+
+  it('ignores unparseable bounds', () => {
+    expect(isValidAt({ validUntil: 'garbage' }, NOW)).toBe(true)
+  })
+})
+
+describe('archiveExpiredNodes', () => {
+  it('archives expired nodes and leaves the rest alone', async () => {
+    const expired = makeEntry('trip', { validUntil: '2026-03-09T23:59:59Z' })
+    const current = makeEntry('home')
+    for (const [id, entry] of [['omg/fact/trip', expired], ['omg/fact/home', current]] as const) {
+      vol.writeFileSync(entry.filePath, `---\nid: ${id}\ndescription: ${entry.description}\ntype: fact\npriority: medium\ncreated: 2026-03-01T00:00:00Z\nupdated: 2026-03-01T00:00:00Z\n---\nBody.`)
+      await registerNode(OMG_ROOT, id, entry)
+    }
+
+    const archived = await archiveExpiredNodes(OMG_ROOT, [['omg/fact/trip', expired], ['omg/fact/home', current]], NOW)
+
+    expect(archived).toEqual(['omg/fact/trip'])
+    expect((await getRegistryEntry(OMG_ROOT, 'omg/fact/trip'))?.archived).toBe(true)
+    expect((await getRegistryEntry(OMG_ROOT, 'omg/fact/home'))?.archived).toBeUndefined()
+  })
+
+  it('logs and skips nodes whose file is missing', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const expired = makeEntry('gone', { validUntil: '2026-03-09T23:59:59Z' })
+    await registerNode(OMG_ROOT, 'omg/fact/gone', expired)
+
+    const archived = await archiveExpiredNodes(OMG_ROOT, [['omg/fact/gone', expired]], NOW)
+
+    expect(archived).toEqual([])
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('omg/fact/gone'), expect.any(Error))
+    errorSpy.mockRestore()
+  })
+})